@@ -0,0 +1,61 @@
+/**
+ * Script to expire stale pending orders
+ *
+ * Connects to MongoDB directly and runs the same job as the scheduled
+ * /api/cron/expire-orders route: each stale order is looked up at the gateway
+ * PAYMENT_GATEWAY selects, completed if it was paid and expired otherwise.
+ * The app server does not need to be running.
+ *
+ * Usage: npm run expire-orders -- [olderThanMinutes]
+ * Example: npm run expire-orders -- 120
+ *
+ * Without an argument PENDING_ORDER_EXPIRY_MINUTES (default 60) applies.
+ * Reads MONGODB_URI and the gateway keys from .env.local. Mock gateway orders
+ * only exist inside the server process, so with PAYMENT_GATEWAY=mock they are
+ * expired without being looked up.
+ */
+
+import dotenv from 'dotenv';
+
+dotenv.config({ path: '.env.local' });
+
+if (!process.env.MONGODB_URI) {
+  console.error('Error: MONGODB_URI not found in .env.local');
+  process.exit(1);
+}
+
+const olderThanMinutes = process.argv[2];
+
+if (olderThanMinutes && !(parseInt(olderThanMinutes) > 0)) {
+  console.error('Usage: npm run expire-orders -- [olderThanMinutes]');
+  console.error('Example: npm run expire-orders -- 120');
+  process.exit(1);
+}
+
+async function expireOrders() {
+  // Imported after .env.local is loaded, since these modules read settings when they load
+  const { default: mongoose } = await import('mongoose');
+  const { default: dbConnect } = await import('../src/lib/mongodb');
+  const { expirePendingOrders } = await import('../src/lib/orderExpiry');
+
+  try {
+    await dbConnect();
+    console.log('Connected to MongoDB');
+
+    const report = await expirePendingOrders({
+      olderThanMinutes: olderThanMinutes ? parseInt(olderThanMinutes) : undefined,
+    });
+
+    console.log(`Stale orders found:       ${report.scanned}`);
+    console.log(`Transactions expired:     ${report.expired}`);
+    console.log(`Transactions completed:   ${report.completed}`);
+    console.log(`Orders not reconciled:    ${report.unreconciled}`);
+  } catch (error) {
+    console.error('Error:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+expireOrders();
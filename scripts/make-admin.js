@@ -30,7 +30,8 @@ async function makeAdmin() {
 
     const result = await mongoose.connection.db.collection('users').updateOne(
       { email: email.toLowerCase() },
-      { $set: { role: 'admin' } }
+      // Whoever runs this vouches for the address, so skip the emailed link
+      { $set: { role: 'admin', emailVerified: true } }
     );
 
     if (result.matchedCount === 0) {
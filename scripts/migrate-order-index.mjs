@@ -0,0 +1,50 @@
+/**
+ * Script to make transactions.razorpayOrderId non-unique
+ *
+ * Cart checkouts store one transaction per paper under a shared Razorpay order,
+ * so databases created before carts must drop the old unique index.
+ *
+ * Usage: node scripts/migrate-order-index.mjs
+ */
+
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+
+dotenv.config({ path: '.env.local' });
+
+const MONGODB_URI = process.env.MONGODB_URI;
+
+if (!MONGODB_URI) {
+  console.error('Error: MONGODB_URI not found in .env.local');
+  process.exit(1);
+}
+
+async function migrate() {
+  try {
+    await mongoose.connect(MONGODB_URI);
+    console.log('Connected to MongoDB');
+
+    const transactions = mongoose.connection.collection('transactions');
+    const indexes = await transactions.indexes();
+    const orderIndex = indexes.find((index) => index.name === 'razorpayOrderId_1');
+
+    if (orderIndex?.unique) {
+      await transactions.dropIndex('razorpayOrderId_1');
+      console.log('Dropped unique index razorpayOrderId_1');
+    }
+
+    if (!orderIndex?.unique && orderIndex) {
+      console.log('Index razorpayOrderId_1 is already non-unique');
+    } else {
+      await transactions.createIndex({ razorpayOrderId: 1 });
+      console.log('Created index razorpayOrderId_1');
+    }
+  } catch (error) {
+    console.error('Error:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+migrate();
@@ -0,0 +1,67 @@
+/**
+ * Script to make verified phone numbers unique
+ *
+ * Phone sign-in only uses verified numbers, and each verified number may belong
+ * to one account, so databases created before this must replace the old
+ * non-unique users.phone index with a unique partial one.
+ *
+ * Usage: node scripts/migrate-phone-index.mjs
+ */
+
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+
+dotenv.config({ path: '.env.local' });
+
+const MONGODB_URI = process.env.MONGODB_URI;
+
+if (!MONGODB_URI) {
+  console.error('Error: MONGODB_URI not found in .env.local');
+  process.exit(1);
+}
+
+async function migrate() {
+  try {
+    await mongoose.connect(MONGODB_URI);
+    console.log('Connected to MongoDB');
+
+    const users = mongoose.connection.collection('users');
+    const indexes = await users.indexes();
+    const phoneIndex = indexes.find((index) => index.name === 'phone_1');
+
+    if (phoneIndex?.unique) {
+      console.log('Index phone_1 is already unique');
+      return;
+    }
+
+    // A number verified on several accounts cannot be kept verified on any of them
+    const duplicates = await users.aggregate([
+      { $match: { phoneVerified: true } },
+      { $group: { _id: '$phone', count: { $sum: 1 } } },
+      { $match: { count: { $gt: 1 } } },
+    ]).toArray();
+
+    for (const { _id: phone } of duplicates) {
+      await users.updateMany({ phone, phoneVerified: true }, { $set: { phoneVerified: false } });
+      console.log(`Unverified ${phone}, which was verified on more than one account`);
+    }
+
+    if (phoneIndex) {
+      await users.dropIndex('phone_1');
+      console.log('Dropped non-unique index phone_1');
+    }
+
+    await users.createIndex(
+      { phone: 1 },
+      { unique: true, partialFilterExpression: { phoneVerified: true } }
+    );
+    console.log('Created unique index phone_1 on verified numbers');
+  } catch (error) {
+    console.error('Error:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+migrate();
@@ -0,0 +1,82 @@
+/**
+ * Script to send a locally signed Razorpay webhook fixture to the app
+ *
+ * Usage: node scripts/send-webhook.mjs <event> <orderId> <amountInPaise> [paymentId] [refundId]
+ * Example: node scripts/send-webhook.mjs payment.captured order_Nx1 4900
+ *
+ * For subscription events pass the subscription ID (sub_...) in place of the order ID;
+ * the current billing period is set to start now and last 30 days.
+ *
+ * Fixtures live in scripts/fixtures/razorpay/<event>.json.
+ * With PAYMENT_GATEWAY=mock the body is signed with the mock gateway secret instead.
+ * Set WEBHOOK_URL to target a server other than http://localhost:3000.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+
+dotenv.config({ path: '.env.local' });
+
+const WEBHOOK_SECRET = process.env.PAYMENT_GATEWAY === 'mock'
+  ? process.env.MOCK_GATEWAY_SECRET || 'mock_gateway_secret'
+  : process.env.RAZORPAY_WEBHOOK_SECRET;
+const WEBHOOK_URL = process.env.WEBHOOK_URL || 'http://localhost:3000/api/payment/webhook';
+
+if (!WEBHOOK_SECRET) {
+  console.error('Error: RAZORPAY_WEBHOOK_SECRET not found in .env.local');
+  process.exit(1);
+}
+
+const [event, orderId, amount, paymentId = `pay_test${Date.now()}`, refundId = `rfnd_test${Date.now()}`] =
+  process.argv.slice(2);
+
+if (!event || !orderId || !amount) {
+  console.error('Usage: node scripts/send-webhook.mjs <event> <orderId> <amountInPaise> [paymentId] [refundId]');
+  console.error('Example: node scripts/send-webhook.mjs payment.captured order_Nx1 4900');
+  process.exit(1);
+}
+
+const fixturePath = path.join(process.cwd(), 'scripts', 'fixtures', 'razorpay', `${event}.json`);
+
+if (!fs.existsSync(fixturePath)) {
+  console.error(`No fixture found for event: ${event}`);
+  process.exit(1);
+}
+
+const now = Math.floor(Date.now() / 1000);
+
+// Amounts and timestamps are numbers in real payloads, so replace the quoted placeholders
+const body = fs
+  .readFileSync(fixturePath, 'utf8')
+  .replaceAll('"{{amount}}"', String(parseInt(amount)))
+  .replaceAll('"{{currentStart}}"', String(now))
+  .replaceAll('"{{currentEnd}}"', String(now + 30 * 24 * 60 * 60))
+  .replaceAll('{{orderId}}', orderId)
+  .replaceAll('{{paymentId}}', paymentId)
+  .replaceAll('{{refundId}}', refundId);
+
+const signature = crypto.createHmac('sha256', WEBHOOK_SECRET).update(body).digest('hex');
+
+async function sendWebhook() {
+  try {
+    const response = await fetch(WEBHOOK_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Razorpay-Signature': signature,
+      },
+      body,
+    });
+
+    console.log(`${response.status} ${response.statusText}`);
+    console.log(await response.text());
+    console.log(`\npaymentId: ${paymentId}`);
+  } catch (error) {
+    console.error('Error:', error.message);
+    process.exit(1);
+  }
+}
+
+sendWebhook();
@@ -0,0 +1,447 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Layers, Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface AdminBundle {
+  _id: string;
+  title: string;
+  description: string;
+  category: 'university' | 'board' | 'competitive';
+  tier: 'questions-only' | 'with-solutions';
+  price: number;
+  discount: number;
+  finalPrice: number;
+  isActive: boolean;
+  papers: { _id: string; title: string; year: number }[];
+}
+
+interface PaperOption {
+  _id: string;
+  title: string;
+  examName: string;
+  year: number;
+}
+
+interface BundleForm {
+  title: string;
+  description: string;
+  category: AdminBundle['category'];
+  tier: AdminBundle['tier'];
+  price: string;
+  discount: string;
+  isActive: boolean;
+  papers: string[];
+}
+
+const emptyForm: BundleForm = {
+  title: '',
+  description: '',
+  category: 'competitive',
+  tier: 'questions-only',
+  price: '',
+  discount: '0',
+  isActive: true,
+  papers: [],
+};
+
+export default function AdminBundlesPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [bundles, setBundles] = useState<AdminBundle[]>([]);
+  const [paperOptions, setPaperOptions] = useState<PaperOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [form, setForm] = useState<BundleForm>(emptyForm);
+  const [paperSearch, setPaperSearch] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/login');
+    } else if (status === 'authenticated' && session?.user?.role !== 'admin') {
+      router.push('/dashboard');
+    }
+  }, [status, session, router]);
+
+  useEffect(() => {
+    const fetchBundles = async () => {
+      try {
+        const response = await fetch('/api/bundles?all=true');
+        const data = await response.json();
+
+        if (response.ok) {
+          setBundles(data.bundles || []);
+        }
+      } catch (error) {
+        console.error('Error fetching bundles:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (session?.user?.role === 'admin') {
+      fetchBundles();
+    }
+  }, [session, reloadKey]);
+
+  useEffect(() => {
+    const fetchPapers = async () => {
+      try {
+        const response = await fetch('/api/papers?limit=500');
+        const data = await response.json();
+
+        if (response.ok) {
+          setPaperOptions(data.papers || []);
+        }
+      } catch (error) {
+        console.error('Error fetching papers:', error);
+      }
+    };
+
+    if (session?.user?.role === 'admin') {
+      fetchPapers();
+    }
+  }, [session]);
+
+  const openForm = (bundle?: AdminBundle) => {
+    setPaperSearch('');
+
+    if (!bundle) {
+      setEditingId('new');
+      setForm(emptyForm);
+      return;
+    }
+
+    setEditingId(bundle._id);
+    setForm({
+      title: bundle.title,
+      description: bundle.description,
+      category: bundle.category,
+      tier: bundle.tier,
+      price: bundle.price.toString(),
+      discount: bundle.discount.toString(),
+      isActive: bundle.isActive,
+      papers: bundle.papers.map((paper) => paper._id),
+    });
+  };
+
+  const togglePaper = (paperId: string) => {
+    setForm({
+      ...form,
+      papers: form.papers.includes(paperId)
+        ? form.papers.filter((id) => id !== paperId)
+        : [...form.papers, paperId],
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(editingId === 'new' ? '/api/bundles' : `/api/bundles/${editingId}`, {
+        method: editingId === 'new' ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          price: parseFloat(form.price) || 0,
+          discount: parseFloat(form.discount) || 0,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(data.message);
+        setEditingId(null);
+        setReloadKey((key) => key + 1);
+      } else {
+        toast.error(data.error || 'Failed to save bundle');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (bundle: AdminBundle) => {
+    if (!confirm(`Delete "${bundle.title}"? Past buyers keep their papers.`)) return;
+
+    try {
+      const response = await fetch(`/api/bundles/${bundle._id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(data.message);
+        setBundles(bundles.filter((b) => b._id !== bundle._id));
+      } else {
+        toast.error(data.error || 'Failed to delete bundle');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    }
+  };
+
+  if (status === 'loading' || isLoading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-8" />
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-gray-200 rounded-xl" />
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session || session.user?.role !== 'admin') {
+    return null;
+  }
+
+  const filteredPapers = paperOptions.filter((paper) =>
+    `${paper.title} ${paper.examName} ${paper.year}`.toLowerCase().includes(paperSearch.toLowerCase())
+  );
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Back Link */}
+      <Link
+        href="/admin"
+        className="inline-flex items-center text-gray-600 hover:text-blue-600 mb-6"
+      >
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Back to Admin
+      </Link>
+
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Bundles</h1>
+          <p className="text-gray-600">Sell several papers together as one product</p>
+        </div>
+        <button
+          onClick={() => openForm()}
+          className="inline-flex items-center bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition"
+        >
+          <Plus className="h-5 w-5 mr-2" />
+          New Bundle
+        </button>
+      </div>
+
+      {/* Bundles List */}
+      <div className="space-y-4">
+        {bundles.map((bundle) => (
+          <div
+            key={bundle._id}
+            className="bg-white rounded-xl border border-gray-100 p-6 flex items-center justify-between gap-4"
+          >
+            <div className="flex items-start gap-4">
+              <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center flex-shrink-0">
+                <Layers className="h-6 w-6 text-blue-600" />
+              </div>
+              <div>
+                <h3 className="font-semibold text-gray-900">
+                  {bundle.title}
+                  {!bundle.isActive && (
+                    <span className="ml-2 px-2 py-0.5 bg-gray-100 text-gray-600 rounded-full text-xs">
+                      Hidden
+                    </span>
+                  )}
+                </h3>
+                <p className="text-sm text-gray-500">
+                  {bundle.papers.length} papers • {bundle.tier} • ₹{bundle.finalPrice}
+                  {bundle.discount > 0 && ` (${bundle.discount}% off ₹${bundle.price})`}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => openForm(bundle)}
+                className="p-2 rounded-lg text-gray-500 hover:text-blue-600 hover:bg-blue-50"
+                aria-label="Edit bundle"
+              >
+                <Pencil className="h-5 w-5" />
+              </button>
+              <button
+                onClick={() => handleDelete(bundle)}
+                className="p-2 rounded-lg text-gray-500 hover:text-red-600 hover:bg-red-50"
+                aria-label="Delete bundle"
+              >
+                <Trash2 className="h-5 w-5" />
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {bundles.length === 0 && (
+          <p className="text-center text-gray-500 py-12 bg-white rounded-xl border border-gray-100">
+            No bundles yet
+          </p>
+        )}
+      </div>
+
+      {/* Bundle Form */}
+      {editingId && (
+        <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center px-4">
+          <form
+            onSubmit={handleSave}
+            className="bg-white rounded-2xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto space-y-4"
+          >
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-gray-900">
+                {editingId === 'new' ? 'New Bundle' : 'Edit Bundle'}
+              </h2>
+              <button
+                type="button"
+                onClick={() => setEditingId(null)}
+                className="p-1 rounded hover:bg-gray-100"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div>
+              <label htmlFor="bundle-title" className="block text-sm font-medium text-gray-700 mb-2">
+                Title
+              </label>
+              <input
+                id="bundle-title"
+                required
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+                placeholder="e.g., JEE Main 2018–2024 Physics"
+                className="w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 outline-none"
+              />
+            </div>
+            <div>
+              <label htmlFor="bundle-description" className="block text-sm font-medium text-gray-700 mb-2">
+                Description
+              </label>
+              <textarea
+                id="bundle-description"
+                required
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className="w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 outline-none"
+                rows={3}
+              />
+            </div>
+            <div className="grid sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="bundle-category" className="block text-sm font-medium text-gray-700 mb-2">
+                  Category
+                </label>
+                <select
+                  id="bundle-category"
+                  value={form.category}
+                  onChange={(e) => setForm({ ...form, category: e.target.value as BundleForm['category'] })}
+                  className="w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 outline-none"
+                >
+                  <option value="university">University</option>
+                  <option value="board">Board</option>
+                  <option value="competitive">Competitive</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="bundle-tier" className="block text-sm font-medium text-gray-700 mb-2">
+                  Tier
+                </label>
+                <select
+                  id="bundle-tier"
+                  value={form.tier}
+                  onChange={(e) => setForm({ ...form, tier: e.target.value as BundleForm['tier'] })}
+                  className="w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 outline-none"
+                >
+                  <option value="questions-only">Questions only</option>
+                  <option value="with-solutions">With solutions</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="bundle-price" className="block text-sm font-medium text-gray-700 mb-2">
+                  Price (₹)
+                </label>
+                <input
+                  id="bundle-price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  required
+                  value={form.price}
+                  onChange={(e) => setForm({ ...form, price: e.target.value })}
+                  className="w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 outline-none"
+                />
+              </div>
+              <div>
+                <label htmlFor="bundle-discount" className="block text-sm font-medium text-gray-700 mb-2">
+                  Discount (%)
+                </label>
+                <input
+                  id="bundle-discount"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={form.discount}
+                  onChange={(e) => setForm({ ...form, discount: e.target.value })}
+                  className="w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 outline-none"
+                />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.isActive}
+                onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+              />
+              Listed in the catalog
+            </label>
+            <div>
+              <p className="block text-sm font-medium text-gray-700 mb-2">
+                Papers ({form.papers.length} selected)
+              </p>
+              <input
+                value={paperSearch}
+                onChange={(e) => setPaperSearch(e.target.value)}
+                placeholder="Filter papers..."
+                className="w-full px-4 py-2 mb-2 rounded-xl border border-gray-200 focus:border-blue-500 outline-none"
+              />
+              <div className="max-h-60 overflow-y-auto border border-gray-100 rounded-xl divide-y divide-gray-100">
+                {filteredPapers.map((paper) => (
+                  <label
+                    key={paper._id}
+                    className="flex items-center gap-3 px-4 py-2 text-sm hover:bg-gray-50 cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={form.papers.includes(paper._id)}
+                      onChange={() => togglePaper(paper._id)}
+                    />
+                    <span className="text-gray-900">{paper.title}</span>
+                    <span className="text-gray-400">{paper.examName} • {paper.year}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="w-full bg-blue-600 text-white py-3 rounded-xl hover:bg-blue-700 transition font-semibold flex items-center justify-center disabled:opacity-50"
+            >
+              {isSaving && <Loader2 className="h-5 w-5 mr-2 animate-spin" />}
+              Save Bundle
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,554 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Loader2, Plus, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+type CouponScope = 'all' | 'paper' | 'category' | 'bundle';
+type Category = 'university' | 'board' | 'competitive';
+
+interface AdminCoupon {
+  _id: string;
+  code: string;
+  description?: string;
+  discountType: 'percentage' | 'flat';
+  value: number;
+  maxDiscount?: number;
+  scope: CouponScope;
+  papers: string[];
+  categories: Category[];
+  bundles: string[];
+  usageLimit?: number;
+  perUserLimit: number;
+  usedCount: number;
+  validFrom: string;
+  validUntil?: string;
+  isActive: boolean;
+  redemptions: number;
+  totalDiscount: number;
+  revenue: number;
+}
+
+interface Option {
+  _id: string;
+  title: string;
+}
+
+interface CouponForm {
+  code: string;
+  description: string;
+  discountType: 'percentage' | 'flat';
+  value: string;
+  maxDiscount: string;
+  scope: CouponScope;
+  papers: string[];
+  categories: Category[];
+  bundles: string[];
+  usageLimit: string;
+  perUserLimit: string;
+  validFrom: string;
+  validUntil: string;
+}
+
+const CATEGORIES: Category[] = ['university', 'board', 'competitive'];
+
+const emptyForm: CouponForm = {
+  code: '',
+  description: '',
+  discountType: 'percentage',
+  value: '',
+  maxDiscount: '',
+  scope: 'all',
+  papers: [],
+  categories: [],
+  bundles: [],
+  usageLimit: '',
+  perUserLimit: '1',
+  validFrom: '',
+  validUntil: '',
+};
+
+const toggle = <T,>(list: T[], value: T) =>
+  list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+
+export default function AdminCouponsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [coupons, setCoupons] = useState<AdminCoupon[]>([]);
+  const [papers, setPapers] = useState<Option[]>([]);
+  const [bundles, setBundles] = useState<Option[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<CouponForm>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/login');
+    } else if (status === 'authenticated' && session?.user?.role !== 'admin') {
+      router.push('/dashboard');
+    }
+  }, [status, session, router]);
+
+  useEffect(() => {
+    const fetchCoupons = async () => {
+      try {
+        const response = await fetch('/api/admin/coupons');
+        const data = await response.json();
+
+        if (response.ok) {
+          setCoupons(data.coupons || []);
+        }
+      } catch (error) {
+        console.error('Error fetching coupons:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (session?.user?.role === 'admin') {
+      fetchCoupons();
+    }
+  }, [session, reloadKey]);
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        const [papersResponse, bundlesResponse] = await Promise.all([
+          fetch('/api/papers?limit=500'),
+          fetch('/api/bundles?all=true'),
+        ]);
+        const [papersData, bundlesData] = await Promise.all([papersResponse.json(), bundlesResponse.json()]);
+
+        setPapers(papersData.papers || []);
+        setBundles(bundlesData.bundles || []);
+      } catch (error) {
+        console.error('Error fetching coupon targets:', error);
+      }
+    };
+
+    if (session?.user?.role === 'admin') {
+      fetchOptions();
+    }
+  }, [session]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/admin/coupons', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          code: form.code,
+          description: form.description || undefined,
+          discountType: form.discountType,
+          value: parseFloat(form.value) || 0,
+          maxDiscount: form.maxDiscount ? parseFloat(form.maxDiscount) : undefined,
+          scope: form.scope,
+          papers: form.scope === 'paper' ? form.papers : [],
+          categories: form.scope === 'category' ? form.categories : [],
+          bundles: form.scope === 'bundle' ? form.bundles : [],
+          usageLimit: form.usageLimit ? parseInt(form.usageLimit) : undefined,
+          perUserLimit: parseInt(form.perUserLimit) || 1,
+          validFrom: form.validFrom || undefined,
+          validUntil: form.validUntil || undefined,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(data.message);
+        setShowForm(false);
+        setForm(emptyForm);
+        setReloadKey((key) => key + 1);
+      } else {
+        toast.error(data.error || 'Failed to create coupon');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (coupon: AdminCoupon) => {
+    try {
+      const response = await fetch(`/api/admin/coupons/${coupon._id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !coupon.isActive }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setCoupons(coupons.map((c) => (c._id === coupon._id ? { ...c, isActive: !c.isActive } : c)));
+      } else {
+        toast.error(data.error || 'Failed to update coupon');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    }
+  };
+
+  const handleDelete = async (coupon: AdminCoupon) => {
+    if (!confirm(`Delete coupon ${coupon.code}?`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/coupons/${coupon._id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(data.message);
+        setCoupons(coupons.filter((c) => c._id !== coupon._id));
+      } else {
+        toast.error(data.error || 'Failed to delete coupon');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    }
+  };
+
+  if (status === 'loading' || isLoading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-8" />
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-gray-200 rounded-xl" />
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session || session.user?.role !== 'admin') {
+    return null;
+  }
+
+  const inputClass = 'w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 outline-none';
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Back Link */}
+      <Link
+        href="/admin"
+        className="inline-flex items-center text-gray-600 hover:text-blue-600 mb-6"
+      >
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Back to Admin
+      </Link>
+
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Coupons</h1>
+          <p className="text-gray-600">Create discount codes and track their redemptions</p>
+        </div>
+        <button
+          onClick={() => setShowForm(true)}
+          className="inline-flex items-center bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition"
+        >
+          <Plus className="h-5 w-5 mr-2" />
+          New Coupon
+        </button>
+      </div>
+
+      {/* Coupons Table */}
+      <div className="bg-white rounded-xl border border-gray-100 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-500">
+            <tr>
+              <th className="px-4 py-3 font-medium">Code</th>
+              <th className="px-4 py-3 font-medium">Discount</th>
+              <th className="px-4 py-3 font-medium">Applies to</th>
+              <th className="px-4 py-3 font-medium">Used</th>
+              <th className="px-4 py-3 font-medium">Discount given</th>
+              <th className="px-4 py-3 font-medium">Valid</th>
+              <th className="px-4 py-3 font-medium">Active</th>
+              <th className="px-4 py-3 font-medium" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {coupons.map((coupon) => (
+              <tr key={coupon._id}>
+                <td className="px-4 py-3">
+                  <p className="font-mono font-semibold text-gray-900">{coupon.code}</p>
+                  {coupon.description && <p className="text-xs text-gray-500">{coupon.description}</p>}
+                </td>
+                <td className="px-4 py-3 text-gray-900">
+                  {coupon.discountType === 'percentage' ? `${coupon.value}%` : `₹${coupon.value}`}
+                  {coupon.maxDiscount !== undefined && coupon.maxDiscount !== null && (
+                    <span className="text-xs text-gray-500"> (max ₹{coupon.maxDiscount})</span>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-gray-600">
+                  {coupon.scope === 'all' && 'Everything'}
+                  {coupon.scope === 'paper' && `${coupon.papers.length} papers`}
+                  {coupon.scope === 'bundle' && `${coupon.bundles.length} bundles`}
+                  {coupon.scope === 'category' && coupon.categories.join(', ')}
+                </td>
+                <td className="px-4 py-3 text-gray-900">
+                  {coupon.usedCount}
+                  {coupon.usageLimit ? ` / ${coupon.usageLimit}` : ''}
+                  <p className="text-xs text-gray-500">{coupon.perUserLimit} per user</p>
+                </td>
+                <td className="px-4 py-3">
+                  <p className="text-gray-900">₹{coupon.totalDiscount}</p>
+                  <p className="text-xs text-gray-500">₹{coupon.revenue} revenue</p>
+                </td>
+                <td className="px-4 py-3 text-gray-500">
+                  {new Date(coupon.validFrom).toLocaleDateString()}
+                  {' – '}
+                  {coupon.validUntil ? new Date(coupon.validUntil).toLocaleDateString() : 'no end'}
+                </td>
+                <td className="px-4 py-3">
+                  <button
+                    onClick={() => handleToggleActive(coupon)}
+                    className={`px-2 py-1 rounded-full text-xs ${
+                      coupon.isActive ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-700'
+                    }`}
+                  >
+                    {coupon.isActive ? 'Active' : 'Disabled'}
+                  </button>
+                </td>
+                <td className="px-4 py-3 text-right">
+                  <button
+                    onClick={() => handleDelete(coupon)}
+                    className="p-2 rounded-lg text-gray-400 hover:text-red-600 hover:bg-red-50"
+                    aria-label="Delete coupon"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {coupons.length === 0 && (
+          <p className="text-center text-gray-500 py-12">No coupons yet</p>
+        )}
+      </div>
+
+      {/* Coupon Form */}
+      {showForm && (
+        <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center px-4">
+          <form
+            onSubmit={handleCreate}
+            className="bg-white rounded-2xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto space-y-4"
+          >
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-gray-900">New Coupon</h2>
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="p-1 rounded hover:bg-gray-100"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="grid sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="coupon-code" className="block text-sm font-medium text-gray-700 mb-2">
+                  Code
+                </label>
+                <input
+                  id="coupon-code"
+                  required
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                  placeholder="e.g., JEE2025"
+                  className={`${inputClass} font-mono`}
+                />
+              </div>
+              <div>
+                <label htmlFor="coupon-description" className="block text-sm font-medium text-gray-700 mb-2">
+                  Description
+                </label>
+                <input
+                  id="coupon-description"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="coupon-type" className="block text-sm font-medium text-gray-700 mb-2">
+                  Discount type
+                </label>
+                <select
+                  id="coupon-type"
+                  value={form.discountType}
+                  onChange={(e) => setForm({ ...form, discountType: e.target.value as CouponForm['discountType'] })}
+                  className={inputClass}
+                >
+                  <option value="percentage">Percentage</option>
+                  <option value="flat">Flat amount</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="coupon-value" className="block text-sm font-medium text-gray-700 mb-2">
+                  {form.discountType === 'percentage' ? 'Percent off' : 'Amount off (₹)'}
+                </label>
+                <input
+                  id="coupon-value"
+                  type="number"
+                  min="0"
+                  max={form.discountType === 'percentage' ? 100 : undefined}
+                  step="0.01"
+                  required
+                  value={form.value}
+                  onChange={(e) => setForm({ ...form, value: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              {form.discountType === 'percentage' && (
+                <div>
+                  <label htmlFor="coupon-max" className="block text-sm font-medium text-gray-700 mb-2">
+                    Maximum discount (₹, optional)
+                  </label>
+                  <input
+                    id="coupon-max"
+                    type="number"
+                    min="0"
+                    value={form.maxDiscount}
+                    onChange={(e) => setForm({ ...form, maxDiscount: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              )}
+              <div>
+                <label htmlFor="coupon-scope" className="block text-sm font-medium text-gray-700 mb-2">
+                  Applies to
+                </label>
+                <select
+                  id="coupon-scope"
+                  value={form.scope}
+                  onChange={(e) => setForm({ ...form, scope: e.target.value as CouponScope })}
+                  className={inputClass}
+                >
+                  <option value="all">Everything</option>
+                  <option value="paper">Specific papers</option>
+                  <option value="category">Categories</option>
+                  <option value="bundle">Specific bundles</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="coupon-usage" className="block text-sm font-medium text-gray-700 mb-2">
+                  Total uses (optional)
+                </label>
+                <input
+                  id="coupon-usage"
+                  type="number"
+                  min="1"
+                  value={form.usageLimit}
+                  onChange={(e) => setForm({ ...form, usageLimit: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="coupon-per-user" className="block text-sm font-medium text-gray-700 mb-2">
+                  Uses per user
+                </label>
+                <input
+                  id="coupon-per-user"
+                  type="number"
+                  min="1"
+                  value={form.perUserLimit}
+                  onChange={(e) => setForm({ ...form, perUserLimit: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="coupon-from" className="block text-sm font-medium text-gray-700 mb-2">
+                  Valid from
+                </label>
+                <input
+                  id="coupon-from"
+                  type="date"
+                  value={form.validFrom}
+                  onChange={(e) => setForm({ ...form, validFrom: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="coupon-until" className="block text-sm font-medium text-gray-700 mb-2">
+                  Valid until
+                </label>
+                <input
+                  id="coupon-until"
+                  type="date"
+                  value={form.validUntil}
+                  onChange={(e) => setForm({ ...form, validUntil: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            {form.scope === 'category' && (
+              <div className="flex gap-4">
+                {CATEGORIES.map((category) => (
+                  <label key={category} className="flex items-center gap-2 text-sm text-gray-700 capitalize">
+                    <input
+                      type="checkbox"
+                      checked={form.categories.includes(category)}
+                      onChange={() => setForm({ ...form, categories: toggle(form.categories, category) })}
+                    />
+                    {category}
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {(form.scope === 'paper' || form.scope === 'bundle') && (
+              <div className="max-h-60 overflow-y-auto border border-gray-100 rounded-xl divide-y divide-gray-100">
+                {(form.scope === 'paper' ? papers : bundles).map((option) => {
+                  const selected = form.scope === 'paper' ? form.papers : form.bundles;
+
+                  return (
+                    <label
+                      key={option._id}
+                      className="flex items-center gap-3 px-4 py-2 text-sm hover:bg-gray-50 cursor-pointer"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(option._id)}
+                        onChange={() =>
+                          setForm(
+                            form.scope === 'paper'
+                              ? { ...form, papers: toggle(form.papers, option._id) }
+                              : { ...form, bundles: toggle(form.bundles, option._id) }
+                          )
+                        }
+                      />
+                      {option.title}
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="w-full bg-blue-600 text-white py-3 rounded-xl hover:bg-blue-700 transition font-semibold flex items-center justify-center disabled:opacity-50"
+            >
+              {isSaving && <Loader2 className="h-5 w-5 mr-2 animate-spin" />}
+              Create Coupon
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
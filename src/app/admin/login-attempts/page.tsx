@@ -0,0 +1,261 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Search } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface LoginAttempt {
+  _id: string;
+  identifier: string;
+  userId: { name: string; email: string } | null;
+  ip: string;
+  method: 'password' | 'phone-otp';
+  result: 'success' | 'invalid-credentials' | 'locked' | 'unverified' | 'suspended';
+  createdAt: string;
+}
+
+interface Lockout {
+  _id: string;
+  key: string;
+  failures: number;
+  lockedUntil: string;
+}
+
+const RESULT_STYLES = {
+  success: 'bg-green-100 text-green-700',
+  'invalid-credentials': 'bg-red-100 text-red-700',
+  locked: 'bg-orange-100 text-orange-700',
+  unverified: 'bg-yellow-100 text-yellow-700',
+  suspended: 'bg-gray-100 text-gray-700',
+};
+
+const RESULT_LABELS = {
+  success: 'Signed in',
+  'invalid-credentials': 'Wrong credentials',
+  locked: 'Locked out',
+  unverified: 'Email unverified',
+  suspended: 'Suspended',
+};
+
+export default function AdminLoginAttemptsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [attempts, setAttempts] = useState<LoginAttempt[]>([]);
+  const [locks, setLocks] = useState<Lockout[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [filters, setFilters] = useState({ identifier: '', ip: '', result: '' });
+  const [appliedFilters, setAppliedFilters] = useState(filters);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/login');
+    } else if (status === 'authenticated' && session?.user?.role !== 'admin') {
+      router.push('/dashboard');
+    }
+  }, [status, session, router]);
+
+  useEffect(() => {
+    const fetchAttempts = async () => {
+      try {
+        const params = new URLSearchParams(
+          Object.entries(appliedFilters).filter(([, value]) => value !== '')
+        );
+        const response = await fetch(`/api/admin/login-attempts?${params}`);
+        const data = await response.json();
+
+        if (response.ok) {
+          setAttempts(data.attempts || []);
+          setLocks(data.locks || []);
+        }
+      } catch (error) {
+        console.error('Error fetching login attempts:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (session?.user?.role === 'admin') {
+      fetchAttempts();
+    }
+  }, [session, appliedFilters, reloadKey]);
+
+  const handleUnlock = async (lock: Lockout) => {
+    if (!confirm(`Lift the lockout on ${lock.key}?`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/login-attempts?key=${encodeURIComponent(lock.key)}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(data.message);
+        setReloadKey((key) => key + 1);
+      } else {
+        toast.error(data.error || 'Failed to lift lockout');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    }
+  };
+
+  if (status === 'loading' || isLoading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-8" />
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-gray-200 rounded-xl" />
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session || session.user?.role !== 'admin') {
+    return null;
+  }
+
+  const inputClass = 'w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 outline-none';
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Back Link */}
+      <Link
+        href="/admin"
+        className="inline-flex items-center text-gray-600 hover:text-blue-600 mb-6"
+      >
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Back to Admin
+      </Link>
+
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Login Attempts</h1>
+        <p className="text-gray-600">Sign-in history and accounts or addresses currently locked out</p>
+      </div>
+
+      {/* Lockouts */}
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">Active Lockouts ({locks.length})</h2>
+      <div className="bg-white rounded-xl border border-gray-100 overflow-x-auto mb-8">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-500">
+            <tr>
+              <th className="px-4 py-3 font-medium">Locked</th>
+              <th className="px-4 py-3 font-medium">Failures</th>
+              <th className="px-4 py-3 font-medium">Until</th>
+              <th className="px-4 py-3 font-medium" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {locks.map((lock) => (
+              <tr key={lock._id}>
+                <td className="px-4 py-3 font-mono text-xs text-gray-900">{lock.key}</td>
+                <td className="px-4 py-3 text-gray-900">{lock.failures}</td>
+                <td className="px-4 py-3 text-gray-500">{new Date(lock.lockedUntil).toLocaleString()}</td>
+                <td className="px-4 py-3 text-right">
+                  <button
+                    onClick={() => handleUnlock(lock)}
+                    className="px-3 py-1.5 border border-gray-200 rounded-lg text-gray-700 hover:bg-gray-50"
+                  >
+                    Unlock
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {locks.length === 0 && (
+          <p className="text-center text-gray-500 py-12">Nobody is locked out</p>
+        )}
+      </div>
+
+      {/* Filters */}
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          setAppliedFilters(filters);
+        }}
+        className="grid md:grid-cols-4 gap-4 mb-6"
+      >
+        <input
+          type="text"
+          value={filters.identifier}
+          onChange={(e) => setFilters({ ...filters, identifier: e.target.value })}
+          placeholder="Email or phone"
+          className={inputClass}
+        />
+        <input
+          type="text"
+          value={filters.ip}
+          onChange={(e) => setFilters({ ...filters, ip: e.target.value })}
+          placeholder="IP address"
+          className={inputClass}
+        />
+        <select
+          value={filters.result}
+          onChange={(e) => setFilters({ ...filters, result: e.target.value })}
+          className={inputClass}
+        >
+          <option value="">All results</option>
+          {Object.entries(RESULT_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          className="inline-flex items-center justify-center bg-blue-600 text-white px-4 py-2 rounded-xl hover:bg-blue-700 transition"
+        >
+          <Search className="h-4 w-4 mr-2" />
+          Filter
+        </button>
+      </form>
+
+      {/* Attempts */}
+      <div className="bg-white rounded-xl border border-gray-100 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-500">
+            <tr>
+              <th className="px-4 py-3 font-medium">Time</th>
+              <th className="px-4 py-3 font-medium">Email / Phone</th>
+              <th className="px-4 py-3 font-medium">Account</th>
+              <th className="px-4 py-3 font-medium">IP</th>
+              <th className="px-4 py-3 font-medium">Method</th>
+              <th className="px-4 py-3 font-medium">Result</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {attempts.map((attempt) => (
+              <tr key={attempt._id}>
+                <td className="px-4 py-3 text-gray-500 whitespace-nowrap">{new Date(attempt.createdAt).toLocaleString()}</td>
+                <td className="px-4 py-3 text-gray-900">{attempt.identifier}</td>
+                <td className="px-4 py-3 text-gray-600">{attempt.userId?.name || '—'}</td>
+                <td className="px-4 py-3 font-mono text-xs text-gray-600">{attempt.ip}</td>
+                <td className="px-4 py-3 text-gray-600">{attempt.method === 'password' ? 'Password' : 'Phone OTP'}</td>
+                <td className="px-4 py-3">
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${RESULT_STYLES[attempt.result]}`}>
+                    {RESULT_LABELS[attempt.result]}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {attempts.length === 0 && (
+          <p className="text-center text-gray-500 py-12">No login attempts found</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Loader2, Plus, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface AdminOrganization {
+  _id: string;
+  name: string;
+  type: 'school' | 'coaching' | 'other';
+  contactEmail?: string;
+  isActive: boolean;
+  members: number;
+  admins: string[];
+  seats: number;
+  seatsAssigned: number;
+  revenue: number;
+  createdAt: string;
+}
+
+interface OrganizationForm {
+  name: string;
+  type: AdminOrganization['type'];
+  contactEmail: string;
+  adminEmail: string;
+}
+
+const emptyForm: OrganizationForm = { name: '', type: 'coaching', contactEmail: '', adminEmail: '' };
+
+const TYPE_LABELS: Record<AdminOrganization['type'], string> = {
+  school: 'School',
+  coaching: 'Coaching centre',
+  other: 'Other',
+};
+
+export default function AdminOrganizationsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [organizations, setOrganizations] = useState<AdminOrganization[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<OrganizationForm>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/login');
+    } else if (status === 'authenticated' && session?.user?.role !== 'admin') {
+      router.push('/dashboard');
+    }
+  }, [status, session, router]);
+
+  useEffect(() => {
+    const fetchOrganizations = async () => {
+      try {
+        const response = await fetch('/api/admin/organizations');
+        const data = await response.json();
+
+        if (response.ok) {
+          setOrganizations(data.organizations || []);
+        }
+      } catch (error) {
+        console.error('Error fetching organizations:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (session?.user?.role === 'admin') {
+      fetchOrganizations();
+    }
+  }, [session, reloadKey]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      const response = await fetch('/api/admin/organizations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(data.message);
+        setShowForm(false);
+        setForm(emptyForm);
+        setReloadKey((key) => key + 1);
+      } else {
+        toast.error(data.error || 'Failed to create organization');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (status === 'loading' || isLoading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-8" />
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-gray-200 rounded-xl" />
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session || session.user?.role !== 'admin') {
+    return null;
+  }
+
+  const inputClass = 'w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 outline-none';
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Back Link */}
+      <Link
+        href="/admin"
+        className="inline-flex items-center text-gray-600 hover:text-blue-600 mb-6"
+      >
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Back to Admin
+      </Link>
+
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6 gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Organizations</h1>
+          <p className="text-gray-600">Schools and coaching centres buying seats for their students</p>
+        </div>
+        <button
+          onClick={() => setShowForm(true)}
+          className="inline-flex items-center bg-blue-600 text-white px-4 py-2 rounded-xl hover:bg-blue-700 transition"
+        >
+          <Plus className="h-5 w-5 mr-2" />
+          New Organization
+        </button>
+      </div>
+
+      {/* Organizations Table */}
+      <div className="bg-white rounded-xl border border-gray-100 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-500">
+            <tr>
+              <th className="px-4 py-3 font-medium">Organization</th>
+              <th className="px-4 py-3 font-medium">Org Admins</th>
+              <th className="px-4 py-3 font-medium">Members</th>
+              <th className="px-4 py-3 font-medium">Seats Assigned</th>
+              <th className="px-4 py-3 font-medium">Revenue</th>
+              <th className="px-4 py-3 font-medium">Since</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {organizations.map((organization) => (
+              <tr key={organization._id}>
+                <td className="px-4 py-3">
+                  <p className="text-gray-900">{organization.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {TYPE_LABELS[organization.type]}
+                    {!organization.isActive && ' • Inactive'}
+                  </p>
+                </td>
+                <td className="px-4 py-3 text-gray-600">{organization.admins.join(', ') || '—'}</td>
+                <td className="px-4 py-3 text-gray-900">{organization.members}</td>
+                <td className="px-4 py-3 text-gray-900">
+                  {organization.seatsAssigned} / {organization.seats}
+                </td>
+                <td className="px-4 py-3 text-gray-900">₹{organization.revenue}</td>
+                <td className="px-4 py-3 text-gray-500">{new Date(organization.createdAt).toLocaleDateString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {organizations.length === 0 && (
+          <p className="text-center text-gray-500 py-12">No organizations yet</p>
+        )}
+      </div>
+
+      {/* Create Form */}
+      {showForm && (
+        <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center px-4">
+          <form
+            onSubmit={handleCreate}
+            className="bg-white rounded-2xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto grid grid-cols-2 gap-4"
+          >
+            <div className="col-span-2 flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-gray-900">New Organization</h2>
+              <button type="button" onClick={() => setShowForm(false)} className="p-1 rounded hover:bg-gray-100">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="col-span-2">
+              <label htmlFor="org-name" className="block text-sm font-medium text-gray-700 mb-2">
+                Name
+              </label>
+              <input
+                id="org-name"
+                required
+                maxLength={100}
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="org-type" className="block text-sm font-medium text-gray-700 mb-2">
+                Type
+              </label>
+              <select
+                id="org-type"
+                value={form.type}
+                onChange={(e) => setForm({ ...form, type: e.target.value as OrganizationForm['type'] })}
+                className={inputClass}
+              >
+                {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="org-contact" className="block text-sm font-medium text-gray-700 mb-2">
+                Contact Email
+              </label>
+              <input
+                id="org-contact"
+                type="email"
+                value={form.contactEmail}
+                onChange={(e) => setForm({ ...form, contactEmail: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div className="col-span-2">
+              <label htmlFor="org-admin" className="block text-sm font-medium text-gray-700 mb-2">
+                Org Admin (email of an existing student account)
+              </label>
+              <input
+                id="org-admin"
+                type="email"
+                required
+                value={form.adminEmail}
+                onChange={(e) => setForm({ ...form, adminEmail: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="col-span-2 bg-blue-600 text-white py-3 rounded-xl hover:bg-blue-700 transition font-semibold flex items-center justify-center disabled:opacity-50"
+            >
+              {isSaving && <Loader2 className="h-5 w-5 mr-2 animate-spin" />}
+              Create Organization
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
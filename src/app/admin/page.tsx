@@ -13,12 +13,22 @@ import {
   Settings,
   ArrowRight,
   BarChart3,
+  Receipt,
+  Layers,
+  Tag,
+  CalendarClock,
+  Gift,
+  Building2,
+  Store,
+  ShieldAlert,
 } from 'lucide-react';
+import { formatPrice } from '@/lib/currency';
 
 interface Stats {
   totalPapers: number;
   totalUsers: number;
   totalRevenue: number;
+  revenueByCurrency: Record<string, number>;
   totalDownloads: number;
 }
 
@@ -29,6 +39,7 @@ export default function AdminDashboard() {
     totalPapers: 0,
     totalUsers: 0,
     totalRevenue: 0,
+    revenueByCurrency: {},
     totalDownloads: 0,
   });
 
@@ -93,7 +104,13 @@ export default function AdminDashboard() {
     },
     {
       title: 'Total Revenue',
-      value: `₹${stats.totalRevenue.toLocaleString()}`,
+      value: [
+        `₹${stats.totalRevenue.toLocaleString()}`,
+        // Sales in other currencies are listed alongside rather than converted
+        ...Object.entries(stats.revenueByCurrency)
+          .filter(([currency]) => currency !== 'INR')
+          .map(([currency, total]) => formatPrice(total, currency)),
+      ].join(' + '),
       icon: IndianRupee,
       color: 'bg-purple-100 text-purple-600',
     },
@@ -120,6 +137,55 @@ export default function AdminDashboard() {
       href: '/admin/papers',
       color: 'bg-white text-gray-900 border border-gray-200 hover:border-blue-200',
     },
+    {
+      title: 'Bundles',
+      description: 'Group papers into discounted bundles',
+      icon: Layers,
+      href: '/admin/bundles',
+      color: 'bg-white text-gray-900 border border-gray-200 hover:border-blue-200',
+    },
+    {
+      title: 'Coupons',
+      description: 'Create discount codes and track redemptions',
+      icon: Tag,
+      href: '/admin/coupons',
+      color: 'bg-white text-gray-900 border border-gray-200 hover:border-blue-200',
+    },
+    {
+      title: 'Subscriptions',
+      description: 'Manage recurring category plans',
+      icon: CalendarClock,
+      href: '/admin/subscriptions',
+      color: 'bg-white text-gray-900 border border-gray-200 hover:border-blue-200',
+    },
+    {
+      title: 'Transactions',
+      description: 'Review purchases and issue refunds',
+      icon: Receipt,
+      href: '/admin/transactions',
+      color: 'bg-white text-gray-900 border border-gray-200 hover:border-blue-200',
+    },
+    {
+      title: 'Referrals',
+      description: 'Top referrers and rejected invites',
+      icon: Gift,
+      href: '/admin/referrals',
+      color: 'bg-white text-gray-900 border border-gray-200 hover:border-blue-200',
+    },
+    {
+      title: 'Organizations',
+      description: 'Schools and coaching centres with bulk seats',
+      icon: Building2,
+      href: '/admin/organizations',
+      color: 'bg-white text-gray-900 border border-gray-200 hover:border-blue-200',
+    },
+    {
+      title: 'Sellers',
+      description: 'Review submissions and settle payouts',
+      icon: Store,
+      href: '/admin/sellers',
+      color: 'bg-white text-gray-900 border border-gray-200 hover:border-blue-200',
+    },
     {
       title: 'Manage Users',
       description: 'View and manage user accounts',
@@ -127,6 +193,13 @@ export default function AdminDashboard() {
       href: '/admin/users',
       color: 'bg-white text-gray-900 border border-gray-200 hover:border-blue-200',
     },
+    {
+      title: 'Login Attempts',
+      description: 'Sign-in history and lockouts',
+      icon: ShieldAlert,
+      href: '/admin/login-attempts',
+      color: 'bg-white text-gray-900 border border-gray-200 hover:border-blue-200',
+    },
     {
       title: 'Analytics',
       description: 'View detailed sales and traffic analytics',
@@ -0,0 +1,172 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+
+interface LeaderboardEntry {
+  _id: string;
+  name?: string;
+  email?: string;
+  referralCode?: string;
+  signups: number;
+  rewarded: number;
+  rejected: number;
+  earned: number;
+}
+
+interface RejectedReferral {
+  _id: string;
+  referrerId: { name: string; email: string } | null;
+  refereeId: { name: string; email: string } | null;
+  code: string;
+  rejectionReason?: string;
+  signupIp?: string;
+  createdAt: string;
+}
+
+export default function AdminReferralsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const [rejected, setRejected] = useState<RejectedReferral[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/login');
+    } else if (status === 'authenticated' && session?.user?.role !== 'admin') {
+      router.push('/dashboard');
+    }
+  }, [status, session, router]);
+
+  useEffect(() => {
+    const fetchReferrals = async () => {
+      try {
+        const response = await fetch('/api/admin/referrals');
+        const data = await response.json();
+
+        if (response.ok) {
+          setLeaderboard(data.leaderboard || []);
+          setRejected(data.rejected || []);
+        }
+      } catch (error) {
+        console.error('Error fetching referrals:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (session?.user?.role === 'admin') {
+      fetchReferrals();
+    }
+  }, [session]);
+
+  if (status === 'loading' || isLoading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-8" />
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-gray-200 rounded-xl" />
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session || session.user?.role !== 'admin') {
+    return null;
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Back Link */}
+      <Link
+        href="/admin"
+        className="inline-flex items-center text-gray-600 hover:text-blue-600 mb-6"
+      >
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Back to Admin
+      </Link>
+
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Referrals</h1>
+        <p className="text-gray-600">Who brings in new students, and which invites were held back</p>
+      </div>
+
+      {/* Leaderboard */}
+      <div className="bg-white rounded-xl border border-gray-100 overflow-x-auto mb-8">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-500">
+            <tr>
+              <th className="px-4 py-3 font-medium">#</th>
+              <th className="px-4 py-3 font-medium">Referrer</th>
+              <th className="px-4 py-3 font-medium">Code</th>
+              <th className="px-4 py-3 font-medium">Signups</th>
+              <th className="px-4 py-3 font-medium">Rewarded</th>
+              <th className="px-4 py-3 font-medium">Rejected</th>
+              <th className="px-4 py-3 font-medium">Credit earned</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {leaderboard.map((entry, index) => (
+              <tr key={entry._id}>
+                <td className="px-4 py-3 text-gray-500">{index + 1}</td>
+                <td className="px-4 py-3">
+                  <p className="text-gray-900">{entry.name || 'Deleted user'}</p>
+                  <p className="text-xs text-gray-500">{entry.email}</p>
+                </td>
+                <td className="px-4 py-3 font-mono text-gray-700">{entry.referralCode}</td>
+                <td className="px-4 py-3 text-gray-900">{entry.signups}</td>
+                <td className="px-4 py-3 text-green-700">{entry.rewarded}</td>
+                <td className="px-4 py-3 text-red-600">{entry.rejected}</td>
+                <td className="px-4 py-3 text-gray-900">₹{entry.earned}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {leaderboard.length === 0 && (
+          <p className="text-center text-gray-500 py-12">No referrals yet</p>
+        )}
+      </div>
+
+      {/* Rejected Referrals */}
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">Recently Rejected</h2>
+      <div className="bg-white rounded-xl border border-gray-100 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-500">
+            <tr>
+              <th className="px-4 py-3 font-medium">Date</th>
+              <th className="px-4 py-3 font-medium">Referrer</th>
+              <th className="px-4 py-3 font-medium">New user</th>
+              <th className="px-4 py-3 font-medium">Reason</th>
+              <th className="px-4 py-3 font-medium">Signup IP</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rejected.map((referral) => (
+              <tr key={referral._id}>
+                <td className="px-4 py-3 text-gray-500">{new Date(referral.createdAt).toLocaleDateString()}</td>
+                <td className="px-4 py-3 text-gray-900">{referral.referrerId?.email || 'Deleted user'}</td>
+                <td className="px-4 py-3 text-gray-900">{referral.refereeId?.email || 'Deleted user'}</td>
+                <td className="px-4 py-3 text-gray-700">{referral.rejectionReason}</td>
+                <td className="px-4 py-3 font-mono text-xs text-gray-500">{referral.signupIp || '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {rejected.length === 0 && (
+          <p className="text-center text-gray-500 py-12">No rejected referrals</p>
+        )}
+      </div>
+    </div>
+  );
+}
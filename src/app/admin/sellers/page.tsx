@@ -0,0 +1,465 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Check, Loader2, Plus, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatPrice } from '@/lib/currency';
+
+interface SellerBalance {
+  currency: string;
+  earned: number;
+  paid: number;
+  pending: number;
+  available: number;
+}
+
+interface Seller {
+  _id: string;
+  name: string;
+  email: string;
+  since?: string;
+  revenueSharePercent: number;
+  customShare: boolean;
+  papers: number;
+  pendingPapers: number;
+  balances: SellerBalance[];
+}
+
+interface Submission {
+  _id: string;
+  title: string;
+  examName: string;
+  subject: string;
+  year: number;
+  paperType: 'questions-only' | 'with-solutions';
+  questionsOnlyPrice: number;
+  withSolutionsPrice?: number;
+  totalQuestions: number;
+  uploadedBy: { name: string; email: string } | null;
+  createdAt: string;
+}
+
+interface Payout {
+  _id: string;
+  sellerId: { name: string; email: string } | null;
+  amount: number;
+  currency: string;
+  payoutDetails: string;
+  createdAt: string;
+}
+
+// Admin action waiting for input in the modal
+type PendingAction =
+  | { kind: 'add-seller' }
+  | { kind: 'share'; seller: Seller }
+  | { kind: 'reject-paper'; paper: Submission }
+  | { kind: 'pay'; payout: Payout }
+  | { kind: 'reject-payout'; payout: Payout };
+
+export default function AdminSellersPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [sellers, setSellers] = useState<Seller[]>([]);
+  const [defaultShare, setDefaultShare] = useState(0);
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [payouts, setPayouts] = useState<Payout[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [action, setAction] = useState<PendingAction | null>(null);
+  const [input, setInput] = useState({ text: '', number: '' });
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/login');
+    } else if (status === 'authenticated' && session?.user?.role !== 'admin') {
+      router.push('/dashboard');
+    }
+  }, [status, session, router]);
+
+  useEffect(() => {
+    const fetchAll = async () => {
+      try {
+        const [sellersResponse, moderationResponse, payoutsResponse] = await Promise.all([
+          fetch('/api/admin/sellers'),
+          fetch('/api/admin/moderation'),
+          fetch('/api/admin/payouts?status=pending'),
+        ]);
+
+        const [sellersData, moderationData, payoutsData] = await Promise.all([
+          sellersResponse.json(),
+          moderationResponse.json(),
+          payoutsResponse.json(),
+        ]);
+
+        if (sellersResponse.ok) {
+          setSellers(sellersData.sellers || []);
+          setDefaultShare(sellersData.defaultSharePercent);
+        }
+        if (moderationResponse.ok) setSubmissions(moderationData.papers || []);
+        if (payoutsResponse.ok) setPayouts(payoutsData.payouts || []);
+      } catch (error) {
+        console.error('Error fetching sellers:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (session?.user?.role === 'admin') {
+      fetchAll();
+    }
+  }, [session, reloadKey]);
+
+  const openAction = (next: PendingAction) => {
+    setAction(next);
+    setInput({ text: '', number: next.kind === 'share' ? String(next.seller.revenueSharePercent) : '' });
+  };
+
+  // Send a request and reload everything on success
+  const submit = async (url: string, method: string, body: Record<string, unknown>) => {
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(data.message);
+        setAction(null);
+        setReloadKey((key) => key + 1);
+      } else {
+        toast.error(data.error || 'Request failed');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleActionSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!action) return;
+
+    switch (action.kind) {
+      case 'add-seller':
+        return submit('/api/admin/sellers', 'POST', {
+          email: input.text,
+          ...(input.number !== '' && { revenueSharePercent: Number(input.number) }),
+        });
+      case 'share':
+        return submit(`/api/admin/sellers/${action.seller._id}`, 'PUT', {
+          revenueSharePercent: input.number === '' ? null : Number(input.number),
+        });
+      case 'reject-paper':
+        return submit(`/api/admin/moderation/${action.paper._id}`, 'POST', { action: 'reject', note: input.text });
+      case 'pay':
+        return submit(`/api/admin/payouts/${action.payout._id}`, 'POST', { action: 'pay', reference: input.text });
+      case 'reject-payout':
+        return submit(`/api/admin/payouts/${action.payout._id}`, 'POST', { action: 'reject', note: input.text });
+    }
+  };
+
+  const handleRevoke = (seller: Seller) => {
+    if (!confirm(`Stop ${seller.name} selling? Their earnings and payouts are kept.`)) return;
+    submit(`/api/admin/sellers/${seller._id}`, 'PUT', { revoke: true });
+  };
+
+  if (status === 'loading' || isLoading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-8" />
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-gray-200 rounded-xl" />
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session || session.user?.role !== 'admin') {
+    return null;
+  }
+
+  const inputClass = 'w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 outline-none';
+
+  const actionTitles: Record<PendingAction['kind'], string> = {
+    'add-seller': 'Add Seller',
+    share: 'Revenue Share',
+    'reject-paper': 'Reject Paper',
+    pay: 'Mark Payout as Paid',
+    'reject-payout': 'Reject Payout',
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Back Link */}
+      <Link
+        href="/admin"
+        className="inline-flex items-center text-gray-600 hover:text-blue-600 mb-6"
+      >
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Back to Admin
+      </Link>
+
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6 gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Sellers</h1>
+          <p className="text-gray-600">Review submissions, set revenue shares and settle payouts</p>
+        </div>
+        <button
+          onClick={() => openAction({ kind: 'add-seller' })}
+          className="inline-flex items-center bg-blue-600 text-white px-4 py-2 rounded-xl hover:bg-blue-700 transition"
+        >
+          <Plus className="h-5 w-5 mr-2" />
+          Add Seller
+        </button>
+      </div>
+
+      {/* Moderation Queue */}
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">Awaiting Review ({submissions.length})</h2>
+      <div className="bg-white rounded-xl border border-gray-100 overflow-x-auto mb-8">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-500">
+            <tr>
+              <th className="px-4 py-3 font-medium">Paper</th>
+              <th className="px-4 py-3 font-medium">Seller</th>
+              <th className="px-4 py-3 font-medium">Price</th>
+              <th className="px-4 py-3 font-medium">Questions</th>
+              <th className="px-4 py-3 font-medium" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {submissions.map((paper) => (
+              <tr key={paper._id}>
+                <td className="px-4 py-3">
+                  <Link href={`/papers/${paper._id}`} className="text-gray-900 hover:text-blue-600">
+                    {paper.title}
+                  </Link>
+                  <p className="text-xs text-gray-500">
+                    {paper.subject} • {paper.examName} {paper.year}
+                  </p>
+                </td>
+                <td className="px-4 py-3 text-gray-600">{paper.uploadedBy?.email || 'Deleted user'}</td>
+                <td className="px-4 py-3 text-gray-900">
+                  ₹{paper.questionsOnlyPrice}
+                  {paper.paperType === 'with-solutions' && ` / ₹${paper.withSolutionsPrice}`}
+                </td>
+                <td className="px-4 py-3 text-gray-900">{paper.totalQuestions}</td>
+                <td className="px-4 py-3 text-right whitespace-nowrap">
+                  <button
+                    onClick={() => submit(`/api/admin/moderation/${paper._id}`, 'POST', { action: 'approve' })}
+                    disabled={isSaving}
+                    className="inline-flex items-center px-3 py-1.5 mr-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => openAction({ kind: 'reject-paper', paper })}
+                    className="px-3 py-1.5 border border-gray-200 rounded-lg text-gray-700 hover:bg-gray-50"
+                  >
+                    Reject
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {submissions.length === 0 && (
+          <p className="text-center text-gray-500 py-12">Nothing waiting for review</p>
+        )}
+      </div>
+
+      {/* Payout Requests */}
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">Payout Requests ({payouts.length})</h2>
+      <div className="bg-white rounded-xl border border-gray-100 overflow-x-auto mb-8">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-500">
+            <tr>
+              <th className="px-4 py-3 font-medium">Requested</th>
+              <th className="px-4 py-3 font-medium">Seller</th>
+              <th className="px-4 py-3 font-medium">Amount</th>
+              <th className="px-4 py-3 font-medium">Pay To</th>
+              <th className="px-4 py-3 font-medium" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {payouts.map((payout) => (
+              <tr key={payout._id}>
+                <td className="px-4 py-3 text-gray-500">{new Date(payout.createdAt).toLocaleDateString()}</td>
+                <td className="px-4 py-3 text-gray-900">{payout.sellerId?.email || 'Deleted user'}</td>
+                <td className="px-4 py-3 text-gray-900">{formatPrice(payout.amount, payout.currency)}</td>
+                <td className="px-4 py-3 text-gray-600 whitespace-pre-line">{payout.payoutDetails}</td>
+                <td className="px-4 py-3 text-right whitespace-nowrap">
+                  <button
+                    onClick={() => openAction({ kind: 'pay', payout })}
+                    className="inline-flex items-center px-3 py-1.5 mr-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
+                  >
+                    Mark Paid
+                  </button>
+                  <button
+                    onClick={() => openAction({ kind: 'reject-payout', payout })}
+                    className="px-3 py-1.5 border border-gray-200 rounded-lg text-gray-700 hover:bg-gray-50"
+                  >
+                    Reject
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {payouts.length === 0 && (
+          <p className="text-center text-gray-500 py-12">No open payout requests</p>
+        )}
+      </div>
+
+      {/* Sellers */}
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">Sellers</h2>
+      <div className="bg-white rounded-xl border border-gray-100 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-500">
+            <tr>
+              <th className="px-4 py-3 font-medium">Seller</th>
+              <th className="px-4 py-3 font-medium">Share</th>
+              <th className="px-4 py-3 font-medium">Papers</th>
+              <th className="px-4 py-3 font-medium">Earned</th>
+              <th className="px-4 py-3 font-medium">Paid</th>
+              <th className="px-4 py-3 font-medium">Available</th>
+              <th className="px-4 py-3 font-medium" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {sellers.map((seller) => {
+              const total = (key: keyof Omit<SellerBalance, 'currency'>) =>
+                seller.balances.map((b) => formatPrice(b[key], b.currency)).join(' + ') || '—';
+
+              return (
+                <tr key={seller._id}>
+                  <td className="px-4 py-3">
+                    <p className="text-gray-900">{seller.name}</p>
+                    <p className="text-xs text-gray-500">{seller.email}</p>
+                  </td>
+                  <td className="px-4 py-3 text-gray-900">
+                    {seller.revenueSharePercent}%{!seller.customShare && <span className="text-xs text-gray-500"> (default)</span>}
+                  </td>
+                  <td className="px-4 py-3 text-gray-900">
+                    {seller.papers}
+                    {seller.pendingPapers > 0 && <span className="text-xs text-yellow-700"> ({seller.pendingPapers} in review)</span>}
+                  </td>
+                  <td className="px-4 py-3 text-gray-900">{total('earned')}</td>
+                  <td className="px-4 py-3 text-gray-900">{total('paid')}</td>
+                  <td className="px-4 py-3 text-gray-900">{total('available')}</td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => openAction({ kind: 'share', seller })}
+                      className="px-3 py-1.5 mr-2 border border-gray-200 rounded-lg text-gray-700 hover:bg-gray-50"
+                    >
+                      Share
+                    </button>
+                    <button
+                      onClick={() => handleRevoke(seller)}
+                      className="px-3 py-1.5 border border-gray-200 rounded-lg text-red-600 hover:bg-red-50"
+                    >
+                      Revoke
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {sellers.length === 0 && (
+          <p className="text-center text-gray-500 py-12">No sellers yet</p>
+        )}
+      </div>
+
+      {/* Action Form */}
+      {action && (
+        <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center px-4">
+          <form onSubmit={handleActionSubmit} className="bg-white rounded-2xl p-6 w-full max-w-md space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-gray-900">{actionTitles[action.kind]}</h2>
+              <button type="button" onClick={() => setAction(null)} className="p-1 rounded hover:bg-gray-100">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            {action.kind === 'pay' && (
+              <p className="text-sm text-gray-600">
+                Transfer {formatPrice(action.payout.amount, action.payout.currency)} to{' '}
+                <span className="whitespace-pre-line">{action.payout.payoutDetails}</span>, then record the reference.
+              </p>
+            )}
+
+            {action.kind !== 'share' && (
+              <div>
+                <label htmlFor="action-text" className="block text-sm font-medium text-gray-700 mb-2">
+                  {action.kind === 'add-seller'
+                    ? 'Student account email'
+                    : action.kind === 'pay'
+                      ? 'Transfer reference (UTR)'
+                      : 'Reason (shown to the seller)'}
+                </label>
+                <input
+                  id="action-text"
+                  type={action.kind === 'add-seller' ? 'email' : 'text'}
+                  required
+                  maxLength={action.kind === 'pay' ? 100 : 500}
+                  value={input.text}
+                  onChange={(e) => setInput({ ...input, text: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            )}
+
+            {(action.kind === 'add-seller' || action.kind === 'share') && (
+              <div>
+                <label htmlFor="action-share" className="block text-sm font-medium text-gray-700 mb-2">
+                  Revenue share % (leave empty for the {defaultShare}% default)
+                </label>
+                <input
+                  id="action-share"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.5"
+                  value={input.number}
+                  onChange={(e) => setInput({ ...input, number: e.target.value })}
+                  className={inputClass}
+                />
+                {action.kind === 'share' && (
+                  <p className="text-xs text-gray-500 mt-1">Applies to future sales only.</p>
+                )}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="w-full bg-blue-600 text-white py-3 rounded-xl hover:bg-blue-700 transition font-semibold flex items-center justify-center disabled:opacity-50"
+            >
+              {isSaving && <Loader2 className="h-5 w-5 mr-2 animate-spin" />}
+              {actionTitles[action.kind]}
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,367 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Loader2, Plus, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+type Category = 'university' | 'board' | 'competitive';
+
+interface AdminPlan {
+  _id: string;
+  name: string;
+  description?: string;
+  category: Category;
+  tier: 'questions-only' | 'with-solutions';
+  price: number;
+  interval: 'monthly' | 'yearly';
+  totalCycles: number;
+  gatewayPlanId: string;
+  isActive: boolean;
+  subscribers: number;
+}
+
+interface PlanForm {
+  name: string;
+  description: string;
+  category: Category;
+  tier: AdminPlan['tier'];
+  price: string;
+  interval: AdminPlan['interval'];
+  totalCycles: string;
+}
+
+const emptyForm: PlanForm = {
+  name: '',
+  description: '',
+  category: 'university',
+  tier: 'with-solutions',
+  price: '',
+  interval: 'monthly',
+  totalCycles: '12',
+};
+
+export default function AdminSubscriptionsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [plans, setPlans] = useState<AdminPlan[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<PlanForm>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/login');
+    } else if (status === 'authenticated' && session?.user?.role !== 'admin') {
+      router.push('/dashboard');
+    }
+  }, [status, session, router]);
+
+  useEffect(() => {
+    const fetchPlans = async () => {
+      try {
+        const response = await fetch('/api/admin/subscription-plans');
+        const data = await response.json();
+
+        if (response.ok) {
+          setPlans(data.plans || []);
+        }
+      } catch (error) {
+        console.error('Error fetching plans:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (session?.user?.role === 'admin') {
+      fetchPlans();
+    }
+  }, [session, reloadKey]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/admin/subscription-plans', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name,
+          description: form.description || undefined,
+          category: form.category,
+          tier: form.tier,
+          price: parseFloat(form.price) || 0,
+          interval: form.interval,
+          totalCycles: parseInt(form.totalCycles) || undefined,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(data.message);
+        setShowForm(false);
+        setForm(emptyForm);
+        setReloadKey((key) => key + 1);
+      } else {
+        toast.error(data.error || 'Failed to create plan');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (plan: AdminPlan) => {
+    try {
+      const response = await fetch(`/api/admin/subscription-plans/${plan._id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !plan.isActive }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setPlans(plans.map((p) => (p._id === plan._id ? { ...p, isActive: !p.isActive } : p)));
+      } else {
+        toast.error(data.error || 'Failed to update plan');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    }
+  };
+
+  if (status === 'loading' || isLoading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-8" />
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-gray-200 rounded-xl" />
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session || session.user?.role !== 'admin') {
+    return null;
+  }
+
+  const inputClass = 'w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 outline-none';
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Back Link */}
+      <Link
+        href="/admin"
+        className="inline-flex items-center text-gray-600 hover:text-blue-600 mb-6"
+      >
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Back to Admin
+      </Link>
+
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Subscription Plans</h1>
+          <p className="text-gray-600">Sell recurring access to a whole category</p>
+        </div>
+        <button
+          onClick={() => setShowForm(true)}
+          className="inline-flex items-center bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition"
+        >
+          <Plus className="h-5 w-5 mr-2" />
+          New Plan
+        </button>
+      </div>
+
+      {/* Plans Table */}
+      <div className="bg-white rounded-xl border border-gray-100 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-500">
+            <tr>
+              <th className="px-4 py-3 font-medium">Plan</th>
+              <th className="px-4 py-3 font-medium">Category</th>
+              <th className="px-4 py-3 font-medium">Price</th>
+              <th className="px-4 py-3 font-medium">Subscribers</th>
+              <th className="px-4 py-3 font-medium">On sale</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {plans.map((plan) => (
+              <tr key={plan._id}>
+                <td className="px-4 py-3">
+                  <p className="font-semibold text-gray-900">{plan.name}</p>
+                  <p className="text-xs text-gray-500 font-mono">{plan.gatewayPlanId}</p>
+                </td>
+                <td className="px-4 py-3 text-gray-600">
+                  <span className="capitalize">{plan.category}</span>
+                  <p className="text-xs text-gray-500">{plan.tier}</p>
+                </td>
+                <td className="px-4 py-3 text-gray-900">
+                  ₹{plan.price}/{plan.interval === 'yearly' ? 'year' : 'month'}
+                  <p className="text-xs text-gray-500">{plan.totalCycles} cycles</p>
+                </td>
+                <td className="px-4 py-3 text-gray-900">{plan.subscribers}</td>
+                <td className="px-4 py-3">
+                  <button
+                    onClick={() => handleToggleActive(plan)}
+                    className={`px-2 py-1 rounded-full text-xs ${
+                      plan.isActive ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-700'
+                    }`}
+                  >
+                    {plan.isActive ? 'Active' : 'Retired'}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {plans.length === 0 && (
+          <p className="text-center text-gray-500 py-12">No plans yet</p>
+        )}
+      </div>
+
+      {/* Plan Form */}
+      {showForm && (
+        <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center px-4">
+          <form
+            onSubmit={handleCreate}
+            className="bg-white rounded-2xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto space-y-4"
+          >
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-gray-900">New Plan</h2>
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="p-1 rounded hover:bg-gray-100"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="grid sm:grid-cols-2 gap-4">
+              <div className="sm:col-span-2">
+                <label htmlFor="plan-name" className="block text-sm font-medium text-gray-700 mb-2">
+                  Name
+                </label>
+                <input
+                  id="plan-name"
+                  required
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g., University Unlimited"
+                  className={inputClass}
+                />
+              </div>
+              <div className="sm:col-span-2">
+                <label htmlFor="plan-description" className="block text-sm font-medium text-gray-700 mb-2">
+                  Description
+                </label>
+                <textarea
+                  id="plan-description"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  className={inputClass}
+                  rows={2}
+                />
+              </div>
+              <div>
+                <label htmlFor="plan-category" className="block text-sm font-medium text-gray-700 mb-2">
+                  Category
+                </label>
+                <select
+                  id="plan-category"
+                  value={form.category}
+                  onChange={(e) => setForm({ ...form, category: e.target.value as Category })}
+                  className={inputClass}
+                >
+                  <option value="university">University</option>
+                  <option value="board">Board</option>
+                  <option value="competitive">Competitive</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="plan-tier" className="block text-sm font-medium text-gray-700 mb-2">
+                  Access
+                </label>
+                <select
+                  id="plan-tier"
+                  value={form.tier}
+                  onChange={(e) => setForm({ ...form, tier: e.target.value as PlanForm['tier'] })}
+                  className={inputClass}
+                >
+                  <option value="with-solutions">With solutions</option>
+                  <option value="questions-only">Questions only</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="plan-price" className="block text-sm font-medium text-gray-700 mb-2">
+                  Price (₹)
+                </label>
+                <input
+                  id="plan-price"
+                  type="number"
+                  min="1"
+                  step="0.01"
+                  required
+                  value={form.price}
+                  onChange={(e) => setForm({ ...form, price: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="plan-interval" className="block text-sm font-medium text-gray-700 mb-2">
+                  Billing interval
+                </label>
+                <select
+                  id="plan-interval"
+                  value={form.interval}
+                  onChange={(e) => setForm({ ...form, interval: e.target.value as PlanForm['interval'] })}
+                  className={inputClass}
+                >
+                  <option value="monthly">Monthly</option>
+                  <option value="yearly">Yearly</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="plan-cycles" className="block text-sm font-medium text-gray-700 mb-2">
+                  Billing cycles
+                </label>
+                <input
+                  id="plan-cycles"
+                  type="number"
+                  min="1"
+                  value={form.totalCycles}
+                  onChange={(e) => setForm({ ...form, totalCycles: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Price and billing interval cannot be changed once the plan is created.
+            </p>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="w-full bg-blue-600 text-white py-3 rounded-xl hover:bg-blue-700 transition font-semibold flex items-center justify-center disabled:opacity-50"
+            >
+              {isSaving && <Loader2 className="h-5 w-5 mr-2 animate-spin" />}
+              Create Plan
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
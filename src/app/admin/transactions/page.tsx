@@ -0,0 +1,308 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, FileDown, Loader2, RotateCcw, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface AdminTransaction {
+  _id: string;
+  userId: { _id: string; name: string; email: string } | null;
+  paperId: { _id: string; title: string } | null;
+  bundleId?: { _id: string; title: string } | null;
+  amount: number;
+  walletAmount?: number;
+  coupon?: { code: string; discount: number };
+  currency: string;
+  tier: 'questions-only' | 'with-solutions';
+  status: 'pending' | 'completed' | 'failed' | 'refunding' | 'refunded';
+  refunds: { razorpayRefundId: string; amount: number; reason?: string; createdAt: string }[];
+  createdAt: string;
+}
+
+const STATUS_FILTERS = ['all', 'completed', 'pending', 'failed', 'refunding', 'refunded'] as const;
+
+const statusColors: Record<AdminTransaction['status'], string> = {
+  completed: 'bg-green-100 text-green-700',
+  pending: 'bg-yellow-100 text-yellow-700',
+  failed: 'bg-red-100 text-red-700',
+  refunding: 'bg-orange-100 text-orange-700',
+  refunded: 'bg-gray-100 text-gray-700',
+};
+
+export default function AdminTransactionsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [transactions, setTransactions] = useState<AdminTransaction[]>([]);
+  const [statusFilter, setStatusFilter] = useState<(typeof STATUS_FILTERS)[number]>('all');
+  const [isLoading, setIsLoading] = useState(true);
+  const [refundingId, setRefundingId] = useState<string | null>(null);
+  const [refundForm, setRefundForm] = useState({ amount: '', reason: '' });
+  const [isRefunding, setIsRefunding] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/login');
+    } else if (status === 'authenticated' && session?.user?.role !== 'admin') {
+      router.push('/dashboard');
+    }
+  }, [status, session, router]);
+
+  useEffect(() => {
+    const fetchTransactions = async () => {
+      try {
+        const params = new URLSearchParams({ limit: '50' });
+        if (statusFilter !== 'all') params.set('status', statusFilter);
+
+        const response = await fetch(`/api/admin/transactions?${params}`);
+        const data = await response.json();
+
+        if (response.ok) {
+          setTransactions(data.transactions || []);
+        }
+      } catch (error) {
+        console.error('Error fetching transactions:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (session?.user?.role === 'admin') {
+      fetchTransactions();
+    }
+  }, [session, statusFilter, reloadKey]);
+
+  const openRefund = (transactionId: string) => {
+    setRefundingId(transactionId);
+    setRefundForm({ amount: '', reason: '' });
+  };
+
+  const handleRefund = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!refundingId) return;
+
+    setIsRefunding(true);
+    try {
+      const response = await fetch(`/api/admin/transactions/${refundingId}/refund`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          amount: refundForm.amount ? parseFloat(refundForm.amount) : undefined,
+          reason: refundForm.reason,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(`Refunded ₹${data.amount}`);
+        setRefundingId(null);
+        setReloadKey((key) => key + 1);
+      } else {
+        toast.error(data.error || 'Refund failed');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setIsRefunding(false);
+    }
+  };
+
+  if (status === 'loading' || isLoading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-8" />
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-gray-200 rounded-xl" />
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session || session.user?.role !== 'admin') {
+    return null;
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Back Link */}
+      <Link
+        href="/admin"
+        className="inline-flex items-center text-gray-600 hover:text-blue-600 mb-6"
+      >
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Back to Admin
+      </Link>
+
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Transactions</h1>
+        <p className="text-gray-600">Review purchases and issue refunds</p>
+      </div>
+
+      {/* Status Filter */}
+      <div className="flex flex-wrap gap-2 mb-6">
+        {STATUS_FILTERS.map((filter) => (
+          <button
+            key={filter}
+            onClick={() => setStatusFilter(filter)}
+            className={`px-4 py-2 rounded-lg text-sm capitalize transition ${
+              statusFilter === filter
+                ? 'bg-blue-600 text-white'
+                : 'bg-white border border-gray-200 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {filter}
+          </button>
+        ))}
+      </div>
+
+      {/* Transactions Table */}
+      <div className="bg-white rounded-xl border border-gray-100 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-500">
+            <tr>
+              <th className="px-4 py-3 font-medium">Date</th>
+              <th className="px-4 py-3 font-medium">User</th>
+              <th className="px-4 py-3 font-medium">Paper</th>
+              <th className="px-4 py-3 font-medium">Amount</th>
+              <th className="px-4 py-3 font-medium">Status</th>
+              <th className="px-4 py-3 font-medium" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {transactions.map((transaction) => {
+              const refunded = transaction.refunds.reduce((sum, r) => sum + r.amount, 0);
+
+              return (
+                <tr key={transaction._id}>
+                  <td className="px-4 py-3 text-gray-500">
+                    {new Date(transaction.createdAt).toLocaleDateString()}
+                  </td>
+                  <td className="px-4 py-3">
+                    <p className="text-gray-900">{transaction.userId?.name || 'Deleted user'}</p>
+                    <p className="text-xs text-gray-500">{transaction.userId?.email}</p>
+                  </td>
+                  <td className="px-4 py-3">
+                    <p className="text-gray-900">
+                      {transaction.paperId?.title || transaction.bundleId?.title || 'Deleted paper'}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {transaction.bundleId ? `Bundle • ${transaction.tier}` : transaction.tier}
+                    </p>
+                  </td>
+                  <td className="px-4 py-3">
+                    <p className="text-gray-900">₹{transaction.amount}</p>
+                    {transaction.coupon && (
+                      <p className="text-xs text-gray-500">
+                        {transaction.coupon.code} (−₹{transaction.coupon.discount})
+                      </p>
+                    )}
+                    {!!transaction.walletAmount && (
+                      <p className="text-xs text-purple-600">₹{transaction.walletAmount} from wallet</p>
+                    )}
+                    {refunded > 0 && (
+                      <p className="text-xs text-red-500">₹{refunded} refunded</p>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-1 rounded-full text-xs ${statusColors[transaction.status]}`}>
+                      {transaction.status}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap">
+                    {['completed', 'refunded'].includes(transaction.status) && transaction.amount > 0 && (
+                      <a
+                        href={`/api/invoices/${transaction._id}`}
+                        className="inline-flex items-center px-3 py-1.5 mr-2 border border-gray-200 rounded-lg text-gray-700 hover:bg-gray-50"
+                      >
+                        <FileDown className="h-4 w-4 mr-1" />
+                        Invoice
+                      </a>
+                    )}
+                    {transaction.status === 'completed' && transaction.amount > refunded && (
+                      <button
+                        onClick={() => openRefund(transaction._id)}
+                        className="inline-flex items-center px-3 py-1.5 border border-gray-200 rounded-lg text-gray-700 hover:bg-gray-50"
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Refund
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {transactions.length === 0 && (
+          <p className="text-center text-gray-500 py-12">No transactions found</p>
+        )}
+      </div>
+
+      {/* Refund Form */}
+      {refundingId && (
+        <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center px-4">
+          <form
+            onSubmit={handleRefund}
+            className="bg-white rounded-2xl p-6 w-full max-w-md space-y-4"
+          >
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-gray-900">Issue Refund</h2>
+              <button
+                type="button"
+                onClick={() => setRefundingId(null)}
+                className="p-1 rounded hover:bg-gray-100"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div>
+              <label htmlFor="refund-amount" className="block text-sm font-medium text-gray-700 mb-2">
+                Amount (leave empty for a full refund)
+              </label>
+              <input
+                id="refund-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={refundForm.amount}
+                onChange={(e) => setRefundForm({ ...refundForm, amount: e.target.value })}
+                className="w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 outline-none"
+              />
+            </div>
+            <div>
+              <label htmlFor="refund-reason" className="block text-sm font-medium text-gray-700 mb-2">
+                Reason
+              </label>
+              <textarea
+                id="refund-reason"
+                required
+                value={refundForm.reason}
+                onChange={(e) => setRefundForm({ ...refundForm, reason: e.target.value })}
+                className="w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 outline-none"
+                rows={3}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isRefunding}
+              className="w-full bg-red-600 text-white py-3 rounded-xl hover:bg-red-700 transition font-semibold flex items-center justify-center disabled:opacity-50"
+            >
+              {isRefunding && <Loader2 className="h-5 w-5 mr-2 animate-spin" />}
+              Confirm Refund
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -21,6 +21,7 @@ import {
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { validateFile, formatFileSize } from '@/lib/fileValidation';
+import { OVERRIDE_CURRENCIES, OverrideCurrency } from '@/lib/currency';
 
 // Types
 interface DetectedQuestion {
@@ -50,6 +51,8 @@ interface FormData {
   // Step 3: Pricing
   questionsOnlyPrice: number;
   withSolutionsPrice: number;
+  // Optional prices for buyers paying in other currencies; blank means not sold in that currency
+  currencyPrices: Record<OverrideCurrency, { questionsOnlyPrice: string; withSolutionsPrice: string }>;
 
   // Step 4: Solutions
   solutionType: 'pdf' | 'manual' | 'skip';
@@ -92,6 +95,11 @@ export default function UploadPaperPage() {
     originalFilename: '',
     questionsOnlyPrice: 0,
     withSolutionsPrice: 0,
+    currencyPrices: {
+      USD: { questionsOnlyPrice: '', withSolutionsPrice: '' },
+      AED: { questionsOnlyPrice: '', withSolutionsPrice: '' },
+      GBP: { questionsOnlyPrice: '', withSolutionsPrice: '' },
+    },
     solutionType: 'skip',
     solutionFileUrl: '',
     solutionFileSize: 0,
@@ -122,12 +130,15 @@ export default function UploadPaperPage() {
     );
   }
 
-  // Auth check
-  if (!session || session.user?.role !== 'admin') {
+  // Auth check (sellers use the same wizard from /seller/upload)
+  if (!session || (session.user?.role !== 'admin' && session.user?.role !== 'seller')) {
     router.push('/');
     return null;
   }
 
+  const isSeller = session.user.role === 'seller';
+  const homeUrl = isSeller ? '/seller' : '/admin';
+
   // Handle form field changes
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
@@ -136,6 +147,21 @@ export default function UploadPaperPage() {
     setFormData((prev) => ({ ...prev, [name]: value }));
   };
 
+  // Handle international price changes
+  const handleCurrencyPriceChange = (
+    currency: OverrideCurrency,
+    field: 'questionsOnlyPrice' | 'withSolutionsPrice',
+    value: string
+  ) => {
+    setFormData((prev) => ({
+      ...prev,
+      currencyPrices: {
+        ...prev.currencyPrices,
+        [currency]: { ...prev.currencyPrices[currency], [field]: value },
+      },
+    }));
+  };
+
   // Handle file selection for question paper
   const handleQuestionFileSelect = async (file: File) => {
     const validation = validateFile(file);
@@ -373,13 +399,22 @@ export default function UploadPaperPage() {
         questionsOnlyPrice: formData.questionsOnlyPrice,
         withSolutionsPrice: formData.withSolutionsPrice,
         price: formData.paperType === 'with-solutions' ? formData.withSolutionsPrice : formData.questionsOnlyPrice,
+        currencyPrices: OVERRIDE_CURRENCIES.filter((currency) => formData.currencyPrices[currency].questionsOnlyPrice !== '').map(
+          (currency) => ({
+            currency,
+            questionsOnlyPrice: Number(formData.currencyPrices[currency].questionsOnlyPrice),
+            withSolutionsPrice:
+              formData.paperType === 'with-solutions' && formData.currencyPrices[currency].withSolutionsPrice !== ''
+                ? Number(formData.currencyPrices[currency].withSolutionsPrice)
+                : undefined,
+          })
+        ),
         hasSolutions: formData.paperType === 'with-solutions' && formData.solutionType !== 'skip',
         solutionType: formData.solutionType !== 'skip' ? formData.solutionType : undefined,
         solutionFileUrl: formData.solutionFileUrl || undefined,
         solutionFileSize: formData.solutionFileSize || undefined,
         questions: formData.questions,
         totalQuestions: formData.questions.length,
-        uploadedBy: session.user.id,
       };
 
       const response = await fetch('/api/papers', {
@@ -391,8 +426,8 @@ export default function UploadPaperPage() {
       const data = await response.json();
 
       if (response.ok) {
-        toast.success('Paper published successfully!');
-        router.push('/admin');
+        toast.success(isSeller ? 'Paper submitted for review!' : 'Paper published successfully!');
+        router.push(homeUrl);
       } else {
         toast.error(data.error || 'Failed to publish paper');
       }
@@ -820,6 +855,43 @@ export default function UploadPaperPage() {
           </div>
         </div>
       )}
+
+      {/* International Prices */}
+      <div>
+        <h3 className="font-medium text-gray-900 mb-1">International Prices (optional)</h3>
+        <p className="text-xs text-gray-500 mb-3">
+          Buyers who prefer one of these currencies pay in it. Leave blank to sell only in ₹.
+        </p>
+        <div className="space-y-3">
+          {OVERRIDE_CURRENCIES.map((currency) => (
+            <div key={currency} className="grid grid-cols-[4rem_1fr_1fr] gap-3 items-center">
+              <span className="text-sm font-medium text-gray-700">{currency}</span>
+              <input
+                type="number"
+                aria-label={`${currency} questions only price`}
+                value={formData.currencyPrices[currency].questionsOnlyPrice}
+                onChange={(e) => handleCurrencyPriceChange(currency, 'questionsOnlyPrice', e.target.value)}
+                min={0}
+                step="0.01"
+                className="w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-100 outline-none transition"
+                placeholder={formData.paperType === 'with-solutions' ? 'Questions only' : 'Price'}
+              />
+              {formData.paperType === 'with-solutions' && (
+                <input
+                  type="number"
+                  aria-label={`${currency} with solutions price`}
+                  value={formData.currencyPrices[currency].withSolutionsPrice}
+                  onChange={(e) => handleCurrencyPriceChange(currency, 'withSolutionsPrice', e.target.value)}
+                  min={0}
+                  step="0.01"
+                  className="w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-100 outline-none transition"
+                  placeholder="With solutions"
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
     </div>
   );
 
@@ -1026,17 +1098,21 @@ export default function UploadPaperPage() {
     <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       {/* Back Link */}
       <Link
-        href="/admin"
+        href={homeUrl}
         className="inline-flex items-center text-gray-600 hover:text-blue-600 mb-6"
       >
         <ArrowLeft className="h-4 w-4 mr-2" />
-        Back to Admin
+        {isSeller ? 'Back to Seller Dashboard' : 'Back to Admin'}
       </Link>
 
       {/* Header */}
       <div className="mb-8">
         <h1 className="text-3xl font-bold text-gray-900 mb-2">Upload New Paper</h1>
-        <p className="text-gray-600">Add a new question paper to the platform</p>
+        <p className="text-gray-600">
+          {isSeller
+            ? 'Submit a question paper; it goes on sale once an admin approves it'
+            : 'Add a new question paper to the platform'}
+        </p>
       </div>
 
       {/* Stepper */}
@@ -1120,12 +1196,12 @@ export default function UploadPaperPage() {
             {isSubmitting ? (
               <>
                 <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                Publishing...
+                {isSeller ? 'Submitting...' : 'Publishing...'}
               </>
             ) : (
               <>
                 <Check className="h-4 w-4 mr-2" />
-                Publish Paper
+                {isSeller ? 'Submit for Review' : 'Publish Paper'}
               </>
             )}
           </button>
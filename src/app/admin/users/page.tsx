@@ -0,0 +1,499 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Ban, Loader2, LogOut, Search, Wallet, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface AdminUser {
+  _id: string;
+  name: string;
+  email: string;
+  role: 'student' | 'admin' | 'org-admin' | 'seller';
+  bannedAt?: string;
+  banReason?: string;
+  wallet?: { balance: number };
+  createdAt: string;
+}
+
+interface WalletEntry {
+  _id: string;
+  type: 'credit' | 'debit';
+  amount: number;
+  reason: string;
+  note?: string;
+  createdAt: string;
+}
+
+interface WalletForm {
+  action: 'grant' | 'clawback';
+  amount: string;
+  reason: 'admin-grant' | 'promotion' | 'refund' | 'referral';
+  note: string;
+}
+
+const emptyWalletForm: WalletForm = { action: 'grant', amount: '', reason: 'admin-grant', note: '' };
+
+export default function AdminUsersPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [walletUser, setWalletUser] = useState<AdminUser | null>(null);
+  const [walletEntries, setWalletEntries] = useState<WalletEntry[]>([]);
+  const [walletForm, setWalletForm] = useState<WalletForm>(emptyWalletForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [banUser, setBanUser] = useState<AdminUser | null>(null);
+  const [banReason, setBanReason] = useState('');
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/login');
+    } else if (status === 'authenticated' && session?.user?.role !== 'admin') {
+      router.push('/dashboard');
+    }
+  }, [status, session, router]);
+
+  useEffect(() => {
+    const fetchUsers = async () => {
+      try {
+        const params = new URLSearchParams({ limit: '50' });
+        if (query) params.set('search', query);
+
+        const response = await fetch(`/api/admin/users?${params}`);
+        const data = await response.json();
+
+        if (response.ok) {
+          setUsers(data.users || []);
+        }
+      } catch (error) {
+        console.error('Error fetching users:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (session?.user?.role === 'admin') {
+      fetchUsers();
+    }
+  }, [session, query, reloadKey]);
+
+  const openWallet = async (user: AdminUser) => {
+    setWalletUser(user);
+    setWalletEntries([]);
+    setWalletForm(emptyWalletForm);
+
+    try {
+      const response = await fetch(`/api/admin/users/${user._id}/wallet`);
+      const data = await response.json();
+
+      if (response.ok) {
+        setWalletEntries(data.entries || []);
+      }
+    } catch (error) {
+      console.error('Error fetching wallet:', error);
+    }
+  };
+
+  const handleWalletChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!walletUser) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/admin/users/${walletUser._id}/wallet`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: walletForm.action,
+          amount: parseFloat(walletForm.amount) || 0,
+          reason: walletForm.reason,
+          note: walletForm.note,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(`${data.message}. New balance ₹${data.balance}`);
+        setWalletUser(null);
+        setReloadKey((key) => key + 1);
+      } else {
+        toast.error(data.error || 'Failed to update wallet');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateUser = async (user: AdminUser, body: Record<string, string>) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/admin/users/${user._id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(data.message);
+        setBanUser(null);
+        setReloadKey((key) => key + 1);
+      } else {
+        toast.error(data.error || 'Failed to update user');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRoleChange = (user: AdminUser) => {
+    const role = user.role === 'admin' ? 'student' : 'admin';
+    if (!confirm(`Make ${user.name} ${role === 'admin' ? 'an admin' : 'a student'}?`)) return;
+
+    updateUser(user, { action: 'set-role', role });
+  };
+
+  const handleSignOut = (user: AdminUser) => {
+    if (!confirm(`Sign ${user.name} out of all devices?`)) return;
+
+    updateUser(user, { action: 'sign-out' });
+  };
+
+  const handleUnban = (user: AdminUser) => {
+    if (!confirm(`Lift the ban on ${user.name}?`)) return;
+
+    updateUser(user, { action: 'unban' });
+  };
+
+  if (status === 'loading' || isLoading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-8" />
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-gray-200 rounded-xl" />
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session || session.user?.role !== 'admin') {
+    return null;
+  }
+
+  const inputClass = 'w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 outline-none';
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Back Link */}
+      <Link
+        href="/admin"
+        className="inline-flex items-center text-gray-600 hover:text-blue-600 mb-6"
+      >
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Back to Admin
+      </Link>
+
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Users</h1>
+        <p className="text-gray-600">Look up accounts, manage store credit and suspend access</p>
+      </div>
+
+      {/* Search */}
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          setQuery(search.trim());
+        }}
+        className="flex gap-2 mb-6 max-w-md"
+      >
+        <input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by name or email"
+          className={inputClass}
+        />
+        <button
+          type="submit"
+          className="inline-flex items-center bg-blue-600 text-white px-4 py-2 rounded-xl hover:bg-blue-700 transition"
+        >
+          <Search className="h-4 w-4" />
+        </button>
+      </form>
+
+      {/* Users Table */}
+      <div className="bg-white rounded-xl border border-gray-100 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-500">
+            <tr>
+              <th className="px-4 py-3 font-medium">User</th>
+              <th className="px-4 py-3 font-medium">Role</th>
+              <th className="px-4 py-3 font-medium">Joined</th>
+              <th className="px-4 py-3 font-medium">Wallet</th>
+              <th className="px-4 py-3 font-medium" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {users.map((user) => (
+              <tr key={user._id}>
+                <td className="px-4 py-3">
+                  <p className="text-gray-900">{user.name}</p>
+                  <p className="text-xs text-gray-500">{user.email}</p>
+                </td>
+                <td className="px-4 py-3">
+                  <span className="text-gray-600 capitalize">{user.role}</span>
+                  {user.bannedAt && (
+                    <span
+                      title={user.banReason}
+                      className="ml-2 px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-700"
+                    >
+                      Banned
+                    </span>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-gray-500">{new Date(user.createdAt).toLocaleDateString()}</td>
+                <td className="px-4 py-3 text-gray-900">₹{user.wallet?.balance || 0}</td>
+                <td className="px-4 py-3">
+                  <div className="flex justify-end gap-2 whitespace-nowrap">
+                    <button
+                      onClick={() => openWallet(user)}
+                      className="inline-flex items-center px-3 py-1.5 border border-gray-200 rounded-lg text-gray-700 hover:bg-gray-50"
+                    >
+                      <Wallet className="h-4 w-4 mr-1" />
+                      Wallet
+                    </button>
+                    {user._id !== session.user.id && (
+                      <>
+                        {(user.role === 'student' || user.role === 'admin') && (
+                          <button
+                            onClick={() => handleRoleChange(user)}
+                            disabled={isSaving}
+                            className="px-3 py-1.5 border border-gray-200 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                          >
+                            {user.role === 'admin' ? 'Remove Admin' : 'Make Admin'}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleSignOut(user)}
+                          disabled={isSaving}
+                          className="inline-flex items-center px-3 py-1.5 border border-gray-200 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          <LogOut className="h-4 w-4 mr-1" />
+                          Sign Out
+                        </button>
+                        {user.bannedAt ? (
+                          <button
+                            onClick={() => handleUnban(user)}
+                            disabled={isSaving}
+                            className="px-3 py-1.5 border border-gray-200 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                          >
+                            Unban
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => {
+                              setBanUser(user);
+                              setBanReason('');
+                            }}
+                            className="inline-flex items-center px-3 py-1.5 border border-red-200 rounded-lg text-red-600 hover:bg-red-50"
+                          >
+                            <Ban className="h-4 w-4 mr-1" />
+                            Ban
+                          </button>
+                        )}
+                      </>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {users.length === 0 && (
+          <p className="text-center text-gray-500 py-12">No users found</p>
+        )}
+      </div>
+
+      {/* Ban Modal */}
+      {banUser && (
+        <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center px-4">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              updateUser(banUser, { action: 'ban', reason: banReason });
+            }}
+            className="bg-white rounded-2xl p-6 w-full max-w-lg space-y-4"
+          >
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-gray-900">Ban {banUser.name}</h2>
+              <button
+                type="button"
+                onClick={() => setBanUser(null)}
+                className="p-1 rounded hover:bg-gray-100"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <p className="text-sm text-gray-600">
+              They are signed out of every device straight away and cannot sign in until the ban is lifted.
+            </p>
+            <div>
+              <label htmlFor="ban-reason" className="block text-sm font-medium text-gray-700 mb-2">
+                Reason (kept in the audit log)
+              </label>
+              <input
+                id="ban-reason"
+                required
+                maxLength={200}
+                value={banReason}
+                onChange={(e) => setBanReason(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="w-full bg-red-600 text-white py-3 rounded-xl hover:bg-red-700 transition font-semibold flex items-center justify-center disabled:opacity-50"
+            >
+              {isSaving && <Loader2 className="h-5 w-5 mr-2 animate-spin" />}
+              Ban User
+            </button>
+          </form>
+        </div>
+      )}
+
+      {/* Wallet Panel */}
+      {walletUser && (
+        <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center px-4">
+          <div className="bg-white rounded-2xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">{walletUser.name}&apos;s Wallet</h2>
+                <p className="text-sm text-gray-500">Balance ₹{walletUser.wallet?.balance || 0}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setWalletUser(null)}
+                className="p-1 rounded hover:bg-gray-100"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleWalletChange} className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="wallet-action" className="block text-sm font-medium text-gray-700 mb-2">
+                  Action
+                </label>
+                <select
+                  id="wallet-action"
+                  value={walletForm.action}
+                  onChange={(e) => setWalletForm({ ...walletForm, action: e.target.value as WalletForm['action'] })}
+                  className={inputClass}
+                >
+                  <option value="grant">Grant credit</option>
+                  <option value="clawback">Claw back credit</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="wallet-amount" className="block text-sm font-medium text-gray-700 mb-2">
+                  Amount (₹)
+                </label>
+                <input
+                  id="wallet-amount"
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  required
+                  value={walletForm.amount}
+                  onChange={(e) => setWalletForm({ ...walletForm, amount: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              {walletForm.action === 'grant' && (
+                <div className="col-span-2">
+                  <label htmlFor="wallet-reason" className="block text-sm font-medium text-gray-700 mb-2">
+                    Reason
+                  </label>
+                  <select
+                    id="wallet-reason"
+                    value={walletForm.reason}
+                    onChange={(e) => setWalletForm({ ...walletForm, reason: e.target.value as WalletForm['reason'] })}
+                    className={inputClass}
+                  >
+                    <option value="admin-grant">Goodwill credit</option>
+                    <option value="promotion">Promotion</option>
+                    <option value="refund">Refund as credit</option>
+                    <option value="referral">Referral reward</option>
+                  </select>
+                </div>
+              )}
+              <div className="col-span-2">
+                <label htmlFor="wallet-note" className="block text-sm font-medium text-gray-700 mb-2">
+                  Note (shown to the user and kept in the audit log)
+                </label>
+                <input
+                  id="wallet-note"
+                  required
+                  maxLength={200}
+                  value={walletForm.note}
+                  onChange={(e) => setWalletForm({ ...walletForm, note: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="col-span-2 bg-blue-600 text-white py-3 rounded-xl hover:bg-blue-700 transition font-semibold flex items-center justify-center disabled:opacity-50"
+              >
+                {isSaving && <Loader2 className="h-5 w-5 mr-2 animate-spin" />}
+                {walletForm.action === 'grant' ? 'Grant Credit' : 'Claw Back Credit'}
+              </button>
+            </form>
+
+            <div>
+              <h3 className="font-semibold text-gray-900 mb-2">History</h3>
+              {walletEntries.length > 0 ? (
+                <div className="divide-y divide-gray-100 text-sm">
+                  {walletEntries.map((entry) => (
+                    <div key={entry._id} className="flex items-center justify-between py-2">
+                      <div>
+                        <p className="text-gray-900">{entry.reason}</p>
+                        <p className="text-xs text-gray-500">
+                          {new Date(entry.createdAt).toLocaleString()}
+                          {entry.note && ` • ${entry.note}`}
+                        </p>
+                      </div>
+                      <p className={entry.type === 'credit' ? 'text-green-600' : 'text-gray-900'}>
+                        {entry.type === 'credit' ? '+' : '−'}₹{entry.amount}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">No wallet activity yet</p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
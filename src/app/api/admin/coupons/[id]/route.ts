@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import Coupon from '@/models/Coupon';
+import { requireApiAdmin } from '@/lib/apiAuth';
+import { pickCouponFields } from '@/lib/coupons';
+
+/**
+ * PUT /api/admin/coupons/[id]
+ * Update a coupon (e.g. extend its validity or deactivate it)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { error } = await requireApiAdmin();
+    if (error) return error;
+
+    await dbConnect();
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid coupon ID' },
+        { status: 400 }
+      );
+    }
+
+    const coupon = await Coupon.findById(id);
+
+    if (!coupon) {
+      return NextResponse.json(
+        { error: 'Coupon not found' },
+        { status: 404 }
+      );
+    }
+
+    // Saved through the document so cross-field validation runs
+    coupon.set(pickCouponFields(await request.json()));
+    await coupon.save();
+
+    return NextResponse.json({
+      message: 'Coupon updated successfully',
+      coupon,
+    });
+  } catch (error: unknown) {
+    console.error('Error updating coupon:', error);
+
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if ((error as { code?: number }).code === 11000) {
+      return NextResponse.json(
+        { error: 'A coupon with this code already exists' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update coupon' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/coupons/[id]
+ * Delete a coupon; transactions keep the code and discount they were charged with
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { error } = await requireApiAdmin();
+    if (error) return error;
+
+    await dbConnect();
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid coupon ID' },
+        { status: 400 }
+      );
+    }
+
+    const coupon = await Coupon.findByIdAndDelete(id);
+
+    if (!coupon) {
+      return NextResponse.json(
+        { error: 'Coupon not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      message: 'Coupon deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting coupon:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete coupon' },
+      { status: 500 }
+    );
+  }
+}
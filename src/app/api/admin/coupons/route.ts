@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import Coupon from '@/models/Coupon';
+import Transaction from '@/models/Transaction';
+import { requireApiAdmin } from '@/lib/apiAuth';
+import { pickCouponFields } from '@/lib/coupons';
+
+/**
+ * GET /api/admin/coupons
+ * List coupons with redemption totals from completed transactions
+ */
+export async function GET() {
+  try {
+    const { error } = await requireApiAdmin();
+    if (error) return error;
+
+    await dbConnect();
+
+    const [coupons, usage] = await Promise.all([
+      Coupon.find().sort({ createdAt: -1 }).lean(),
+      Transaction.aggregate<{ _id: string; redemptions: number; totalDiscount: number; revenue: number }>([
+        { $match: { status: 'completed', 'coupon.couponId': { $exists: true } } },
+        {
+          $group: {
+            _id: '$coupon.couponId',
+            redemptions: { $sum: 1 },
+            totalDiscount: { $sum: '$coupon.discount' },
+            revenue: { $sum: '$amount' },
+          },
+        },
+      ]),
+    ]);
+
+    const usageByCoupon = new Map(usage.map((u) => [u._id.toString(), u]));
+
+    return NextResponse.json({
+      coupons: coupons.map((coupon) => {
+        const stats = usageByCoupon.get(coupon._id.toString());
+
+        return {
+          ...coupon,
+          redemptions: stats?.redemptions || 0,
+          totalDiscount: stats?.totalDiscount || 0,
+          revenue: stats?.revenue || 0,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error('Error fetching coupons:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch coupons' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/coupons
+ * Create a coupon
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { session, error } = await requireApiAdmin();
+    if (error) return error;
+
+    await dbConnect();
+
+    const coupon = await Coupon.create({
+      ...pickCouponFields(await request.json()),
+      createdBy: session.user.id,
+    });
+
+    return NextResponse.json(
+      { message: 'Coupon created successfully', coupon },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    console.error('Error creating coupon:', error);
+
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if ((error as { code?: number }).code === 11000) {
+      return NextResponse.json(
+        { error: 'A coupon with this code already exists' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create coupon' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import LoginAttempt from '@/models/LoginAttempt';
+import LoginThrottle from '@/models/LoginThrottle';
+import { requireApiAdmin } from '@/lib/apiAuth';
+import { recordAudit } from '@/lib/audit';
+
+const ATTEMPT_RESULTS = ['success', 'invalid-credentials', 'locked', 'unverified', 'suspended'];
+
+/**
+ * GET /api/admin/login-attempts
+ * Recent sign-in attempts, newest first, plus the lockouts in force
+ * Query: ?identifier=email-or-phone&ip=&result=&limit=100
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { error } = await requireApiAdmin();
+    if (error) return error;
+
+    await dbConnect();
+
+    const { searchParams } = request.nextUrl;
+    const identifier = searchParams.get('identifier');
+    const ip = searchParams.get('ip');
+    const result = searchParams.get('result');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100'), 500);
+
+    const query: Record<string, unknown> = {};
+
+    if (identifier) {
+      query.identifier = identifier.trim().toLowerCase();
+    }
+
+    if (ip) {
+      query.ip = ip.trim();
+    }
+
+    if (result && ATTEMPT_RESULTS.includes(result)) {
+      query.result = result;
+    }
+
+    const [attempts, locks] = await Promise.all([
+      LoginAttempt.find(query)
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .populate('userId', 'name email')
+        .lean(),
+      LoginThrottle.find({ lockedUntil: { $gt: new Date() } })
+        .sort({ lockedUntil: -1 })
+        .lean(),
+    ]);
+
+    return NextResponse.json({ attempts, locks });
+  } catch (error) {
+    console.error('Error fetching login attempts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch login attempts' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/login-attempts
+ * Lift a lockout early and reset its failure count
+ * Query: ?key=email:<address> | phone:<number> | ip:<address>
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { session, error } = await requireApiAdmin();
+    if (error) return error;
+
+    const key = request.nextUrl.searchParams.get('key');
+
+    if (!key) {
+      return NextResponse.json(
+        { error: 'Lockout key is required' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const removed = await LoginThrottle.findOneAndDelete({ key });
+
+    if (!removed) {
+      return NextResponse.json(
+        { error: 'Lockout not found' },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit({
+      action: 'login.unlock',
+      userId: session.user.id,
+      details: { key, failures: removed.failures, via: 'admin' },
+    });
+
+    return NextResponse.json({ message: 'Lockout lifted' });
+  } catch (error) {
+    console.error('Error lifting lockout:', error);
+    return NextResponse.json(
+      { error: 'Failed to lift lockout' },
+      { status: 500 }
+    );
+  }
+}
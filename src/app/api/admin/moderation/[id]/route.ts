@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import Paper from '@/models/Paper';
+import { requireApiAdmin } from '@/lib/apiAuth';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * POST /api/admin/moderation/[id]
+ * Approve a seller submission (puts it on sale) or reject it
+ * Body: { action: 'approve' | 'reject', note?: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, error } = await requireApiAdmin();
+    if (error) return error;
+
+    const { id } = await params;
+    const { action, note } = await request.json();
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid paper ID' },
+        { status: 400 }
+      );
+    }
+
+    if (action !== 'approve' && action !== 'reject') {
+      return NextResponse.json(
+        { error: "Action must be 'approve' or 'reject'" },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'reject' && !note?.trim()) {
+      return NextResponse.json(
+        { error: 'Tell the seller why the paper was rejected' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const paper = await Paper.findOneAndUpdate(
+      { _id: id, moderationStatus: 'pending' },
+      {
+        $set: {
+          moderationStatus: action === 'approve' ? 'approved' : 'rejected',
+          isActive: action === 'approve',
+          moderationNote: note?.trim() || undefined,
+          reviewedBy: session.user.id,
+          reviewedAt: new Date(),
+        },
+      },
+      { new: true, runValidators: true }
+    );
+
+    if (!paper) {
+      return NextResponse.json(
+        { error: 'Paper not found or already reviewed' },
+        { status: 409 }
+      );
+    }
+
+    await recordAudit({
+      action: `paper.${action}`,
+      userId: session.user.id,
+      details: { paperId: id, sellerId: paper.uploadedBy.toString(), note },
+    });
+
+    return NextResponse.json({
+      message: action === 'approve' ? 'Paper approved and published' : 'Paper rejected',
+    });
+  } catch (error) {
+    console.error('Error moderating paper:', error);
+    return NextResponse.json(
+      { error: 'Failed to moderate paper' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import Paper from '@/models/Paper';
+import { requireApiAdmin } from '@/lib/apiAuth';
+
+/**
+ * GET /api/admin/moderation
+ * Seller submissions waiting for review, oldest first
+ */
+export async function GET() {
+  try {
+    const { error } = await requireApiAdmin();
+    if (error) return error;
+
+    await dbConnect();
+
+    const papers = await Paper.find({ moderationStatus: 'pending' })
+      .sort({ createdAt: 1 })
+      .populate('uploadedBy', 'name email')
+      .select(
+        'title description category examName subject year paperType questionsOnlyPrice withSolutionsPrice hasSolutions totalQuestions uploadedBy createdAt'
+      )
+      .lean();
+
+    return NextResponse.json({ papers });
+  } catch (error) {
+    console.error('Error fetching moderation queue:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch moderation queue' },
+      { status: 500 }
+    );
+  }
+}
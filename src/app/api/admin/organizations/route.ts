@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import Organization from '@/models/Organization';
+import User from '@/models/User';
+import Transaction from '@/models/Transaction';
+import { requireApiAdmin } from '@/lib/apiAuth';
+import { recordAudit } from '@/lib/audit';
+
+const ORGANIZATION_TYPES = ['school', 'coaching', 'other'];
+
+/**
+ * GET /api/admin/organizations
+ * List organizations with member and seat counts
+ */
+export async function GET() {
+  try {
+    const { error } = await requireApiAdmin();
+    if (error) return error;
+
+    await dbConnect();
+
+    const [organizations, members, seats] = await Promise.all([
+      Organization.find().sort({ createdAt: -1 }).lean(),
+      User.aggregate<{ _id: string; members: number; admins: string[] }>([
+        { $match: { organizationId: { $exists: true } } },
+        {
+          $group: {
+            _id: '$organizationId',
+            members: { $sum: 1 },
+            admins: { $push: { $cond: [{ $eq: ['$role', 'org-admin'] }, '$email', '$$REMOVE'] } },
+          },
+        },
+      ]),
+      Transaction.aggregate<{ _id: string; seats: number; seatsAssigned: number; revenue: number }>([
+        { $match: { seats: { $exists: true }, status: 'completed' } },
+        {
+          $group: {
+            _id: '$organizationId',
+            seats: { $sum: '$seats' },
+            seatsAssigned: { $sum: '$seatsAssigned' },
+            revenue: { $sum: '$amount' },
+          },
+        },
+      ]),
+    ]);
+
+    const membersByOrg = new Map(members.map((m) => [m._id.toString(), m]));
+    const seatsByOrg = new Map(seats.map((s) => [s._id.toString(), s]));
+
+    return NextResponse.json({
+      organizations: organizations.map((organization) => {
+        const id = organization._id.toString();
+
+        return {
+          ...organization,
+          members: membersByOrg.get(id)?.members || 0,
+          admins: membersByOrg.get(id)?.admins || [],
+          seats: seatsByOrg.get(id)?.seats || 0,
+          seatsAssigned: seatsByOrg.get(id)?.seatsAssigned || 0,
+          revenue: seatsByOrg.get(id)?.revenue || 0,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error('Error fetching organizations:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch organizations' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/organizations
+ * Create an organization and make an existing student its org admin
+ * Body: { name: string, type?: string, contactEmail?: string, adminEmail: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { session, error } = await requireApiAdmin();
+    if (error) return error;
+
+    const { name, type = 'coaching', contactEmail, adminEmail } = await request.json();
+
+    if (!name || !adminEmail) {
+      return NextResponse.json(
+        { error: 'Name and org admin email are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!ORGANIZATION_TYPES.includes(type)) {
+      return NextResponse.json(
+        { error: 'Invalid organization type' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const admin = await User.findOne({ email: String(adminEmail).trim().toLowerCase() });
+
+    if (!admin) {
+      return NextResponse.json(
+        { error: 'No account found for the org admin email. Ask them to register first.' },
+        { status: 404 }
+      );
+    }
+
+    if (admin.role !== 'student' || admin.organizationId) {
+      return NextResponse.json(
+        { error: 'The org admin must be a student account not already in an organization' },
+        { status: 409 }
+      );
+    }
+
+    const organization = await Organization.create({
+      name,
+      type,
+      contactEmail: contactEmail || admin.email,
+      createdBy: session.user.id,
+    });
+
+    const promoted = await User.findOneAndUpdate(
+      { _id: admin._id, role: 'student', organizationId: { $exists: false } },
+      { $set: { role: 'org-admin', organizationId: organization._id } }
+    );
+
+    if (!promoted) {
+      await Organization.deleteOne({ _id: organization._id });
+      return NextResponse.json(
+        { error: 'The org admin must be a student account not already in an organization' },
+        { status: 409 }
+      );
+    }
+
+    await recordAudit({
+      action: 'organization.create',
+      userId: session.user.id,
+      details: { organizationId: organization._id.toString(), orgAdminId: admin._id.toString() },
+    });
+
+    return NextResponse.json(
+      { message: 'Organization created', organization },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    console.error('Error creating organization:', error);
+
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create organization' },
+      { status: 500 }
+    );
+  }
+}
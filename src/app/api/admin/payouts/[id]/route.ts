@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import { requireApiAdmin } from '@/lib/apiAuth';
+import { recordAudit } from '@/lib/audit';
+import { settlePayout } from '@/lib/sellers';
+
+/**
+ * POST /api/admin/payouts/[id]
+ * Settle a pending seller payout once the transfer is made, or reject it
+ * Body: { action: 'pay' | 'reject', reference?: string, note?: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, error } = await requireApiAdmin();
+    if (error) return error;
+
+    const { id } = await params;
+    const { action, reference, note } = await request.json();
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid payout ID' },
+        { status: 400 }
+      );
+    }
+
+    if (action !== 'pay' && action !== 'reject') {
+      return NextResponse.json(
+        { error: "Action must be 'pay' or 'reject'" },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const result = await settlePayout(id, session.user.id, { action, reference, note });
+
+    if (result.error !== undefined) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    await recordAudit({
+      action: `payout.${action}`,
+      userId: session.user.id,
+      details: {
+        payoutId: id,
+        sellerId: result.payout.sellerId.toString(),
+        amount: result.payout.amount,
+        currency: result.payout.currency,
+        reference,
+      },
+    });
+
+    return NextResponse.json({
+      message: action === 'pay' ? 'Payout marked as paid' : 'Payout rejected',
+      payout: result.payout,
+    });
+  } catch (error) {
+    console.error('Error settling payout:', error);
+    return NextResponse.json(
+      { error: 'Failed to settle payout' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import SellerPayout from '@/models/SellerPayout';
+import { requireApiAdmin } from '@/lib/apiAuth';
+
+const PAYOUT_STATUSES = ['pending', 'paid', 'rejected'];
+
+/**
+ * GET /api/admin/payouts
+ * Seller payout ledger, oldest first
+ * Query: ?status=pending|paid|rejected&limit=50
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { error } = await requireApiAdmin();
+    if (error) return error;
+
+    await dbConnect();
+
+    const status = request.nextUrl.searchParams.get('status');
+    const limit = parseInt(request.nextUrl.searchParams.get('limit') || '50');
+
+    const query: Record<string, unknown> = {};
+
+    if (status && PAYOUT_STATUSES.includes(status)) {
+      query.status = status;
+    }
+
+    const payouts = await SellerPayout.find(query)
+      .sort({ createdAt: status === 'pending' ? 1 : -1 })
+      .limit(limit)
+      .populate('sellerId', 'name email')
+      .lean();
+
+    return NextResponse.json({ payouts });
+  } catch (error) {
+    console.error('Error fetching payouts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch payouts' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import Referral from '@/models/Referral';
+import { requireApiAdmin } from '@/lib/apiAuth';
+
+/**
+ * GET /api/admin/referrals
+ * Referral leaderboard and the most recent rejected referrals
+ * Query: ?limit=20
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { error } = await requireApiAdmin();
+    if (error) return error;
+
+    await dbConnect();
+
+    const limit = parseInt(request.nextUrl.searchParams.get('limit') || '20');
+
+    const [leaderboard, rejected] = await Promise.all([
+      Referral.aggregate([
+        {
+          $group: {
+            _id: '$referrerId',
+            signups: { $sum: 1 },
+            rewarded: { $sum: { $cond: [{ $eq: ['$status', 'rewarded'] }, 1, 0] } },
+            rejected: { $sum: { $cond: [{ $eq: ['$status', 'rejected'] }, 1, 0] } },
+            earned: { $sum: { $ifNull: ['$rewardAmount', 0] } },
+          },
+        },
+        { $sort: { rewarded: -1, signups: -1 } },
+        { $limit: limit },
+        { $lookup: { from: 'users', localField: '_id', foreignField: '_id', as: 'referrer' } },
+        { $unwind: { path: '$referrer', preserveNullAndEmptyArrays: true } },
+        {
+          $project: {
+            signups: 1,
+            rewarded: 1,
+            rejected: 1,
+            earned: 1,
+            name: '$referrer.name',
+            email: '$referrer.email',
+            referralCode: '$referrer.referralCode',
+          },
+        },
+      ]),
+      Referral.find({ status: 'rejected' })
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .populate('referrerId', 'name email')
+        .populate('refereeId', 'name email')
+        .lean(),
+    ]);
+
+    return NextResponse.json({ leaderboard, rejected });
+  } catch (error) {
+    console.error('Error fetching referrals:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch referrals' },
+      { status: 500 }
+    );
+  }
+}
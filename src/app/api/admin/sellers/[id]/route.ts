@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import User from '@/models/User';
+import { requireApiAdmin } from '@/lib/apiAuth';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * PUT /api/admin/sellers/[id]
+ * Change a seller's revenue share, or stop them selling
+ * Body: { revenueSharePercent?: number | null, revoke?: boolean }
+ * A null share returns the seller to the site-wide default. The new share
+ * applies to future sales only; revoking keeps earnings and payouts intact.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, error } = await requireApiAdmin();
+    if (error) return error;
+
+    const { id } = await params;
+    const { revenueSharePercent, revoke = false } = await request.json();
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid seller ID' },
+        { status: 400 }
+      );
+    }
+
+    if (revenueSharePercent != null && !(revenueSharePercent >= 0 && revenueSharePercent <= 100)) {
+      return NextResponse.json(
+        { error: 'Revenue share must be between 0 and 100' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    let update;
+
+    if (revoke) {
+      update = { $set: { role: 'student' } };
+    } else if (revenueSharePercent === null) {
+      update = { $unset: { 'seller.revenueSharePercent': 1 } };
+    } else if (revenueSharePercent !== undefined) {
+      update = { $set: { 'seller.revenueSharePercent': revenueSharePercent } };
+    } else {
+      return NextResponse.json(
+        { error: 'Nothing to update' },
+        { status: 400 }
+      );
+    }
+
+    const seller = await User.findOneAndUpdate({ _id: id, role: 'seller' }, update, { new: true });
+
+    if (!seller) {
+      return NextResponse.json(
+        { error: 'Seller not found' },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit({
+      action: revoke ? 'seller.revoke' : 'seller.share',
+      userId: session.user.id,
+      details: { sellerId: id, revenueSharePercent },
+    });
+
+    return NextResponse.json({ message: revoke ? 'Seller access removed' : 'Revenue share updated' });
+  } catch (error) {
+    console.error('Error updating seller:', error);
+    return NextResponse.json(
+      { error: 'Failed to update seller' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import User from '@/models/User';
+import Paper from '@/models/Paper';
+import { requireApiAdmin } from '@/lib/apiAuth';
+import { recordAudit } from '@/lib/audit';
+import { getRevenueSharePercent, getSellerBalances, SELLER_REVENUE_SHARE_PERCENT } from '@/lib/sellers';
+
+/**
+ * GET /api/admin/sellers
+ * List sellers with their revenue share, paper counts and balances
+ */
+export async function GET() {
+  try {
+    const { error } = await requireApiAdmin();
+    if (error) return error;
+
+    await dbConnect();
+
+    const sellers = await User.find({ role: 'seller' }).sort({ 'seller.since': -1 }).select('name email seller').lean();
+    const sellerIds = sellers.map((seller) => seller._id);
+
+    const [paperCounts, balances] = await Promise.all([
+      Paper.aggregate<{ _id: string; papers: number; pending: number }>([
+        { $match: { uploadedBy: { $in: sellerIds } } },
+        {
+          $group: {
+            _id: '$uploadedBy',
+            papers: { $sum: 1 },
+            pending: { $sum: { $cond: [{ $eq: ['$moderationStatus', 'pending'] }, 1, 0] } },
+          },
+        },
+      ]),
+      getSellerBalances(sellerIds),
+    ]);
+
+    const countsBySeller = new Map(paperCounts.map((c) => [c._id.toString(), c]));
+
+    return NextResponse.json({
+      defaultSharePercent: SELLER_REVENUE_SHARE_PERCENT,
+      sellers: sellers.map((seller) => {
+        const id = seller._id.toString();
+
+        return {
+          _id: seller._id,
+          name: seller.name,
+          email: seller.email,
+          since: seller.seller?.since,
+          revenueSharePercent: getRevenueSharePercent(seller),
+          customShare: seller.seller?.revenueSharePercent !== undefined,
+          papers: countsBySeller.get(id)?.papers || 0,
+          pendingPapers: countsBySeller.get(id)?.pending || 0,
+          balances: balances.get(id) || [],
+        };
+      }),
+    });
+  } catch (error) {
+    console.error('Error fetching sellers:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch sellers' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/sellers
+ * Let an existing student sell papers
+ * Body: { email: string, revenueSharePercent?: number }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { session, error } = await requireApiAdmin();
+    if (error) return error;
+
+    const { email, revenueSharePercent } = await request.json();
+
+    if (!email) {
+      return NextResponse.json(
+        { error: 'Email is required' },
+        { status: 400 }
+      );
+    }
+
+    if (revenueSharePercent !== undefined && !(revenueSharePercent >= 0 && revenueSharePercent <= 100)) {
+      return NextResponse.json(
+        { error: 'Revenue share must be between 0 and 100' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const seller = await User.findOneAndUpdate(
+      { email: String(email).trim().toLowerCase(), role: 'student', organizationId: { $exists: false } },
+      {
+        $set: {
+          role: 'seller',
+          'seller.since': new Date(),
+          ...(revenueSharePercent !== undefined && { 'seller.revenueSharePercent': revenueSharePercent }),
+        },
+      },
+      { new: true }
+    );
+
+    if (!seller) {
+      return NextResponse.json(
+        { error: 'No student account with that email outside an organization' },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit({
+      action: 'seller.create',
+      userId: session.user.id,
+      details: { sellerId: seller._id.toString(), revenueSharePercent },
+    });
+
+    return NextResponse.json(
+      { message: `${seller.name} can now sell papers` },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating seller:', error);
+    return NextResponse.json(
+      { error: 'Failed to create seller' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,40 +1,37 @@
 import { NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
 import dbConnect from '@/lib/mongodb';
 import Paper from '@/models/Paper';
 import User from '@/models/User';
 import Transaction from '@/models/Transaction';
-import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { requireApiAdmin } from '@/lib/apiAuth';
+import { BASE_CURRENCY } from '@/lib/currency';
 
 export async function GET() {
   try {
-    const session = await getServerSession(authOptions);
-
     // Check if user is admin
-    if (!session?.user || session.user.role !== 'admin') {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
+    const { error } = await requireApiAdmin();
+    if (error) return error;
 
     await dbConnect();
 
     // Fetch statistics in parallel
-    const [totalPapers, totalUsers, completedTransactions, totalDownloadsData] = await Promise.all([
+    const [totalPapers, totalUsers, revenueData, totalDownloadsData] = await Promise.all([
       Paper.countDocuments({ isActive: true }),
       User.countDocuments(),
-      Transaction.find({ status: 'completed' }),
+      Transaction.aggregate<{ _id: string; total: number }>([
+        { $match: { status: 'completed' } },
+        { $group: { _id: '$currency', total: { $sum: '$amount' } } }
+      ]),
       Paper.aggregate([
         { $group: { _id: null, total: { $sum: '$downloads' } } }
       ])
     ]);
 
-    // Calculate total revenue
-    const totalRevenue = completedTransactions.reduce(
-      (sum, transaction) => sum + transaction.amount,
-      0
+    // Revenue is kept per currency; totalRevenue is the INR figure
+    const revenueByCurrency: Record<string, number> = Object.fromEntries(
+      revenueData.map((entry) => [entry._id, entry.total])
     );
+    const totalRevenue = revenueByCurrency[BASE_CURRENCY] || 0;
 
     // Get total downloads
     const totalDownloads = totalDownloadsData.length > 0 ? totalDownloadsData[0].total : 0;
@@ -43,6 +40,7 @@ export async function GET() {
       totalPapers,
       totalUsers,
       totalRevenue,
+      revenueByCurrency,
       totalDownloads,
     });
   } catch (error) {
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import SubscriptionPlan from '@/models/SubscriptionPlan';
+import { requireApiAdmin } from '@/lib/apiAuth';
+
+/**
+ * PUT /api/admin/subscription-plans/[id]
+ * Rename or retire a plan
+ * Price and interval are fixed at the gateway, so changing them needs a new plan
+ * Body: { name?, description?, isActive? }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { error } = await requireApiAdmin();
+    if (error) return error;
+
+    await dbConnect();
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid plan ID' },
+        { status: 400 }
+      );
+    }
+
+    const { name, description, isActive } = await request.json();
+
+    const plan = await SubscriptionPlan.findByIdAndUpdate(
+      id,
+      {
+        $set: {
+          ...(name !== undefined && { name }),
+          ...(description !== undefined && { description }),
+          ...(isActive !== undefined && { isActive: !!isActive }),
+        },
+      },
+      { new: true, runValidators: true }
+    );
+
+    if (!plan) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      message: 'Plan updated successfully',
+      plan,
+    });
+  } catch (error: unknown) {
+    console.error('Error updating subscription plan:', error);
+
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update plan' },
+      { status: 500 }
+    );
+  }
+}
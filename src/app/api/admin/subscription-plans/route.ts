@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import SubscriptionPlan from '@/models/SubscriptionPlan';
+import Subscription from '@/models/Subscription';
+import { requireApiAdmin } from '@/lib/apiAuth';
+import { SUBSCRIPTION_ACCESS_STATUSES } from '@/lib/subscriptions';
+import { getPaymentGateway } from '@/lib/paymentGateway';
+import { toMinorUnits } from '@/lib/currency';
+
+/**
+ * GET /api/admin/subscription-plans
+ * List all plans with their live subscriber counts
+ */
+export async function GET() {
+  try {
+    const { error } = await requireApiAdmin();
+    if (error) return error;
+
+    await dbConnect();
+
+    const [plans, subscribers] = await Promise.all([
+      SubscriptionPlan.find().sort({ createdAt: -1 }).lean(),
+      Subscription.aggregate<{ _id: string; count: number }>([
+        {
+          $match: {
+            status: { $in: SUBSCRIPTION_ACCESS_STATUSES },
+            currentPeriodEnd: { $gt: new Date() },
+          },
+        },
+        { $group: { _id: '$planId', count: { $sum: 1 } } },
+      ]),
+    ]);
+
+    const countByPlan = new Map(subscribers.map((s) => [s._id.toString(), s.count]));
+
+    return NextResponse.json({
+      plans: plans.map((plan) => ({
+        ...plan,
+        subscribers: countByPlan.get(plan._id.toString()) || 0,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching subscription plans:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch subscription plans' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/subscription-plans
+ * Create a plan here and at the payment gateway
+ * Body: { name, description?, category, tier?, price, interval, totalCycles? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { error } = await requireApiAdmin();
+    if (error) return error;
+
+    await dbConnect();
+
+    const { name, description, category, tier, price, interval, totalCycles } = await request.json();
+
+    // Validate before creating anything at the gateway
+    const plan = new SubscriptionPlan({
+      name,
+      description,
+      category,
+      tier,
+      price,
+      interval,
+      totalCycles,
+      gatewayPlanId: 'pending',
+    });
+
+    await plan.validate();
+
+    const gatewayPlan = await getPaymentGateway().createPlan({
+      name: plan.name,
+      description: plan.description,
+      amountInPaise: toMinorUnits(plan.price, 'INR'),
+      interval: plan.interval,
+    });
+
+    plan.gatewayPlanId = gatewayPlan.id;
+    await plan.save();
+
+    return NextResponse.json(
+      { message: 'Plan created successfully', plan },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    console.error('Error creating subscription plan:', error);
+
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create plan' },
+      { status: 500 }
+    );
+  }
+}
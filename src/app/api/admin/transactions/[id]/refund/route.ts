@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import { requireApiAdmin } from '@/lib/apiAuth';
+import { refundTransaction } from '@/lib/refunds';
+
+/**
+ * POST /api/admin/transactions/[id]/refund
+ * Refund a completed transaction in full or in part
+ * Body: { amount?: number, reason: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, error } = await requireApiAdmin();
+    if (error) return error;
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid transaction ID' },
+        { status: 400 }
+      );
+    }
+
+    const { amount, reason } = await request.json();
+
+    if (!reason || typeof reason !== 'string' || !reason.trim()) {
+      return NextResponse.json(
+        { error: 'Please provide a refund reason' },
+        { status: 400 }
+      );
+    }
+
+    if (amount !== undefined && amount !== null && typeof amount !== 'number') {
+      return NextResponse.json(
+        { error: 'Refund amount must be a number' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const result = await refundTransaction(id, {
+      amount: amount ?? undefined,
+      reason: reason.trim(),
+      adminId: session.user.id,
+    });
+
+    if (result.error !== undefined) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      message: 'Refund issued successfully',
+      refundId: result.refundId,
+      amount: result.amount,
+      transaction: result.transaction,
+    });
+  } catch (error) {
+    console.error('Error refunding transaction:', error);
+    return NextResponse.json(
+      { error: 'Failed to refund transaction' },
+      { status: 500 }
+    );
+  }
+}
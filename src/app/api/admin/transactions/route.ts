@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import Transaction from '@/models/Transaction';
+import Bundle from '@/models/Bundle';
+import { requireApiAdmin } from '@/lib/apiAuth';
+
+const TRANSACTION_STATUSES = ['pending', 'completed', 'failed', 'refunding', 'refunded'];
+
+/**
+ * GET /api/admin/transactions
+ * List transactions with buyer and paper details
+ * Query: ?status=completed&page=1&limit=20
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { error } = await requireApiAdmin();
+    if (error) return error;
+
+    await dbConnect();
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = parseInt(searchParams.get('limit') || '20');
+    const status = searchParams.get('status');
+
+    const query: Record<string, unknown> = {};
+
+    if (status && TRANSACTION_STATUSES.includes(status)) {
+      query.status = status;
+    }
+
+    const skip = (page - 1) * limit;
+
+    const [transactions, total] = await Promise.all([
+      Transaction.find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .populate('userId', 'name email')
+        .populate('paperId', 'title')
+        .populate({ path: 'bundleId', model: Bundle, select: 'title' })
+        .select('-razorpaySignature')
+        .lean(),
+      Transaction.countDocuments(query),
+    ]);
+
+    return NextResponse.json({
+      transactions,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching transactions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch transactions' },
+      { status: 500 }
+    );
+  }
+}
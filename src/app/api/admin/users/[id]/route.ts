@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import User from '@/models/User';
+import { requireApiAdmin } from '@/lib/apiAuth';
+import { recordAudit } from '@/lib/audit';
+import { revokeSessions } from '@/lib/sessions';
+
+// Roles set from the users page; seller and org-admin have their own pages
+const ASSIGNABLE_ROLES = ['student', 'admin'];
+
+// Audit log action recorded for each request action
+const AUDIT_ACTIONS: Record<string, string> = {
+  ban: 'user.ban',
+  unban: 'user.unban',
+  'set-role': 'user.role',
+  'sign-out': 'user.sessions-revoked',
+};
+
+/**
+ * PUT /api/admin/users/[id]
+ * Ban, unban, change the role of or sign out a user; takes effect on their next request
+ * Body: { action: 'ban' | 'unban' | 'set-role' | 'sign-out', reason?: string, role?: 'student' | 'admin' }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, error } = await requireApiAdmin();
+    if (error) return error;
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid user ID' },
+        { status: 400 }
+      );
+    }
+
+    const { action, reason, role } = await request.json();
+
+    if (!Object.keys(AUDIT_ACTIONS).includes(action)) {
+      return NextResponse.json(
+        { error: 'Action must be ban, unban, set-role or sign-out' },
+        { status: 400 }
+      );
+    }
+
+    // Locking yourself out would leave nobody to undo it
+    if (id === session.user.id && (action === 'ban' || action === 'set-role')) {
+      return NextResponse.json(
+        { error: 'You cannot ban yourself or change your own role' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const user = await User.findById(id).select('name role bannedAt');
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    let message: string;
+    const details: Record<string, unknown> = { targetUserId: id };
+
+    if (action === 'ban') {
+      const banReason = typeof reason === 'string' ? reason.trim().slice(0, 200) : '';
+
+      if (!banReason) {
+        return NextResponse.json(
+          { error: 'Please give a reason for the ban' },
+          { status: 400 }
+        );
+      }
+
+      user.bannedAt = new Date();
+      user.banReason = banReason;
+      await user.save();
+      await revokeSessions(id);
+
+      details.reason = banReason;
+      message = `${user.name} has been banned and signed out`;
+    } else if (action === 'unban') {
+      if (!user.bannedAt) {
+        return NextResponse.json(
+          { error: 'This user is not banned' },
+          { status: 409 }
+        );
+      }
+
+      user.bannedAt = undefined;
+      user.banReason = undefined;
+      await user.save();
+
+      message = `${user.name} can sign in again`;
+    } else if (action === 'set-role') {
+      if (!ASSIGNABLE_ROLES.includes(role)) {
+        return NextResponse.json(
+          { error: 'Role must be student or admin' },
+          { status: 400 }
+        );
+      }
+
+      if (!ASSIGNABLE_ROLES.includes(user.role)) {
+        return NextResponse.json(
+          { error: `Manage ${user.role} accounts from their own page` },
+          { status: 409 }
+        );
+      }
+
+      details.previousRole = user.role;
+      details.role = role;
+      user.role = role;
+      await user.save();
+
+      message = `${user.name} is now ${role === 'admin' ? 'an admin' : 'a student'}`;
+    } else {
+      await revokeSessions(id);
+
+      message = `${user.name} has been signed out of all devices`;
+    }
+
+    await recordAudit({
+      action: AUDIT_ACTIONS[action],
+      userId: session.user.id,
+      details,
+    });
+
+    return NextResponse.json({ message });
+  } catch (error) {
+    console.error('Error updating user:', error);
+    return NextResponse.json(
+      { error: 'Failed to update user' },
+      { status: 500 }
+    );
+  }
+}
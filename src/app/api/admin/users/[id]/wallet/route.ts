@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import { requireApiAdmin } from '@/lib/apiAuth';
+import { recordAudit } from '@/lib/audit';
+import { creditWallet, debitWallet, getWallet } from '@/lib/wallet';
+
+// Reasons an admin can give for granting credit
+const GRANT_REASONS = ['promotion', 'refund', 'referral', 'admin-grant'] as const;
+
+/**
+ * GET /api/admin/users/[id]/wallet
+ * Get a user's wallet balance and ledger
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { error } = await requireApiAdmin();
+    if (error) return error;
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid user ID' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const wallet = await getWallet(id, 200);
+
+    if (!wallet) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(wallet);
+  } catch (error) {
+    console.error('Error fetching wallet:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch wallet' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/users/[id]/wallet
+ * Grant credit to or claw credit back from a user's wallet
+ * Body: { action: 'grant' | 'clawback', amount: number, note: string, reason?: 'promotion' | 'refund' | 'referral' }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, error } = await requireApiAdmin();
+    if (error) return error;
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid user ID' },
+        { status: 400 }
+      );
+    }
+
+    const { action, amount, note, reason = 'admin-grant' } = await request.json();
+
+    if (action !== 'grant' && action !== 'clawback') {
+      return NextResponse.json(
+        { error: 'Action must be grant or clawback' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof amount !== 'number' || !(amount > 0)) {
+      return NextResponse.json(
+        { error: 'Amount must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    if (!note || typeof note !== 'string' || !note.trim()) {
+      return NextResponse.json(
+        { error: 'Please provide a note explaining the change' },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'grant' && !GRANT_REASONS.includes(reason)) {
+      return NextResponse.json(
+        { error: 'Invalid credit reason' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const entry = {
+      reason: action === 'grant' ? reason : 'admin-clawback',
+      createdBy: session.user.id,
+      note: note.trim(),
+    };
+
+    const balance = action === 'grant'
+      ? await creditWallet(id, amount, entry)
+      : await debitWallet(id, amount, entry);
+
+    if (balance === null) {
+      return NextResponse.json(
+        { error: action === 'grant' ? 'User not found' : 'Amount exceeds the wallet balance' },
+        { status: action === 'grant' ? 404 : 400 }
+      );
+    }
+
+    await recordAudit({
+      action: `wallet.${action}`,
+      userId: session.user.id,
+      details: { targetUserId: id, amount, reason: entry.reason, note: entry.note, balance },
+    });
+
+    return NextResponse.json({
+      message: action === 'grant' ? 'Credit granted' : 'Credit clawed back',
+      balance,
+    });
+  } catch (error) {
+    console.error('Error updating wallet:', error);
+    return NextResponse.json(
+      { error: 'Failed to update wallet' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,24 @@
 import NextAuth, { NextAuthOptions } from 'next-auth';
 import CredentialsProvider from 'next-auth/providers/credentials';
-import bcrypt from 'bcryptjs';
+import GoogleProvider, { GoogleProfile } from 'next-auth/providers/google';
 import dbConnect from '@/lib/mongodb';
 import User from '@/models/User';
+import { getSessionState } from '@/lib/sessions';
+import { normalizePhone, verifyPhoneOtp } from '@/lib/phoneOtp';
+import { resolveGoogleAccount } from '@/lib/googleAccounts';
+import { getClientIp } from '@/lib/rateLimit';
+import { getAppUrl } from '@/lib/mailer';
+import {
+  ACCOUNT_SUSPENDED_ERROR,
+  INVALID_CREDENTIALS_ERROR,
+  clearLoginFailures,
+  getLockedMessage,
+  getLockedUntil,
+  logLoginAttempt,
+  recordLoginFailure,
+  sendUnlockEmail,
+  verifyPassword,
+} from '@/lib/loginProtection';
 
 export const authOptions: NextAuthOptions = {
   providers: [
@@ -12,40 +28,191 @@ export const authOptions: NextAuthOptions = {
         email: { label: 'Email', type: 'email' },
         password: { label: 'Password', type: 'password' },
       },
-      async authorize(credentials) {
+      async authorize(credentials, req) {
         if (!credentials?.email || !credentials?.password) {
           throw new Error('Please provide email and password');
         }
 
+        const email = credentials.email.trim().toLowerCase();
+        const headers = new Headers(req?.headers);
+        const ip = getClientIp({ headers });
+
+        await dbConnect();
+
+        const lockedUntil = await getLockedUntil(`email:${email}`, ip);
+
+        if (lockedUntil) {
+          await logLoginAttempt({ identifier: email, ip, method: 'password', result: 'locked' });
+          throw new Error(getLockedMessage(lockedUntil));
+        }
+
+        const user = await User.findOne({ email }).select('+password');
+
+        const isPasswordValid = await verifyPassword(credentials.password, user?.password);
+
+        // Unknown email, Google-only account and wrong password all fail the same way
+        if (!user || !isPasswordValid) {
+          const { lockoutStarted } = await recordLoginFailure(`email:${email}`, ip);
+
+          await logLoginAttempt({
+            identifier: email,
+            userId: user?._id,
+            ip,
+            method: 'password',
+            result: 'invalid-credentials',
+          });
+
+          if (user && lockoutStarted) {
+            try {
+              await sendUnlockEmail(user, getAppUrl());
+            } catch (error) {
+              console.error('Error sending unlock email:', error);
+            }
+          }
+
+          throw new Error(INVALID_CREDENTIALS_ERROR);
+        }
+
+        if (user.bannedAt) {
+          await logLoginAttempt({ identifier: email, userId: user._id, ip, method: 'password', result: 'suspended' });
+          throw new Error(ACCOUNT_SUSPENDED_ERROR);
+        }
+
+        // Error code rather than a message: the login page offers a new link on it
+        if (user.emailVerified === false) {
+          await logLoginAttempt({ identifier: email, userId: user._id, ip, method: 'password', result: 'unverified' });
+          throw new Error('EmailNotVerified');
+        }
+
+        await clearLoginFailures(`email:${email}`);
+        await logLoginAttempt({ identifier: email, userId: user._id, ip, method: 'password', result: 'success' });
+
+        return {
+          id: user._id.toString(),
+          name: user.name,
+          email: user.email,
+          role: user.role,
+          sessionVersion: user.sessionVersion,
+        };
+      },
+    }),
+    CredentialsProvider({
+      id: 'phone-otp',
+      name: 'phone',
+      credentials: {
+        phone: { label: 'Phone', type: 'tel' },
+        code: { label: 'Code', type: 'text' },
+      },
+      async authorize(credentials, req) {
+        if (!credentials?.phone || !credentials?.code) {
+          throw new Error('Please provide your phone number and code');
+        }
+
+        const phone = normalizePhone(credentials.phone);
+
+        if (!phone) {
+          throw new Error('Please provide a valid phone number');
+        }
+
+        const ip = getClientIp({ headers: new Headers(req?.headers) });
+
         await dbConnect();
 
-        const user = await User.findOne({ email: credentials.email }).select('+password');
+        const lockedUntil = await getLockedUntil(`phone:${phone}`, ip);
+
+        if (lockedUntil) {
+          await logLoginAttempt({ identifier: phone, ip, method: 'phone-otp', result: 'locked' });
+          throw new Error(getLockedMessage(lockedUntil));
+        }
+
+        const user = await verifyPhoneOtp(phone, credentials.code);
 
         if (!user) {
-          throw new Error('No user found with this email');
+          await recordLoginFailure(`phone:${phone}`, ip);
+          await logLoginAttempt({ identifier: phone, ip, method: 'phone-otp', result: 'invalid-credentials' });
+          throw new Error('Invalid or expired code');
         }
 
-        const isPasswordValid = await bcrypt.compare(credentials.password, user.password);
+        if (user.bannedAt) {
+          await logLoginAttempt({ identifier: phone, userId: user._id, ip, method: 'phone-otp', result: 'suspended' });
+          throw new Error(ACCOUNT_SUSPENDED_ERROR);
+        }
 
-        if (!isPasswordValid) {
-          throw new Error('Invalid password');
+        if (user.emailVerified === false) {
+          await logLoginAttempt({ identifier: phone, userId: user._id, ip, method: 'phone-otp', result: 'unverified' });
+          throw new Error('EmailNotVerified');
         }
 
+        await clearLoginFailures(`phone:${phone}`);
+        await logLoginAttempt({ identifier: phone, userId: user._id, ip, method: 'phone-otp', result: 'success' });
+
         return {
           id: user._id.toString(),
           name: user.name,
           email: user.email,
           role: user.role,
+          sessionVersion: user.sessionVersion,
         };
       },
     }),
+    // Only offered when configured
+    ...(process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET
+      ? [
+          GoogleProvider({
+            clientId: process.env.GOOGLE_CLIENT_ID,
+            clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+          }),
+        ]
+      : []),
   ],
   callbacks: {
+    async signIn({ user, account, profile }) {
+      if (account?.provider !== 'google') {
+        return true;
+      }
+
+      await dbConnect();
+
+      const result = await resolveGoogleAccount(profile as GoogleProfile);
+
+      if (result.error !== undefined) {
+        return `/auth/login?error=${result.error}`;
+      }
+
+      if (result.user.bannedAt) {
+        return '/auth/login?error=AccountSuspended';
+      }
+
+      // Without a database adapter this object is what the jwt callback receives,
+      // so swap Google's IDs for the stored account's
+      user.id = result.user._id.toString();
+      user.role = result.user.role;
+      user.sessionVersion = result.user.sessionVersion;
+      return true;
+    },
     async jwt({ token, user }) {
       if (user) {
         token.id = user.id;
         token.role = user.role;
+        token.authTime = Date.now();
+        token.sessionVersion = user.sessionVersion ?? 0;
+        return token;
+      }
+
+      // Throwing makes NextAuth clear the cookie, signing the device out
+      await dbConnect();
+
+      const state = await getSessionState(token.id, {
+        authTime: token.authTime ?? 0,
+        sessionVersion: token.sessionVersion ?? 0,
+      });
+
+      if (!state) {
+        throw new Error('Session revoked');
       }
+
+      // Role changes apply on the next request rather than the next sign-in
+      token.role = state.role;
       return token;
     },
     async session({ session, token }) {
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import User from '@/models/User';
+import { sendPasswordResetEmail } from '@/lib/passwordReset';
+import { getAppUrl } from '@/lib/mailer';
+import { checkRateLimit, getClientIp } from '@/lib/rateLimit';
+
+// Reset requests allowed per hour, per address and per IP address
+const RESETS_PER_EMAIL = parseInt(process.env.PASSWORD_RESETS_PER_EMAIL_HOUR || '3');
+const RESETS_PER_IP = parseInt(process.env.PASSWORD_RESETS_PER_IP_HOUR || '10');
+const RESET_WINDOW_SECONDS = 60 * 60;
+
+/**
+ * POST /api/auth/forgot-password
+ * Email a password reset link. The response is the same whether or not the
+ * address has an account, so it cannot be used to probe for users
+ * Body: { email: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { email } = await request.json();
+
+    if (!email || typeof email !== 'string') {
+      return NextResponse.json(
+        { error: 'Email is required' },
+        { status: 400 }
+      );
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+
+    await dbConnect();
+
+    const [emailLimit, ipLimit] = await Promise.all([
+      checkRateLimit(`reset-password:email:${normalizedEmail}`, RESETS_PER_EMAIL, RESET_WINDOW_SECONDS),
+      checkRateLimit(`reset-password:ip:${getClientIp(request)}`, RESETS_PER_IP, RESET_WINDOW_SECONDS),
+    ]);
+
+    if (!emailLimit.allowed || !ipLimit.allowed) {
+      const retryAfter = Math.max(emailLimit.retryAfter, ipLimit.retryAfter);
+
+      return NextResponse.json(
+        { error: 'Too many reset requests. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': retryAfter.toString() } }
+      );
+    }
+
+    const user = await User.findOne({ email: normalizedEmail }).select('name email');
+
+    const appUrl = getAppUrl();
+
+    // Sent after the response, so it takes as long whether or not the address has an account
+    if (user) {
+      after(() => sendPasswordResetEmail(user, appUrl).catch((error) => {
+        console.error('Error sending password reset email:', error);
+      }));
+    }
+
+    return NextResponse.json({
+      message: 'If an account exists for that address, a reset link is on its way.',
+    });
+  } catch (error) {
+    console.error('Error requesting password reset:', error);
+    return NextResponse.json(
+      { error: 'Failed to send reset email' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import { normalizePhone, sendPhoneOtp } from '@/lib/phoneOtp';
+import { checkRateLimit, getClientIp } from '@/lib/rateLimit';
+
+// Codes sent per hour, per phone number and per IP address
+const CODES_PER_PHONE = parseInt(process.env.PHONE_OTP_PER_PHONE_HOUR || '5');
+const CODES_PER_IP = parseInt(process.env.PHONE_OTP_PER_IP_HOUR || '20');
+const CODE_WINDOW_SECONDS = 60 * 60;
+
+/**
+ * POST /api/auth/phone-otp
+ * Text a sign-in code to a verified phone number on an account. The response is the
+ * same whether or not the number has an account, so it cannot be used to probe for users
+ * Body: { phone: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { phone } = await request.json();
+    const normalizedPhone = typeof phone === 'string' ? normalizePhone(phone) : null;
+
+    if (!normalizedPhone) {
+      return NextResponse.json(
+        { error: 'Please provide a valid phone number' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const [phoneLimit, ipLimit] = await Promise.all([
+      checkRateLimit(`phone-otp:phone:${normalizedPhone}`, CODES_PER_PHONE, CODE_WINDOW_SECONDS),
+      checkRateLimit(`phone-otp:ip:${getClientIp(request)}`, CODES_PER_IP, CODE_WINDOW_SECONDS),
+    ]);
+
+    if (!phoneLimit.allowed || !ipLimit.allowed) {
+      const retryAfter = Math.max(phoneLimit.retryAfter, ipLimit.retryAfter);
+
+      return NextResponse.json(
+        { error: 'Too many codes requested. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': retryAfter.toString() } }
+      );
+    }
+
+    // Looked up and sent after the response, so it takes as long whether or not the number has an account
+    after(() => sendPhoneOtp(normalizedPhone).catch((error) => {
+      console.error('Error sending phone OTP:', error);
+    }));
+
+    return NextResponse.json({
+      message: 'If that number is verified on an account, a code is on its way.',
+    });
+  } catch (error) {
+    console.error('Error sending phone OTP:', error);
+    return NextResponse.json(
+      { error: 'Failed to send code' },
+      { status: 500 }
+    );
+  }
+}
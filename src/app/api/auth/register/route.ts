@@ -1,11 +1,25 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import bcrypt from 'bcryptjs';
 import dbConnect from '@/lib/mongodb';
 import User from '@/models/User';
+import { getClientIp } from '@/lib/rateLimit';
+import { findReferrer, getReferralCode, recordReferral } from '@/lib/referrals';
+import { sendAccountExistsEmail, sendVerificationEmail } from '@/lib/emailVerification';
+import { getAppUrl } from '@/lib/mailer';
+import { normalizePhone } from '@/lib/phoneOtp';
 
+// Same answer whether or not the address already had an account
+const REGISTERED_MESSAGE = 'Check your email for a link to verify your address.';
+
+/**
+ * POST /api/auth/register
+ * Create a student account; it cannot sign in until the emailed link is opened
+ * An address that already has an account gets an email instead of a new account
+ * Body: { name: string, email: string, password: string, phone?: string, referralCode?: string }
+ */
 export async function POST(request: NextRequest) {
   try {
-    const { name, email, password, phone } = await request.json();
+    const { name, email, password, phone, referralCode } = await request.json();
 
     // Validation
     if (!name || !email || !password) {
@@ -24,39 +38,58 @@ export async function POST(request: NextRequest) {
 
     await dbConnect();
 
-    // Check if user already exists
-    const existingUser = await User.findOne({ email: email.toLowerCase() });
+    // An unknown code is rejected so a typo can be fixed before signing up
+    const referrer = referralCode ? await findReferrer(String(referralCode)) : null;
 
-    if (existingUser) {
+    if (referralCode && !referrer) {
       return NextResponse.json(
-        { error: 'User with this email already exists' },
+        { error: 'Invalid referral code' },
         { status: 400 }
       );
     }
 
-    // Hash password
+    const appUrl = getAppUrl();
+
+    // Hashed before the lookup so a taken address does not answer noticeably faster
     const hashedPassword = await bcrypt.hash(password, 12);
 
+    const existingUser = await User.findOne({ email: email.toLowerCase() }).select('name email');
+
+    // The owner is emailed instead, and the response matches a new signup so it cannot be used to probe for users
+    if (existingUser) {
+      after(() => sendAccountExistsEmail(existingUser, appUrl).catch((error) => {
+        console.error('Error sending account exists email:', error);
+      }));
+
+      return NextResponse.json({ message: REGISTERED_MESSAGE }, { status: 201 });
+    }
+
+    const ip = getClientIp(request);
+
     // Create user
     const user = await User.create({
       name,
       email: email.toLowerCase(),
       password: hashedPassword,
-      phone: phone || '',
+      // Normalized when possible; it signs in by OTP only after being verified from the dashboard
+      phone: (phone && normalizePhone(String(phone))) || phone || '',
       role: 'student',
+      emailVerified: false,
+      ...(ip !== 'unknown' && { signupIp: ip }),
     });
 
-    return NextResponse.json(
-      {
-        message: 'User registered successfully',
-        user: {
-          id: user._id,
-          name: user.name,
-          email: user.email,
-        },
-      },
-      { status: 201 }
-    );
+    await getReferralCode(user._id.toString());
+
+    if (referrer) {
+      await recordReferral(referrer, user, String(referralCode), ip);
+    }
+
+    // Sent after the response, like the existing-account email; a failed send can be retried from the verify page
+    after(() => sendVerificationEmail(user, appUrl).catch((error) => {
+      console.error('Error sending verification email:', error);
+    }));
+
+    return NextResponse.json({ message: REGISTERED_MESSAGE }, { status: 201 });
   } catch (error: unknown) {
     console.error('Registration error:', error);
 
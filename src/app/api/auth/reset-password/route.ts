@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import { resetPassword } from '@/lib/passwordReset';
+import { recordAudit } from '@/lib/audit';
+import { getClientIp } from '@/lib/rateLimit';
+
+/**
+ * POST /api/auth/reset-password
+ * Set a new password with the token from a reset link; signs out all devices
+ * Body: { token: string, password: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { token, password } = await request.json();
+
+    if (!token || typeof token !== 'string' || !password || typeof password !== 'string') {
+      return NextResponse.json(
+        { error: 'Please provide the reset token and a new password' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const result = await resetPassword(token, password);
+
+    if (result.error !== undefined) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    await recordAudit({
+      action: 'user.password-reset',
+      userId: result.userId,
+      ip: getClientIp(request),
+    });
+
+    return NextResponse.json({
+      message: 'Password updated. Please sign in with your new password.',
+    });
+  } catch (error) {
+    console.error('Error resetting password:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset password' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import { unlockAccount } from '@/lib/loginProtection';
+import { recordAudit } from '@/lib/audit';
+import { getClientIp } from '@/lib/rateLimit';
+
+/**
+ * POST /api/auth/unlock
+ * Lift a sign-in lockout with the token from the emailed unlock link
+ * Body: { token: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json();
+
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json(
+        { error: 'Unlock token is required' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const result = await unlockAccount(token);
+
+    if (result.error !== undefined) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    await recordAudit({
+      action: 'login.unlock',
+      ip: getClientIp(request),
+      details: { email: result.email, via: 'email' },
+    });
+
+    return NextResponse.json({
+      message: 'Your account is unlocked. You can sign in now.',
+    });
+  } catch (error) {
+    console.error('Error unlocking account:', error);
+    return NextResponse.json(
+      { error: 'Failed to unlock account' },
+      { status: 500 }
+    );
+  }
+}
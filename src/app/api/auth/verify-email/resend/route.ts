@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import User from '@/models/User';
+import { sendVerificationEmail } from '@/lib/emailVerification';
+import { getAppUrl } from '@/lib/mailer';
+import { checkRateLimit, getClientIp } from '@/lib/rateLimit';
+
+// Links sent per hour, per address and per IP address
+const RESENDS_PER_EMAIL = parseInt(process.env.VERIFICATION_RESENDS_PER_EMAIL_HOUR || '3');
+const RESENDS_PER_IP = parseInt(process.env.VERIFICATION_RESENDS_PER_IP_HOUR || '10');
+const RESEND_WINDOW_SECONDS = 60 * 60;
+
+/**
+ * POST /api/auth/verify-email/resend
+ * Email a new verification link. The response is the same whether or not the
+ * address belongs to an unverified account, so it cannot be used to probe for users
+ * Body: { email: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { email } = await request.json();
+
+    if (!email || typeof email !== 'string') {
+      return NextResponse.json(
+        { error: 'Email is required' },
+        { status: 400 }
+      );
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+
+    await dbConnect();
+
+    const [emailLimit, ipLimit] = await Promise.all([
+      checkRateLimit(`verify-email:email:${normalizedEmail}`, RESENDS_PER_EMAIL, RESEND_WINDOW_SECONDS),
+      checkRateLimit(`verify-email:ip:${getClientIp(request)}`, RESENDS_PER_IP, RESEND_WINDOW_SECONDS),
+    ]);
+
+    if (!emailLimit.allowed || !ipLimit.allowed) {
+      const retryAfter = Math.max(emailLimit.retryAfter, ipLimit.retryAfter);
+
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': retryAfter.toString() } }
+      );
+    }
+
+    const user = await User.findOne({ email: normalizedEmail, emailVerified: false }).select('name email');
+
+    const appUrl = getAppUrl();
+
+    // Sent after the response, so it takes as long whether or not the address has an account
+    if (user) {
+      after(() => sendVerificationEmail(user, appUrl).catch((error) => {
+        console.error('Error sending verification email:', error);
+      }));
+    }
+
+    return NextResponse.json({
+      message: 'If that account is awaiting verification, a new link is on its way.',
+    });
+  } catch (error) {
+    console.error('Error resending verification email:', error);
+    return NextResponse.json(
+      { error: 'Failed to send verification email' },
+      { status: 500 }
+    );
+  }
+}
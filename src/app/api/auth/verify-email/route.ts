@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import { verifyEmail } from '@/lib/emailVerification';
+
+/**
+ * POST /api/auth/verify-email
+ * Verify an account's email address with the token from the emailed link
+ * Body: { token: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json();
+
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json(
+        { error: 'Verification token is required' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const result = await verifyEmail(token);
+
+    if (result.error !== undefined) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      message: 'Email verified. You can now sign in.',
+      email: result.email,
+    });
+  } catch (error) {
+    console.error('Error verifying email:', error);
+    return NextResponse.json(
+      { error: 'Failed to verify email' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import Bundle from '@/models/Bundle';
+import Paper, { IPaper } from '@/models/Paper';
+import Transaction from '@/models/Transaction';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { requireApiAdmin } from '@/lib/apiAuth';
+import { isAdmin } from '@/lib/auth';
+import { BUNDLE_PAPER_FIELDS, pickBundleFields, toBundleListing, validateBundlePapers } from '@/lib/bundles';
+
+// GET - Fetch single bundle by ID
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await dbConnect();
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid bundle ID' },
+        { status: 400 }
+      );
+    }
+
+    const bundle = await Bundle.findById(id)
+      .populate<{ papers: (IPaper | null)[] }>({ path: 'papers', model: Paper, select: BUNDLE_PAPER_FIELDS })
+      .lean();
+
+    const session = await getServerSession(authOptions);
+
+    if (!bundle || (!bundle.isActive && !isAdmin(session?.user?.role))) {
+      return NextResponse.json(
+        { error: 'Bundle not found' },
+        { status: 404 }
+      );
+    }
+
+    let purchased = false;
+
+    if (session?.user?.id) {
+      purchased = !!(await Transaction.exists({
+        userId: session.user.id,
+        bundleId: bundle._id,
+        status: 'completed',
+      }));
+    }
+
+    return NextResponse.json({ bundle: toBundleListing(bundle), purchased });
+  } catch (error) {
+    console.error('Error fetching bundle:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch bundle' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Update bundle (Admin only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { error } = await requireApiAdmin();
+    if (error) return error;
+
+    await dbConnect();
+
+    const { id } = await params;
+    const fields = pickBundleFields(await request.json());
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid bundle ID' },
+        { status: 400 }
+      );
+    }
+
+    if (fields.papers !== undefined) {
+      const papersError = await validateBundlePapers(fields.papers);
+
+      if (papersError) {
+        return NextResponse.json(
+          { error: papersError },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Past buyers keep the papers recorded on their transaction
+    const bundle = await Bundle.findByIdAndUpdate(
+      id,
+      { $set: fields },
+      { new: true, runValidators: true }
+    );
+
+    if (!bundle) {
+      return NextResponse.json(
+        { error: 'Bundle not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      message: 'Bundle updated successfully',
+      bundle,
+    });
+  } catch (error: unknown) {
+    console.error('Error updating bundle:', error);
+
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update bundle' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Delete bundle (Admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { error } = await requireApiAdmin();
+    if (error) return error;
+
+    await dbConnect();
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid bundle ID' },
+        { status: 400 }
+      );
+    }
+
+    const bundle = await Bundle.findByIdAndDelete(id);
+
+    if (!bundle) {
+      return NextResponse.json(
+        { error: 'Bundle not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      message: 'Bundle deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting bundle:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete bundle' },
+      { status: 500 }
+    );
+  }
+}
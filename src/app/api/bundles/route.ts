@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import dbConnect from '@/lib/mongodb';
+import Bundle from '@/models/Bundle';
+import Paper, { IPaper } from '@/models/Paper';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { requireApiAdmin } from '@/lib/apiAuth';
+import { isAdmin } from '@/lib/auth';
+import { BUNDLE_PAPER_FIELDS, pickBundleFields, toBundleListing, validateBundlePapers } from '@/lib/bundles';
+
+// GET - Fetch bundles (admins can include inactive ones with ?all=true)
+export async function GET(request: NextRequest) {
+  try {
+    await dbConnect();
+
+    const { searchParams } = new URL(request.url);
+    const category = searchParams.get('category');
+    const includeInactive = searchParams.get('all') === 'true';
+
+    const query: Record<string, unknown> = { isActive: true };
+
+    if (includeInactive) {
+      const session = await getServerSession(authOptions);
+
+      if (isAdmin(session?.user?.role)) {
+        delete query.isActive;
+      }
+    }
+
+    if (category) {
+      query.category = category;
+    }
+
+    const bundles = await Bundle.find(query)
+      .sort({ createdAt: -1 })
+      .populate<{ papers: (IPaper | null)[] }>({ path: 'papers', model: Paper, select: BUNDLE_PAPER_FIELDS })
+      .lean();
+
+    return NextResponse.json({ bundles: bundles.map(toBundleListing) });
+  } catch (error) {
+    console.error('Error fetching bundles:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch bundles' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create new bundle (Admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const { session, error } = await requireApiAdmin();
+    if (error) return error;
+
+    await dbConnect();
+
+    const fields = pickBundleFields(await request.json());
+    const papersError = await validateBundlePapers(fields.papers);
+
+    if (papersError) {
+      return NextResponse.json(
+        { error: papersError },
+        { status: 400 }
+      );
+    }
+
+    const bundle = await Bundle.create({
+      ...fields,
+      createdBy: session.user.id,
+    });
+
+    return NextResponse.json(
+      { message: 'Bundle created successfully', bundle },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    console.error('Error creating bundle:', error);
+
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create bundle' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import Paper from '@/models/Paper';
+import Bundle from '@/models/Bundle';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { isPurchaseTier, resolveCurrency } from '@/lib/pricing';
+import { getPreferredCurrency, quoteBundle, quotePurchase } from '@/lib/purchases';
+import { applyCoupon, CouponTarget } from '@/lib/coupons';
+
+/**
+ * POST /api/coupons/validate
+ * Check a coupon code against a paper or bundle and preview the discounted price
+ * Body: { code: string, paperId?: string, tier?: string, bundleId?: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Please login to apply a coupon' },
+        { status: 401 }
+      );
+    }
+
+    const { code, paperId, tier = 'questions-only', bundleId } = await request.json();
+
+    if (!code || typeof code !== 'string') {
+      return NextResponse.json(
+        { error: 'Coupon code is required' },
+        { status: 400 }
+      );
+    }
+
+    const itemId = bundleId || paperId;
+
+    if (!itemId || !mongoose.Types.ObjectId.isValid(itemId)) {
+      return NextResponse.json(
+        { error: 'Paper or bundle ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isPurchaseTier(tier)) {
+      return NextResponse.json(
+        { error: 'Invalid purchase tier' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    let target: CouponTarget;
+
+    if (bundleId) {
+      const bundle = await Bundle.findOne({ _id: bundleId, isActive: true });
+
+      if (!bundle) {
+        return NextResponse.json(
+          { error: 'Bundle not found' },
+          { status: 404 }
+        );
+      }
+
+      const quote = await quoteBundle(bundle, session.user.id);
+
+      if (quote.error !== undefined) {
+        return NextResponse.json(
+          { error: quote.error },
+          { status: quote.status }
+        );
+      }
+
+      target = { bundleId: bundle._id, category: bundle.category, amount: quote.price };
+    } else {
+      const paper = await Paper.findOne({ _id: paperId, isActive: true });
+
+      if (!paper) {
+        return NextResponse.json(
+          { error: 'Paper not found' },
+          { status: 404 }
+        );
+      }
+
+      const currency = resolveCurrency([{ paper, tier }], await getPreferredCurrency(session.user.id));
+      const quote = await quotePurchase(paper, session.user.id, tier, currency);
+
+      if (quote.error !== undefined) {
+        return NextResponse.json(
+          { error: quote.error },
+          { status: quote.status }
+        );
+      }
+
+      target = { paperId: paper._id, category: paper.category, amount: quote.price, currency };
+    }
+
+    const couponQuote = await applyCoupon(code, session.user.id, target);
+
+    if (couponQuote.error !== undefined) {
+      return NextResponse.json(
+        { error: couponQuote.error },
+        { status: couponQuote.status }
+      );
+    }
+
+    return NextResponse.json({
+      code: couponQuote.coupon.code,
+      description: couponQuote.coupon.description,
+      originalAmount: target.amount,
+      discount: couponQuote.discount,
+      amount: couponQuote.amount,
+      currency: target.currency || 'INR',
+    });
+  } catch (error) {
+    console.error('Error validating coupon:', error);
+    return NextResponse.json(
+      { error: 'Failed to validate coupon' },
+      { status: 500 }
+    );
+  }
+}
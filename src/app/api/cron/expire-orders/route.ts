@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import dbConnect from '@/lib/mongodb';
+import { requireApiAdmin } from '@/lib/apiAuth';
+import { expirePendingOrders } from '@/lib/orderExpiry';
+
+/**
+ * Check the `Authorization: Bearer <CRON_SECRET>` header schedulers send
+ */
+function isCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  const header = request.headers.get('authorization');
+
+  if (!secret || !header) {
+    return false;
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(header);
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * GET /api/cron/expire-orders?olderThanMinutes=...
+ * Expire stale pending orders, completing any the gateway reports as paid
+ * Called by a scheduler with CRON_SECRET, or by an admin
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isCronRequest(request)) {
+      const { error } = await requireApiAdmin();
+      if (error) return error;
+    }
+
+    const olderThan = request.nextUrl.searchParams.get('olderThanMinutes');
+    const olderThanMinutes = olderThan ? parseInt(olderThan) : undefined;
+
+    if (olderThanMinutes !== undefined && !(olderThanMinutes > 0)) {
+      return NextResponse.json(
+        { error: 'olderThanMinutes must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const report = await expirePendingOrders({ olderThanMinutes });
+
+    console.log(
+      `[Order Expiry] ${report.scanned} stale order(s): ${report.expired} transaction(s) expired, ${report.completed} completed`
+    );
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error expiring pending orders:', error);
+    return NextResponse.json(
+      { error: 'Failed to expire pending orders' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import dbConnect from '@/lib/mongodb';
+import Transaction from '@/models/Transaction';
+import Paper from '@/models/Paper';
+import Subscription from '@/models/Subscription';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { verifyDownloadToken } from '@/lib/downloadToken';
+import { coversPaper } from '@/lib/purchases';
+import { isSubscriptionLive } from '@/lib/subscriptions';
+import { readPaperPDF, extractFilenameFromUrl } from '@/lib/blobStorage';
+
+/**
+ * GET /api/download?token=...
+ * Stream a paper or solution PDF after validating a signed download token
+ * The token must belong to the logged-in user and a completed transaction
+ * or a subscription that still covers the paper's category
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get('token');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Download token is required' },
+        { status: 400 }
+      );
+    }
+
+    const payload = verifyDownloadToken(token);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Download link is invalid or has expired' },
+        { status: 403 }
+      );
+    }
+
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id || session.user.id !== payload.userId) {
+      return NextResponse.json(
+        { error: 'This download link was issued to a different account' },
+        { status: 403 }
+      );
+    }
+
+    await dbConnect();
+
+    const paper = await Paper.findById(payload.paperId).select('category fileUrl solutionFileUrl');
+
+    if (!paper) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      );
+    }
+
+    // Access is re-checked here so a link stops working once access is revoked
+    let tier: string;
+
+    if (payload.subscriptionId) {
+      const subscription = await Subscription.findOne({
+        _id: payload.subscriptionId,
+        userId: payload.userId,
+        category: paper.category,
+      });
+
+      if (!subscription || !isSubscriptionLive(subscription)) {
+        return NextResponse.json(
+          { error: 'Your subscription no longer covers this paper' },
+          { status: 403 }
+        );
+      }
+
+      tier = subscription.tier;
+    } else {
+      const transaction = await Transaction.findOne({
+        _id: payload.transactionId,
+        userId: payload.userId,
+        ...coversPaper(payload.paperId),
+        status: 'completed',
+      });
+
+      if (!transaction) {
+        return NextResponse.json(
+          { error: 'No completed purchase found for this download' },
+          { status: 403 }
+        );
+      }
+
+      tier = transaction.tier;
+    }
+
+    if (payload.file === 'solution' && tier !== 'with-solutions') {
+      return NextResponse.json(
+        { error: 'Purchase with solutions to download the solution file' },
+        { status: 403 }
+      );
+    }
+
+    const fileUrl = payload.file === 'solution' ? paper.solutionFileUrl : paper.fileUrl;
+
+    if (!fileUrl) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      );
+    }
+
+    const file = await readPaperPDF(fileUrl);
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      );
+    }
+
+    const filename = extractFilenameFromUrl(fileUrl) || `${payload.file}.pdf`;
+    const headers: Record<string, string> = {
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'private, no-store',
+    };
+
+    if (file.size) {
+      headers['Content-Length'] = file.size.toString();
+    }
+
+    return new NextResponse(file.stream, { headers });
+  } catch (error) {
+    console.error('Error streaming download:', error);
+    return NextResponse.json(
+      { error: 'Failed to download file' },
+      { status: 500 }
+    );
+  }
+}
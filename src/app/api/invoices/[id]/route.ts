@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import Transaction from '@/models/Transaction';
+import { requireApiAuth } from '@/lib/apiAuth';
+import { isAdmin } from '@/lib/auth';
+import { issueInvoice } from '@/lib/invoices';
+import { readPaperPDF } from '@/lib/blobStorage';
+
+/**
+ * GET /api/invoices/[id]
+ * Download the tax invoice of a transaction (the buyer or an admin)
+ * Invoices that failed to issue when the payment completed are issued here
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, error } = await requireApiAuth();
+    if (error) return error;
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid transaction ID' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const transaction = await Transaction.findById(id);
+
+    if (!transaction || (transaction.userId.toString() !== session.user.id && !isAdmin(session.user.role))) {
+      return NextResponse.json(
+        { error: 'Transaction not found' },
+        { status: 404 }
+      );
+    }
+
+    // Refunded transactions keep the invoice they were issued
+    const invoice = ['completed', 'refunded'].includes(transaction.status)
+      ? await issueInvoice(transaction)
+      : null;
+
+    if (!invoice) {
+      return NextResponse.json(
+        { error: 'No invoice is available for this transaction' },
+        { status: 404 }
+      );
+    }
+
+    if (!invoice.invoiceNumber || !invoice.fileUrl) {
+      return NextResponse.json(
+        { error: 'This invoice is still being issued. Please try again shortly.' },
+        { status: 409 }
+      );
+    }
+
+    const file = await readPaperPDF(invoice.fileUrl);
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'Invoice file not found' },
+        { status: 404 }
+      );
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${invoice.invoiceNumber.replaceAll('/', '-')}.pdf"`,
+      'Cache-Control': 'private, no-store',
+    };
+
+    if (file.size) {
+      headers['Content-Length'] = file.size.toString();
+    }
+
+    return new NextResponse(file.stream, { headers });
+  } catch (error) {
+    console.error('Error downloading invoice:', error);
+    return NextResponse.json(
+      { error: 'Failed to download invoice' },
+      { status: 500 }
+    );
+  }
+}
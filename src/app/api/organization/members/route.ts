@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import { requireApiAuth } from '@/lib/apiAuth';
+import { recordAudit } from '@/lib/audit';
+import { getAppUrl } from '@/lib/mailer';
+import { createInvite, getManagedOrganization, removeMember, sendInviteEmail } from '@/lib/organizations';
+
+const EMAIL_PATTERN = /^\S+@\S+\.\S+$/;
+
+/**
+ * POST /api/organization/members
+ * Invite a student to the org admin's organization; they join once they accept.
+ * The response is the same whether or not the email has an account
+ * Body: { email: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { session, error } = await requireApiAuth();
+    if (error) return error;
+
+    const { email } = await request.json();
+
+    if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+      return NextResponse.json(
+        { error: 'A valid email is required' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const organization = await getManagedOrganization(session.user.id);
+
+    if (!organization) {
+      return NextResponse.json(
+        { error: 'Organization admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const invite = await createInvite(organization._id, email, session.user.id);
+    const appUrl = getAppUrl();
+
+    after(() => sendInviteEmail(organization, invite.email, appUrl).catch((error) => {
+      console.error('Error sending organization invite email:', error);
+    }));
+
+    await recordAudit({
+      action: 'organization.member.invite',
+      userId: session.user.id,
+      details: { organizationId: organization._id.toString(), email: invite.email },
+    });
+
+    return NextResponse.json(
+      { message: `Invite sent to ${invite.email}. They join once they accept it.` },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error inviting member:', error);
+    return NextResponse.json(
+      { error: 'Failed to send invite' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/organization/members?userId=...
+ * Remove a member; seats already assigned to them are kept
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { session, error } = await requireApiAuth();
+    if (error) return error;
+
+    const userId = request.nextUrl.searchParams.get('userId');
+
+    if (!userId || !mongoose.Types.ObjectId.isValid(userId)) {
+      return NextResponse.json(
+        { error: 'Invalid user ID' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const organization = await getManagedOrganization(session.user.id);
+
+    if (!organization) {
+      return NextResponse.json(
+        { error: 'Organization admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const result = await removeMember(organization._id, userId);
+
+    if (result.error !== undefined) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    await recordAudit({
+      action: 'organization.member.remove',
+      userId: session.user.id,
+      details: { organizationId: organization._id.toString(), memberId: userId },
+    });
+
+    return NextResponse.json({ message: `${result.user.name} removed` });
+  } catch (error) {
+    console.error('Error removing member:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove member' },
+      { status: 500 }
+    );
+  }
+}
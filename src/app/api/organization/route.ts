@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import User from '@/models/User';
+import Transaction from '@/models/Transaction';
+import { requireApiAuth } from '@/lib/apiAuth';
+import { getManagedOrganization, getMemberUsage } from '@/lib/organizations';
+
+/**
+ * GET /api/organization
+ * The org admin's organization with its members, their seat usage and bulk purchases
+ */
+export async function GET() {
+  try {
+    const { session, error } = await requireApiAuth();
+    if (error) return error;
+
+    await dbConnect();
+
+    const organization = await getManagedOrganization(session.user.id);
+
+    if (!organization) {
+      return NextResponse.json(
+        { error: 'Organization admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const [members, purchases, usage] = await Promise.all([
+      User.find({ organizationId: organization._id })
+        .sort({ name: 1 })
+        .select('name email role createdAt')
+        .lean(),
+      Transaction.find({ organizationId: organization._id, seats: { $exists: true } })
+        .sort({ createdAt: -1 })
+        .populate('paperId', 'title examName year')
+        .select('paperId tier seats seatsAssigned amount currency status createdAt')
+        .lean(),
+      getMemberUsage(organization._id),
+    ]);
+
+    return NextResponse.json({
+      organization,
+      members: members.map((member) => ({
+        ...member,
+        usage: usage.get(member._id.toString()) || { seats: 0, downloads: 0 },
+      })),
+      purchases,
+    });
+  } catch (error) {
+    console.error('Error fetching organization:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch organization' },
+      { status: 500 }
+    );
+  }
+}
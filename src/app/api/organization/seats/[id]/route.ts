@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import Transaction from '@/models/Transaction';
+import { requireApiAuth } from '@/lib/apiAuth';
+import { grantSeats } from '@/lib/purchases';
+import { getManagedOrganization } from '@/lib/organizations';
+
+/**
+ * PUT /api/organization/seats/[id]
+ * Assign unused seats from a completed bulk purchase to members
+ * Body: { memberIds: string[] }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, error } = await requireApiAuth();
+    if (error) return error;
+
+    const { id } = await params;
+    const { memberIds } = await request.json();
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid purchase ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(memberIds) || memberIds.length === 0 || !memberIds.every((m) => mongoose.Types.ObjectId.isValid(m))) {
+      return NextResponse.json(
+        { error: 'Choose at least one member' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const organization = await getManagedOrganization(session.user.id);
+
+    if (!organization) {
+      return NextResponse.json(
+        { error: 'Organization admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const purchase = await Transaction.findOne({
+      _id: id,
+      organizationId: organization._id,
+      seats: { $exists: true },
+    });
+
+    if (!purchase) {
+      return NextResponse.json(
+        { error: 'Purchase not found' },
+        { status: 404 }
+      );
+    }
+
+    if (purchase.status !== 'completed') {
+      return NextResponse.json(
+        { error: 'Seats can be assigned once the payment has completed' },
+        { status: 400 }
+      );
+    }
+
+    const result = await grantSeats(purchase, memberIds);
+
+    if (result.error !== undefined) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      message: `${result.seats.length} seat${result.seats.length === 1 ? '' : 's'} assigned`,
+      assigned: result.seats.length,
+    });
+  } catch (error) {
+    console.error('Error assigning seats:', error);
+    return NextResponse.json(
+      { error: 'Failed to assign seats' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import Paper from '@/models/Paper';
+import User from '@/models/User';
+import Transaction from '@/models/Transaction';
+import { requireApiVerifiedUser } from '@/lib/apiAuth';
+import { getTierPrice, isPurchaseTier } from '@/lib/pricing';
+import { BASE_CURRENCY, toMinorUnits } from '@/lib/currency';
+import { getPaymentGateway } from '@/lib/paymentGateway';
+import { getManagedOrganization, MAX_SEATS_PER_PURCHASE } from '@/lib/organizations';
+
+/**
+ * POST /api/organization/seats
+ * Start a bulk seat purchase: one payment for a paper for several members
+ * Body: { paperId: string, tier?: string, seats: number, memberIds?: string[] }
+ * Members listed get their seats once the payment completes; the rest can be
+ * assigned later. Seats are charged in INR at the paper's tier price.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { session, error } = await requireApiVerifiedUser('Please login to buy seats');
+    if (error) return error;
+
+    const { paperId, tier = 'questions-only', seats, memberIds = [] } = await request.json();
+
+    if (!paperId || !mongoose.Types.ObjectId.isValid(paperId)) {
+      return NextResponse.json(
+        { error: 'Paper ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isPurchaseTier(tier)) {
+      return NextResponse.json(
+        { error: 'Invalid purchase tier' },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(seats) || seats < 1 || seats > MAX_SEATS_PER_PURCHASE) {
+      return NextResponse.json(
+        { error: `Seats must be a whole number between 1 and ${MAX_SEATS_PER_PURCHASE}` },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(memberIds) || memberIds.length > seats || !memberIds.every((id) => mongoose.Types.ObjectId.isValid(id))) {
+      return NextResponse.json(
+        { error: 'Choose at most one member per seat' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const organization = await getManagedOrganization(session.user.id);
+
+    if (!organization) {
+      return NextResponse.json(
+        { error: 'Organization admin access required' },
+        { status: 403 }
+      );
+    }
+
+    if (!organization.isActive) {
+      return NextResponse.json(
+        { error: 'This organization is not active' },
+        { status: 403 }
+      );
+    }
+
+    const memberCount = await User.countDocuments({ _id: { $in: memberIds }, organizationId: organization._id });
+
+    if (memberCount !== new Set(memberIds).size) {
+      return NextResponse.json(
+        { error: 'Seats can only be assigned to members of your organization' },
+        { status: 400 }
+      );
+    }
+
+    const paper = await Paper.findOne({ _id: paperId, isActive: true });
+
+    if (!paper) {
+      return NextResponse.json(
+        { error: 'Paper not found' },
+        { status: 404 }
+      );
+    }
+
+    const price = getTierPrice(paper, tier, BASE_CURRENCY);
+
+    if (price === null) {
+      return NextResponse.json(
+        { error: 'This paper is not sold with solutions' },
+        { status: 400 }
+      );
+    }
+
+    if (price === 0) {
+      return NextResponse.json(
+        { error: 'This paper is free. Members can claim it themselves.', isFree: true },
+        { status: 400 }
+      );
+    }
+
+    const amount = price * seats;
+
+    const gateway = getPaymentGateway();
+    const order = await gateway.createOrder({
+      amountInMinorUnits: toMinorUnits(amount, BASE_CURRENCY),
+      currency: BASE_CURRENCY,
+      receipt: `seats_${paperId}_${Date.now()}`,
+      notes: {
+        paperId,
+        userId: session.user.id,
+        organizationId: organization._id.toString(),
+        tier,
+        seats: seats.toString(),
+      },
+    });
+
+    await Transaction.create({
+      userId: session.user.id,
+      paperId,
+      amount,
+      currency: BASE_CURRENCY,
+      tier,
+      organizationId: organization._id,
+      seats,
+      seatHolders: [...new Set(memberIds)],
+      seatsAssigned: 0,
+      razorpayOrderId: order.id,
+      status: 'pending',
+    });
+
+    return NextResponse.json({
+      orderId: order.id,
+      amount: order.amount,
+      currency: order.currency,
+      gateway: gateway.name,
+      seats,
+      tier,
+    });
+  } catch (error) {
+    console.error('Error creating seat order:', error);
+    return NextResponse.json(
+      { error: 'Failed to create seat order' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
 import dbConnect from '@/lib/mongodb';
 import Paper from '@/models/Paper';
 import mongoose from 'mongoose';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { requireApiAdmin } from '@/lib/apiAuth';
+import { isAdmin } from '@/lib/auth';
+import { getPaperAccess, getPreferredCurrency, PurchaseAccess } from '@/lib/purchases';
+import { PURCHASE_TIERS, PurchaseTier, resolveCurrency } from '@/lib/pricing';
+import { BASE_CURRENCY, Currency } from '@/lib/currency';
+import { pickPaperFields } from '@/lib/paperFields';
 
 // GET - Fetch single paper by ID
 export async function GET(
@@ -20,7 +28,7 @@ export async function GET(
       );
     }
 
-    const paper = await Paper.findById(id).select('-fileUrl').lean();
+    const paper = await Paper.findById(id).select('-fileUrl -solutionFileUrl').lean();
 
     if (!paper) {
       return NextResponse.json(
@@ -29,7 +37,44 @@ export async function GET(
       );
     }
 
-    return NextResponse.json({ paper });
+    const session = await getServerSession(authOptions);
+
+    // Submissions under review are only visible to admins and the seller who sent them
+    // (papers from before moderation have no status and count as approved)
+    const isOwner = !!session?.user?.id && paper.uploadedBy.toString() === session.user.id;
+    const isUnderReview = !!paper.moderationStatus && paper.moderationStatus !== 'approved';
+
+    if (isUnderReview && !isAdmin(session?.user?.role) && !isOwner) {
+      return NextResponse.json(
+        { error: 'Paper not found' },
+        { status: 404 }
+      );
+    }
+
+    let access: PurchaseAccess = { purchased: false, tier: null, purchasedWithSolutions: false };
+
+    let preferredCurrency: Currency = BASE_CURRENCY;
+
+    if (session?.user?.id) {
+      access = await getPaperAccess(session.user.id, paper);
+      preferredCurrency = await getPreferredCurrency(session.user.id);
+    }
+
+    // Answers are only sent to buyers (or subscribers) of the with-solutions tier
+    if (!access.purchasedWithSolutions && !isAdmin(session?.user?.role)) {
+      paper.questions = paper.questions.map((question) => ({
+        ...question,
+        answer: undefined,
+        answerImageUrl: undefined,
+      }));
+    }
+
+    // Each tier is shown in the preferred currency only if it is priced in it
+    const currencies = Object.fromEntries(
+      PURCHASE_TIERS.map((tier) => [tier, resolveCurrency([{ paper, tier }], preferredCurrency)])
+    ) as Record<PurchaseTier, Currency>;
+
+    return NextResponse.json({ paper, access, currencies });
   } catch (error) {
     console.error('Error fetching paper:', error);
     return NextResponse.json(
@@ -45,6 +90,9 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const { error } = await requireApiAdmin();
+    if (error) return error;
+
     await dbConnect();
 
     const { id } = await params;
@@ -59,7 +107,7 @@ export async function PUT(
 
     const paper = await Paper.findByIdAndUpdate(
       id,
-      { $set: body },
+      { $set: pickPaperFields(body) },
       { new: true, runValidators: true }
     );
 
@@ -97,6 +145,9 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const { error } = await requireApiAdmin();
+    if (error) return error;
+
     await dbConnect();
 
     const { id } = await params;
@@ -1,22 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { requireApiUploader } from '@/lib/apiAuth';
 import { parsePDFQuestions, cleanQuestions, extractTotalMarks } from '@/lib/pdfParser';
 import { validateBuffer } from '@/lib/fileValidation';
 
 /**
  * POST /api/papers/parse-pdf
  * Parse PDF file and extract question structure
- * Requires admin authentication
+ * Requires admin or seller authentication
  */
 export async function POST(request: NextRequest) {
   try {
     // Check authentication
-    const session = await getServerSession(authOptions);
-
-    if (!session || session.user?.role !== 'admin') {
-      return NextResponse.json({ error: 'Unauthorized. Admin access required.' }, { status: 401 });
-    }
+    const { error } = await requireApiUploader();
+    if (error) return error;
 
     // Parse multipart/form-data
     const formData = await request.formData();
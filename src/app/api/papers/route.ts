@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/mongodb';
-import Paper from '@/models/Paper';
+import Paper, { IPaper } from '@/models/Paper';
+import Bundle from '@/models/Bundle';
+import { requireApiUploader } from '@/lib/apiAuth';
+import { isSeller } from '@/lib/auth';
+import { PAPER_FILE_FIELDS, pickPaperFields } from '@/lib/paperFields';
+import { isSellerUpload } from '@/lib/blobStorage';
+import { BUNDLE_PAPER_FIELDS, toBundleListing } from '@/lib/bundles';
+
+// Bundles shown above the first page of papers
+const BUNDLES_PER_LISTING = 6;
 
 // GET - Fetch papers with filters
 export async function GET(request: NextRequest) {
@@ -65,25 +74,46 @@ export async function GET(request: NextRequest) {
         sortQuery = { createdAt: -1 };
     }
 
+    // Bundles are listed above the first page of papers, filtered by category and search only
+    const bundleQuery: Record<string, unknown> = { isActive: true };
+
+    if (category) {
+      bundleQuery.category = category;
+    }
+
+    if (search) {
+      bundleQuery.$text = { $search: search };
+    }
+
     const skip = (page - 1) * limit;
 
-    const [papers, total] = await Promise.all([
+    const [papers, total, bundles, bundleTotal] = await Promise.all([
       Paper.find(query)
         .sort(sortQuery)
         .skip(skip)
         .limit(limit)
-        .select('-fileUrl')
+        .select('-fileUrl -solutionFileUrl -questions.answer -questions.answerImageUrl')
         .lean(),
       Paper.countDocuments(query),
+      page === 1
+        ? Bundle.find(bundleQuery)
+          .sort({ createdAt: -1 })
+          .limit(BUNDLES_PER_LISTING)
+          .populate<{ papers: (IPaper | null)[] }>({ path: 'papers', model: Paper, select: BUNDLE_PAPER_FIELDS })
+          .lean()
+        : [],
+      Bundle.countDocuments(bundleQuery),
     ]);
 
     return NextResponse.json({
       papers,
+      bundles: bundles.map(toBundleListing),
       pagination: {
         page,
         limit,
         total,
         pages: Math.ceil(total / limit),
+        bundleTotal,
       },
     });
   } catch (error) {
@@ -95,17 +125,39 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST - Create new paper (Admin only)
+// POST - Create new paper (Admin or seller; seller papers wait for moderation)
 export async function POST(request: NextRequest) {
   try {
+    const { session, error } = await requireApiUploader();
+    if (error) return error;
+
     await dbConnect();
 
     const body = await request.json();
+    const needsReview = isSeller(session.user.role);
 
-    const paper = await Paper.create(body);
+    const fields = pickPaperFields(body);
+
+    // Otherwise a seller could point a submission at another paper's private file
+    const hasForeignFile = needsReview && PAPER_FILE_FIELDS.some(
+      (field) => fields[field] !== undefined && !isSellerUpload(String(fields[field]), session.user.id)
+    );
+
+    if (hasForeignFile) {
+      return NextResponse.json(
+        { error: 'Paper files must be uploaded from your own account' },
+        { status: 403 }
+      );
+    }
+
+    const paper = await Paper.create({
+      ...fields,
+      uploadedBy: session.user.id,
+      ...(needsReview && { isActive: false, moderationStatus: 'pending' }),
+    });
 
     return NextResponse.json(
-      { message: 'Paper created successfully', paper },
+      { message: needsReview ? 'Paper submitted for review' : 'Paper created successfully', paper },
       { status: 201 }
     );
   } catch (error: unknown) {
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import Bundle from '@/models/Bundle';
+import Transaction from '@/models/Transaction';
+import { requireApiVerifiedUser } from '@/lib/apiAuth';
+import { grantPurchase, quoteBundle } from '@/lib/purchases';
+import { applyCoupon, getCouponTransactionFields, releaseCouponUse, reserveCouponUse } from '@/lib/coupons';
+import { getPaymentGateway } from '@/lib/paymentGateway';
+import { BASE_CURRENCY, toMinorUnits } from '@/lib/currency';
+
+// Downloads allowed per paper in the bundle, shared across the bundle's transaction
+const DOWNLOADS_PER_PAPER = 5;
+
+/**
+ * POST /api/payment/checkout-bundle
+ * Create a Razorpay order for a bundle
+ * The whole bundle is one pending Transaction that grants every paper on completion
+ * Body: { bundleId: string, couponCode?: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { session, error } = await requireApiVerifiedUser('Please login to make a purchase');
+    if (error) return error;
+
+    const { bundleId, couponCode } = await request.json();
+
+    if (!bundleId || !mongoose.Types.ObjectId.isValid(bundleId)) {
+      return NextResponse.json(
+        { error: 'Bundle ID is required' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const bundle = await Bundle.findOne({ _id: bundleId, isActive: true });
+
+    if (!bundle) {
+      return NextResponse.json(
+        { error: 'Bundle not found' },
+        { status: 404 }
+      );
+    }
+
+    const quote = await quoteBundle(bundle, session.user.id);
+
+    if (quote.error !== undefined) {
+      return NextResponse.json(
+        { error: quote.error },
+        { status: quote.status }
+      );
+    }
+
+    const { price, papers } = quote;
+
+    let couponFields: ReturnType<typeof getCouponTransactionFields> | undefined;
+
+    if (couponCode) {
+      const couponQuote = await applyCoupon(couponCode, session.user.id, {
+        bundleId: bundle._id,
+        category: bundle.category,
+        amount: price,
+      });
+
+      if (couponQuote.error !== undefined) {
+        return NextResponse.json(
+          { error: couponQuote.error },
+          { status: couponQuote.status }
+        );
+      }
+
+      couponFields = getCouponTransactionFields(couponQuote, price);
+    }
+
+    // Reserve the coupon use now so concurrent checkouts cannot exceed its limits
+    if (couponFields) {
+      const reservation = await reserveCouponUse(couponFields.coupon.couponId, session.user.id);
+
+      if (reservation) {
+        return NextResponse.json(
+          { error: reservation.error },
+          { status: reservation.status }
+        );
+      }
+    }
+
+    // Until a transaction holds the reserved use, it is returned if anything below fails
+    let heldCouponId = couponFields?.coupon.couponId;
+
+    try {
+      const lineItem = {
+        userId: session.user.id,
+        bundleId: bundle._id,
+        bundlePapers: papers,
+        amount: price,
+        tier: bundle.tier,
+        maxDownloads: papers.length * DOWNLOADS_PER_PAPER,
+        ...couponFields,
+      };
+
+      // Razorpay rejects zero-amount orders, so fully discounted bundles are granted directly
+      if (lineItem.amount === 0) {
+        const transaction = await Transaction.create({
+          ...lineItem,
+          paymentMethod: 'free',
+          razorpayOrderId: `free_${new mongoose.Types.ObjectId().toString()}`,
+          status: 'completed',
+        });
+        heldCouponId = undefined;
+
+        await grantPurchase(transaction);
+
+        return NextResponse.json(
+          { message: 'Bundle added to your downloads', transactionId: transaction._id, isFree: true },
+          { status: 201 }
+        );
+      }
+
+      // Create the gateway order
+      const gateway = getPaymentGateway();
+      const order = await gateway.createOrder({
+        amountInMinorUnits: toMinorUnits(lineItem.amount, BASE_CURRENCY), // Bundles are sold in INR only
+        currency: BASE_CURRENCY,
+        receipt: `bundle_${bundleId}_${Date.now()}`,
+        notes: {
+          bundleId,
+          userId: session.user.id,
+          tier: bundle.tier,
+          ...(lineItem.coupon && { coupon: lineItem.coupon.code }),
+        },
+      });
+
+      // Create pending transaction
+      await Transaction.create({
+        ...lineItem,
+        razorpayOrderId: order.id,
+        status: 'pending',
+      });
+      heldCouponId = undefined;
+
+      return NextResponse.json({
+        orderId: order.id,
+        amount: order.amount,
+        currency: order.currency,
+        gateway: gateway.name,
+        papers: papers.length,
+      });
+    } catch (error) {
+      if (heldCouponId) await releaseCouponUse(heldCouponId, session.user.id);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error creating bundle order:', error);
+    return NextResponse.json(
+      { error: 'Failed to create order' },
+      { status: 500 }
+    );
+  }
+}
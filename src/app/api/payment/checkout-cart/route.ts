@@ -0,0 +1,127 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import User from '@/models/User';
+import Paper from '@/models/Paper';
+import Transaction from '@/models/Transaction';
+import { requireApiVerifiedUser } from '@/lib/apiAuth';
+import { quotePurchase } from '@/lib/purchases';
+import { resolveCurrency } from '@/lib/pricing';
+import { toMinorUnits } from '@/lib/currency';
+import { getPaymentGateway } from '@/lib/paymentGateway';
+
+/**
+ * POST /api/payment/checkout-cart
+ * Create one Razorpay order covering every paper in the cart
+ * Each paper becomes a pending Transaction line item sharing the order ID
+ */
+export async function POST() {
+  try {
+    const { session, error } = await requireApiVerifiedUser('Please login to make a purchase');
+    if (error) return error;
+
+    await dbConnect();
+
+    const user = await User.findById(session.user.id).select('cart preferredCurrency');
+
+    if (!user || user.cart.length === 0) {
+      return NextResponse.json(
+        { error: 'Your cart is empty' },
+        { status: 400 }
+      );
+    }
+
+    const papers = await Paper.find({
+      _id: { $in: user.cart.map((item) => item.paperId) },
+      isActive: true,
+    });
+
+    // One order has one currency: the preferred one only if every tier is priced in it
+    const currency = resolveCurrency(
+      user.cart.flatMap((item) => {
+        const paper = papers.find((p) => p._id.equals(item.paperId));
+        return paper ? [{ paper, tier: item.tier }] : [];
+      }),
+      user.preferredCurrency
+    );
+
+    const lineItems = [];
+    const problems: string[] = [];
+
+    for (const item of user.cart) {
+      const paper = papers.find((p) => p._id.equals(item.paperId));
+
+      if (!paper) {
+        problems.push('A paper in your cart is no longer available');
+        continue;
+      }
+
+      const quote = await quotePurchase(paper, session.user.id, item.tier, currency);
+
+      if (quote.error !== undefined) {
+        problems.push(`${paper.title}: ${quote.error}`);
+        continue;
+      }
+
+      lineItems.push({
+        paperId: paper._id,
+        tier: item.tier,
+        amount: quote.price,
+        currency,
+        upgradedFrom: quote.upgradedFrom,
+      });
+    }
+
+    if (problems.length > 0) {
+      return NextResponse.json(
+        { error: 'Please update your cart before checking out', problems },
+        { status: 400 }
+      );
+    }
+
+    const total = lineItems.reduce((sum, item) => sum + item.amount, 0);
+
+    // Razorpay rejects zero-amount orders; free papers go through the claim route
+    if (total === 0) {
+      return NextResponse.json(
+        { error: 'Everything in your cart is free. Claim the papers instead.', isFree: true },
+        { status: 400 }
+      );
+    }
+
+    // Create the gateway order
+    const gateway = getPaymentGateway();
+    const order = await gateway.createOrder({
+      amountInMinorUnits: toMinorUnits(total, currency),
+      currency,
+      receipt: `cart_${session.user.id}_${Date.now()}`,
+      notes: {
+        userId: session.user.id,
+        papers: String(lineItems.length),
+      },
+    });
+
+    // Create one pending transaction per paper
+    await Transaction.insertMany(
+      lineItems.map((item) => ({
+        ...item,
+        userId: session.user.id,
+        razorpayOrderId: order.id,
+        status: 'pending',
+      }))
+    );
+
+    return NextResponse.json({
+      orderId: order.id,
+      amount: order.amount,
+      currency: order.currency,
+      gateway: gateway.name,
+      items: lineItems.length,
+    });
+  } catch (error) {
+    console.error('Error creating cart order:', error);
+    return NextResponse.json(
+      { error: 'Failed to create order' },
+      { status: 500 }
+    );
+  }
+}
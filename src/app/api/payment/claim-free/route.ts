@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import Paper from '@/models/Paper';
+import Transaction from '@/models/Transaction';
+import { requireApiVerifiedUser } from '@/lib/apiAuth';
+import { isPurchaseTier } from '@/lib/pricing';
+import { quotePurchase, grantPurchase } from '@/lib/purchases';
+import { checkRateLimit, getClientIp } from '@/lib/rateLimit';
+
+// Claims allowed per hour, per account and per IP address
+const CLAIMS_PER_USER = parseInt(process.env.FREE_CLAIMS_PER_USER_HOUR || '10');
+const CLAIMS_PER_IP = parseInt(process.env.FREE_CLAIMS_PER_IP_HOUR || '30');
+const CLAIM_WINDOW_SECONDS = 60 * 60;
+
+/**
+ * POST /api/payment/claim-free
+ * Claim a free paper (or free tier upgrade) without going through Razorpay
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { session, error } = await requireApiVerifiedUser('Please login to claim this paper');
+    if (error) return error;
+
+    const { paperId, tier = 'questions-only' } = await request.json();
+
+    if (!paperId || !mongoose.Types.ObjectId.isValid(paperId)) {
+      return NextResponse.json(
+        { error: 'Paper ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isPurchaseTier(tier)) {
+      return NextResponse.json(
+        { error: 'Invalid purchase tier' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    // Throttle automated claiming of the free catalog
+    const [userLimit, ipLimit] = await Promise.all([
+      checkRateLimit(`claim:user:${session.user.id}`, CLAIMS_PER_USER, CLAIM_WINDOW_SECONDS),
+      checkRateLimit(`claim:ip:${getClientIp(request)}`, CLAIMS_PER_IP, CLAIM_WINDOW_SECONDS),
+    ]);
+
+    if (!userLimit.allowed || !ipLimit.allowed) {
+      const retryAfter = Math.max(userLimit.retryAfter, ipLimit.retryAfter);
+
+      return NextResponse.json(
+        { error: 'Too many free claims. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': retryAfter.toString() } }
+      );
+    }
+
+    const paper = await Paper.findOne({ _id: paperId, isActive: true });
+
+    if (!paper) {
+      return NextResponse.json(
+        { error: 'Paper not found' },
+        { status: 404 }
+      );
+    }
+
+    const quote = await quotePurchase(paper, session.user.id, tier);
+
+    if (quote.error !== undefined) {
+      return NextResponse.json(
+        { error: quote.error },
+        { status: quote.status }
+      );
+    }
+
+    if (quote.price > 0) {
+      return NextResponse.json(
+        { error: 'This paper is not free' },
+        { status: 400 }
+      );
+    }
+
+    let transaction;
+
+    try {
+      transaction = await Transaction.create({
+        userId: session.user.id,
+        paperId: paper._id,
+        amount: 0,
+        tier,
+        upgradedFrom: quote.upgradedFrom,
+        paymentMethod: 'free',
+        razorpayOrderId: `free_${new mongoose.Types.ObjectId().toString()}`,
+        status: 'completed',
+      });
+    } catch (error) {
+      // A concurrent request claimed the same paper and tier first
+      if ((error as { code?: number }).code === 11000) {
+        return NextResponse.json(
+          { error: 'You have already claimed this paper' },
+          { status: 409 }
+        );
+      }
+
+      throw error;
+    }
+
+    await grantPurchase(transaction);
+
+    return NextResponse.json(
+      {
+        message: 'Paper claimed successfully',
+        transactionId: transaction._id,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error claiming free paper:', error);
+    return NextResponse.json(
+      { error: 'Failed to claim paper' },
+      { status: 500 }
+    );
+  }
+}
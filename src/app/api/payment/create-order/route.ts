@@ -1,32 +1,46 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import Razorpay from 'razorpay';
+import mongoose from 'mongoose';
 import dbConnect from '@/lib/mongodb';
 import Paper from '@/models/Paper';
 import Transaction from '@/models/Transaction';
-import { authOptions } from '@/app/api/auth/[...nextauth]/route';
-
-const razorpay = new Razorpay({
-  key_id: process.env.RAZORPAY_KEY_ID!,
-  key_secret: process.env.RAZORPAY_KEY_SECRET!,
-});
+import { requireApiVerifiedUser } from '@/lib/apiAuth';
+import { isPurchaseTier, resolveCurrency } from '@/lib/pricing';
+import { getPreferredCurrency, grantPurchase, quotePurchase } from '@/lib/purchases';
+import { BASE_CURRENCY, toMinorUnits } from '@/lib/currency';
+import {
+  applyCoupon,
+  getCouponTransactionFields,
+  releaseCouponReservation,
+  releaseCouponUse,
+  reserveCouponUse,
+} from '@/lib/coupons';
+import { getPaymentGateway } from '@/lib/paymentGateway';
+import { debitWallet, getWalletBalance } from '@/lib/wallet';
 
+/**
+ * POST /api/payment/create-order
+ * Start a paper purchase
+ * Body: { paperId: string, tier?: string, couponCode?: string, useWallet?: boolean }
+ * With useWallet, wallet credit pays as much of the price as it covers and
+ * the gateway is charged the rest; credit covering everything completes the purchase
+ */
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
+    const { session, error } = await requireApiVerifiedUser('Please login to make a purchase');
+    if (error) return error;
+
+    const { paperId, tier = 'questions-only', couponCode, useWallet = false } = await request.json();
 
-    if (!session?.user?.id) {
+    if (!paperId) {
       return NextResponse.json(
-        { error: 'Please login to make a purchase' },
-        { status: 401 }
+        { error: 'Paper ID is required' },
+        { status: 400 }
       );
     }
 
-    const { paperId } = await request.json();
-
-    if (!paperId) {
+    if (!isPurchaseTier(tier)) {
       return NextResponse.json(
-        { error: 'Paper ID is required' },
+        { error: 'Invalid purchase tier' },
         { status: 400 }
       );
     }
@@ -34,7 +48,7 @@ export async function POST(request: NextRequest) {
     await dbConnect();
 
     // Get paper details
-    const paper = await Paper.findById(paperId);
+    const paper = await Paper.findOne({ _id: paperId, isActive: true });
 
     if (!paper) {
       return NextResponse.json(
@@ -43,47 +57,201 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if already purchased
-    const existingTransaction = await Transaction.findOne({
-      userId: session.user.id,
-      paperId: paperId,
-      status: 'completed',
-    });
+    // Charge in the buyer's preferred currency when the tier is priced in it
+    const currency = resolveCurrency([{ paper, tier }], await getPreferredCurrency(session.user.id));
+    const quote = await quotePurchase(paper, session.user.id, tier, currency);
 
-    if (existingTransaction) {
+    if (quote.error !== undefined) {
       return NextResponse.json(
-        { error: 'You have already purchased this paper' },
+        { error: quote.error },
+        { status: quote.status }
+      );
+    }
+
+    const { price, upgradedFrom } = quote;
+
+    // Razorpay rejects zero-amount orders; free papers go through the claim route
+    if (price === 0) {
+      return NextResponse.json(
+        { error: 'This paper is free. Claim it instead.', isFree: true },
         { status: 400 }
       );
     }
 
-    // Create Razorpay order
-    const amount = paper.price * 100; // Convert to paise
+    if (useWallet && currency !== BASE_CURRENCY) {
+      return NextResponse.json(
+        { error: 'Wallet credit can only be used on purchases in INR' },
+        { status: 400 }
+      );
+    }
 
-    const order = await razorpay.orders.create({
-      amount,
-      currency: 'INR',
-      receipt: `paper_${paperId}_${Date.now()}`,
-      notes: {
-        paperId: paperId,
+    let couponFields: ReturnType<typeof getCouponTransactionFields> | undefined;
+
+    if (couponCode) {
+      const couponQuote = await applyCoupon(couponCode, session.user.id, {
+        paperId: paper._id,
+        category: paper.category,
+        amount: price,
+        currency,
+      });
+
+      if (couponQuote.error !== undefined) {
+        return NextResponse.json(
+          { error: couponQuote.error },
+          { status: couponQuote.status }
+        );
+      }
+
+      couponFields = getCouponTransactionFields(couponQuote, price);
+    }
+
+    // Reserve the coupon use now so concurrent checkouts cannot exceed its limits
+    if (couponFields) {
+      const reservation = await reserveCouponUse(couponFields.coupon.couponId, session.user.id);
+
+      if (reservation) {
+        return NextResponse.json(
+          { error: reservation.error },
+          { status: reservation.status }
+        );
+      }
+    }
+
+    // Until a transaction holds the reserved use, it is returned if anything below fails
+    let heldCouponId = couponFields?.coupon.couponId;
+
+    try {
+      const lineItem = {
         userId: session.user.id,
-      },
-    });
-
-    // Create pending transaction
-    await Transaction.create({
-      userId: session.user.id,
-      paperId: paperId,
-      amount: paper.price,
-      razorpayOrderId: order.id,
-      status: 'pending',
-    });
-
-    return NextResponse.json({
-      orderId: order.id,
-      amount: order.amount,
-      currency: order.currency,
-    });
+        paperId: paperId,
+        amount: price,
+        currency,
+        tier,
+        upgradedFrom,
+        ...couponFields,
+      };
+
+      // A coupon covering the whole price completes the purchase without Razorpay
+      if (lineItem.amount === 0) {
+        const transaction = await Transaction.create({
+          ...lineItem,
+          paymentMethod: 'free',
+          razorpayOrderId: `free_${new mongoose.Types.ObjectId().toString()}`,
+          status: 'completed',
+        });
+        heldCouponId = undefined;
+
+        await grantPurchase(transaction);
+
+        return NextResponse.json(
+          { message: 'Paper added to your downloads', transactionId: transaction._id, isFree: true },
+          { status: 201 }
+        );
+      }
+
+      let walletAmount = 0;
+
+      if (useWallet) {
+        walletAmount = Math.min(await getWalletBalance(session.user.id), lineItem.amount);
+      }
+
+      // Wallet credit covering the whole price completes the purchase without Razorpay
+      if (walletAmount > 0 && walletAmount >= lineItem.amount) {
+        const transaction = await Transaction.create({
+          ...lineItem,
+          walletAmount: lineItem.amount,
+          paymentMethod: 'wallet',
+          razorpayOrderId: `wallet_${new mongoose.Types.ObjectId().toString()}`,
+          status: 'pending',
+        });
+        heldCouponId = undefined;
+
+        const balance = await debitWallet(session.user.id, lineItem.amount, {
+          reason: 'purchase',
+          transactionId: transaction._id,
+        });
+
+        if (balance === null) {
+          await Transaction.updateOne({ _id: transaction._id }, { $set: { status: 'failed', walletReleased: true } });
+          await releaseCouponReservation(transaction._id);
+          return NextResponse.json(
+            { error: 'Your wallet balance has changed. Please try again.' },
+            { status: 409 }
+          );
+        }
+
+        transaction.status = 'completed';
+        await transaction.save();
+        await grantPurchase(transaction);
+
+        return NextResponse.json(
+          { message: 'Paid from your wallet', transactionId: transaction._id, paidFromWallet: true, walletBalance: balance },
+          { status: 201 }
+        );
+      }
+
+      // Create the gateway order for what the wallet does not cover
+      const gateway = getPaymentGateway();
+      const order = await gateway.createOrder({
+        amountInMinorUnits: toMinorUnits(lineItem.amount - walletAmount, currency),
+        currency,
+        receipt: `paper_${paperId}_${Date.now()}`,
+        notes: {
+          paperId: paperId,
+          userId: session.user.id,
+          tier,
+          ...(lineItem.coupon && { coupon: lineItem.coupon.code }),
+        },
+      });
+
+      // Create pending transaction
+      const transaction = await Transaction.create({
+        ...lineItem,
+        ...(walletAmount > 0 && { walletAmount }),
+        razorpayOrderId: order.id,
+        status: 'pending',
+      });
+      heldCouponId = undefined;
+
+      // Hold the wallet part now; it is returned if the order expires unpaid
+      if (walletAmount > 0) {
+        const balance = await debitWallet(session.user.id, walletAmount, {
+          reason: 'purchase',
+          transactionId: transaction._id,
+        });
+
+        if (balance === null) {
+          await Transaction.updateOne({ _id: transaction._id }, { $set: { status: 'failed', walletReleased: true } });
+          await releaseCouponReservation(transaction._id);
+          return NextResponse.json(
+            { error: 'Your wallet balance has changed. Please try again.' },
+            { status: 409 }
+          );
+        }
+      }
+
+      return NextResponse.json({
+        orderId: order.id,
+        amount: order.amount,
+        currency: order.currency,
+        gateway: gateway.name,
+        walletAmount,
+        tier,
+        isUpgrade: !!upgradedFrom,
+      });
+    } catch (error) {
+      if (heldCouponId) await releaseCouponUse(heldCouponId, session.user.id);
+
+      // A concurrent request completed the same fully discounted purchase first
+      if ((error as { code?: number }).code === 11000) {
+        return NextResponse.json(
+          { error: 'You already own this paper' },
+          { status: 409 }
+        );
+      }
+
+      throw error;
+    }
   } catch (error) {
     console.error('Error creating order:', error);
     return NextResponse.json(
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import dbConnect from '@/lib/mongodb';
+import Subscription from '@/models/Subscription';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { getPaymentGateway, simulateMockSubscriptionPayment } from '@/lib/paymentGateway';
+
+/**
+ * POST /api/payment/mock/pay-subscription
+ * Stand-in for Razorpay Checkout when PAYMENT_GATEWAY=mock
+ * Pays the first cycle of one of the user's new subscriptions and returns the signed handler response
+ * Body: { gatewaySubscriptionId: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (getPaymentGateway().name !== 'mock') {
+      return NextResponse.json(
+        { error: 'Not found' },
+        { status: 404 }
+      );
+    }
+
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { gatewaySubscriptionId } = await request.json();
+
+    if (!gatewaySubscriptionId) {
+      return NextResponse.json(
+        { error: 'Subscription ID is required' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const isOwnSubscription = await Subscription.exists({
+      gatewaySubscriptionId,
+      userId: session.user.id,
+      status: 'created',
+    });
+
+    const payment = isOwnSubscription ? simulateMockSubscriptionPayment(gatewaySubscriptionId) : null;
+
+    if (!payment) {
+      return NextResponse.json(
+        { error: 'Subscription not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      razorpay_payment_id: payment.paymentId,
+      razorpay_subscription_id: payment.subscriptionId,
+      razorpay_signature: payment.signature,
+    });
+  } catch (error) {
+    console.error('Error simulating subscription payment:', error);
+    return NextResponse.json(
+      { error: 'Failed to simulate payment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import dbConnect from '@/lib/mongodb';
+import Transaction from '@/models/Transaction';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { getPaymentGateway, simulateMockPayment } from '@/lib/paymentGateway';
+
+/**
+ * POST /api/payment/mock/pay
+ * Stand-in for Razorpay Checkout when PAYMENT_GATEWAY=mock
+ * Pays one of the user's pending orders and returns the signed handler response
+ * Body: { orderId: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (getPaymentGateway().name !== 'mock') {
+      return NextResponse.json(
+        { error: 'Not found' },
+        { status: 404 }
+      );
+    }
+
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { orderId } = await request.json();
+
+    if (!orderId) {
+      return NextResponse.json(
+        { error: 'Order ID is required' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const isOwnOrder = await Transaction.exists({
+      razorpayOrderId: orderId,
+      userId: session.user.id,
+      status: 'pending',
+    });
+
+    const payment = isOwnOrder ? simulateMockPayment(orderId) : null;
+
+    if (!payment) {
+      return NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      razorpay_payment_id: payment.paymentId,
+      razorpay_order_id: payment.orderId,
+      razorpay_signature: payment.signature,
+    });
+  } catch (error) {
+    console.error('Error simulating payment:', error);
+    return NextResponse.json(
+      { error: 'Failed to simulate payment' },
+      { status: 500 }
+    );
+  }
+}
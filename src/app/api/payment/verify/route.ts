@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
-import crypto from 'crypto';
 import dbConnect from '@/lib/mongodb';
 import Transaction from '@/models/Transaction';
-import User from '@/models/User';
-import Paper from '@/models/Paper';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { completeOrder, getOrderTotal } from '@/lib/purchases';
+import { recordAudit } from '@/lib/audit';
+import { getClientIp } from '@/lib/rateLimit';
+import { getPaymentGateway } from '@/lib/paymentGateway';
+import { toMinorUnits } from '@/lib/currency';
 
 export async function POST(request: NextRequest) {
   try {
@@ -27,55 +29,101 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    await dbConnect();
+
+    const userId = session.user.id;
+    const ip = getClientIp(request);
+
+    // Every rejection is written to the audit trail
+    const reject = async (reason: string, error: string, status: number) => {
+      await recordAudit({
+        action: 'payment.verify.rejected',
+        userId,
+        ip,
+        details: {
+          reason,
+          razorpayOrderId: razorpay_order_id,
+          razorpayPaymentId: razorpay_payment_id,
+        },
+      });
+
+      return NextResponse.json({ error }, { status });
+    };
+
+    const gateway = getPaymentGateway();
+
     // Verify signature
-    const body = razorpay_order_id + '|' + razorpay_payment_id;
-    const expectedSignature = crypto
-      .createHmac('sha256', process.env.RAZORPAY_KEY_SECRET!)
-      .update(body)
-      .digest('hex');
+    const isValid = gateway.verifyPayment({
+      orderId: razorpay_order_id,
+      paymentId: razorpay_payment_id,
+      signature: razorpay_signature,
+    });
 
-    if (expectedSignature !== razorpay_signature) {
-      return NextResponse.json(
-        { error: 'Invalid payment signature' },
-        { status: 400 }
-      );
+    if (!isValid) {
+      return reject('invalid_signature', 'Invalid payment signature', 400);
     }
 
-    await dbConnect();
+    // A cart order has one transaction per paper, all sharing the order ID
+    const transactions = await Transaction.find({ razorpayOrderId: razorpay_order_id });
 
-    // Update transaction
-    const transaction = await Transaction.findOneAndUpdate(
-      { razorpayOrderId: razorpay_order_id },
-      {
-        $set: {
-          razorpayPaymentId: razorpay_payment_id,
-          razorpaySignature: razorpay_signature,
-          status: 'completed',
-        },
-      },
-      { new: true }
-    );
+    if (transactions.length === 0) {
+      return reject('transaction_not_found', 'Transaction not found', 404);
+    }
 
-    if (!transaction) {
-      return NextResponse.json(
-        { error: 'Transaction not found' },
-        { status: 404 }
-      );
+    // Orders can only be verified by the user who created them
+    if (transactions.some((t) => t.userId.toString() !== userId)) {
+      return reject('user_mismatch', 'This order belongs to a different account', 403);
     }
 
-    // Add paper to user's purchased papers
-    await User.findByIdAndUpdate(session.user.id, {
-      $addToSet: { purchasedPapers: transaction.paperId },
-    });
+    if (transactions.some((t) => t.status === 'refunded')) {
+      return reject('already_refunded', 'This order has been refunded', 409);
+    }
+
+    const isPaidWith = (paymentId: string) =>
+      transactions.every((t) => t.status === 'completed' && t.razorpayPaymentId === paymentId);
 
-    // Increment paper download count
-    await Paper.findByIdAndUpdate(transaction.paperId, {
-      $inc: { downloads: 1 },
+    if (transactions.every((t) => t.status === 'completed')) {
+      // The webhook may have completed this exact payment already
+      if (isPaidWith(razorpay_payment_id)) {
+        return NextResponse.json({
+          message: 'Payment verified successfully',
+          transactionId: transactions[0]._id,
+          transactionIds: transactions.map((t) => t._id),
+        });
+      }
+
+      return reject('already_completed', 'This order has already been paid', 409);
+    }
+
+    // Cross-check the amount the gateway holds for the order with what we stored
+    const order = await gateway.fetchOrder(razorpay_order_id);
+
+    if (order.amount !== toMinorUnits(getOrderTotal(transactions), transactions[0].currency)) {
+      return reject('amount_mismatch', 'Order amount does not match', 400);
+    }
+
+    // Line items are completed only while still open, so replays cannot complete them twice
+    const completed = await completeOrder(razorpay_order_id, {
+      razorpayPaymentId: razorpay_payment_id,
+      razorpaySignature: razorpay_signature,
     });
 
+    if (completed.length === 0) {
+      const completedByWebhook = await Transaction.exists({
+        razorpayOrderId: razorpay_order_id,
+        razorpayPaymentId: razorpay_payment_id,
+        status: 'completed',
+      });
+
+      if (!completedByWebhook) {
+        return reject('concurrent_update', 'This order has already been processed', 409);
+      }
+    }
+
     return NextResponse.json({
       message: 'Payment verified successfully',
-      transactionId: transaction._id,
+      transactionId: transactions[0]._id,
+      transactionIds: transactions.map((t) => t._id),
     });
   } catch (error) {
     console.error('Error verifying payment:', error);
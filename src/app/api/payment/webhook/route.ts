@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import { handleWebhookEvent } from '@/lib/razorpayWebhook';
+import { getPaymentGateway } from '@/lib/paymentGateway';
+
+/**
+ * POST /api/payment/webhook
+ * Receive Razorpay webhook events (payment.captured, payment.failed, refund.processed)
+ * Completes transactions even when the browser never reaches /api/payment/verify
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // The signature covers the raw body, so read it before parsing
+    const rawBody = await request.text();
+    const parsed = getPaymentGateway().parseWebhook(rawBody, request.headers.get('x-razorpay-signature'));
+
+    if (parsed.error !== undefined) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: parsed.status }
+      );
+    }
+
+    const { event } = parsed;
+
+    await dbConnect();
+
+    const result = await handleWebhookEvent(event);
+
+    console.log(`[Razorpay Webhook] ${event.event}: ${result.message}`);
+
+    // Always acknowledge verified events so Razorpay does not keep retrying
+    return NextResponse.json({ received: true, ...result });
+  } catch (error) {
+    console.error('Error handling Razorpay webhook:', error);
+    return NextResponse.json(
+      { error: 'Webhook handling failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import { requireApiAuth } from '@/lib/apiAuth';
+import { isSeller } from '@/lib/auth';
+import { isCurrency } from '@/lib/currency';
+import { requestPayout } from '@/lib/sellers';
+
+/**
+ * POST /api/seller/payouts
+ * Request a payout of all cleared earnings in a currency
+ * Body: { currency: string, payoutDetails: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { session, error } = await requireApiAuth();
+    if (error) return error;
+
+    if (!isSeller(session.user.role)) {
+      return NextResponse.json(
+        { error: 'Seller access required' },
+        { status: 403 }
+      );
+    }
+
+    const { currency, payoutDetails } = await request.json();
+
+    if (!isCurrency(currency)) {
+      return NextResponse.json(
+        { error: 'Invalid currency' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof payoutDetails !== 'string' || !payoutDetails.trim() || payoutDetails.length > 300) {
+      return NextResponse.json(
+        { error: 'Enter your UPI ID or bank details (up to 300 characters)' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const result = await requestPayout(session.user.id, currency, payoutDetails.trim());
+
+    if (result.error !== undefined) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json(
+      { message: 'Payout requested', payout: result.payout },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error requesting payout:', error);
+    return NextResponse.json(
+      { error: 'Failed to request payout' },
+      { status: 500 }
+    );
+  }
+}
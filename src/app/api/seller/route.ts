@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import User from '@/models/User';
+import Paper from '@/models/Paper';
+import SellerPayout from '@/models/SellerPayout';
+import { requireApiAuth } from '@/lib/apiAuth';
+import { isSeller } from '@/lib/auth';
+import { getRevenueSharePercent, getSellerBalances, SELLER_PAYOUT_HOLD_DAYS } from '@/lib/sellers';
+
+/**
+ * GET /api/seller
+ * Seller dashboard: revenue share, earnings per currency, submitted papers and payouts
+ */
+export async function GET() {
+  try {
+    const { session, error } = await requireApiAuth();
+    if (error) return error;
+
+    if (!isSeller(session.user.role)) {
+      return NextResponse.json(
+        { error: 'Seller access required' },
+        { status: 403 }
+      );
+    }
+
+    await dbConnect();
+
+    const [user, papers, payouts, balances] = await Promise.all([
+      User.findById(session.user.id).select('seller').lean(),
+      Paper.find({ uploadedBy: session.user.id })
+        .sort({ createdAt: -1 })
+        .select('title examName year downloads isActive moderationStatus moderationNote createdAt')
+        .lean(),
+      SellerPayout.find({ sellerId: session.user.id }).sort({ createdAt: -1 }).limit(50).lean(),
+      getSellerBalances([session.user.id]),
+    ]);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      revenueSharePercent: getRevenueSharePercent(user),
+      payoutDetails: user.seller?.payoutDetails || '',
+      holdDays: SELLER_PAYOUT_HOLD_DAYS,
+      balances: balances.get(session.user.id) || [],
+      papers,
+      payouts,
+    });
+  } catch (error) {
+    console.error('Error fetching seller dashboard:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch seller dashboard' },
+      { status: 500 }
+    );
+  }
+}
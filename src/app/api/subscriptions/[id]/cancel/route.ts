@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import Subscription from '@/models/Subscription';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { recordAudit } from '@/lib/audit';
+import { getPaymentGateway } from '@/lib/paymentGateway';
+
+/**
+ * POST /api/subscriptions/[id]/cancel
+ * Stop renewals; access continues until the end of the paid period
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid subscription ID' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const subscription = await Subscription.findOne({ _id: id, userId: session.user.id });
+
+    if (!subscription) {
+      return NextResponse.json(
+        { error: 'Subscription not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!['created', 'active', 'halted'].includes(subscription.status)) {
+      return NextResponse.json(
+        { error: `Cannot cancel a ${subscription.status} subscription` },
+        { status: 400 }
+      );
+    }
+
+    // Halted and unpaid subscriptions have no paid period left to run out
+    await getPaymentGateway().cancelSubscription(
+      subscription.gatewaySubscriptionId,
+      subscription.status === 'active'
+    );
+
+    subscription.status = 'cancelled';
+    subscription.cancelledAt = new Date();
+    await subscription.save();
+
+    await recordAudit({
+      action: 'subscription.cancel',
+      userId: session.user.id,
+      details: { subscriptionId: subscription._id.toString() },
+    });
+
+    return NextResponse.json({
+      message: 'Subscription cancelled',
+      accessUntil: subscription.currentPeriodEnd,
+    });
+  } catch (error) {
+    console.error('Error cancelling subscription:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel subscription' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import SubscriptionPlan from '@/models/SubscriptionPlan';
+
+/**
+ * GET /api/subscriptions/plans
+ * List subscription plans on sale
+ */
+export async function GET() {
+  try {
+    await dbConnect();
+
+    const plans = await SubscriptionPlan.find({ isActive: true })
+      .sort({ category: 1, price: 1 })
+      .select('-gatewayPlanId')
+      .lean();
+
+    return NextResponse.json({ plans });
+  } catch (error) {
+    console.error('Error fetching subscription plans:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch subscription plans' },
+      { status: 500 }
+    );
+  }
+}
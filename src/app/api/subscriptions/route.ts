@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import Subscription from '@/models/Subscription';
+import SubscriptionPlan, { ISubscriptionPlan } from '@/models/SubscriptionPlan';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { requireApiVerifiedUser } from '@/lib/apiAuth';
+import { getCategorySubscription, isSubscriptionLive } from '@/lib/subscriptions';
+import { getPaymentGateway } from '@/lib/paymentGateway';
+
+/**
+ * GET /api/subscriptions
+ * List the current user's subscriptions
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Please login to view your subscriptions' },
+        { status: 401 }
+      );
+    }
+
+    await dbConnect();
+
+    const subscriptions = await Subscription.find({
+      userId: session.user.id,
+      status: { $ne: 'created' },
+    })
+      .sort({ createdAt: -1 })
+      .populate<{ planId: ISubscriptionPlan | null }>({
+        path: 'planId',
+        model: SubscriptionPlan,
+        select: 'name price interval',
+      })
+      .lean();
+
+    return NextResponse.json({
+      subscriptions: subscriptions.map((subscription) => ({
+        _id: subscription._id,
+        planName: subscription.planId?.name || 'Retired plan',
+        price: subscription.planId?.price,
+        interval: subscription.planId?.interval,
+        category: subscription.category,
+        tier: subscription.tier,
+        status: subscription.status,
+        currentPeriodEnd: subscription.currentPeriodEnd,
+        cancelledAt: subscription.cancelledAt,
+        hasAccess: isSubscriptionLive(subscription),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching subscriptions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch subscriptions' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/subscriptions
+ * Start a subscription to a plan; the first payment is collected by the gateway's checkout
+ * Body: { planId: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { session, error } = await requireApiVerifiedUser('Please login to subscribe');
+    if (error) return error;
+
+    const { planId } = await request.json();
+
+    if (!planId || !mongoose.Types.ObjectId.isValid(planId)) {
+      return NextResponse.json(
+        { error: 'Plan ID is required' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const plan = await SubscriptionPlan.findOne({ _id: planId, isActive: true });
+
+    if (!plan) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+
+    const existing = await getCategorySubscription(session.user.id, plan.category);
+
+    if (existing && (existing.tier === 'with-solutions' || plan.tier === 'questions-only')) {
+      return NextResponse.json(
+        { error: `You already have an active ${plan.category} subscription` },
+        { status: 400 }
+      );
+    }
+
+    const gateway = getPaymentGateway();
+    const gatewaySubscription = await gateway.createSubscription(
+      plan.gatewayPlanId,
+      plan.totalCycles,
+      { userId: session.user.id, planId: plan._id.toString(), category: plan.category }
+    );
+
+    const subscription = await Subscription.create({
+      userId: session.user.id,
+      planId: plan._id,
+      category: plan.category,
+      tier: plan.tier,
+      gatewaySubscriptionId: gatewaySubscription.id,
+      status: 'created',
+    });
+
+    return NextResponse.json(
+      {
+        subscriptionId: subscription._id,
+        gatewaySubscriptionId: gatewaySubscription.id,
+        gateway: gateway.name,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating subscription:', error);
+    return NextResponse.json(
+      { error: 'Failed to create subscription' },
+      { status: 500 }
+    );
+  }
+}
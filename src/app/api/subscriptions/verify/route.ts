@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import dbConnect from '@/lib/mongodb';
+import Subscription from '@/models/Subscription';
+import SubscriptionPlan from '@/models/SubscriptionPlan';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { recordAudit } from '@/lib/audit';
+import { getClientIp } from '@/lib/rateLimit';
+import { getPeriodEnd, recordSubscriptionPayment } from '@/lib/subscriptions';
+import { getPaymentGateway } from '@/lib/paymentGateway';
+
+/**
+ * POST /api/subscriptions/verify
+ * Verify the first subscription payment from the Checkout callback and activate access
+ * Renewals arrive through the subscription.charged webhook
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { razorpay_payment_id, razorpay_subscription_id, razorpay_signature } = await request.json();
+
+    if (!razorpay_payment_id || !razorpay_subscription_id || !razorpay_signature) {
+      return NextResponse.json(
+        { error: 'Missing payment details' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const reject = async (reason: string, error: string, status: number) => {
+      await recordAudit({
+        action: 'subscription.verify.rejected',
+        userId: session.user.id,
+        ip: getClientIp(request),
+        details: {
+          reason,
+          gatewaySubscriptionId: razorpay_subscription_id,
+          razorpayPaymentId: razorpay_payment_id,
+        },
+      });
+
+      return NextResponse.json({ error }, { status });
+    };
+
+    const isValid = getPaymentGateway().verifySubscriptionPayment({
+      subscriptionId: razorpay_subscription_id,
+      paymentId: razorpay_payment_id,
+      signature: razorpay_signature,
+    });
+
+    if (!isValid) {
+      return reject('invalid_signature', 'Invalid payment signature', 400);
+    }
+
+    const subscription = await Subscription.findOne({ gatewaySubscriptionId: razorpay_subscription_id });
+
+    if (!subscription) {
+      return reject('subscription_not_found', 'Subscription not found', 404);
+    }
+
+    if (subscription.userId.toString() !== session.user.id) {
+      return reject('user_mismatch', 'This subscription belongs to a different account', 403);
+    }
+
+    // The subscription.charged webhook may have activated it already
+    if (subscription.lastPaymentId === razorpay_payment_id) {
+      return NextResponse.json({ message: 'Subscription activated', subscriptionId: subscription._id });
+    }
+
+    const plan = await SubscriptionPlan.findById(subscription.planId).select('interval');
+    const periodStart = new Date();
+
+    const updated = await recordSubscriptionPayment(razorpay_subscription_id, {
+      paymentId: razorpay_payment_id,
+      periodStart,
+      periodEnd: getPeriodEnd(periodStart, plan?.interval || 'monthly'),
+    });
+
+    if (!updated) {
+      return reject('concurrent_update', 'This subscription has already been processed', 409);
+    }
+
+    return NextResponse.json({ message: 'Subscription activated', subscriptionId: updated._id });
+  } catch (error) {
+    console.error('Error verifying subscription:', error);
+    return NextResponse.json(
+      { error: 'Subscription verification failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,22 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { requireApiUploader } from '@/lib/apiAuth';
 import { validateBuffer } from '@/lib/fileValidation';
-import { uploadPaperPDF, uploadSolutionPDF } from '@/lib/blobStorage';
+import { isSeller } from '@/lib/auth';
+import { getSellerFolder, uploadPaperPDF, uploadSolutionPDF } from '@/lib/blobStorage';
 
 /**
  * POST /api/upload/paper
  * Upload PDF files (question papers or solution papers)
- * Requires admin authentication
+ * Requires admin or seller authentication
+ * Seller uploads go under folders scoped to the seller, the only files their submissions may use
  */
 export async function POST(request: NextRequest) {
   try {
     // Check authentication
-    const session = await getServerSession(authOptions);
-
-    if (!session || session.user?.role !== 'admin') {
-      return NextResponse.json({ error: 'Unauthorized. Admin access required.' }, { status: 401 });
-    }
+    const { session, error } = await requireApiUploader();
+    if (error) return error;
 
     // Parse multipart/form-data
     const formData = await request.formData();
@@ -38,12 +36,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: validation.error }, { status: 400 });
     }
 
+    const sellerId = isSeller(session.user.role) ? session.user.id : undefined;
+
     // Upload to Vercel Blob based on type
     let uploadResult;
     if (type === 'solution') {
-      uploadResult = await uploadSolutionPDF(buffer, file.name);
+      uploadResult = await uploadSolutionPDF(buffer, file.name, sellerId && getSellerFolder('solutions', sellerId));
     } else {
-      uploadResult = await uploadPaperPDF(buffer, file.name);
+      uploadResult = await uploadPaperPDF(buffer, file.name, sellerId && getSellerFolder('papers', sellerId));
     }
 
     // Return upload result
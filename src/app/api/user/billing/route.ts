@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import User from '@/models/User';
+import { requireApiAuth } from '@/lib/apiAuth';
+
+/**
+ * GET /api/user/billing
+ * Get the billing details printed on the current user's invoices
+ */
+export async function GET() {
+  try {
+    const { session, error } = await requireApiAuth();
+    if (error) return error;
+
+    await dbConnect();
+
+    const user = await User.findById(session.user.id).select('billing').lean();
+
+    return NextResponse.json({ billing: user?.billing || {} });
+  } catch (error) {
+    console.error('Error fetching billing details:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch billing details' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/user/billing
+ * Update billing details; applies to invoices issued from now on
+ * Body: { gstin?: string, address?: string, stateCode?: string }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { session, error } = await requireApiAuth();
+    if (error) return error;
+
+    const { gstin, address, stateCode } = await request.json();
+
+    await dbConnect();
+
+    const user = await User.findById(session.user.id);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    // Empty values clear a field
+    user.billing = {
+      gstin: gstin || undefined,
+      address: address || undefined,
+      stateCode: stateCode || undefined,
+    };
+
+    await user.save();
+
+    return NextResponse.json({ message: 'Billing details updated', billing: user.billing });
+  } catch (error: unknown) {
+    console.error('Error updating billing details:', error);
+
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update billing details' },
+      { status: 500 }
+    );
+  }
+}
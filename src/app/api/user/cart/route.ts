@@ -0,0 +1,213 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import User from '@/models/User';
+import Paper, { IPaper } from '@/models/Paper';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { getTierPrice, isPurchaseTier, resolveCurrency } from '@/lib/pricing';
+import { quotePurchase } from '@/lib/purchases';
+
+const MAX_CART_ITEMS = 50;
+
+/**
+ * GET /api/user/cart
+ * Get the current user's cart with prices per item
+ * Prices are in the user's preferred currency when every tier in the cart is priced in it;
+ * items whose tier is no longer on sale are marked unavailable with a null price
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Please login to view your cart' },
+        { status: 401 }
+      );
+    }
+
+    await dbConnect();
+
+    const user = await User.findById(session.user.id)
+      .select('cart preferredCurrency')
+      .populate<{ cart: { paperId: IPaper | null; tier: 'questions-only' | 'with-solutions'; addedAt: Date }[] }>(
+        'cart.paperId',
+        'title subject examName year category price paperType questionsOnlyPrice withSolutionsPrice currencyPrices hasSolutions isActive'
+      )
+      .lean();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    // Skip papers that were deleted or unpublished after being added
+    const cart = user.cart.filter((item) => item.paperId?.isActive);
+    // Tiers taken off sale after being added cannot be bought in any currency
+    const available = cart
+      .map((item) => ({ paper: item.paperId!, tier: item.tier }))
+      .filter(({ paper, tier }) => getTierPrice(paper, tier) !== null);
+    const currency = resolveCurrency(available, user.preferredCurrency);
+
+    const items = cart.map((item) => {
+      const paper = item.paperId!;
+      const price = getTierPrice(paper, item.tier, currency);
+
+      return {
+        paperId: paper._id,
+        title: paper.title,
+        subject: paper.subject,
+        examName: paper.examName,
+        year: paper.year,
+        tier: item.tier,
+        price,
+        unavailable: price === null,
+        addedAt: item.addedAt,
+      };
+    });
+
+    return NextResponse.json({
+      items,
+      total: items.reduce((sum, item) => sum + (item.price ?? 0), 0),
+      currency,
+    });
+  } catch (error) {
+    console.error('Error fetching cart:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch cart' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/user/cart
+ * Add a paper to the cart, or change the tier of a paper already in it
+ * Body: { paperId: string, tier?: 'questions-only' | 'with-solutions' }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Please login to add papers to your cart' },
+        { status: 401 }
+      );
+    }
+
+    const { paperId, tier = 'questions-only' } = await request.json();
+
+    if (!paperId || !mongoose.Types.ObjectId.isValid(paperId)) {
+      return NextResponse.json(
+        { error: 'Paper ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isPurchaseTier(tier)) {
+      return NextResponse.json(
+        { error: 'Invalid purchase tier' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const paper = await Paper.findOne({ _id: paperId, isActive: true });
+
+    if (!paper) {
+      return NextResponse.json(
+        { error: 'Paper not found' },
+        { status: 404 }
+      );
+    }
+
+    const quote = await quotePurchase(paper, session.user.id, tier);
+
+    if (quote.error !== undefined) {
+      return NextResponse.json(
+        { error: quote.error },
+        { status: quote.status }
+      );
+    }
+
+    // Change the tier if the paper is already in the cart
+    const updated = await User.findOneAndUpdate(
+      { _id: session.user.id, 'cart.paperId': paperId },
+      { $set: { 'cart.$.tier': tier } },
+      { new: true }
+    );
+
+    if (!updated) {
+      const added = await User.findOneAndUpdate(
+        {
+          _id: session.user.id,
+          'cart.paperId': { $ne: paperId },
+          [`cart.${MAX_CART_ITEMS - 1}`]: { $exists: false },
+        },
+        { $push: { cart: { paperId, tier } } },
+        { new: true }
+      );
+
+      if (!added) {
+        return NextResponse.json(
+          { error: `Your cart can hold at most ${MAX_CART_ITEMS} papers` },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json({ message: 'Added to cart' });
+  } catch (error) {
+    console.error('Error adding to cart:', error);
+    return NextResponse.json(
+      { error: 'Failed to add to cart' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/user/cart?paperId=...
+ * Remove a paper from the cart (or clear the cart when no paperId is given)
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const paperId = request.nextUrl.searchParams.get('paperId');
+
+    if (paperId && !mongoose.Types.ObjectId.isValid(paperId)) {
+      return NextResponse.json(
+        { error: 'Invalid paper ID' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    await User.findByIdAndUpdate(
+      session.user.id,
+      paperId ? { $pull: { cart: { paperId } } } : { $set: { cart: [] } }
+    );
+
+    return NextResponse.json({ message: 'Cart updated' });
+  } catch (error) {
+    console.error('Error updating cart:', error);
+    return NextResponse.json(
+      { error: 'Failed to update cart' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import Transaction from '@/models/Transaction';
+import Paper from '@/models/Paper';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { createDownloadToken, getDownloadUrl, DownloadFileType } from '@/lib/downloadToken';
+import { coversPaper } from '@/lib/purchases';
+import { getCategorySubscription } from '@/lib/subscriptions';
+import { checkRateLimit } from '@/lib/rateLimit';
+
+// Subscription downloads have no per-purchase quota, so they are rate limited instead
+const SUBSCRIPTION_DOWNLOADS_PER_HOUR = parseInt(process.env.SUBSCRIPTION_DOWNLOADS_PER_HOUR || '30');
+
+/**
+ * GET /api/user/downloads/[id]
+ * Issue a short-lived signed download URL for a purchased paper
+ * Consumes one download from the purchase quota, unless a category
+ * subscription covers the paper
+ *
+ * Query: ?type=solution to download the solution PDF instead of the paper
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Please login to download papers' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const file: DownloadFileType =
+      request.nextUrl.searchParams.get('type') === 'solution' ? 'solution' : 'paper';
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid paper ID' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const paper = await Paper.findById(id).select('category fileUrl solutionFileUrl');
+
+    if (!paper) {
+      return NextResponse.json(
+        { error: 'Paper not found' },
+        { status: 404 }
+      );
+    }
+
+    if (file === 'solution' && !paper.solutionFileUrl) {
+      return NextResponse.json(
+        { error: 'This paper has no solution file' },
+        { status: 404 }
+      );
+    }
+
+    const subscription = await getCategorySubscription(session.user.id, paper.category);
+
+    if (subscription && (file === 'paper' || subscription.tier === 'with-solutions')) {
+      const limit = await checkRateLimit(
+        `subscription-download:${session.user.id}`,
+        SUBSCRIPTION_DOWNLOADS_PER_HOUR,
+        60 * 60
+      );
+
+      if (!limit.allowed) {
+        return NextResponse.json(
+          { error: 'Too many downloads. Please try again later.' },
+          { status: 429, headers: { 'Retry-After': limit.retryAfter.toString() } }
+        );
+      }
+
+      const token = createDownloadToken({
+        userId: session.user.id,
+        paperId: id,
+        subscriptionId: subscription.subscriptionId,
+        file,
+      });
+
+      return NextResponse.json({
+        downloadUrl: getDownloadUrl(token),
+        downloadsRemaining: null,
+        viaSubscription: true,
+      });
+    }
+
+    // A paper can be covered by several purchases (a questions-only buy, its
+    // upgrade, bundles); like the downloads list, prefer with-solutions, then newest
+    const transactions = await Transaction.find({
+      userId: session.user.id,
+      ...coversPaper(id),
+      status: 'completed',
+    }).sort({ createdAt: -1 });
+
+    if (transactions.length === 0) {
+      return NextResponse.json(
+        { error: 'You have not purchased this paper' },
+        { status: 404 }
+      );
+    }
+
+    const now = new Date();
+    const candidates = transactions
+      .filter((transaction) => file === 'paper' || transaction.tier === 'with-solutions')
+      .sort((a, b) => Number(b.tier === 'with-solutions') - Number(a.tier === 'with-solutions'));
+
+    if (candidates.length === 0) {
+      return NextResponse.json(
+        { error: 'Purchase with solutions to download the solution file' },
+        { status: 403 }
+      );
+    }
+
+    const unexpired = candidates.filter((transaction) => transaction.downloadExpiry > now);
+
+    if (unexpired.length === 0) {
+      return NextResponse.json(
+        { error: 'Download period for this paper has expired' },
+        { status: 410 }
+      );
+    }
+
+    let updated = null;
+
+    // Re-check quota and expiry in the update itself so concurrent
+    // requests cannot push downloadCount past maxDownloads
+    for (const transaction of unexpired) {
+      if (transaction.downloadCount >= transaction.maxDownloads) continue;
+
+      updated = await Transaction.findOneAndUpdate(
+        {
+          _id: transaction._id,
+          downloadExpiry: { $gt: new Date() },
+          $expr: { $lt: ['$downloadCount', '$maxDownloads'] },
+        },
+        { $inc: { downloadCount: 1 } },
+        { new: true }
+      );
+
+      if (updated) break;
+    }
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Download limit reached for this paper' },
+        { status: 403 }
+      );
+    }
+
+    const token = createDownloadToken({
+      userId: session.user.id,
+      paperId: id,
+      transactionId: updated._id.toString(),
+      file,
+    });
+
+    return NextResponse.json({
+      downloadUrl: getDownloadUrl(token),
+      downloadsRemaining: updated.maxDownloads - updated.downloadCount,
+    });
+  } catch (error) {
+    console.error('Error issuing download:', error);
+    return NextResponse.json(
+      { error: 'Failed to download paper' },
+      { status: 500 }
+    );
+  }
+}
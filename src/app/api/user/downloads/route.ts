@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import dbConnect from '@/lib/mongodb';
+import Transaction from '@/models/Transaction';
+import { IPaper } from '@/models/Paper';
+import Bundle, { IBundle } from '@/models/Bundle';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+
+const PAPER_FIELDS = 'title subject examName year category solutionFileUrl';
+
+/**
+ * GET /api/user/downloads
+ * List the current user's completed purchases with remaining downloads
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Please login to view your downloads' },
+        { status: 401 }
+      );
+    }
+
+    await dbConnect();
+
+    // Bulk seat purchases belong to the members given seats, not the org admin who paid
+    const transactions = await Transaction.find({
+      userId: session.user.id,
+      status: 'completed',
+      seats: { $exists: false },
+    })
+      .sort({ createdAt: -1 })
+      .populate<{ paperId: IPaper | null }>('paperId', PAPER_FIELDS)
+      .populate<{ bundlePapers: (IPaper | null)[] }>('bundlePapers', PAPER_FIELDS)
+      .populate<{ bundleId: IBundle | null }>({ path: 'bundleId', model: Bundle, select: 'title' })
+      .lean();
+
+    const now = new Date();
+
+    // One entry per paper: an upgrade adds a second completed transaction,
+    // and the with-solutions one (newest) carries the active quota.
+    // A bundle purchase lists each of its papers under the bundle's transaction.
+    type Entry = { paper: IPaper; transaction: (typeof transactions)[number] };
+    const latestByPaper = new Map<string, Entry>();
+
+    for (const transaction of transactions) {
+      const papers = transaction.bundleId ? transaction.bundlePapers : [transaction.paperId];
+
+      for (const paper of papers) {
+        // Skip purchases whose paper has since been deleted
+        if (!paper) continue;
+
+        const key = paper._id.toString();
+        const current = latestByPaper.get(key);
+
+        if (!current || (current.transaction.tier !== 'with-solutions' && transaction.tier === 'with-solutions')) {
+          latestByPaper.set(key, { paper, transaction });
+        }
+      }
+    }
+
+    const papers = Array.from(latestByPaper.values()).map(({ paper, transaction }) => ({
+      _id: paper._id,
+      title: paper.title,
+      subject: paper.subject,
+      examName: paper.examName,
+      year: paper.year,
+      category: paper.category,
+      hasSolutionFile: !!paper.solutionFileUrl,
+      tier: transaction.tier,
+      bundleTitle: transaction.bundleId?.title,
+      transactionId: transaction._id,
+      purchasedAt: transaction.createdAt,
+      downloadExpiry: transaction.downloadExpiry,
+      isExpired: transaction.downloadExpiry <= now,
+      downloadsRemaining: Math.max(transaction.maxDownloads - transaction.downloadCount, 0),
+    }));
+
+    return NextResponse.json({ papers });
+  } catch (error) {
+    console.error('Error fetching downloads:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch downloads' },
+      { status: 500 }
+    );
+  }
+}
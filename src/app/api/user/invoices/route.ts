@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import Invoice from '@/models/Invoice';
+import { requireApiAuth } from '@/lib/apiAuth';
+
+/**
+ * GET /api/user/invoices
+ * List tax invoices issued to the current user
+ */
+export async function GET() {
+  try {
+    const { session, error } = await requireApiAuth();
+    if (error) return error;
+
+    await dbConnect();
+
+    // Claims not yet numbered are left out until they are issued
+    const invoices = await Invoice.find({ userId: session.user.id, invoiceNumber: { $exists: true } })
+      .sort({ issuedAt: -1 })
+      .select('invoiceNumber transactionId lineItems total currency issuedAt')
+      .lean();
+
+    return NextResponse.json({
+      invoices: invoices.map((invoice) => ({
+        _id: invoice._id,
+        invoiceNumber: invoice.invoiceNumber,
+        transactionId: invoice.transactionId,
+        description: invoice.lineItems[0]?.description,
+        total: invoice.total,
+        currency: invoice.currency,
+        issuedAt: invoice.issuedAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching invoices:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch invoices' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import { requireApiAuth } from '@/lib/apiAuth';
+import { recordAudit } from '@/lib/audit';
+import { acceptInvite, declineInvite } from '@/lib/organizations';
+
+/**
+ * POST /api/user/organization-invites/[id]
+ * Accept an invite and join the organization
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, error } = await requireApiAuth();
+    if (error) return error;
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: 'Invalid invite ID' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const result = await acceptInvite(id, session.user.id);
+
+    if (result.error !== undefined) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    await recordAudit({
+      action: 'organization.member.add',
+      userId: session.user.id,
+      details: { organizationId: result.user.organizationId?.toString(), memberId: session.user.id, inviteId: id },
+    });
+
+    return NextResponse.json({ message: 'You have joined the organization' });
+  } catch (error) {
+    console.error('Error accepting organization invite:', error);
+    return NextResponse.json(
+      { error: 'Failed to accept invite' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/user/organization-invites/[id]
+ * Decline an invite
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, error } = await requireApiAuth();
+    if (error) return error;
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id) || !session.user.email) {
+      return NextResponse.json(
+        { error: 'Invite not found' },
+        { status: 404 }
+      );
+    }
+
+    await dbConnect();
+
+    if (!(await declineInvite(id, session.user.email))) {
+      return NextResponse.json(
+        { error: 'Invite not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Invite declined' });
+  } catch (error) {
+    console.error('Error declining organization invite:', error);
+    return NextResponse.json(
+      { error: 'Failed to decline invite' },
+      { status: 500 }
+    );
+  }
+}
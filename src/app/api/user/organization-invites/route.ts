@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import { requireApiAuth } from '@/lib/apiAuth';
+import { getPendingInvites } from '@/lib/organizations';
+
+/**
+ * GET /api/user/organization-invites
+ * Open invites to join an organization sent to the current user's email
+ */
+export async function GET() {
+  try {
+    const { session, error } = await requireApiAuth();
+    if (error) return error;
+
+    if (!session.user.email) {
+      return NextResponse.json({ invites: [] });
+    }
+
+    await dbConnect();
+
+    const invites = await getPendingInvites(session.user.email);
+
+    return NextResponse.json({
+      invites: invites
+        .filter((invite) => invite.organizationId)
+        .map((invite) => ({
+          _id: invite._id,
+          organization: invite.organizationId,
+          createdAt: invite.createdAt,
+          expiresAt: invite.expiresAt,
+        })),
+    });
+  } catch (error) {
+    console.error('Error fetching organization invites:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch invites' },
+      { status: 500 }
+    );
+  }
+}
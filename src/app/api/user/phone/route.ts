@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import User from '@/models/User';
+import { requireApiAuth } from '@/lib/apiAuth';
+import { confirmPhoneVerification, normalizePhone, sendPhoneVerification } from '@/lib/phoneOtp';
+import { checkRateLimit } from '@/lib/rateLimit';
+
+// Verification codes sent per hour, per account
+const CODES_PER_USER = parseInt(process.env.PHONE_VERIFY_PER_USER_HOUR || '5');
+const CODE_WINDOW_SECONDS = 60 * 60;
+
+/**
+ * GET /api/user/phone
+ * Get the phone number on the current user's account and whether it is verified
+ */
+export async function GET() {
+  try {
+    const { session, error } = await requireApiAuth();
+    if (error) return error;
+
+    await dbConnect();
+
+    const user = await User.findById(session.user.id).select('phone phoneVerified').lean();
+
+    return NextResponse.json({ phone: user?.phone || '', phoneVerified: !!user?.phoneVerified });
+  } catch (error) {
+    console.error('Error fetching phone:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch phone number' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/user/phone
+ * Set the phone number on the account and text it a verification code
+ * Body: { phone: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { session, error } = await requireApiAuth();
+    if (error) return error;
+
+    const { phone } = await request.json();
+    const normalizedPhone = typeof phone === 'string' ? normalizePhone(phone) : null;
+
+    if (!normalizedPhone) {
+      return NextResponse.json(
+        { error: 'Please provide a valid phone number' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const limit = await checkRateLimit(`verify-phone:user:${session.user.id}`, CODES_PER_USER, CODE_WINDOW_SECONDS);
+
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many codes requested. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': limit.retryAfter.toString() } }
+      );
+    }
+
+    await sendPhoneVerification(session.user.id, normalizedPhone);
+
+    return NextResponse.json({ message: 'Code sent', phone: normalizedPhone });
+  } catch (error) {
+    console.error('Error sending phone verification code:', error);
+    return NextResponse.json(
+      { error: 'Failed to send code' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/user/phone
+ * Verify the phone number on the account with the texted code
+ * Body: { code: string }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { session, error } = await requireApiAuth();
+    if (error) return error;
+
+    const { code } = await request.json();
+
+    if (!code || typeof code !== 'string') {
+      return NextResponse.json(
+        { error: 'Code is required' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const result = await confirmPhoneVerification(session.user.id, code);
+
+    if (result.error !== undefined) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      message: 'Phone number verified. You can now sign in with it.',
+      phone: result.phone,
+    });
+  } catch (error) {
+    console.error('Error verifying phone:', error);
+    return NextResponse.json(
+      { error: 'Failed to verify phone number' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import User from '@/models/User';
+import { requireApiAuth } from '@/lib/apiAuth';
+import { BASE_CURRENCY, isCurrency } from '@/lib/currency';
+
+/**
+ * GET /api/user/preferences
+ * Get the current user's shopping preferences
+ */
+export async function GET() {
+  try {
+    const { session, error } = await requireApiAuth();
+    if (error) return error;
+
+    await dbConnect();
+
+    const user = await User.findById(session.user.id).select('preferredCurrency').lean();
+
+    return NextResponse.json({ currency: user?.preferredCurrency || BASE_CURRENCY });
+  } catch (error) {
+    console.error('Error fetching preferences:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch preferences' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/user/preferences
+ * Update the currency papers are shown and charged in
+ * Body: { currency: 'INR' | 'USD' | 'AED' | 'GBP' }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { session, error } = await requireApiAuth();
+    if (error) return error;
+
+    const { currency } = await request.json();
+
+    if (!isCurrency(currency)) {
+      return NextResponse.json(
+        { error: 'Unsupported currency' },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    await User.findByIdAndUpdate(session.user.id, { preferredCurrency: currency });
+
+    return NextResponse.json({ message: 'Preferences updated', currency });
+  } catch (error) {
+    console.error('Error updating preferences:', error);
+    return NextResponse.json(
+      { error: 'Failed to update preferences' },
+      { status: 500 }
+    );
+  }
+}
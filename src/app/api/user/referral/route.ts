@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import Referral from '@/models/Referral';
+import { requireApiAuth } from '@/lib/apiAuth';
+import { getReferralCode, REFERRAL_REWARD_AMOUNT } from '@/lib/referrals';
+
+/**
+ * GET /api/user/referral
+ * Get the current user's referral code and how their invites are doing
+ */
+export async function GET() {
+  try {
+    const { session, error } = await requireApiAuth();
+    if (error) return error;
+
+    await dbConnect();
+
+    const code = await getReferralCode(session.user.id);
+
+    if (!code) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const counts = await Referral.aggregate<{ _id: string; count: number; earned: number }>([
+      { $match: { referrerId: new mongoose.Types.ObjectId(session.user.id) } },
+      { $group: { _id: '$status', count: { $sum: 1 }, earned: { $sum: { $ifNull: ['$rewardAmount', 0] } } } },
+    ]);
+
+    const byStatus = Object.fromEntries(counts.map((entry) => [entry._id, entry]));
+
+    return NextResponse.json({
+      code,
+      rewardAmount: REFERRAL_REWARD_AMOUNT,
+      // Rejected invites are counted as pending so the checks are not revealed
+      pending: (byStatus.pending?.count || 0) + (byStatus.rejected?.count || 0),
+      rewarded: byStatus.rewarded?.count || 0,
+      earned: byStatus.rewarded?.earned || 0,
+    });
+  } catch (error) {
+    console.error('Error fetching referral details:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch referral details' },
+      { status: 500 }
+    );
+  }
+}
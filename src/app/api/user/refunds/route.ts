@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import dbConnect from '@/lib/mongodb';
+import Transaction from '@/models/Transaction';
+import { IPaper } from '@/models/Paper';
+import Bundle, { IBundle } from '@/models/Bundle';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+
+/**
+ * GET /api/user/refunds
+ * List refunds issued on the current user's transactions
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    await dbConnect();
+
+    const transactions = await Transaction.find({
+      userId: session.user.id,
+      'refunds.0': { $exists: true },
+    })
+      .populate<{ paperId: IPaper | null }>('paperId', 'title')
+      .populate<{ bundleId: IBundle | null }>({ path: 'bundleId', model: Bundle, select: 'title' })
+      .lean();
+
+    const refunds = transactions
+      .flatMap((transaction) =>
+        transaction.refunds.map((refund) => ({
+          _id: refund.razorpayRefundId,
+          transactionId: transaction._id,
+          paperTitle: transaction.paperId?.title || transaction.bundleId?.title || 'Deleted paper',
+          amount: refund.amount,
+          currency: transaction.currency,
+          reason: refund.reason,
+          status: transaction.status,
+          createdAt: refund.createdAt,
+        }))
+      )
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+    return NextResponse.json({ refunds });
+  } catch (error) {
+    console.error('Error fetching refunds:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch refunds' },
+      { status: 500 }
+    );
+  }
+}
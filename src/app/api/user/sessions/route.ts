@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import { requireApiAuth } from '@/lib/apiAuth';
+import { revokeSessions } from '@/lib/sessions';
+import { recordAudit } from '@/lib/audit';
+import { getClientIp } from '@/lib/rateLimit';
+
+/**
+ * DELETE /api/user/sessions
+ * Sign the current user out of every device, including this one
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { session, error } = await requireApiAuth();
+    if (error) return error;
+
+    await dbConnect();
+
+    await revokeSessions(session.user.id);
+
+    await recordAudit({
+      action: 'user.sessions-revoked',
+      userId: session.user.id,
+      ip: getClientIp(request),
+      details: { by: 'self' },
+    });
+
+    return NextResponse.json({ message: 'Signed out of all devices' });
+  } catch (error) {
+    console.error('Error revoking sessions:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign out of all devices' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import { requireApiAuth } from '@/lib/apiAuth';
+import { getWallet } from '@/lib/wallet';
+
+/**
+ * GET /api/user/wallet
+ * Get the current user's wallet balance and recent ledger entries
+ */
+export async function GET() {
+  try {
+    const { session, error } = await requireApiAuth();
+    if (error) return error;
+
+    await dbConnect();
+
+    const wallet = await getWallet(session.user.id);
+
+    if (!wallet) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(wallet);
+  } catch (error) {
+    console.error('Error fetching wallet:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch wallet' },
+      { status: 500 }
+    );
+  }
+}
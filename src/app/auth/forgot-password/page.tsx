@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { FileText, Mail, Loader2, CheckCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState('');
+  const [sentMessage, setSentMessage] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/forgot-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setSentMessage(data.message);
+      } else {
+        toast.error(data.error || 'Failed to send reset email');
+      }
+    } catch {
+      toast.error('Something went wrong. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-[80vh] flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <Link href="/" className="inline-flex items-center space-x-2 mb-6">
+            <FileText className="h-10 w-10 text-blue-600" />
+            <span className="text-2xl font-bold text-gray-900">Star Paper</span>
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Forgot password?</h1>
+          <p className="text-gray-600">Enter your email and we&apos;ll send you a link to reset it</p>
+        </div>
+
+        {/* Form */}
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-8">
+          {sentMessage ? (
+            <div className="flex items-start text-green-700">
+              <CheckCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+              <p>{sentMessage}</p>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                  Email address
+                </label>
+                <div className="relative">
+                  <input
+                    type="email"
+                    id="email"
+                    name="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    className="w-full pl-11 pr-4 py-3 rounded-xl border border-gray-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-100 outline-none transition"
+                    placeholder="you@example.com"
+                  />
+                  <Mail className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+                </div>
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full bg-blue-600 text-white py-3 rounded-xl hover:bg-blue-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                    Sending...
+                  </>
+                ) : (
+                  'Send reset link'
+                )}
+              </button>
+            </form>
+          )}
+
+          <p className="text-center text-gray-600 mt-6">
+            Remembered it?{' '}
+            <Link href="/auth/login" className="text-blue-600 hover:text-blue-700 font-medium">
+              Sign in
+            </Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,24 +1,44 @@
 'use client';
 
-import { useState } from 'react';
-import { signIn } from 'next-auth/react';
+import { useEffect, useState } from 'react';
+import { getProviders, signIn } from 'next-auth/react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
-import { FileText, Mail, Lock, Eye, EyeOff, Loader2 } from 'lucide-react';
+import { FileText, Mail, Lock, Eye, EyeOff, Loader2, Phone, KeyRound } from 'lucide-react';
 import toast from 'react-hot-toast';
 
+// Messages for the error codes NextAuth and the Google sign-in callback redirect with
+const SIGN_IN_ERRORS: Record<string, string> = {
+  GoogleEmailUnverified: 'Your Google account email is not verified. Please sign in another way.',
+  GoogleAccountConflict: 'This email is already linked to a different Google account.',
+  AccountSuspended: 'This account has been suspended. Please contact support.',
+  SessionRequired: 'Please sign in to continue.',
+};
+
 export default function LoginPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const callbackUrl = searchParams.get('callbackUrl') || '/';
+  const errorCode = searchParams.get('error');
 
+  const [method, setMethod] = useState<'email' | 'phone'>('email');
   const [formData, setFormData] = useState({
     email: '',
     password: '',
   });
+  const [phoneData, setPhoneData] = useState({
+    phone: '',
+    code: '',
+  });
+  const [isCodeSent, setIsCodeSent] = useState(false);
+  const [hasGoogle, setHasGoogle] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
 
+  useEffect(() => {
+    getProviders().then((providers) => setHasGoogle(!!providers?.google));
+  }, []);
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData({ ...formData, [e.target.name]: e.target.value });
   };
@@ -34,7 +54,68 @@ export default function LoginPage() {
         redirect: false,
       });
 
-      if (result?.error) {
+      if (result?.error === 'EmailNotVerified') {
+        toast.error('Please verify your email address before signing in');
+        router.push(`/auth/verify-email?email=${encodeURIComponent(formData.email)}`);
+      } else if (result?.error) {
+        toast.error(result.error);
+      } else {
+        toast.success('Login successful!');
+        router.push(callbackUrl);
+        router.refresh();
+      }
+    } catch {
+      toast.error('Something went wrong. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSendCode = async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/phone-otp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phone: phoneData.phone }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(data.message);
+        setIsCodeSent(true);
+      } else {
+        toast.error(data.error || 'Failed to send code');
+      }
+    } catch {
+      toast.error('Something went wrong. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePhoneSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!isCodeSent) {
+      return handleSendCode();
+    }
+
+    setIsLoading(true);
+
+    try {
+      const result = await signIn('phone-otp', {
+        phone: phoneData.phone,
+        code: phoneData.code,
+        redirect: false,
+      });
+
+      if (result?.error === 'EmailNotVerified') {
+        toast.error('Please verify your email address before signing in');
+        router.push('/auth/verify-email');
+      } else if (result?.error) {
         toast.error(result.error);
       } else {
         toast.success('Login successful!');
@@ -63,80 +144,192 @@ export default function LoginPage() {
 
         {/* Form */}
         <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-8">
-          <form onSubmit={handleSubmit} className="space-y-6">
-            {/* Email */}
-            <div>
-              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
-                Email address
-              </label>
-              <div className="relative">
-                <input
-                  type="email"
-                  id="email"
-                  name="email"
-                  value={formData.email}
-                  onChange={handleChange}
-                  required
-                  className="w-full pl-11 pr-4 py-3 rounded-xl border border-gray-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-100 outline-none transition"
-                  placeholder="you@example.com"
-                />
-                <Mail className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+          {errorCode && (
+            <p className="mb-6 p-3 rounded-xl bg-red-50 text-sm text-red-600">
+              {SIGN_IN_ERRORS[errorCode] || 'Sign in failed. Please try again.'}
+            </p>
+          )}
+
+          {/* Method */}
+          <div className="grid grid-cols-2 gap-2 p-1 mb-6 bg-gray-100 rounded-xl">
+            {(['email', 'phone'] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setMethod(option)}
+                className={`py-2 rounded-lg text-sm font-medium transition ${
+                  method === option ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {option === 'email' ? 'Email' : 'Phone'}
+              </button>
+            ))}
+          </div>
+
+          {method === 'phone' ? (
+            <form onSubmit={handlePhoneSubmit} className="space-y-6">
+              {/* Phone */}
+              <div>
+                <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-2">
+                  Phone Number
+                </label>
+                <div className="relative">
+                  <input
+                    type="tel"
+                    id="phone"
+                    name="phone"
+                    value={phoneData.phone}
+                    onChange={(e) => {
+                      setPhoneData({ phone: e.target.value, code: '' });
+                      setIsCodeSent(false);
+                    }}
+                    required
+                    className="w-full pl-11 pr-4 py-3 rounded-xl border border-gray-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-100 outline-none transition"
+                    placeholder="+91 98765 43210"
+                  />
+                  <Phone className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+                </div>
+              </div>
+
+              {/* Code */}
+              {isCodeSent && (
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+                      Code
+                    </label>
+                    <button
+                      type="button"
+                      onClick={handleSendCode}
+                      disabled={isLoading}
+                      className="text-sm text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                    >
+                      Resend code
+                    </button>
+                  </div>
+                  <div className="relative">
+                    <input
+                      type="text"
+                      id="code"
+                      name="code"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      maxLength={6}
+                      value={phoneData.code}
+                      onChange={(e) => setPhoneData({ ...phoneData, code: e.target.value })}
+                      required
+                      className="w-full pl-11 pr-4 py-3 rounded-xl border border-gray-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-100 outline-none transition tracking-widest"
+                      placeholder="6-digit code"
+                    />
+                    <KeyRound className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+                  </div>
+                </div>
+              )}
+
+              {/* Submit Button */}
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full bg-blue-600 text-white py-3 rounded-xl hover:bg-blue-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                    {isCodeSent ? 'Signing in...' : 'Sending code...'}
+                  </>
+                ) : isCodeSent ? (
+                  'Sign in'
+                ) : (
+                  'Send code'
+                )}
+              </button>
+            </form>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {/* Email */}
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                  Email address
+                </label>
+                <div className="relative">
+                  <input
+                    type="email"
+                    id="email"
+                    name="email"
+                    value={formData.email}
+                    onChange={handleChange}
+                    required
+                    className="w-full pl-11 pr-4 py-3 rounded-xl border border-gray-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-100 outline-none transition"
+                    placeholder="you@example.com"
+                  />
+                  <Mail className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+                </div>
+              </div>
+
+              {/* Password */}
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                  Password
+                </label>
+                <div className="relative">
+                  <input
+                    type={showPassword ? 'text' : 'password'}
+                    id="password"
+                    name="password"
+                    value={formData.password}
+                    onChange={handleChange}
+                    required
+                    className="w-full pl-11 pr-12 py-3 rounded-xl border border-gray-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-100 outline-none transition"
+                    placeholder="Enter your password"
+                  />
+                  <Lock className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-4 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                  >
+                    {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
+                  </button>
+                </div>
               </div>
-            </div>
 
-            {/* Password */}
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-                Password
-              </label>
-              <div className="relative">
-                <input
-                  type={showPassword ? 'text' : 'password'}
-                  id="password"
-                  name="password"
-                  value={formData.password}
-                  onChange={handleChange}
-                  required
-                  className="w-full pl-11 pr-12 py-3 rounded-xl border border-gray-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-100 outline-none transition"
-                  placeholder="Enter your password"
-                />
-                <Lock className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
-                <button
-                  type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute right-4 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+              {/* Forgot Password */}
+              <div className="flex items-center justify-end">
+                <Link
+                  href="/auth/forgot-password"
+                  className="text-sm text-blue-600 hover:text-blue-700"
                 >
-                  {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
-                </button>
+                  Forgot password?
+                </Link>
               </div>
-            </div>
 
-            {/* Forgot Password */}
-            <div className="flex items-center justify-end">
-              <Link
-                href="/auth/forgot-password"
-                className="text-sm text-blue-600 hover:text-blue-700"
+              {/* Submit Button */}
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full bg-blue-600 text-white py-3 rounded-xl hover:bg-blue-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
               >
-                Forgot password?
-              </Link>
-            </div>
+                {isLoading ? (
+                  <>
+                    <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                    Signing in...
+                  </>
+                ) : (
+                  'Sign in'
+                )}
+              </button>
+            </form>
+          )}
 
-            {/* Submit Button */}
+          {hasGoogle && (
             <button
-              type="submit"
-              disabled={isLoading}
-              className="w-full bg-blue-600 text-white py-3 rounded-xl hover:bg-blue-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+              type="button"
+              onClick={() => signIn('google', { callbackUrl })}
+              className="w-full mt-4 border border-gray-200 text-gray-700 py-3 rounded-xl hover:bg-gray-50 transition font-semibold"
             >
-              {isLoading ? (
-                <>
-                  <Loader2 className="h-5 w-5 mr-2 animate-spin" />
-                  Signing in...
-                </>
-              ) : (
-                'Sign in'
-              )}
+              Continue with Google
             </button>
-          </form>
+          )}
 
           {/* Divider */}
           <div className="relative my-6">
@@ -1,13 +1,14 @@
 'use client';
 
 import { useState } from 'react';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
-import { FileText, Mail, Lock, Eye, EyeOff, User, Phone, Loader2 } from 'lucide-react';
+import { FileText, Mail, Lock, Eye, EyeOff, User, Phone, Loader2, Gift } from 'lucide-react';
 import toast from 'react-hot-toast';
 
 export default function RegisterPage() {
   const router = useRouter();
+  const searchParams = useSearchParams();
 
   const [formData, setFormData] = useState({
     name: '',
@@ -15,6 +16,8 @@ export default function RegisterPage() {
     phone: '',
     password: '',
     confirmPassword: '',
+    // Invite links look like /auth/register?ref=CODE
+    referralCode: searchParams.get('ref') || '',
   });
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -47,6 +50,7 @@ export default function RegisterPage() {
           email: formData.email,
           phone: formData.phone,
           password: formData.password,
+          referralCode: formData.referralCode.trim() || undefined,
         }),
       });
 
@@ -56,8 +60,8 @@ export default function RegisterPage() {
         throw new Error(data.error || 'Registration failed');
       }
 
-      toast.success('Account created successfully! Please login.');
-      router.push('/auth/login');
+      toast.success(data.message);
+      router.push(`/auth/verify-email?email=${encodeURIComponent(formData.email)}`);
     } catch (error) {
       toast.error(error instanceof Error ? error.message : 'Something went wrong');
     } finally {
@@ -188,6 +192,25 @@ export default function RegisterPage() {
               </div>
             </div>
 
+            {/* Referral Code */}
+            <div>
+              <label htmlFor="referralCode" className="block text-sm font-medium text-gray-700 mb-2">
+                Referral Code <span className="text-gray-400">(optional)</span>
+              </label>
+              <div className="relative">
+                <input
+                  type="text"
+                  id="referralCode"
+                  name="referralCode"
+                  value={formData.referralCode}
+                  onChange={handleChange}
+                  className="w-full pl-11 pr-4 py-3 rounded-xl border border-gray-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-100 outline-none transition uppercase"
+                  placeholder="Code from a friend"
+                />
+                <Gift className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+              </div>
+            </div>
+
             {/* Terms */}
             <p className="text-sm text-gray-500">
               By creating an account, you agree to our{' '}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { FileText, Loader2, CheckCircle, XCircle } from 'lucide-react';
+
+export default function UnlockAccountPage() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [result, setResult] = useState<{ ok: boolean; message: string } | null>(null);
+  // Tokens are single-use, so never post one twice (effects run twice in dev)
+  const submittedToken = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!token || submittedToken.current === token) return;
+    submittedToken.current = token;
+
+    const unlock = async () => {
+      try {
+        const response = await fetch('/api/auth/unlock', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token }),
+        });
+
+        const data = await response.json();
+
+        setResult({ ok: response.ok, message: response.ok ? data.message : data.error });
+      } catch {
+        setResult({ ok: false, message: 'Something went wrong. Please try again.' });
+      }
+    };
+
+    unlock();
+  }, [token]);
+
+  return (
+    <div className="min-h-[80vh] flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <Link href="/" className="inline-flex items-center space-x-2 mb-6">
+            <FileText className="h-10 w-10 text-blue-600" />
+            <span className="text-2xl font-bold text-gray-900">Star Paper</span>
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Unlock your account</h1>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-8">
+          {!token ? (
+            <p className="text-gray-600">This unlock link is incomplete. Please open the link from your email.</p>
+          ) : !result ? (
+            <div className="flex items-center justify-center text-gray-600 py-4">
+              <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+              Unlocking...
+            </div>
+          ) : (
+            <div className={`flex items-start ${result.ok ? 'text-green-700' : 'text-red-600'}`}>
+              {result.ok ? (
+                <CheckCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+              ) : (
+                <XCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+              )}
+              <p>{result.message}</p>
+            </div>
+          )}
+
+          <Link
+            href="/auth/login"
+            className="block w-full text-center mt-6 bg-blue-600 text-white py-3 rounded-xl hover:bg-blue-700 transition font-semibold"
+          >
+            Sign in
+          </Link>
+          <p className="text-center text-sm text-gray-600 mt-4">
+            Not sure of your password?{' '}
+            <Link href="/auth/forgot-password" className="text-blue-600 hover:text-blue-700 font-medium">
+              Reset it
+            </Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { FileText, Mail, Loader2, CheckCircle, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+export default function VerifyEmailPage() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [email, setEmail] = useState(searchParams.get('email') || '');
+  const [result, setResult] = useState<{ ok: boolean; message: string } | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  // Tokens are single-use, so never post one twice (effects run twice in dev)
+  const submittedToken = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!token || submittedToken.current === token) return;
+    submittedToken.current = token;
+
+    const verify = async () => {
+      try {
+        const response = await fetch('/api/auth/verify-email', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token }),
+        });
+
+        const data = await response.json();
+
+        setResult({ ok: response.ok, message: response.ok ? data.message : data.error });
+      } catch {
+        setResult({ ok: false, message: 'Something went wrong. Please try again.' });
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  const handleResend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+
+    try {
+      const response = await fetch('/api/auth/verify-email/resend', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(data.message);
+      } else {
+        toast.error(data.error || 'Failed to send verification email');
+      }
+    } catch {
+      toast.error('Something went wrong. Please try again.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const isVerifying = !!token && !result;
+
+  return (
+    <div className="min-h-[80vh] flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <Link href="/" className="inline-flex items-center space-x-2 mb-6">
+            <FileText className="h-10 w-10 text-blue-600" />
+            <span className="text-2xl font-bold text-gray-900">Star Paper</span>
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Verify your email</h1>
+          <p className="text-gray-600">
+            {token ? 'Confirming your email address' : 'We sent a link to your inbox. Open it to activate your account.'}
+          </p>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-8">
+          {isVerifying && (
+            <div className="flex items-center justify-center text-gray-600 py-4">
+              <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+              Verifying...
+            </div>
+          )}
+
+          {result && (
+            <div className={`flex items-start mb-6 ${result.ok ? 'text-green-700' : 'text-red-600'}`}>
+              {result.ok ? (
+                <CheckCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+              ) : (
+                <XCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+              )}
+              <p>{result.message}</p>
+            </div>
+          )}
+
+          {result?.ok ? (
+            <Link
+              href="/auth/login"
+              className="block w-full text-center bg-blue-600 text-white py-3 rounded-xl hover:bg-blue-700 transition font-semibold"
+            >
+              Sign in
+            </Link>
+          ) : (
+            !isVerifying && (
+              <form onSubmit={handleResend} className="space-y-6">
+                <div>
+                  <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                    Didn&apos;t get the email? Send a new link to
+                  </label>
+                  <div className="relative">
+                    <input
+                      type="email"
+                      id="email"
+                      name="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      required
+                      className="w-full pl-11 pr-4 py-3 rounded-xl border border-gray-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-100 outline-none transition"
+                      placeholder="you@example.com"
+                    />
+                    <Mail className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+                  </div>
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={isSending}
+                  className="w-full bg-blue-600 text-white py-3 rounded-xl hover:bg-blue-700 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+                >
+                  {isSending ? (
+                    <>
+                      <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                      Sending...
+                    </>
+                  ) : (
+                    'Resend verification email'
+                  )}
+                </button>
+              </form>
+            )
+          )}
+
+          <p className="text-center text-gray-600 mt-6">
+            Already verified?{' '}
+            <Link href="/auth/login" className="text-blue-600 hover:text-blue-700 font-medium">
+              Sign in
+            </Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
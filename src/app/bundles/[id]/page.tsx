@@ -0,0 +1,224 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import Link from 'next/link';
+import { ArrowLeft, CheckCircle, FileText, Layers, Loader2, ShoppingCart } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { openRazorpayCheckout } from '@/lib/razorpayCheckout';
+import CouponInput, { AppliedCoupon } from '@/components/ui/CouponInput';
+
+interface BundleDetail {
+  _id: string;
+  title: string;
+  description: string;
+  category: 'university' | 'board' | 'competitive';
+  tier: 'questions-only' | 'with-solutions';
+  price: number;
+  discount: number;
+  finalPrice: number;
+  papersValue: number;
+  papers: {
+    _id: string;
+    title: string;
+    subject: string;
+    examName: string;
+    year: number;
+  }[];
+}
+
+export default function BundleDetailPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { data: session } = useSession();
+
+  const [bundle, setBundle] = useState<BundleDetail | null>(null);
+  const [purchased, setPurchased] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPurchasing, setIsPurchasing] = useState(false);
+  const [coupon, setCoupon] = useState<AppliedCoupon | null>(null);
+
+  useEffect(() => {
+    const fetchBundle = async () => {
+      try {
+        const response = await fetch(`/api/bundles/${params.id}`);
+        const data = await response.json();
+
+        if (response.ok) {
+          setBundle(data.bundle);
+          setPurchased(data.purchased);
+        } else {
+          toast.error('Bundle not found');
+          router.push('/papers');
+        }
+      } catch {
+        toast.error('Failed to load bundle');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (params.id) {
+      fetchBundle();
+    }
+  }, [params.id, router]);
+
+  const handlePurchase = async () => {
+    if (!session) {
+      router.push(`/auth/login?callbackUrl=/bundles/${params.id}`);
+      return;
+    }
+
+    setIsPurchasing(true);
+    try {
+      const response = await fetch('/api/payment/checkout-bundle', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ bundleId: params.id, couponCode: coupon?.code }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok && data.isFree) {
+        toast.success('Bundle added to your downloads!');
+        router.push('/dashboard/downloads');
+      } else if (response.ok) {
+        openRazorpayCheckout(data, {
+          description: bundle?.title,
+          prefill: { email: session.user?.email, name: session.user?.name },
+          onVerified: () => {
+            toast.success('Payment successful! Your papers are ready to download.');
+            router.push('/dashboard/downloads');
+          },
+          onFailed: (message) => toast.error(message),
+        });
+      } else {
+        toast.error(data.error || 'Failed to create order');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setIsPurchasing(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/3 mb-4" />
+          <div className="h-4 bg-gray-200 rounded w-2/3 mb-8" />
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-gray-200 rounded-xl" />
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!bundle) {
+    return null;
+  }
+
+  const savings = bundle.papersValue - bundle.finalPrice;
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Back Link */}
+      <Link
+        href="/papers"
+        className="inline-flex items-center text-gray-600 hover:text-blue-600 mb-6"
+      >
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Back to Papers
+      </Link>
+
+      <div className="grid lg:grid-cols-3 gap-8">
+        {/* Bundle Info */}
+        <div className="lg:col-span-2">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center">
+              <Layers className="h-6 w-6 text-blue-600" />
+            </div>
+            <span className="px-3 py-1 bg-blue-50 text-blue-700 rounded-full text-sm capitalize">
+              {bundle.category}
+            </span>
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-4">{bundle.title}</h1>
+          <p className="text-gray-600 mb-8 whitespace-pre-line">{bundle.description}</p>
+
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">
+            {bundle.papers.length} papers included
+          </h2>
+          <div className="space-y-3">
+            {bundle.papers.map((paper) => (
+              <Link
+                key={paper._id}
+                href={`/papers/${paper._id}`}
+                className="flex items-center gap-4 bg-white rounded-xl border border-gray-100 p-4 hover:border-blue-200 transition"
+              >
+                <FileText className="h-5 w-5 text-blue-600 flex-shrink-0" />
+                <div>
+                  <p className="font-medium text-gray-900">{paper.title}</p>
+                  <p className="text-sm text-gray-500">
+                    {paper.subject} • {paper.examName} • {paper.year}
+                  </p>
+                </div>
+              </Link>
+            ))}
+          </div>
+        </div>
+
+        {/* Purchase Card */}
+        <div>
+          <div className="bg-white rounded-2xl border border-gray-100 p-6 sticky top-24">
+            <p className="text-sm text-gray-500 mb-1">
+              {bundle.tier === 'with-solutions' ? 'With solutions' : 'Questions only'}
+            </p>
+            <div className="flex items-baseline gap-2 mb-2">
+              <span className="text-3xl font-bold text-gray-900">₹{coupon ? coupon.amount : bundle.finalPrice}</span>
+              {(coupon || bundle.discount > 0) && (
+                <span className="text-gray-400 line-through">₹{coupon ? bundle.finalPrice : bundle.price}</span>
+              )}
+            </div>
+            {savings > 0 && (
+              <p className="text-sm text-green-600 mb-6">
+                Save ₹{savings} compared to buying each paper
+              </p>
+            )}
+
+            {!purchased && session && bundle.finalPrice > 0 && (
+              <CouponInput item={{ bundleId: bundle._id }} applied={coupon} onChange={setCoupon} />
+            )}
+
+            {purchased ? (
+              <Link
+                href="/dashboard/downloads"
+                className="w-full bg-green-600 text-white py-3 rounded-xl hover:bg-green-700 transition font-semibold flex items-center justify-center"
+              >
+                <CheckCircle className="h-5 w-5 mr-2" />
+                Go to Downloads
+              </Link>
+            ) : (
+              <button
+                onClick={handlePurchase}
+                disabled={isPurchasing}
+                className="w-full bg-blue-600 text-white py-3 rounded-xl hover:bg-blue-700 transition font-semibold flex items-center justify-center disabled:opacity-50"
+              >
+                {isPurchasing ? (
+                  <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                ) : (
+                  <ShoppingCart className="h-5 w-5 mr-2" />
+                )}
+                Buy Bundle
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, FileText, Loader2, ShoppingCart, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { openRazorpayCheckout } from '@/lib/razorpayCheckout';
+import { formatPrice } from '@/lib/currency';
+
+interface CartItem {
+  paperId: string;
+  title: string;
+  subject: string;
+  examName: string;
+  year: number;
+  tier: 'questions-only' | 'with-solutions';
+  price: number | null;
+  unavailable: boolean;
+}
+
+export default function CartPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [items, setItems] = useState<CartItem[]>([]);
+  const [currency, setCurrency] = useState('INR');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCheckingOut, setIsCheckingOut] = useState(false);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/login?callbackUrl=/cart');
+    }
+  }, [status, router]);
+
+  useEffect(() => {
+    const fetchCart = async () => {
+      try {
+        const response = await fetch('/api/user/cart');
+        const data = await response.json();
+
+        if (response.ok) {
+          setItems(data.items || []);
+          setCurrency(data.currency || 'INR');
+        }
+      } catch (error) {
+        console.error('Error fetching cart:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (session) {
+      fetchCart();
+    }
+  }, [session, reloadKey]);
+
+  const total = items.reduce((sum, item) => sum + (item.price ?? 0), 0);
+  const hasUnavailable = items.some((item) => item.unavailable);
+
+  const handleRemove = async (paperId: string) => {
+    try {
+      const response = await fetch(`/api/user/cart?paperId=${paperId}`, { method: 'DELETE' });
+
+      if (response.ok) {
+        setItems(items.filter((item) => item.paperId !== paperId));
+        setProblems([]);
+        // Removing a paper can change the currency the rest of the cart is priced in
+        setReloadKey((key) => key + 1);
+      } else {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to remove paper');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    }
+  };
+
+  const handleCheckout = async () => {
+    setIsCheckingOut(true);
+    setProblems([]);
+    try {
+      const response = await fetch('/api/payment/checkout-cart', { method: 'POST' });
+      const data = await response.json();
+
+      if (response.ok) {
+        openRazorpayCheckout(data, {
+          description: `${data.items} papers`,
+          prefill: { email: session?.user?.email, name: session?.user?.name },
+          onVerified: () => {
+            toast.success('Payment successful! Your papers are ready to download.');
+            router.push('/dashboard/downloads');
+          },
+          onFailed: (message) => {
+            toast.error(message);
+            setReloadKey((key) => key + 1);
+          },
+        });
+      } else {
+        setProblems(data.problems || []);
+        toast.error(data.error || 'Failed to create order');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setIsCheckingOut(false);
+    }
+  };
+
+  if (status === 'loading' || isLoading) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-8" />
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-20 bg-gray-200 rounded-xl" />
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Back Link */}
+      <Link
+        href="/papers"
+        className="inline-flex items-center text-gray-600 hover:text-blue-600 mb-6"
+      >
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Continue Browsing
+      </Link>
+
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Your Cart</h1>
+        <p className="text-gray-600">Buy several papers in a single payment</p>
+      </div>
+
+      {problems.length > 0 && (
+        <div className="bg-red-50 border border-red-100 rounded-xl p-4 mb-6 text-sm text-red-700">
+          <ul className="list-disc list-inside space-y-1">
+            {problems.map((problem) => (
+              <li key={problem}>{problem}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {items.length > 0 ? (
+        <>
+          <div className="space-y-4 mb-6">
+            {items.map((item) => (
+              <div
+                key={item.paperId}
+                className="bg-white rounded-xl border border-gray-100 p-6 flex items-center justify-between gap-4"
+              >
+                <div className="flex items-start gap-4">
+                  <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center flex-shrink-0">
+                    <FileText className="h-6 w-6 text-blue-600" />
+                  </div>
+                  <div>
+                    <Link
+                      href={`/papers/${item.paperId}`}
+                      className="font-semibold text-gray-900 hover:text-blue-600"
+                    >
+                      {item.title}
+                    </Link>
+                    <p className="text-sm text-gray-500">
+                      {item.subject} • {item.examName} • {item.year}
+                    </p>
+                    <p className="text-xs text-gray-400 mt-1">
+                      {item.tier === 'with-solutions' ? 'With solutions' : 'Questions only'}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-4">
+                  {item.unavailable ? (
+                    <span className="text-sm font-medium text-red-600">No longer available</span>
+                  ) : (
+                    <span className="font-semibold text-gray-900">{formatPrice(item.price ?? 0, currency)}</span>
+                  )}
+                  <button
+                    onClick={() => handleRemove(item.paperId)}
+                    className="p-2 rounded-lg text-gray-400 hover:text-red-600 hover:bg-red-50"
+                    aria-label="Remove from cart"
+                  >
+                    <Trash2 className="h-5 w-5" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-xl border border-gray-100 p-6">
+            <div className="flex items-center justify-between mb-4">
+              <span className="text-gray-600">Total ({items.length} papers)</span>
+              <span className="text-2xl font-bold text-gray-900">{formatPrice(total, currency)}</span>
+            </div>
+            {hasUnavailable && (
+              <p className="text-sm text-red-600 mb-4">Remove the papers that are no longer available to check out</p>
+            )}
+            <button
+              onClick={handleCheckout}
+              disabled={isCheckingOut || hasUnavailable}
+              className="w-full bg-blue-600 text-white py-3 rounded-xl hover:bg-blue-700 transition font-semibold flex items-center justify-center disabled:opacity-50"
+            >
+              {isCheckingOut && <Loader2 className="h-5 w-5 mr-2 animate-spin" />}
+              Checkout
+            </button>
+          </div>
+        </>
+      ) : (
+        <div className="text-center py-16 bg-white rounded-xl border border-gray-100">
+          <ShoppingCart className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">Your cart is empty</h3>
+          <p className="text-gray-500 mb-6">Add papers to buy them together</p>
+          <Link
+            href="/papers"
+            className="inline-flex items-center bg-blue-600 text-white px-6 py-3 rounded-xl hover:bg-blue-700 transition"
+          >
+            Browse Papers
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { Download, FileText, Calendar, ArrowLeft, ExternalLink } from 'lucide-react';
+import { Download, FileText, Calendar, Clock, ArrowLeft, ExternalLink } from 'lucide-react';
 import toast from 'react-hot-toast';
 
 interface PurchasedPaper {
@@ -14,7 +14,12 @@ interface PurchasedPaper {
   examName: string;
   year: number;
   category: string;
+  tier: 'questions-only' | 'with-solutions';
+  hasSolutionFile: boolean;
+  bundleTitle?: string;
   purchasedAt: string;
+  downloadExpiry: string;
+  isExpired: boolean;
   downloadsRemaining: number;
 }
 
@@ -51,9 +56,9 @@ export default function DownloadsPage() {
     }
   }, [session]);
 
-  const handleDownload = async (paperId: string) => {
+  const handleDownload = async (paperId: string, type: 'paper' | 'solution' = 'paper') => {
     try {
-      const response = await fetch(`/api/user/downloads/${paperId}`);
+      const response = await fetch(`/api/user/downloads/${paperId}?type=${type}`);
       const data = await response.json();
 
       if (response.ok && data.downloadUrl) {
@@ -61,7 +66,7 @@ export default function DownloadsPage() {
         toast.success('Download started!');
         // Refresh to update download count
         const updatedPapers = papers.map((p) =>
-          p._id === paperId ? { ...p, downloadsRemaining: p.downloadsRemaining - 1 } : p
+          p._id === paperId ? { ...p, downloadsRemaining: data.downloadsRemaining ?? p.downloadsRemaining } : p
         );
         setPapers(updatedPapers);
       } else {
@@ -125,6 +130,7 @@ export default function DownloadsPage() {
                     <h3 className="font-semibold text-gray-900 mb-1">{paper.title}</h3>
                     <p className="text-sm text-gray-500 mb-2">
                       {paper.subject} • {paper.examName} • {paper.year}
+                      {paper.bundleTitle && ` • Part of ${paper.bundleTitle}`}
                     </p>
                     <div className="flex items-center gap-4 text-xs text-gray-400">
                       <span className="flex items-center">
@@ -135,6 +141,10 @@ export default function DownloadsPage() {
                         <Download className="h-3 w-3 mr-1" />
                         {paper.downloadsRemaining} downloads remaining
                       </span>
+                      <span className={`flex items-center ${paper.isExpired ? 'text-red-500' : ''}`}>
+                        <Clock className="h-3 w-3 mr-1" />
+                        {paper.isExpired ? 'Expired' : 'Expires'} {new Date(paper.downloadExpiry).toLocaleDateString()}
+                      </span>
                     </div>
                   </div>
                 </div>
@@ -149,12 +159,22 @@ export default function DownloadsPage() {
                   </Link>
                   <button
                     onClick={() => handleDownload(paper._id)}
-                    disabled={paper.downloadsRemaining <= 0}
+                    disabled={paper.downloadsRemaining <= 0 || paper.isExpired}
                     className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition text-sm disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <Download className="h-4 w-4 mr-2" />
                     Download
                   </button>
+                  {paper.tier === 'with-solutions' && paper.hasSolutionFile && (
+                    <button
+                      onClick={() => handleDownload(paper._id, 'solution')}
+                      disabled={paper.downloadsRemaining <= 0 || paper.isExpired}
+                      className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Download className="h-4 w-4 mr-2" />
+                      Solutions
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
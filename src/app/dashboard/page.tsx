@@ -1,14 +1,101 @@
 'use client';
 
-import { useSession } from 'next-auth/react';
+import { useSession, signOut } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import Link from 'next/link';
-import { User, FileText, Heart, Download, Settings, ArrowRight } from 'lucide-react';
+import { User, FileText, Heart, Download, Settings, ArrowRight, RotateCcw, CalendarClock, Receipt, Wallet, Gift, LogOut, Phone, Building2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { SUPPORTED_CURRENCIES } from '@/lib/currency';
+
+interface Refund {
+  _id: string;
+  paperTitle: string;
+  amount: number;
+  reason?: string;
+  status: string;
+  createdAt: string;
+}
+
+interface UserSubscription {
+  _id: string;
+  planName: string;
+  price?: number;
+  interval?: 'monthly' | 'yearly';
+  category: string;
+  tier: 'questions-only' | 'with-solutions';
+  status: 'active' | 'halted' | 'cancelled' | 'completed';
+  currentPeriodEnd?: string;
+  hasAccess: boolean;
+}
+
+interface UserInvoice {
+  _id: string;
+  invoiceNumber: string;
+  transactionId: string;
+  description?: string;
+  total: number;
+  currency: string;
+  issuedAt: string;
+}
+
+interface WalletEntry {
+  _id: string;
+  type: 'credit' | 'debit';
+  amount: number;
+  reason: string;
+  note?: string;
+  createdAt: string;
+}
+
+const WALLET_REASON_LABELS: Record<string, string> = {
+  purchase: 'Paper purchase',
+  refund: 'Refund',
+  'order-expired': 'Unpaid order returned',
+  'payment-failed': 'Failed payment returned',
+  referral: 'Referral reward',
+  'referral-reversed': 'Referral reward reversed',
+  promotion: 'Promotion',
+  'admin-grant': 'Credit from support',
+  'admin-clawback': 'Adjustment by support',
+};
+
+interface ReferralSummary {
+  code: string;
+  rewardAmount: number;
+  pending: number;
+  rewarded: number;
+  earned: number;
+}
+
+interface OrganizationInvite {
+  _id: string;
+  organization: { _id: string; name: string };
+  expiresAt: string;
+}
+
+interface BillingDetails {
+  gstin?: string;
+  address?: string;
+  stateCode?: string;
+}
 
 export default function DashboardPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [subscriptions, setSubscriptions] = useState<UserSubscription[]>([]);
+  const [subscriptionsKey, setSubscriptionsKey] = useState(0);
+  const [invoices, setInvoices] = useState<UserInvoice[]>([]);
+  const [billing, setBilling] = useState<BillingDetails>({});
+  const [isSavingBilling, setIsSavingBilling] = useState(false);
+  const [currency, setCurrency] = useState('INR');
+  const [wallet, setWallet] = useState<{ balance: number; entries: WalletEntry[] }>({ balance: 0, entries: [] });
+  const [referral, setReferral] = useState<ReferralSummary | null>(null);
+  const [phone, setPhone] = useState({ phone: '', phoneVerified: false });
+  const [phoneCode, setPhoneCode] = useState('');
+  const [isPhoneCodeSent, setIsPhoneCodeSent] = useState(false);
+  const [invites, setInvites] = useState<OrganizationInvite[]>([]);
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -16,6 +103,301 @@ export default function DashboardPage() {
     }
   }, [status, router]);
 
+  useEffect(() => {
+    const fetchRefunds = async () => {
+      try {
+        const response = await fetch('/api/user/refunds');
+        const data = await response.json();
+
+        if (response.ok) {
+          setRefunds(data.refunds || []);
+        }
+      } catch (error) {
+        console.error('Error fetching refunds:', error);
+      }
+    };
+
+    if (session) {
+      fetchRefunds();
+    }
+  }, [session]);
+
+  useEffect(() => {
+    const fetchSubscriptions = async () => {
+      try {
+        const response = await fetch('/api/subscriptions');
+        const data = await response.json();
+
+        if (response.ok) {
+          setSubscriptions(data.subscriptions || []);
+        }
+      } catch (error) {
+        console.error('Error fetching subscriptions:', error);
+      }
+    };
+
+    if (session) {
+      fetchSubscriptions();
+    }
+  }, [session, subscriptionsKey]);
+
+  useEffect(() => {
+    const fetchWallet = async () => {
+      try {
+        const [walletResponse, referralResponse] = await Promise.all([
+          fetch('/api/user/wallet'),
+          fetch('/api/user/referral'),
+        ]);
+        const [walletData, referralData] = await Promise.all([walletResponse.json(), referralResponse.json()]);
+
+        if (walletResponse.ok) {
+          setWallet(walletData);
+        }
+        if (referralResponse.ok) {
+          setReferral(referralData);
+        }
+      } catch (error) {
+        console.error('Error fetching wallet:', error);
+      }
+    };
+
+    if (session) {
+      fetchWallet();
+    }
+  }, [session]);
+
+  useEffect(() => {
+    const fetchInvites = async () => {
+      try {
+        const response = await fetch('/api/user/organization-invites');
+        const data = await response.json();
+
+        if (response.ok) {
+          setInvites(data.invites || []);
+        }
+      } catch (error) {
+        console.error('Error fetching organization invites:', error);
+      }
+    };
+
+    if (session) {
+      fetchInvites();
+    }
+  }, [session]);
+
+  useEffect(() => {
+    const fetchPhone = async () => {
+      try {
+        const response = await fetch('/api/user/phone');
+        const data = await response.json();
+
+        if (response.ok) {
+          setPhone(data);
+        }
+      } catch (error) {
+        console.error('Error fetching phone:', error);
+      }
+    };
+
+    if (session) {
+      fetchPhone();
+    }
+  }, [session]);
+
+  useEffect(() => {
+    const fetchInvoices = async () => {
+      try {
+        const [invoicesResponse, billingResponse, preferencesResponse] = await Promise.all([
+          fetch('/api/user/invoices'),
+          fetch('/api/user/billing'),
+          fetch('/api/user/preferences'),
+        ]);
+        const [invoicesData, billingData, preferencesData] = await Promise.all([
+          invoicesResponse.json(),
+          billingResponse.json(),
+          preferencesResponse.json(),
+        ]);
+
+        if (invoicesResponse.ok) {
+          setInvoices(invoicesData.invoices || []);
+        }
+        if (billingResponse.ok) {
+          setBilling(billingData.billing || {});
+        }
+        if (preferencesResponse.ok) {
+          setCurrency(preferencesData.currency);
+        }
+      } catch (error) {
+        console.error('Error fetching invoices:', error);
+      }
+    };
+
+    if (session) {
+      fetchInvoices();
+    }
+  }, [session]);
+
+  const handleSaveBilling = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSavingBilling(true);
+    try {
+      const response = await fetch('/api/user/billing', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(billing),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(data.message);
+      } else {
+        toast.error(data.error || 'Failed to save billing details');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setIsSavingBilling(false);
+    }
+  };
+
+  const handleCurrencyChange = async (value: string) => {
+    const previous = currency;
+    setCurrency(value);
+
+    try {
+      const response = await fetch('/api/user/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ currency: value }),
+      });
+
+      if (response.ok) {
+        toast.success('Preferred currency updated');
+      } else {
+        const data = await response.json();
+        setCurrency(previous);
+        toast.error(data.error || 'Failed to update currency');
+      }
+    } catch {
+      setCurrency(previous);
+      toast.error('Something went wrong');
+    }
+  };
+
+  const handleCopyInviteLink = async () => {
+    if (!referral) return;
+
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/auth/register?ref=${referral.code}`);
+      toast.success('Invite link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const handleInvite = async (invite: OrganizationInvite, accept: boolean) => {
+    try {
+      const response = await fetch(`/api/user/organization-invites/${invite._id}`, {
+        method: accept ? 'POST' : 'DELETE',
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(data.message);
+        setInvites((current) => current.filter((item) => item._id !== invite._id));
+      } else {
+        toast.error(data.error || 'Failed to update invite');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    }
+  };
+
+  const handleSendPhoneCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const response = await fetch('/api/user/phone', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phone: phone.phone }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setPhone({ phone: data.phone, phoneVerified: false });
+        setIsPhoneCodeSent(true);
+        toast.success('Code sent to your phone');
+      } else {
+        toast.error(data.error || 'Failed to send code');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    }
+  };
+
+  const handleVerifyPhone = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const response = await fetch('/api/user/phone', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: phoneCode }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setPhone({ phone: data.phone, phoneVerified: true });
+        setIsPhoneCodeSent(false);
+        setPhoneCode('');
+        toast.success(data.message);
+      } else {
+        toast.error(data.error || 'Failed to verify phone number');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    if (!confirm('Sign out of all devices, including this one?')) return;
+
+    try {
+      const response = await fetch('/api/user/sessions', { method: 'DELETE' });
+
+      if (response.ok) {
+        await signOut({ callbackUrl: '/auth/login' });
+      } else {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to sign out of all devices');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    }
+  };
+
+  const handleCancelSubscription = async (subscriptionId: string) => {
+    if (!confirm('Cancel this subscription? You keep access until the end of the current period.')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/subscriptions/${subscriptionId}/cancel`, { method: 'POST' });
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success('Subscription cancelled');
+        setSubscriptionsKey((key) => key + 1);
+      } else {
+        toast.error(data.error || 'Failed to cancel subscription');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    }
+  };
+
   if (status === 'loading') {
     return (
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
@@ -50,6 +432,13 @@ export default function DashboardPage() {
       href: '/dashboard/wishlist',
       color: 'bg-red-100 text-red-600',
     },
+    {
+      title: 'Subscriptions',
+      description: 'Unlock a whole category for a monthly fee',
+      icon: CalendarClock,
+      href: '/subscriptions',
+      color: 'bg-green-100 text-green-600',
+    },
     {
       title: 'Profile Settings',
       description: 'Update your account information',
@@ -80,6 +469,23 @@ export default function DashboardPage() {
               {session.user?.role === 'admin' ? 'Administrator' : 'Student'}
             </span>
           </div>
+          <div className="ml-auto">
+            <label htmlFor="preferred-currency" className="block text-sm text-blue-100 mb-1">
+              Prices in
+            </label>
+            <select
+              id="preferred-currency"
+              value={currency}
+              onChange={(e) => handleCurrencyChange(e.target.value)}
+              className="bg-white/20 rounded-lg px-3 py-1 text-sm outline-none"
+            >
+              {SUPPORTED_CURRENCIES.map((code) => (
+                <option key={code} value={code} className="text-gray-900">
+                  {code}
+                </option>
+              ))}
+            </select>
+          </div>
         </div>
       </div>
 
@@ -144,6 +550,317 @@ export default function DashboardPage() {
         ))}
       </div>
 
+      {/* Organization Invites */}
+      {invites.length > 0 && (
+        <div className="mt-8">
+          <h3 className="text-xl font-semibold text-gray-900 mb-4">Organization Invites</h3>
+          <div className="bg-white rounded-xl border border-gray-100 divide-y divide-gray-100">
+            {invites.map((invite) => (
+              <div key={invite._id} className="flex items-center justify-between p-4">
+                <div className="flex items-center">
+                  <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center mr-4">
+                    <Building2 className="h-5 w-5 text-blue-600" />
+                  </div>
+                  <div>
+                    <p className="font-medium text-gray-900">{invite.organization.name}</p>
+                    <p className="text-sm text-gray-500">
+                      Expires {new Date(invite.expiresAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleInvite(invite, false)}
+                    className="px-3 py-1.5 border border-gray-200 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    Decline
+                  </button>
+                  <button
+                    onClick={() => handleInvite(invite, true)}
+                    className="px-3 py-1.5 bg-blue-600 rounded-lg text-sm text-white hover:bg-blue-700"
+                  >
+                    Join
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Subscriptions */}
+      {subscriptions.length > 0 && (
+        <div className="mt-8">
+          <h3 className="text-xl font-semibold text-gray-900 mb-4">Your Subscriptions</h3>
+          <div className="bg-white rounded-xl border border-gray-100 divide-y divide-gray-100">
+            {subscriptions.map((subscription) => (
+              <div key={subscription._id} className="flex items-center justify-between p-4">
+                <div className="flex items-center">
+                  <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center mr-4">
+                    <CalendarClock className="h-5 w-5 text-green-600" />
+                  </div>
+                  <div>
+                    <p className="font-medium text-gray-900">{subscription.planName}</p>
+                    <p className="text-sm text-gray-500">
+                      {subscription.status}
+                      {subscription.currentPeriodEnd &&
+                        ` • ${subscription.status === 'active' ? 'Renews' : 'Access until'} ${new Date(subscription.currentPeriodEnd).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                </div>
+                {subscription.status === 'active' && (
+                  <button
+                    onClick={() => handleCancelSubscription(subscription._id)}
+                    className="px-3 py-1.5 border border-gray-200 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Wallet */}
+      <div className="mt-8">
+        <h3 className="text-xl font-semibold text-gray-900 mb-4">Wallet</h3>
+        <div className="bg-white rounded-xl border border-gray-100 p-4 flex items-center mb-4">
+          <div className="w-12 h-12 bg-purple-100 rounded-lg flex items-center justify-center mr-4">
+            <Wallet className="h-6 w-6 text-purple-600" />
+          </div>
+          <div>
+            <p className="text-2xl font-bold text-gray-900">₹{wallet.balance}</p>
+            <p className="text-sm text-gray-500">Store credit, usable on any paper priced in ₹</p>
+          </div>
+        </div>
+        {wallet.entries.length > 0 && (
+          <div className="bg-white rounded-xl border border-gray-100 divide-y divide-gray-100">
+            {wallet.entries.map((entry) => (
+              <div key={entry._id} className="flex items-center justify-between p-4">
+                <div>
+                  <p className="font-medium text-gray-900">{WALLET_REASON_LABELS[entry.reason] || entry.reason}</p>
+                  <p className="text-sm text-gray-500">
+                    {new Date(entry.createdAt).toLocaleDateString()}
+                    {entry.note && ` • ${entry.note}`}
+                  </p>
+                </div>
+                <p className={`font-semibold ${entry.type === 'credit' ? 'text-green-600' : 'text-gray-900'}`}>
+                  {entry.type === 'credit' ? '+' : '−'}₹{entry.amount}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Referrals */}
+      {referral && (
+        <div className="mt-8">
+          <h3 className="text-xl font-semibold text-gray-900 mb-4">Invite Friends</h3>
+          <div className="bg-white rounded-xl border border-gray-100 p-4 flex flex-wrap items-center gap-4">
+            <div className="w-12 h-12 bg-orange-100 rounded-lg flex items-center justify-center">
+              <Gift className="h-6 w-6 text-orange-600" />
+            </div>
+            <div className="flex-1 min-w-[200px]">
+              <p className="text-gray-900">
+                You and your friend each get ₹{referral.rewardAmount} wallet credit after their first purchase.
+              </p>
+              <p className="text-sm text-gray-500">
+                Your code <span className="font-mono font-semibold text-gray-900">{referral.code}</span>
+                {` • ${referral.rewarded} rewarded, ${referral.pending} waiting • ₹${referral.earned} earned`}
+              </p>
+            </div>
+            <button
+              onClick={handleCopyInviteLink}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition"
+            >
+              Copy Invite Link
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Invoices */}
+      <div className="mt-8">
+        <h3 className="text-xl font-semibold text-gray-900 mb-4">Invoices</h3>
+        {invoices.length > 0 ? (
+          <div className="bg-white rounded-xl border border-gray-100 divide-y divide-gray-100 mb-4">
+            {invoices.map((invoice) => (
+              <div key={invoice._id} className="flex items-center justify-between p-4">
+                <div className="flex items-center">
+                  <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center mr-4">
+                    <Receipt className="h-5 w-5 text-blue-600" />
+                  </div>
+                  <div>
+                    <p className="font-medium text-gray-900">{invoice.invoiceNumber}</p>
+                    <p className="text-sm text-gray-500">
+                      {new Date(invoice.issuedAt).toLocaleDateString()}
+                      {invoice.description && ` • ${invoice.description}`}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-4">
+                  <p className="font-semibold text-gray-900">
+                    {invoice.currency} {invoice.total}
+                  </p>
+                  <a
+                    href={`/api/invoices/${invoice.transactionId}`}
+                    className="p-2 rounded-lg text-gray-500 hover:text-blue-600 hover:bg-blue-50"
+                    aria-label="Download invoice"
+                  >
+                    <Download className="h-5 w-5" />
+                  </a>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-500 mb-4">Invoices for your purchases will appear here.</p>
+        )}
+
+        <form
+          onSubmit={handleSaveBilling}
+          className="bg-white rounded-xl border border-gray-100 p-4 grid sm:grid-cols-3 gap-4 items-end"
+        >
+          <div>
+            <label htmlFor="billing-gstin" className="block text-sm font-medium text-gray-700 mb-2">
+              GSTIN (optional)
+            </label>
+            <input
+              id="billing-gstin"
+              value={billing.gstin || ''}
+              onChange={(e) => setBilling({ ...billing, gstin: e.target.value.toUpperCase() })}
+              className="w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 outline-none font-mono"
+            />
+          </div>
+          <div>
+            <label htmlFor="billing-state" className="block text-sm font-medium text-gray-700 mb-2">
+              State code
+            </label>
+            <input
+              id="billing-state"
+              value={billing.stateCode || ''}
+              onChange={(e) => setBilling({ ...billing, stateCode: e.target.value })}
+              placeholder="e.g., 27"
+              maxLength={2}
+              className="w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 outline-none"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSavingBilling}
+            className="bg-blue-600 text-white px-4 py-2 rounded-xl hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            Save Billing Details
+          </button>
+          <div className="sm:col-span-3">
+            <label htmlFor="billing-address" className="block text-sm font-medium text-gray-700 mb-2">
+              Billing address
+            </label>
+            <input
+              id="billing-address"
+              value={billing.address || ''}
+              onChange={(e) => setBilling({ ...billing, address: e.target.value })}
+              className="w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 outline-none"
+            />
+          </div>
+        </form>
+      </div>
+
+      {/* Refund History */}
+      {refunds.length > 0 && (
+        <div className="mt-8">
+          <h3 className="text-xl font-semibold text-gray-900 mb-4">Refund History</h3>
+          <div className="bg-white rounded-xl border border-gray-100 divide-y divide-gray-100">
+            {refunds.map((refund) => (
+              <div key={refund._id} className="flex items-center justify-between p-4">
+                <div className="flex items-center">
+                  <div className="w-10 h-10 bg-gray-100 rounded-lg flex items-center justify-center mr-4">
+                    <RotateCcw className="h-5 w-5 text-gray-600" />
+                  </div>
+                  <div>
+                    <p className="font-medium text-gray-900">{refund.paperTitle}</p>
+                    <p className="text-sm text-gray-500">
+                      {new Date(refund.createdAt).toLocaleDateString()}
+                      {refund.reason && ` • ${refund.reason}`}
+                    </p>
+                  </div>
+                </div>
+                <p className="font-semibold text-green-600">₹{refund.amount}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Security */}
+      <div className="mt-8">
+        <h3 className="text-xl font-semibold text-gray-900 mb-4">Security</h3>
+        <div className="bg-white rounded-xl border border-gray-100 p-6 flex items-center justify-between gap-4">
+          <p className="text-gray-600">
+            Lost a device or signed in somewhere you shouldn&apos;t have? End every session on every device.
+          </p>
+          <button
+            onClick={handleSignOutEverywhere}
+            className="inline-flex items-center flex-shrink-0 px-4 py-2 border border-red-200 rounded-xl text-red-600 hover:bg-red-50 transition"
+          >
+            <LogOut className="h-4 w-4 mr-2" />
+            Sign Out of All Devices
+          </button>
+        </div>
+        <form
+          onSubmit={isPhoneCodeSent ? handleVerifyPhone : handleSendPhoneCode}
+          className="bg-white rounded-xl border border-gray-100 p-6 mt-4 grid sm:grid-cols-3 gap-4 items-end"
+        >
+          <div className="sm:col-span-3 flex items-center text-gray-600">
+            <Phone className="h-5 w-5 mr-2 text-gray-400" />
+            {phone.phoneVerified
+              ? 'Your phone number is verified and can be used to sign in.'
+              : 'Verify a phone number to sign in with a texted code.'}
+          </div>
+          <div>
+            <label htmlFor="account-phone" className="block text-sm font-medium text-gray-700 mb-2">
+              Phone number
+            </label>
+            <input
+              id="account-phone"
+              type="tel"
+              value={phone.phone}
+              onChange={(e) => {
+                setPhone({ phone: e.target.value, phoneVerified: false });
+                setIsPhoneCodeSent(false);
+              }}
+              placeholder="+91 98765 43210"
+              className="w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 outline-none"
+            />
+          </div>
+          {isPhoneCodeSent && (
+            <div>
+              <label htmlFor="account-phone-code" className="block text-sm font-medium text-gray-700 mb-2">
+                Code
+              </label>
+              <input
+                id="account-phone-code"
+                inputMode="numeric"
+                value={phoneCode}
+                onChange={(e) => setPhoneCode(e.target.value)}
+                maxLength={6}
+                className="w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 outline-none font-mono"
+              />
+            </div>
+          )}
+          {!phone.phoneVerified && (
+            <button
+              type="submit"
+              className="bg-blue-600 text-white px-4 py-2 rounded-xl hover:bg-blue-700 transition"
+            >
+              {isPhoneCodeSent ? 'Verify Phone' : 'Send Code'}
+            </button>
+          )}
+        </form>
+      </div>
+
       {/* Admin Link */}
       {session.user?.role === 'admin' && (
         <div className="mt-8">
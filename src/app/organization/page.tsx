@@ -0,0 +1,593 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { Building2, Loader2, Search, Trash2, UserPlus, Users, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getTierPrice, offersSolutions, PurchaseTier } from '@/lib/pricing';
+import { openRazorpayCheckout } from '@/lib/razorpayCheckout';
+import { formatPrice } from '@/lib/currency';
+
+interface Member {
+  _id: string;
+  name: string;
+  email: string;
+  role: 'student' | 'org-admin';
+  usage: { seats: number; downloads: number; lastSeatAt?: string };
+}
+
+interface SeatPurchase {
+  _id: string;
+  paperId: { _id: string; title: string; examName: string; year: number } | null;
+  tier: PurchaseTier;
+  seats: number;
+  seatsAssigned?: number;
+  amount: number;
+  currency: string;
+  status: 'pending' | 'completed' | 'failed' | 'refunding' | 'refunded';
+  createdAt: string;
+}
+
+interface PaperOption {
+  _id: string;
+  title: string;
+  examName: string;
+  year: number;
+  price: number;
+  paperType: 'questions-only' | 'with-solutions';
+  questionsOnlyPrice: number;
+  withSolutionsPrice?: number;
+  hasSolutions: boolean;
+}
+
+interface Organization {
+  _id: string;
+  name: string;
+  type: 'school' | 'coaching' | 'other';
+  isActive: boolean;
+}
+
+interface SeatForm {
+  paper: PaperOption | null;
+  tier: PurchaseTier;
+  seats: string;
+  memberIds: string[];
+}
+
+const emptySeatForm: SeatForm = { paper: null, tier: 'questions-only', seats: '', memberIds: [] };
+
+export default function OrganizationDashboard() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [purchases, setPurchases] = useState<SeatPurchase[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [memberEmail, setMemberEmail] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [showBuyForm, setShowBuyForm] = useState(false);
+  const [seatForm, setSeatForm] = useState<SeatForm>(emptySeatForm);
+  const [paperSearch, setPaperSearch] = useState('');
+  const [paperResults, setPaperResults] = useState<PaperOption[]>([]);
+  const [assignPurchase, setAssignPurchase] = useState<SeatPurchase | null>(null);
+  const [assignIds, setAssignIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/login');
+    } else if (status === 'authenticated' && session?.user?.role !== 'org-admin') {
+      router.push('/dashboard');
+    }
+  }, [status, session, router]);
+
+  useEffect(() => {
+    const fetchOrganization = async () => {
+      try {
+        const response = await fetch('/api/organization');
+        const data = await response.json();
+
+        if (response.ok) {
+          setOrganization(data.organization);
+          setMembers(data.members || []);
+          setPurchases(data.purchases || []);
+        }
+      } catch (error) {
+        console.error('Error fetching organization:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (session?.user?.role === 'org-admin') {
+      fetchOrganization();
+    }
+  }, [session, reloadKey]);
+
+  const handleInviteMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      const response = await fetch('/api/organization/members', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: memberEmail }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(data.message);
+        setMemberEmail('');
+        setReloadKey((key) => key + 1);
+      } else {
+        toast.error(data.error || 'Failed to send invite');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemoveMember = async (member: Member) => {
+    if (!confirm(`Remove ${member.name}? Seats already assigned to them are kept.`)) return;
+
+    try {
+      const response = await fetch(`/api/organization/members?userId=${member._id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(data.message);
+        setReloadKey((key) => key + 1);
+      } else {
+        toast.error(data.error || 'Failed to remove member');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    }
+  };
+
+  const searchPapers = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const params = new URLSearchParams({ limit: '10' });
+      if (paperSearch.trim()) params.set('search', paperSearch.trim());
+
+      const response = await fetch(`/api/papers?${params}`);
+      const data = await response.json();
+
+      if (response.ok) {
+        setPaperResults(data.papers || []);
+      }
+    } catch (error) {
+      console.error('Error searching papers:', error);
+    }
+  };
+
+  const toggleId = (ids: string[], id: string) =>
+    ids.includes(id) ? ids.filter((existing) => existing !== id) : [...ids, id];
+
+  const seatPrice = seatForm.paper ? getTierPrice(seatForm.paper, seatForm.tier) : null;
+  const seatCount = parseInt(seatForm.seats) || 0;
+
+  const handleBuySeats = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!seatForm.paper) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/organization/seats', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          paperId: seatForm.paper._id,
+          tier: seatForm.tier,
+          seats: seatCount,
+          memberIds: seatForm.memberIds,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setShowBuyForm(false);
+        openRazorpayCheckout(data, {
+          description: `${seatCount} seats: ${seatForm.paper.title}`,
+          prefill: { email: session?.user?.email, name: session?.user?.name },
+          onVerified: () => {
+            toast.success('Payment successful! Seats have been assigned.');
+            setSeatForm(emptySeatForm);
+            setReloadKey((key) => key + 1);
+          },
+          onFailed: (message) => toast.error(message),
+        });
+      } else {
+        toast.error(data.error || 'Failed to create order');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAssignSeats = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!assignPurchase) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/organization/seats/${assignPurchase._id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ memberIds: assignIds }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(data.message);
+        setAssignPurchase(null);
+        setReloadKey((key) => key + 1);
+      } else {
+        toast.error(data.error || 'Failed to assign seats');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (status === 'loading' || isLoading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-8" />
+          <div className="grid md:grid-cols-4 gap-6">
+            {[1, 2, 3, 4].map((i) => (
+              <div key={i} className="h-32 bg-gray-200 rounded-xl" />
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session || session.user?.role !== 'org-admin') {
+    return null;
+  }
+
+  if (!organization) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 text-center text-gray-500">
+        Your account is not linked to an organization.
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 outline-none';
+  const completedPurchases = purchases.filter((p) => p.status === 'completed');
+  const totalSeats = completedPurchases.reduce((sum, p) => sum + p.seats, 0);
+  const assignedSeats = completedPurchases.reduce((sum, p) => sum + (p.seatsAssigned || 0), 0);
+  const totalDownloads = members.reduce((sum, m) => sum + m.usage.downloads, 0);
+
+  const statCards = [
+    { title: 'Members', value: members.length },
+    { title: 'Seats Bought', value: totalSeats },
+    { title: 'Seats Assigned', value: assignedSeats },
+    { title: 'Downloads Used', value: totalDownloads },
+  ];
+
+  // Members to pick from; those already holding a seat from the purchase are skipped by the server
+  const memberPicker = (selected: string[], onToggle: (id: string) => void) => (
+    <div className="max-h-48 overflow-y-auto border border-gray-100 rounded-xl divide-y divide-gray-100">
+      {members.map((member) => (
+        <label key={member._id} className="flex items-center px-3 py-2 text-sm cursor-pointer hover:bg-gray-50">
+          <input
+            type="checkbox"
+            checked={selected.includes(member._id)}
+            onChange={() => onToggle(member._id)}
+            className="mr-3"
+          />
+          <span className="text-gray-900">{member.name}</span>
+          <span className="ml-2 text-gray-500">{member.email}</span>
+        </label>
+      ))}
+      {members.length === 0 && <p className="px-3 py-2 text-sm text-gray-500">Invite members first</p>}
+    </div>
+  );
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-8 gap-4">
+        <div className="flex items-center">
+          <div className="w-12 h-12 bg-blue-100 rounded-xl flex items-center justify-center mr-4">
+            <Building2 className="h-6 w-6 text-blue-600" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{organization.name}</h1>
+            <p className="text-gray-600">Manage your batch, buy seats and track usage</p>
+          </div>
+        </div>
+        <button
+          onClick={() => setShowBuyForm(true)}
+          disabled={!organization.isActive}
+          className="inline-flex items-center bg-blue-600 text-white px-4 py-2 rounded-xl hover:bg-blue-700 transition disabled:opacity-50"
+        >
+          <Users className="h-5 w-5 mr-2" />
+          Buy Seats
+        </button>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-6 mb-8">
+        {statCards.map((stat) => (
+          <div key={stat.title} className="bg-white rounded-xl p-6 border border-gray-100">
+            <p className="text-gray-500 text-sm">{stat.title}</p>
+            <p className="text-2xl font-bold text-gray-900 mt-1">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Members */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-4 gap-4">
+        <h2 className="text-xl font-semibold text-gray-900">Members</h2>
+        <form onSubmit={handleInviteMember} className="flex gap-2 w-full md:max-w-md">
+          <input
+            type="email"
+            required
+            value={memberEmail}
+            onChange={(e) => setMemberEmail(e.target.value)}
+            placeholder="Invite a student by email"
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            disabled={isSaving}
+            title="Send invite"
+            className="inline-flex items-center bg-blue-600 text-white px-4 py-2 rounded-xl hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            <UserPlus className="h-4 w-4" />
+          </button>
+        </form>
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-100 overflow-x-auto mb-8">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-500">
+            <tr>
+              <th className="px-4 py-3 font-medium">Member</th>
+              <th className="px-4 py-3 font-medium">Role</th>
+              <th className="px-4 py-3 font-medium">Seats</th>
+              <th className="px-4 py-3 font-medium">Downloads</th>
+              <th className="px-4 py-3 font-medium">Last Seat</th>
+              <th className="px-4 py-3 font-medium" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {members.map((member) => (
+              <tr key={member._id}>
+                <td className="px-4 py-3">
+                  <p className="text-gray-900">{member.name}</p>
+                  <p className="text-xs text-gray-500">{member.email}</p>
+                </td>
+                <td className="px-4 py-3 text-gray-600">{member.role === 'org-admin' ? 'Admin' : 'Student'}</td>
+                <td className="px-4 py-3 text-gray-900">{member.usage.seats}</td>
+                <td className="px-4 py-3 text-gray-900">{member.usage.downloads}</td>
+                <td className="px-4 py-3 text-gray-500">
+                  {member.usage.lastSeatAt ? new Date(member.usage.lastSeatAt).toLocaleDateString() : '—'}
+                </td>
+                <td className="px-4 py-3 text-right">
+                  {member.role === 'student' && (
+                    <button
+                      onClick={() => handleRemoveMember(member)}
+                      className="p-2 text-gray-500 hover:text-red-600 rounded-lg hover:bg-red-50"
+                      title="Remove member"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Seat Purchases */}
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">Seat Purchases</h2>
+      <div className="bg-white rounded-xl border border-gray-100 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-500">
+            <tr>
+              <th className="px-4 py-3 font-medium">Date</th>
+              <th className="px-4 py-3 font-medium">Paper</th>
+              <th className="px-4 py-3 font-medium">Tier</th>
+              <th className="px-4 py-3 font-medium">Seats Used</th>
+              <th className="px-4 py-3 font-medium">Amount</th>
+              <th className="px-4 py-3 font-medium">Status</th>
+              <th className="px-4 py-3 font-medium" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {purchases.map((purchase) => (
+              <tr key={purchase._id}>
+                <td className="px-4 py-3 text-gray-500">{new Date(purchase.createdAt).toLocaleDateString()}</td>
+                <td className="px-4 py-3 text-gray-900">{purchase.paperId?.title || 'Deleted paper'}</td>
+                <td className="px-4 py-3 text-gray-600">
+                  {purchase.tier === 'with-solutions' ? 'With solutions' : 'Questions only'}
+                </td>
+                <td className="px-4 py-3 text-gray-900">
+                  {purchase.seatsAssigned || 0} / {purchase.seats}
+                </td>
+                <td className="px-4 py-3 text-gray-900">{formatPrice(purchase.amount, purchase.currency)}</td>
+                <td className="px-4 py-3 text-gray-600">{purchase.status}</td>
+                <td className="px-4 py-3 text-right">
+                  {purchase.status === 'completed' && (purchase.seatsAssigned || 0) < purchase.seats && (
+                    <button
+                      onClick={() => {
+                        setAssignPurchase(purchase);
+                        setAssignIds([]);
+                      }}
+                      className="px-3 py-1.5 border border-gray-200 rounded-lg text-gray-700 hover:bg-gray-50"
+                    >
+                      Assign
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {purchases.length === 0 && (
+          <p className="text-center text-gray-500 py-12">No seat purchases yet</p>
+        )}
+      </div>
+
+      {/* Buy Seats Form */}
+      {showBuyForm && (
+        <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center px-4">
+          <div className="bg-white rounded-2xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-gray-900">Buy Seats</h2>
+              <button type="button" onClick={() => setShowBuyForm(false)} className="p-1 rounded hover:bg-gray-100">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <form onSubmit={searchPapers} className="flex gap-2">
+              <input
+                value={paperSearch}
+                onChange={(e) => setPaperSearch(e.target.value)}
+                placeholder="Search papers"
+                className={inputClass}
+              />
+              <button
+                type="submit"
+                className="inline-flex items-center bg-blue-600 text-white px-4 py-2 rounded-xl hover:bg-blue-700 transition"
+              >
+                <Search className="h-4 w-4" />
+              </button>
+            </form>
+
+            {paperResults.length > 0 && (
+              <div className="max-h-40 overflow-y-auto border border-gray-100 rounded-xl divide-y divide-gray-100">
+                {paperResults.map((paper) => (
+                  <button
+                    key={paper._id}
+                    type="button"
+                    onClick={() => setSeatForm({ ...seatForm, paper, tier: 'questions-only' })}
+                    className={`block w-full text-left px-3 py-2 text-sm hover:bg-gray-50 ${
+                      seatForm.paper?._id === paper._id ? 'bg-blue-50' : ''
+                    }`}
+                  >
+                    <span className="text-gray-900">{paper.title}</span>
+                    <span className="ml-2 text-gray-500">
+                      {paper.examName} {paper.year}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <form onSubmit={handleBuySeats} className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="seat-tier" className="block text-sm font-medium text-gray-700 mb-2">
+                  Tier
+                </label>
+                <select
+                  id="seat-tier"
+                  value={seatForm.tier}
+                  onChange={(e) => setSeatForm({ ...seatForm, tier: e.target.value as PurchaseTier })}
+                  className={inputClass}
+                >
+                  <option value="questions-only">Questions only</option>
+                  {seatForm.paper && offersSolutions(seatForm.paper) && (
+                    <option value="with-solutions">With solutions</option>
+                  )}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="seat-count" className="block text-sm font-medium text-gray-700 mb-2">
+                  Seats
+                </label>
+                <input
+                  id="seat-count"
+                  type="number"
+                  min="1"
+                  step="1"
+                  required
+                  value={seatForm.seats}
+                  onChange={(e) => setSeatForm({ ...seatForm, seats: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div className="col-span-2">
+                <p className="block text-sm font-medium text-gray-700 mb-2">
+                  Assign now ({seatForm.memberIds.length} selected, the rest can be assigned later)
+                </p>
+                {memberPicker(seatForm.memberIds, (id) =>
+                  setSeatForm({ ...seatForm, memberIds: toggleId(seatForm.memberIds, id) })
+                )}
+              </div>
+              {seatPrice !== null && seatCount > 0 && (
+                <p className="col-span-2 text-sm text-gray-600">
+                  {seatCount} × {formatPrice(seatPrice)} ={' '}
+                  <span className="font-semibold text-gray-900">{formatPrice(seatPrice * seatCount)}</span>
+                </p>
+              )}
+              <button
+                type="submit"
+                disabled={isSaving || !seatForm.paper || seatForm.memberIds.length > seatCount}
+                className="col-span-2 bg-blue-600 text-white py-3 rounded-xl hover:bg-blue-700 transition font-semibold flex items-center justify-center disabled:opacity-50"
+              >
+                {isSaving && <Loader2 className="h-5 w-5 mr-2 animate-spin" />}
+                {seatForm.paper ? 'Pay for Seats' : 'Choose a paper'}
+              </button>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Assign Seats Form */}
+      {assignPurchase && (
+        <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center px-4">
+          <form
+            onSubmit={handleAssignSeats}
+            className="bg-white rounded-2xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto space-y-4"
+          >
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Assign Seats</h2>
+                <p className="text-sm text-gray-500">
+                  {assignPurchase.paperId?.title} • {assignPurchase.seats - (assignPurchase.seatsAssigned || 0)} left
+                </p>
+              </div>
+              <button type="button" onClick={() => setAssignPurchase(null)} className="p-1 rounded hover:bg-gray-100">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            {memberPicker(assignIds, (id) => setAssignIds(toggleId(assignIds, id)))}
+
+            <button
+              type="submit"
+              disabled={isSaving || assignIds.length === 0}
+              className="w-full bg-blue-600 text-white py-3 rounded-xl hover:bg-blue-700 transition font-semibold flex items-center justify-center disabled:opacity-50"
+            >
+              {isSaving && <Loader2 className="h-5 w-5 mr-2 animate-spin" />}
+              Assign {assignIds.length || ''} Seat{assignIds.length === 1 ? '' : 's'}
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
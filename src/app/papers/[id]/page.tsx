@@ -17,8 +17,13 @@ import {
   ShoppingCart,
   Loader2,
   CheckCircle,
+  Plus,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { getTierPrice, getUpgradePrice, offersSolutions, PurchaseTier } from '@/lib/pricing';
+import { openRazorpayCheckout } from '@/lib/razorpayCheckout';
+import CouponInput, { AppliedCoupon } from '@/components/ui/CouponInput';
+import { Currency, formatPrice, OverrideCurrency } from '@/lib/currency';
 
 interface Paper {
   _id: string;
@@ -28,6 +33,11 @@ interface Paper {
   examName: string;
   year: number;
   price: number;
+  paperType: 'questions-only' | 'with-solutions';
+  questionsOnlyPrice: number;
+  withSolutionsPrice?: number;
+  currencyPrices?: { currency: OverrideCurrency; questionsOnlyPrice: number; withSolutionsPrice?: number }[];
+  hasSolutions: boolean;
   category: 'university' | 'board' | 'competitive';
   ratings: { average: number; count: number };
   downloads: number;
@@ -35,14 +45,31 @@ interface Paper {
   previewUrl?: string;
 }
 
+interface PurchaseAccess {
+  purchased: boolean;
+  tier: PurchaseTier | null;
+  purchasedWithSolutions: boolean;
+  subscriptionId?: string;
+}
+
 export default function PaperDetailPage() {
   const params = useParams();
   const router = useRouter();
   const { data: session } = useSession();
 
   const [paper, setPaper] = useState<Paper | null>(null);
+  const [access, setAccess] = useState<PurchaseAccess | null>(null);
+  const [currencies, setCurrencies] = useState<Record<PurchaseTier, Currency>>({
+    'questions-only': 'INR',
+    'with-solutions': 'INR',
+  });
+  const [selectedTier, setSelectedTier] = useState<PurchaseTier>('questions-only');
   const [isLoading, setIsLoading] = useState(true);
   const [isPurchasing, setIsPurchasing] = useState(false);
+  const [isAddingToCart, setIsAddingToCart] = useState(false);
+  const [coupon, setCoupon] = useState<AppliedCoupon | null>(null);
+  const [walletBalance, setWalletBalance] = useState(0);
+  const [useWallet, setUseWallet] = useState(false);
   const [isWishlisted, setIsWishlisted] = useState(false);
 
   useEffect(() => {
@@ -53,6 +80,12 @@ export default function PaperDetailPage() {
 
         if (response.ok) {
           setPaper(data.paper);
+          setAccess(data.access);
+          if (data.currencies) setCurrencies(data.currencies);
+          // Owners of the questions-only tier can only upgrade
+          if (data.access?.tier === 'questions-only' && !data.access.subscriptionId) {
+            setSelectedTier('with-solutions');
+          }
         } else {
           toast.error('Paper not found');
           router.push('/papers');
@@ -69,6 +102,25 @@ export default function PaperDetailPage() {
     }
   }, [params.id, router]);
 
+  useEffect(() => {
+    const fetchWallet = async () => {
+      try {
+        const response = await fetch('/api/user/wallet');
+        const data = await response.json();
+
+        if (response.ok) {
+          setWalletBalance(data.balance);
+        }
+      } catch (error) {
+        console.error('Error fetching wallet:', error);
+      }
+    };
+
+    if (session) {
+      fetchWallet();
+    }
+  }, [session]);
+
   const handlePurchase = async () => {
     if (!session) {
       router.push(`/auth/login?callbackUrl=/papers/${params.id}`);
@@ -80,50 +132,24 @@ export default function PaperDetailPage() {
       const response = await fetch('/api/payment/create-order', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ paperId: params.id }),
+        body: JSON.stringify({ paperId: params.id, tier: selectedTier, couponCode: coupon?.code, useWallet }),
       });
 
       const data = await response.json();
 
-      if (response.ok) {
-        // Initialize Razorpay
-        const options = {
-          key: process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID,
-          amount: data.amount,
-          currency: data.currency,
-          name: 'Star Paper',
+      if (response.ok && (data.isFree || data.paidFromWallet)) {
+        toast.success(data.paidFromWallet ? 'Paid from your wallet!' : 'Paper added to your downloads!');
+        router.push('/dashboard/downloads');
+      } else if (response.ok) {
+        openRazorpayCheckout(data, {
           description: paper?.title,
-          order_id: data.orderId,
-          handler: async function (response: { razorpay_payment_id: string; razorpay_order_id: string; razorpay_signature: string }) {
-            // Verify payment
-            const verifyResponse = await fetch('/api/payment/verify', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                razorpay_payment_id: response.razorpay_payment_id,
-                razorpay_order_id: response.razorpay_order_id,
-                razorpay_signature: response.razorpay_signature,
-              }),
-            });
-
-            if (verifyResponse.ok) {
-              toast.success('Payment successful! You can now download the paper.');
-              router.push('/dashboard/downloads');
-            } else {
-              toast.error('Payment verification failed');
-            }
-          },
-          prefill: {
-            email: session.user?.email,
-            name: session.user?.name,
+          prefill: { email: session.user?.email, name: session.user?.name },
+          onVerified: () => {
+            toast.success('Payment successful! You can now download the paper.');
+            router.push('/dashboard/downloads');
           },
-          theme: {
-            color: '#2563eb',
-          },
-        };
-
-        const razorpay = new (window as unknown as { Razorpay: new (options: object) => { open: () => void } }).Razorpay(options);
-        razorpay.open();
+          onFailed: (message) => toast.error(message),
+        });
       } else {
         toast.error(data.error || 'Failed to create order');
       }
@@ -134,6 +160,79 @@ export default function PaperDetailPage() {
     }
   };
 
+  const handleClaimFree = async () => {
+    if (!session) {
+      router.push(`/auth/login?callbackUrl=/papers/${params.id}`);
+      return;
+    }
+
+    setIsPurchasing(true);
+    try {
+      const response = await fetch('/api/payment/claim-free', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ paperId: params.id, tier: selectedTier }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success('Paper added to your downloads!');
+        router.push('/dashboard/downloads');
+      } else {
+        toast.error(data.error || 'Failed to claim paper');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setIsPurchasing(false);
+    }
+  };
+
+  const handleAddToCart = async () => {
+    if (!session) {
+      router.push(`/auth/login?callbackUrl=/papers/${params.id}`);
+      return;
+    }
+
+    setIsAddingToCart(true);
+    try {
+      const response = await fetch('/api/user/cart', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ paperId: params.id, tier: selectedTier }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success('Added to cart');
+      } else {
+        toast.error(data.error || 'Failed to add to cart');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setIsAddingToCart(false);
+    }
+  };
+
+  const handleSubscriptionDownload = async () => {
+    try {
+      const response = await fetch(`/api/user/downloads/${params.id}`);
+      const data = await response.json();
+
+      if (response.ok && data.downloadUrl) {
+        window.open(data.downloadUrl, '_blank');
+        toast.success('Download started!');
+      } else {
+        toast.error(data.error || 'Download failed');
+      }
+    } catch {
+      toast.error('Failed to download');
+    }
+  };
+
   const handleWishlist = () => {
     if (!session) {
       router.push(`/auth/login?callbackUrl=/papers/${params.id}`);
@@ -177,6 +276,29 @@ export default function PaperDetailPage() {
     return null;
   }
 
+  const isSubscribed = !!access?.subscriptionId;
+  const isUpgrade = access?.tier === 'questions-only' && !isSubscribed;
+  const isFullyPurchased = access?.purchasedWithSolutions || (access?.purchased && !offersSolutions(paper));
+  // Upgrades are charged at the with-solutions tier
+  const currency = currencies[isUpgrade ? 'with-solutions' : selectedTier];
+  const displayPrice = isUpgrade ? getUpgradePrice(paper, currency) : getTierPrice(paper, selectedTier, currency);
+  const isFree = displayPrice === 0;
+
+  const tierOptions: { tier: PurchaseTier; label: string; price: number | null; currency: Currency }[] = [
+    {
+      tier: 'questions-only',
+      label: 'Questions only',
+      price: getTierPrice(paper, 'questions-only', currencies['questions-only']),
+      currency: currencies['questions-only'],
+    },
+    {
+      tier: 'with-solutions',
+      label: 'With solutions',
+      price: getTierPrice(paper, 'with-solutions', currencies['with-solutions']),
+      currency: currencies['with-solutions'],
+    },
+  ];
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       {/* Back Button */}
@@ -267,8 +389,19 @@ export default function PaperDetailPage() {
             {/* Price */}
             <div className="flex items-center justify-between mb-6">
               <div className="flex items-center text-3xl font-bold text-gray-900">
-                <IndianRupee className="h-7 w-7" />
-                {paper.price}
+                {currency === 'INR' ? (
+                  <>
+                    <IndianRupee className="h-7 w-7" />
+                    {coupon ? coupon.amount : displayPrice ?? paper.price}
+                  </>
+                ) : (
+                  formatPrice(coupon ? coupon.amount : displayPrice ?? 0, currency)
+                )}
+                {coupon && (
+                  <span className="ml-2 text-base font-normal text-gray-400 line-through">
+                    {formatPrice(displayPrice ?? 0, currency)}
+                  </span>
+                )}
               </div>
               <button
                 onClick={handleWishlist}
@@ -292,24 +425,109 @@ export default function PaperDetailPage() {
               </div>
             </div>
 
+            {/* Tier Selection */}
+            {offersSolutions(paper) && !isFullyPurchased && (
+              <div className="space-y-2 mb-6">
+                {tierOptions.map((option) => {
+                  const isOwned = isUpgrade && option.tier === 'questions-only';
+
+                  return (
+                    <button
+                      key={option.tier}
+                      onClick={() => {
+                        setSelectedTier(option.tier);
+                        setCoupon(null);
+                      }}
+                      disabled={isOwned}
+                      className={`w-full flex items-center justify-between px-4 py-3 rounded-xl border text-sm transition disabled:opacity-60 disabled:cursor-not-allowed ${
+                        selectedTier === option.tier
+                          ? 'border-blue-600 bg-blue-50 text-blue-700'
+                          : 'border-gray-200 text-gray-700 hover:border-blue-200'
+                      }`}
+                    >
+                      <span className="font-medium">{option.label}</span>
+                      <span>{isOwned ? 'Purchased' : formatPrice(option.price ?? 0, option.currency)}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Coupon */}
+            {!isFullyPurchased && !isFree && session && (
+              <CouponInput
+                item={{ paperId: paper._id, tier: selectedTier }}
+                applied={coupon}
+                onChange={setCoupon}
+              />
+            )}
+
+            {/* Wallet */}
+            {!isFullyPurchased && !isFree && session && currency === 'INR' && walletBalance > 0 && (
+              <label className="flex items-center px-4 py-2 mb-4 rounded-xl bg-purple-50 text-sm text-purple-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={useWallet}
+                  onChange={(e) => setUseWallet(e.target.checked)}
+                  className="mr-2"
+                />
+                Use wallet balance (₹{walletBalance})
+              </label>
+            )}
+
+            {isSubscribed && (
+              <button
+                onClick={handleSubscriptionDownload}
+                className="w-full bg-green-600 text-white py-3 rounded-xl hover:bg-green-700 transition font-semibold flex items-center justify-center mb-4"
+              >
+                <Download className="h-5 w-5 mr-2" />
+                Download with Subscription
+              </button>
+            )}
+
             {/* Buy Button */}
-            <button
-              onClick={handlePurchase}
-              disabled={isPurchasing}
-              className="w-full bg-blue-600 text-white py-3 rounded-xl hover:bg-blue-700 transition font-semibold flex items-center justify-center mb-4 disabled:opacity-50"
-            >
-              {isPurchasing ? (
-                <>
+            {isSubscribed && isFullyPurchased ? null : isFullyPurchased ? (
+              <Link
+                href="/dashboard/downloads"
+                className="w-full bg-green-600 text-white py-3 rounded-xl hover:bg-green-700 transition font-semibold flex items-center justify-center mb-4"
+              >
+                <CheckCircle className="h-5 w-5 mr-2" />
+                Purchased - Go to Downloads
+              </Link>
+            ) : (
+              <button
+                onClick={isFree ? handleClaimFree : handlePurchase}
+                disabled={isPurchasing}
+                className="w-full bg-blue-600 text-white py-3 rounded-xl hover:bg-blue-700 transition font-semibold flex items-center justify-center mb-4 disabled:opacity-50"
+              >
+                {isPurchasing ? (
+                  <>
+                    <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                    Processing...
+                  </>
+                ) : (
+                  <>
+                    <ShoppingCart className="h-5 w-5 mr-2" />
+                    {isFree ? 'Get for Free' : isUpgrade ? 'Upgrade to Solutions' : 'Buy Now'}
+                  </>
+                )}
+              </button>
+            )}
+
+            {!isFullyPurchased && !isFree && (
+              <button
+                onClick={handleAddToCart}
+                disabled={isAddingToCart}
+                className="w-full border border-blue-600 text-blue-600 py-3 rounded-xl hover:bg-blue-50 transition font-semibold flex items-center justify-center mb-4 disabled:opacity-50"
+              >
+                {isAddingToCart ? (
                   <Loader2 className="h-5 w-5 mr-2 animate-spin" />
-                  Processing...
-                </>
-              ) : (
-                <>
-                  <ShoppingCart className="h-5 w-5 mr-2" />
-                  Buy Now
-                </>
-              )}
-            </button>
+                ) : (
+                  <Plus className="h-5 w-5 mr-2" />
+                )}
+                Add to Cart
+              </button>
+            )}
 
             {/* Info */}
             <div className="text-sm text-gray-500 space-y-2">
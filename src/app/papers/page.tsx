@@ -2,7 +2,8 @@
 
 import { useState, useEffect } from 'react';
 import { useSearchParams } from 'next/navigation';
-import { Filter, SlidersHorizontal, X } from 'lucide-react';
+import Link from 'next/link';
+import { Filter, Layers, SlidersHorizontal, X } from 'lucide-react';
 import PaperCard from '@/components/ui/PaperCard';
 import SearchBar from '@/components/ui/SearchBar';
 import FilterSidebar, { FilterState } from '@/components/ui/FilterSidebar';
@@ -19,6 +20,14 @@ interface Paper {
   downloads: number;
 }
 
+interface BundleListing {
+  _id: string;
+  title: string;
+  finalPrice: number;
+  papersValue: number;
+  papers: { _id: string }[];
+}
+
 const sortOptions = [
   { value: 'newest', label: 'Newest First' },
   { value: 'oldest', label: 'Oldest First' },
@@ -34,6 +43,7 @@ export default function PapersPage() {
   const initialCategory = searchParams.get('category') || '';
 
   const [papers, setPapers] = useState<Paper[]>([]);
+  const [bundles, setBundles] = useState<BundleListing[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showMobileFilter, setShowMobileFilter] = useState(false);
   const [sort, setSort] = useState('newest');
@@ -68,6 +78,7 @@ export default function PapersPage() {
 
       if (response.ok) {
         setPapers(data.papers);
+        setBundles(data.bundles || []);
         setPagination({
           page: data.pagination.page,
           pages: data.pagination.pages,
@@ -162,6 +173,33 @@ export default function PapersPage() {
             </div>
           </div>
 
+          {/* Bundles */}
+          {!isLoading && bundles.length > 0 && (
+            <div className="grid sm:grid-cols-2 gap-4 mb-8">
+              {bundles.map((bundle) => (
+                <Link
+                  key={bundle._id}
+                  href={`/bundles/${bundle._id}`}
+                  className="flex items-center gap-4 bg-white rounded-xl border border-blue-100 p-4 hover:border-blue-300 transition"
+                >
+                  <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center flex-shrink-0">
+                    <Layers className="h-6 w-6 text-blue-600" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold text-gray-900 truncate">{bundle.title}</p>
+                    <p className="text-sm text-gray-500">{bundle.papers.length} papers bundle</p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-bold text-gray-900">₹{bundle.finalPrice}</p>
+                    {bundle.papersValue > bundle.finalPrice && (
+                      <p className="text-xs text-gray-400 line-through">₹{bundle.papersValue}</p>
+                    )}
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+
           {/* Papers Grid */}
           {isLoading ? (
             <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-6">
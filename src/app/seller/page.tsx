@@ -0,0 +1,337 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Loader2, Upload, Wallet, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatPrice } from '@/lib/currency';
+
+interface SellerBalance {
+  currency: string;
+  sales: number;
+  earned: number;
+  cleared: number;
+  paid: number;
+  pending: number;
+  available: number;
+}
+
+interface SellerPaper {
+  _id: string;
+  title: string;
+  examName: string;
+  year: number;
+  downloads: number;
+  isActive: boolean;
+  moderationStatus?: 'pending' | 'approved' | 'rejected';
+  moderationNote?: string;
+  createdAt: string;
+}
+
+interface Payout {
+  _id: string;
+  amount: number;
+  currency: string;
+  status: 'pending' | 'paid' | 'rejected';
+  reference?: string;
+  note?: string;
+  createdAt: string;
+  settledAt?: string;
+}
+
+interface SellerDashboardData {
+  revenueSharePercent: number;
+  payoutDetails: string;
+  holdDays: number;
+  balances: SellerBalance[];
+  papers: SellerPaper[];
+  payouts: Payout[];
+}
+
+const MODERATION_STYLES = {
+  pending: 'bg-yellow-100 text-yellow-700',
+  approved: 'bg-green-100 text-green-700',
+  rejected: 'bg-red-100 text-red-700',
+};
+
+const PAYOUT_STYLES = {
+  pending: 'bg-yellow-100 text-yellow-700',
+  paid: 'bg-green-100 text-green-700',
+  rejected: 'bg-gray-100 text-gray-700',
+};
+
+export default function SellerDashboard() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [data, setData] = useState<SellerDashboardData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [payoutCurrency, setPayoutCurrency] = useState<string | null>(null);
+  const [payoutDetails, setPayoutDetails] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/login');
+    } else if (status === 'authenticated' && session?.user?.role !== 'seller') {
+      router.push('/dashboard');
+    }
+  }, [status, session, router]);
+
+  useEffect(() => {
+    const fetchDashboard = async () => {
+      try {
+        const response = await fetch('/api/seller');
+        const result = await response.json();
+
+        if (response.ok) {
+          setData(result);
+        }
+      } catch (error) {
+        console.error('Error fetching seller dashboard:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (session?.user?.role === 'seller') {
+      fetchDashboard();
+    }
+  }, [session, reloadKey]);
+
+  const openPayout = (currency: string) => {
+    setPayoutCurrency(currency);
+    setPayoutDetails(data?.payoutDetails || '');
+  };
+
+  const handleRequestPayout = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      const response = await fetch('/api/seller/payouts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ currency: payoutCurrency, payoutDetails }),
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        toast.success(result.message);
+        setPayoutCurrency(null);
+        setReloadKey((key) => key + 1);
+      } else {
+        toast.error(result.error || 'Failed to request payout');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (status === 'loading' || isLoading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-8" />
+          <div className="grid md:grid-cols-3 gap-6">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-32 bg-gray-200 rounded-xl" />
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session || session.user?.role !== 'seller' || !data) {
+    return null;
+  }
+
+  const balances = data.balances.length > 0 ? data.balances : [
+    { currency: 'INR', sales: 0, earned: 0, cleared: 0, paid: 0, pending: 0, available: 0 },
+  ];
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-8 gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Seller Dashboard</h1>
+          <p className="text-gray-600">
+            You earn {data.revenueSharePercent}% of every sale of your papers. Earnings can be paid out{' '}
+            {data.holdDays} days after the sale.
+          </p>
+        </div>
+        <Link
+          href="/seller/upload"
+          className="inline-flex items-center bg-blue-600 text-white px-4 py-2 rounded-xl hover:bg-blue-700 transition"
+        >
+          <Upload className="h-5 w-5 mr-2" />
+          Submit Paper
+        </Link>
+      </div>
+
+      {/* Earnings */}
+      <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
+        {balances.map((balance) => (
+          <div key={balance.currency} className="bg-white rounded-xl p-6 border border-gray-100">
+            <div className="flex items-center justify-between mb-4">
+              <p className="text-gray-500 text-sm">Earnings ({balance.currency})</p>
+              <span className="text-xs text-gray-500">{balance.sales} sales</span>
+            </div>
+            <p className="text-2xl font-bold text-gray-900 mb-4">{formatPrice(balance.available, balance.currency)}</p>
+            <dl className="text-sm space-y-1 mb-4">
+              <div className="flex justify-between">
+                <dt className="text-gray-500">Earned</dt>
+                <dd className="text-gray-900">{formatPrice(balance.earned, balance.currency)}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-500">Still on hold</dt>
+                <dd className="text-gray-900">{formatPrice(balance.earned - balance.cleared, balance.currency)}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-500">Requested</dt>
+                <dd className="text-gray-900">{formatPrice(balance.pending, balance.currency)}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-500">Paid out</dt>
+                <dd className="text-gray-900">{formatPrice(balance.paid, balance.currency)}</dd>
+              </div>
+            </dl>
+            <button
+              onClick={() => openPayout(balance.currency)}
+              disabled={balance.available <= 0 || balance.pending > 0}
+              className="w-full inline-flex items-center justify-center border border-gray-200 px-4 py-2 rounded-xl text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Wallet className="h-4 w-4 mr-2" />
+              Request Payout
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Papers */}
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">My Papers</h2>
+      <div className="bg-white rounded-xl border border-gray-100 overflow-x-auto mb-8">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-500">
+            <tr>
+              <th className="px-4 py-3 font-medium">Paper</th>
+              <th className="px-4 py-3 font-medium">Submitted</th>
+              <th className="px-4 py-3 font-medium">Status</th>
+              <th className="px-4 py-3 font-medium">Sales</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {data.papers.map((paper) => {
+              const moderation = paper.moderationStatus || 'approved';
+
+              return (
+                <tr key={paper._id}>
+                  <td className="px-4 py-3">
+                    <p className="text-gray-900">{paper.title}</p>
+                    <p className="text-xs text-gray-500">
+                      {paper.examName} {paper.year}
+                    </p>
+                  </td>
+                  <td className="px-4 py-3 text-gray-500">{new Date(paper.createdAt).toLocaleDateString()}</td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${MODERATION_STYLES[moderation]}`}>
+                      {moderation === 'pending' ? 'In review' : moderation === 'approved' ? 'On sale' : 'Rejected'}
+                    </span>
+                    {moderation === 'rejected' && paper.moderationNote && (
+                      <p className="text-xs text-red-600 mt-1">{paper.moderationNote}</p>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-gray-900">{paper.downloads}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {data.papers.length === 0 && (
+          <p className="text-center text-gray-500 py-12">You have not submitted any papers yet</p>
+        )}
+      </div>
+
+      {/* Payouts */}
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">Payouts</h2>
+      <div className="bg-white rounded-xl border border-gray-100 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-500">
+            <tr>
+              <th className="px-4 py-3 font-medium">Requested</th>
+              <th className="px-4 py-3 font-medium">Amount</th>
+              <th className="px-4 py-3 font-medium">Status</th>
+              <th className="px-4 py-3 font-medium">Reference</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {data.payouts.map((payout) => (
+              <tr key={payout._id}>
+                <td className="px-4 py-3 text-gray-500">{new Date(payout.createdAt).toLocaleDateString()}</td>
+                <td className="px-4 py-3 text-gray-900">{formatPrice(payout.amount, payout.currency)}</td>
+                <td className="px-4 py-3">
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${PAYOUT_STYLES[payout.status]}`}>
+                    {payout.status === 'pending' ? 'Requested' : payout.status === 'paid' ? 'Paid' : 'Rejected'}
+                  </span>
+                  {payout.note && <p className="text-xs text-gray-500 mt-1">{payout.note}</p>}
+                </td>
+                <td className="px-4 py-3 font-mono text-xs text-gray-600">{payout.reference || '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {data.payouts.length === 0 && (
+          <p className="text-center text-gray-500 py-12">No payouts yet</p>
+        )}
+      </div>
+
+      {/* Payout Request */}
+      {payoutCurrency && (
+        <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center px-4">
+          <form onSubmit={handleRequestPayout} className="bg-white rounded-2xl p-6 w-full max-w-md space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-gray-900">Request Payout</h2>
+              <button type="button" onClick={() => setPayoutCurrency(null)} className="p-1 rounded hover:bg-gray-100">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <p className="text-sm text-gray-600">
+              All cleared {payoutCurrency} earnings will be paid to the account below.
+            </p>
+            <div>
+              <label htmlFor="payout-details" className="block text-sm font-medium text-gray-700 mb-2">
+                UPI ID or bank details
+              </label>
+              <textarea
+                id="payout-details"
+                required
+                maxLength={300}
+                rows={3}
+                value={payoutDetails}
+                onChange={(e) => setPayoutDetails(e.target.value)}
+                className="w-full px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 outline-none"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="w-full bg-blue-600 text-white py-3 rounded-xl hover:bg-blue-700 transition font-semibold flex items-center justify-center disabled:opacity-50"
+            >
+              {isSaving && <Loader2 className="h-5 w-5 mr-2 animate-spin" />}
+              Request Payout
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+// Sellers submit papers through the admin upload wizard, which adapts to their role
+export { default } from '@/app/admin/upload/page';
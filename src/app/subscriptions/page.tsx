@@ -0,0 +1,164 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { CalendarClock, Check, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { openRazorpaySubscriptionCheckout } from '@/lib/razorpayCheckout';
+
+interface Plan {
+  _id: string;
+  name: string;
+  description?: string;
+  category: 'university' | 'board' | 'competitive';
+  tier: 'questions-only' | 'with-solutions';
+  price: number;
+  interval: 'monthly' | 'yearly';
+  totalCycles: number;
+}
+
+const categoryLabels: Record<Plan['category'], string> = {
+  university: 'University Papers',
+  board: 'Board Exams',
+  competitive: 'Competitive Exams',
+};
+
+export default function SubscriptionsPage() {
+  const { data: session } = useSession();
+  const router = useRouter();
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [subscribingId, setSubscribingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchPlans = async () => {
+      try {
+        const response = await fetch('/api/subscriptions/plans');
+        const data = await response.json();
+
+        if (response.ok) {
+          setPlans(data.plans || []);
+        }
+      } catch (error) {
+        console.error('Error fetching plans:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchPlans();
+  }, []);
+
+  const handleSubscribe = async (plan: Plan) => {
+    if (!session) {
+      router.push('/auth/login?callbackUrl=/subscriptions');
+      return;
+    }
+
+    setSubscribingId(plan._id);
+    try {
+      const response = await fetch('/api/subscriptions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ planId: plan._id }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        openRazorpaySubscriptionCheckout(data, {
+          description: plan.name,
+          prefill: { email: session.user?.email, name: session.user?.name },
+          onVerified: () => {
+            toast.success(`Subscribed! Every ${categoryLabels[plan.category].toLowerCase()} paper is unlocked.`);
+            router.push('/dashboard');
+          },
+          onFailed: (message) => toast.error(message),
+        });
+      } else {
+        toast.error(data.error || 'Failed to start subscription');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setSubscribingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-8" />
+          <div className="grid md:grid-cols-3 gap-6">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-64 bg-gray-200 rounded-xl" />
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Subscriptions</h1>
+        <p className="text-gray-600">Unlimited access to every paper in a category, renewed automatically</p>
+      </div>
+
+      {plans.length > 0 ? (
+        <div className="grid md:grid-cols-3 gap-6">
+          {plans.map((plan) => (
+            <div
+              key={plan._id}
+              className="bg-white rounded-xl border border-gray-100 p-6 flex flex-col"
+            >
+              <span className="inline-block self-start bg-blue-100 text-blue-700 px-3 py-1 rounded-full text-xs mb-4">
+                {categoryLabels[plan.category]}
+              </span>
+              <h2 className="text-xl font-semibold text-gray-900 mb-2">{plan.name}</h2>
+              {plan.description && (
+                <p className="text-sm text-gray-500 mb-4">{plan.description}</p>
+              )}
+              <p className="mb-4">
+                <span className="text-3xl font-bold text-gray-900">₹{plan.price}</span>
+                <span className="text-gray-500">/{plan.interval === 'yearly' ? 'year' : 'month'}</span>
+              </p>
+              <ul className="space-y-2 text-sm text-gray-600 mb-6 flex-1">
+                <li className="flex items-center">
+                  <Check className="h-4 w-4 text-green-600 mr-2" />
+                  Every {categoryLabels[plan.category].toLowerCase()} paper
+                </li>
+                <li className="flex items-center">
+                  <Check className="h-4 w-4 text-green-600 mr-2" />
+                  {plan.tier === 'with-solutions' ? 'Solutions included' : 'Question papers only'}
+                </li>
+                <li className="flex items-center">
+                  <CalendarClock className="h-4 w-4 text-gray-400 mr-2" />
+                  Renews for up to {plan.totalCycles} {plan.interval === 'yearly' ? 'years' : 'months'}
+                </li>
+              </ul>
+              <button
+                onClick={() => handleSubscribe(plan)}
+                disabled={subscribingId !== null}
+                className="w-full bg-blue-600 text-white py-3 rounded-xl hover:bg-blue-700 transition font-semibold flex items-center justify-center disabled:opacity-50"
+              >
+                {subscribingId === plan._id && <Loader2 className="h-5 w-5 mr-2 animate-spin" />}
+                Subscribe
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-16 bg-white rounded-xl border border-gray-100">
+          <CalendarClock className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">No plans available</h3>
+          <p className="text-gray-500">Check back soon for subscription plans</p>
+        </div>
+      )}
+    </div>
+  );
+}
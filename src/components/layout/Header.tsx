@@ -3,7 +3,7 @@
 import Link from 'next/link';
 import { useSession, signOut } from 'next-auth/react';
 import { useState } from 'react';
-import { Menu, X, User, LogOut, FileText, Heart, LayoutDashboard } from 'lucide-react';
+import { Menu, X, User, LogOut, FileText, Heart, LayoutDashboard, ShoppingCart, Building2, Store } from 'lucide-react';
 
 export default function Header() {
   const { data: session } = useSession();
@@ -34,6 +34,9 @@ export default function Header() {
             <Link href="/categories/competitive" className="text-gray-600 hover:text-blue-600 transition">
               Competitive
             </Link>
+            <Link href="/subscriptions" className="text-gray-600 hover:text-blue-600 transition">
+              Subscriptions
+            </Link>
           </div>
 
           {/* Auth Buttons / User Menu */}
@@ -76,6 +79,34 @@ export default function Header() {
                       <Heart className="h-4 w-4 mr-2" />
                       Wishlist
                     </Link>
+                    <Link
+                      href="/cart"
+                      className="flex items-center px-4 py-2 text-gray-700 hover:bg-gray-50"
+                      onClick={() => setIsDropdownOpen(false)}
+                    >
+                      <ShoppingCart className="h-4 w-4 mr-2" />
+                      Cart
+                    </Link>
+                    {session.user?.role === 'org-admin' && (
+                      <Link
+                        href="/organization"
+                        className="flex items-center px-4 py-2 text-gray-700 hover:bg-gray-50"
+                        onClick={() => setIsDropdownOpen(false)}
+                      >
+                        <Building2 className="h-4 w-4 mr-2" />
+                        Organization
+                      </Link>
+                    )}
+                    {session.user?.role === 'seller' && (
+                      <Link
+                        href="/seller"
+                        className="flex items-center px-4 py-2 text-gray-700 hover:bg-gray-50"
+                        onClick={() => setIsDropdownOpen(false)}
+                      >
+                        <Store className="h-4 w-4 mr-2" />
+                        Seller Dashboard
+                      </Link>
+                    )}
                     {session.user?.role === 'admin' && (
                       <Link
                         href="/admin"
@@ -140,12 +171,28 @@ export default function Header() {
               <Link href="/categories/competitive" className="text-gray-600 hover:text-blue-600 py-2">
                 Competitive
               </Link>
+              <Link href="/subscriptions" className="text-gray-600 hover:text-blue-600 py-2">
+                Subscriptions
+              </Link>
               <hr className="my-2" />
               {session ? (
                 <>
                   <Link href="/dashboard" className="text-gray-600 hover:text-blue-600 py-2">
                     Dashboard
                   </Link>
+                  <Link href="/cart" className="text-gray-600 hover:text-blue-600 py-2">
+                    Cart
+                  </Link>
+                  {session.user?.role === 'org-admin' && (
+                    <Link href="/organization" className="text-gray-600 hover:text-blue-600 py-2">
+                      Organization
+                    </Link>
+                  )}
+                  {session.user?.role === 'seller' && (
+                    <Link href="/seller" className="text-gray-600 hover:text-blue-600 py-2">
+                      Seller Dashboard
+                    </Link>
+                  )}
                   <button
                     onClick={() => signOut()}
                     className="text-left text-red-600 py-2"
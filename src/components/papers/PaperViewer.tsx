@@ -37,7 +37,7 @@ interface PaperViewerProps {
   questions?: Question[];
   title?: string;
   hasSolutions?: boolean;
-  purchasedWithSolutions?: boolean;
+  purchasedTier?: 'questions-only' | 'with-solutions' | null;
   onDownload?: () => void;
   className?: string;
 }
@@ -54,10 +54,12 @@ export default function PaperViewer({
   questions = [],
   title,
   hasSolutions = false,
-  purchasedWithSolutions = false,
+  purchasedTier = null,
   onDownload,
   className = '',
 }: PaperViewerProps) {
+  // Answers are unlocked only by the with-solutions purchase tier
+  const purchasedWithSolutions = purchasedTier === 'with-solutions';
   const [numPages, setNumPages] = useState<number>(0);
   const [pageNumber, setPageNumber] = useState(1);
   const [scale, setScale] = useState(1.0);
@@ -0,0 +1,89 @@
+'use client';
+
+import { Loader2, Tag, X } from 'lucide-react';
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { formatPrice } from '@/lib/currency';
+
+export interface AppliedCoupon {
+  code: string;
+  discount: number;
+  amount: number;
+  currency: string;
+}
+
+interface CouponInputProps {
+  item: { paperId?: string; tier?: string; bundleId?: string };
+  applied: AppliedCoupon | null;
+  onChange: (coupon: AppliedCoupon | null) => void;
+}
+
+export default function CouponInput({ item, applied, onChange }: CouponInputProps) {
+  const [code, setCode] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleApply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    setIsChecking(true);
+    try {
+      const response = await fetch('/api/coupons/validate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...item, code }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        onChange({ code: data.code, discount: data.discount, amount: data.amount, currency: data.currency });
+        toast.success(`Coupon applied: ${formatPrice(data.discount, data.currency)} off`);
+      } else {
+        toast.error(data.error || 'Invalid coupon code');
+      }
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  if (applied) {
+    return (
+      <div className="flex items-center justify-between px-4 py-2 mb-4 rounded-xl bg-green-50 text-sm text-green-700">
+        <span className="flex items-center font-medium">
+          <Tag className="h-4 w-4 mr-2" />
+          {applied.code} (−{formatPrice(applied.discount, applied.currency)})
+        </span>
+        <button
+          onClick={() => onChange(null)}
+          className="p-1 rounded hover:bg-green-100"
+          aria-label="Remove coupon"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleApply} className="flex gap-2 mb-4">
+      <input
+        type="text"
+        value={code}
+        onChange={(e) => setCode(e.target.value.toUpperCase())}
+        placeholder="Coupon code"
+        className="flex-1 min-w-0 px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 outline-none text-sm font-mono"
+      />
+      <button
+        type="submit"
+        disabled={isChecking || !code.trim()}
+        className="px-4 py-2 rounded-xl border border-gray-200 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 flex items-center"
+      >
+        {isChecking && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+        Apply
+      </button>
+    </form>
+  );
+}
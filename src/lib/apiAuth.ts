@@ -0,0 +1,106 @@
+/**
+ * API Route Guards
+ * Session checks for route handlers, returning JSON errors instead of redirects
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerSession, Session } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { isAdmin, isSeller } from './auth';
+import dbConnect from './mongodb';
+import { isEmailVerified } from './emailVerification';
+
+/**
+ * Guard result: either the authenticated session or a ready-made error response
+ */
+export type GuardResult =
+  | { session: Session; error?: undefined }
+  | { session?: undefined; error: NextResponse };
+
+/**
+ * Require a logged-in user
+ * @param message - Error message returned when there is no session
+ * @returns Promise with the session, or a 401 response
+ */
+export async function requireApiAuth(message: string = 'Unauthorized'): Promise<GuardResult> {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return { error: NextResponse.json({ error: message }, { status: 401 }) };
+  }
+
+  return { session };
+}
+
+/**
+ * Require a logged-in user whose email address is verified, as needed to buy
+ * Opens the database connection for the check
+ * @param message - Error message returned when there is no session
+ * @returns Promise with the session, or a 401/403 response
+ */
+export async function requireApiVerifiedUser(message: string = 'Unauthorized'): Promise<GuardResult> {
+  const result = await requireApiAuth(message);
+
+  if (result.error) {
+    return result;
+  }
+
+  await dbConnect();
+
+  if (!(await isEmailVerified(result.session.user.id))) {
+    return {
+      error: NextResponse.json(
+        { error: 'Please verify your email address before making a purchase' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Require a logged-in admin
+ * @returns Promise with the session, or a 401/403 response
+ */
+export async function requireApiAdmin(): Promise<GuardResult> {
+  const result = await requireApiAuth('Unauthorized. Please login.');
+
+  if (result.error) {
+    return result;
+  }
+
+  if (!isAdmin(result.session.user.role)) {
+    return {
+      error: NextResponse.json(
+        { error: 'Unauthorized. Admin access required.' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Require a logged-in admin or seller, the roles allowed to upload papers
+ * @returns Promise with the session, or a 401/403 response
+ */
+export async function requireApiUploader(): Promise<GuardResult> {
+  const result = await requireApiAuth('Unauthorized. Please login.');
+
+  if (result.error) {
+    return result;
+  }
+
+  if (!isAdmin(result.session.user.role) && !isSeller(result.session.user.role)) {
+    return {
+      error: NextResponse.json(
+        { error: 'Unauthorized. Seller access required.' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return result;
+}
@@ -0,0 +1,35 @@
+/**
+ * Audit Trail Utilities
+ * Records security-relevant events (rejected payments, admin actions) to AuditLog
+ */
+
+import AuditLog from '@/models/AuditLog';
+
+/**
+ * Audit entry input
+ */
+export interface AuditEntry {
+  action: string;
+  userId?: string;
+  ip?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Record an audit entry
+ * Failures are logged rather than thrown so auditing never breaks the request
+ * Expects an open database connection
+ * @param entry - Action, actor and details to record
+ */
+export async function recordAudit(entry: AuditEntry): Promise<void> {
+  try {
+    await AuditLog.create({
+      action: entry.action,
+      userId: entry.userId,
+      ip: entry.ip,
+      details: entry.details || {},
+    });
+  } catch (error) {
+    console.error('Error recording audit entry:', entry.action, error);
+  }
+}
@@ -38,3 +38,7 @@ export async function requireAdmin() {
 export function isAdmin(role?: string) {
   return role === 'admin';
 }
+
+export function isSeller(role?: string) {
+  return role === 'seller';
+}
@@ -0,0 +1,132 @@
+/**
+ * Auth Token Utilities
+ * Single-use tokens sent by email, and short codes sent by SMS, to prove
+ * control of an account. Only a hash is stored, so a database leak does not
+ * expose usable links or codes
+ */
+
+import crypto from 'crypto';
+import AuthToken, { AuthTokenPurpose } from '@/models/AuthToken';
+
+/**
+ * Hash a token for storage and lookup
+ * @param token - Token as sent to the user
+ * @returns Hex encoded SHA-256 digest
+ */
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issue a token, replacing any earlier unused token for the same purpose
+ * Expects an open database connection
+ * @param userId - Account the token acts on
+ * @param purpose - What the token may be used for
+ * @param ttlSeconds - Token lifetime in seconds
+ * @returns Promise with the token to put in the emailed link
+ */
+export async function issueAuthToken(
+  userId: string,
+  purpose: AuthTokenPurpose,
+  ttlSeconds: number
+): Promise<string> {
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  await AuthToken.deleteMany({ userId, purpose });
+  await AuthToken.create({
+    userId,
+    purpose,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ttlSeconds * 1000),
+  });
+
+  return token;
+}
+
+/**
+ * Use up a token
+ * Expects an open database connection
+ * @param token - Token from the emailed link
+ * @param purpose - What the token is being used for
+ * @returns Promise with the account ID, or null if the token is unknown, used or expired
+ */
+export async function consumeAuthToken(
+  token: string,
+  purpose: AuthTokenPurpose
+): Promise<string | null> {
+  const entry = await AuthToken.findOneAndDelete({
+    tokenHash: hashToken(token),
+    purpose,
+    expiresAt: { $gt: new Date() },
+  });
+
+  return entry ? entry.userId.toString() : null;
+}
+
+/**
+ * Issue a six-digit code, replacing any earlier unused code for the same purpose
+ * The hash is bound to the account so equal codes for different users never clash
+ * Expects an open database connection
+ * @param userId - Account the code acts on
+ * @param purpose - What the code may be used for
+ * @param ttlSeconds - Code lifetime in seconds
+ * @returns Promise with the code to send
+ */
+export async function issueAuthCode(
+  userId: string,
+  purpose: AuthTokenPurpose,
+  ttlSeconds: number
+): Promise<string> {
+  const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+
+  await AuthToken.deleteMany({ userId, purpose });
+  await AuthToken.create({
+    userId,
+    purpose,
+    tokenHash: hashToken(`${userId}:${code}`),
+    expiresAt: new Date(Date.now() + ttlSeconds * 1000),
+  });
+
+  return code;
+}
+
+/**
+ * Use up a code, counting wrong guesses so a code cannot be brute-forced
+ * Expects an open database connection
+ * @param userId - Account the code was sent for
+ * @param code - Code entered by the user
+ * @param purpose - What the code is being used for
+ * @param maxAttempts - Wrong guesses allowed before the code is dropped
+ * @returns Promise with whether the code was valid
+ */
+export async function consumeAuthCode(
+  userId: string,
+  code: string,
+  purpose: AuthTokenPurpose,
+  maxAttempts: number
+): Promise<boolean> {
+  const now = new Date();
+
+  const entry = await AuthToken.findOneAndDelete({
+    userId,
+    purpose,
+    tokenHash: hashToken(`${userId}:${code.trim()}`),
+    expiresAt: { $gt: now },
+  });
+
+  if (entry) {
+    return true;
+  }
+
+  const pending = await AuthToken.findOneAndUpdate(
+    { userId, purpose, expiresAt: { $gt: now } },
+    { $inc: { attempts: 1 } },
+    { new: true }
+  );
+
+  if (pending && pending.attempts >= maxAttempts) {
+    await AuthToken.deleteOne({ _id: pending._id });
+  }
+
+  return false;
+}
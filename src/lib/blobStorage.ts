@@ -1,16 +1,24 @@
 /**
  * File Storage Wrapper
  * Supports Vercel Blob Storage in production and local file storage in development
+ *
+ * Paper and solution PDFs are stored privately and can only be read back
+ * through readPaperPDF (served by the signed download route).
+ * Answer images stay public so they can be rendered inline.
  */
 
-import { put, del, list } from '@vercel/blob';
+import { put, del, list, get } from '@vercel/blob';
 import { sanitizeFilename } from './fileValidation';
 import fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
 import path from 'path';
 
 // Check if we should use local storage (development without Vercel Blob)
 const USE_LOCAL_STORAGE = !process.env.BLOB_READ_WRITE_TOKEN || process.env.USE_LOCAL_STORAGE === 'true';
 const LOCAL_UPLOAD_DIR = path.join(process.cwd(), 'public', 'uploads');
+// Private local storage, outside of the statically served public folder
+const LOCAL_PRIVATE_DIR = path.join(process.cwd(), 'storage', 'uploads');
 
 /**
  * Upload result interface
@@ -21,15 +29,90 @@ export interface UploadResult {
   filename: string;
 }
 
+/**
+ * Stored file stream interface
+ */
+export interface StoredFile {
+  stream: ReadableStream<Uint8Array>;
+  size?: number;
+  contentType: string;
+}
+
 /**
  * Ensure local upload directory exists
  */
-async function ensureLocalDir(folder: string): Promise<string> {
-  const dir = path.join(LOCAL_UPLOAD_DIR, folder);
+async function ensureLocalDir(folder: string, baseDir: string = LOCAL_UPLOAD_DIR): Promise<string> {
+  const dir = path.join(baseDir, folder);
   await fs.mkdir(dir, { recursive: true });
   return dir;
 }
 
+/**
+ * Check if a stored file URL is a private local storage key (e.g. 'papers/file.pdf')
+ * @param fileUrl - Stored file URL
+ * @returns boolean indicating if the URL points into private local storage
+ */
+function isPrivateLocalKey(fileUrl: string): boolean {
+  return !fileUrl.startsWith('/') && !/^https?:\/\//.test(fileUrl);
+}
+
+/**
+ * Resolve a local file URL to an absolute path, refusing paths outside the storage directory
+ * @param fileUrl - Private storage key or legacy '/uploads/...' URL
+ * @returns Absolute file path
+ */
+function resolveLocalPath(fileUrl: string): string {
+  const baseDir = isPrivateLocalKey(fileUrl) ? LOCAL_PRIVATE_DIR : path.join(process.cwd(), 'public');
+  const filepath = path.resolve(baseDir, fileUrl.replace(/^\/+/, ''));
+
+  if (!filepath.startsWith(baseDir + path.sep)) {
+    throw new Error('Invalid file path');
+  }
+
+  return filepath;
+}
+
+/**
+ * Get the folder a seller's uploads of one kind are stored under
+ * @param folder - Base folder ('papers' or 'solutions')
+ * @param sellerId - Uploading seller's user ID
+ * @returns Folder path scoped to the seller
+ */
+export function getSellerFolder(folder: string, sellerId: string): string {
+  return `${folder}/sellers/${sellerId}`;
+}
+
+/**
+ * Check if a stored file URL is one of a seller's own paper or solution uploads
+ * @param fileUrl - Private storage key or Vercel Blob URL submitted with a paper
+ * @param sellerId - Seller submitting the paper
+ * @returns boolean indicating if the file sits under the seller's own folders
+ */
+export function isSellerUpload(fileUrl: string, sellerId: string): boolean {
+  let key = fileUrl;
+
+  if (!isPrivateLocalKey(fileUrl)) {
+    try {
+      const url = new URL(fileUrl);
+
+      if (url.protocol !== 'https:' || !url.hostname.endsWith('.blob.vercel-storage.com')) {
+        return false;
+      }
+
+      key = url.pathname.replace(/^\/+/, '');
+    } catch {
+      return false;
+    }
+  }
+
+  // Refuse anything that could step out of the folder once resolved or decoded
+  if (key.split('/').some((segment) => !segment || segment === '.' || segment === '..' || /[%\\]/.test(segment))) {
+    return false;
+  }
+
+  return ['papers', 'solutions'].some((folder) => key.startsWith(`${getSellerFolder(folder, sellerId)}/`));
+}
+
 /**
  * Upload a PDF file to storage (Vercel Blob or local)
  * @param file - File buffer to upload
@@ -48,12 +131,12 @@ export async function uploadPaperPDF(
   if (USE_LOCAL_STORAGE) {
     // Local file storage for development
     try {
-      const dir = await ensureLocalDir(folder);
+      const dir = await ensureLocalDir(folder, LOCAL_PRIVATE_DIR);
       const filepath = path.join(dir, sanitized);
       await fs.writeFile(filepath, file);
 
-      // Return URL that can be served from public folder
-      const url = `/uploads/${folder}/${sanitized}`;
+      // Return a storage key; the file is not publicly served
+      const url = `${folder}/${sanitized}`;
 
       console.log(`[Local Storage] File saved: ${filepath}`);
 
@@ -73,7 +156,7 @@ export async function uploadPaperPDF(
     const filepath = folder ? `${folder}/${sanitized}` : sanitized;
 
     const blob = await put(filepath, file, {
-      access: 'public',
+      access: 'private',
       contentType: 'application/pdf',
       addRandomSuffix: false,
     });
@@ -93,13 +176,28 @@ export async function uploadPaperPDF(
  * Upload a solution PDF file
  * @param file - File buffer to upload
  * @param originalFilename - Original filename
+ * @param folder - Optional folder path (defaults to 'solutions')
  * @returns Promise with upload result
  */
 export async function uploadSolutionPDF(
   file: Buffer,
-  originalFilename: string
+  originalFilename: string,
+  folder: string = 'solutions'
+): Promise<UploadResult> {
+  return uploadPaperPDF(file, originalFilename, folder);
+}
+
+/**
+ * Upload a generated invoice PDF
+ * @param file - PDF buffer to upload
+ * @param filename - Invoice filename
+ * @returns Promise with upload result
+ */
+export async function uploadInvoicePDF(
+  file: Buffer,
+  filename: string
 ): Promise<UploadResult> {
-  return uploadPaperPDF(file, originalFilename, 'solutions');
+  return uploadPaperPDF(file, filename, 'invoices');
 }
 
 /**
@@ -160,16 +258,58 @@ export async function uploadAnswerImage(
   }
 }
 
+/**
+ * Open a stored paper, solution or invoice PDF for streaming
+ * @param fileUrl - Stored file URL (private storage key, legacy local URL or Vercel Blob URL)
+ * @returns Promise with the file stream and metadata, or null if the file does not exist
+ */
+export async function readPaperPDF(fileUrl: string): Promise<StoredFile | null> {
+  if (isPrivateLocalKey(fileUrl) || isLocalUrl(fileUrl)) {
+    try {
+      const filepath = resolveLocalPath(fileUrl);
+      const stats = await fs.stat(filepath);
+
+      return {
+        stream: Readable.toWeb(createReadStream(filepath)) as ReadableStream<Uint8Array>,
+        size: stats.size,
+        contentType: 'application/pdf',
+      };
+    } catch (error) {
+      console.error('Error reading local file:', error);
+      return null;
+    }
+  }
+
+  try {
+    // Files uploaded before private storage was introduced are still public blobs
+    const access = fileUrl.includes('public.blob.vercel-storage.com') ? 'public' : 'private';
+    const result = await get(fileUrl, { access });
+
+    if (!result || !result.stream) {
+      return null;
+    }
+
+    return {
+      stream: result.stream,
+      size: result.blob.size,
+      contentType: result.blob.contentType || 'application/pdf',
+    };
+  } catch (error) {
+    console.error('Error reading from Vercel Blob:', error);
+    throw new Error('Failed to read file from storage');
+  }
+}
+
 /**
  * Delete a file from storage
  * @param fileUrl - URL of the file to delete
  * @returns Promise<void>
  */
 export async function deletePaperPDF(fileUrl: string): Promise<void> {
-  if (USE_LOCAL_STORAGE || fileUrl.startsWith('/uploads/')) {
+  if (USE_LOCAL_STORAGE || isLocalUrl(fileUrl) || isPrivateLocalKey(fileUrl)) {
     // Local file deletion
     try {
-      const filepath = path.join(process.cwd(), 'public', fileUrl);
+      const filepath = resolveLocalPath(fileUrl);
       await fs.unlink(filepath);
       console.log(`[Local Storage] File deleted: ${filepath}`);
     } catch (error) {
@@ -196,9 +336,9 @@ export async function deletePaperPDF(fileUrl: string): Promise<void> {
 export async function listFiles(prefix: string, limit: number = 100): Promise<string[]> {
   if (USE_LOCAL_STORAGE) {
     try {
-      const dir = path.join(LOCAL_UPLOAD_DIR, prefix);
+      const dir = path.join(LOCAL_PRIVATE_DIR, prefix);
       const files = await fs.readdir(dir);
-      return files.slice(0, limit).map((file) => `/uploads/${prefix}${file}`);
+      return files.slice(0, limit).map((file) => `${prefix}${file}`);
     } catch (error) {
       // Directory might not exist
       return [];
@@ -283,7 +423,7 @@ export function extractFilenameFromUrl(url: string): string | null {
  */
 export function getStorageInfo(): { mode: 'local' | 'vercel-blob'; directory?: string } {
   if (USE_LOCAL_STORAGE) {
-    return { mode: 'local', directory: LOCAL_UPLOAD_DIR };
+    return { mode: 'local', directory: LOCAL_PRIVATE_DIR };
   }
   return { mode: 'vercel-blob' };
 }
@@ -0,0 +1,120 @@
+/**
+ * Bundle Utilities
+ * Field whitelisting, paper validation and catalog listings for bundles
+ */
+
+import mongoose from 'mongoose';
+import type { IBundle } from '@/models/Bundle';
+import Paper, { IPaper } from '@/models/Paper';
+import { getBundlePrice, getTierPrice } from './pricing';
+
+/**
+ * Fields an admin may set through the bundles API
+ * Server-managed fields (createdBy, timestamps) are excluded
+ */
+export const EDITABLE_BUNDLE_FIELDS = [
+  'title',
+  'description',
+  'category',
+  'papers',
+  'tier',
+  'price',
+  'discount',
+  'thumbnailUrl',
+  'tags',
+  'isActive',
+] as const;
+
+export type EditableBundleField = (typeof EDITABLE_BUNDLE_FIELDS)[number];
+
+/**
+ * Paper fields included in bundle listings
+ */
+export const BUNDLE_PAPER_FIELDS =
+  'title subject examName year price paperType questionsOnlyPrice withSolutionsPrice hasSolutions';
+
+/**
+ * Pick only whitelisted bundle fields from a request body
+ * @param body - Parsed JSON request body
+ * @returns Object containing only editable fields that were present in the body
+ */
+export function pickBundleFields(body: unknown): Partial<Pick<IBundle, EditableBundleField>> {
+  const fields: Record<string, unknown> = {};
+
+  if (!body || typeof body !== 'object') {
+    return fields;
+  }
+
+  for (const field of EDITABLE_BUNDLE_FIELDS) {
+    if (field in body) {
+      fields[field] = (body as Record<string, unknown>)[field];
+    }
+  }
+
+  // Values are validated by the Bundle schema on save
+  return fields as Partial<Pick<IBundle, EditableBundleField>>;
+}
+
+/**
+ * Check that every paper ID in a bundle refers to an existing paper
+ * @param paperIds - Paper IDs from the request body
+ * @returns Error message, or null if the papers are valid
+ */
+export async function validateBundlePapers(paperIds: unknown): Promise<string | null> {
+  if (!Array.isArray(paperIds) || paperIds.length < 2) {
+    return 'A bundle must contain at least 2 papers';
+  }
+
+  if (!paperIds.every((id) => typeof id === 'string' && mongoose.Types.ObjectId.isValid(id))) {
+    return 'Invalid paper ID in bundle';
+  }
+
+  if (new Set(paperIds).size !== paperIds.length) {
+    return 'A bundle cannot contain the same paper twice';
+  }
+
+  const found = await Paper.countDocuments({ _id: { $in: paperIds } });
+
+  if (found !== paperIds.length) {
+    return 'Some papers in this bundle do not exist';
+  }
+
+  return null;
+}
+
+/**
+ * Shape a bundle with populated papers for the catalog
+ * @param bundle - Lean bundle document with papers populated
+ * @returns Bundle with its final price and the combined price of its papers
+ */
+export function toBundleListing(bundle: Omit<IBundle, 'papers'> & { papers: (IPaper | null)[] }) {
+  const papers = bundle.papers.filter((paper): paper is IPaper => !!paper);
+
+  // What the papers would cost bought one by one at the bundle's tier
+  const papersValue = papers.reduce(
+    (sum, paper) => sum + (getTierPrice(paper, bundle.tier) ?? getTierPrice(paper, 'questions-only') ?? 0),
+    0
+  );
+
+  return {
+    _id: bundle._id,
+    title: bundle.title,
+    description: bundle.description,
+    category: bundle.category,
+    tier: bundle.tier,
+    thumbnailUrl: bundle.thumbnailUrl,
+    tags: bundle.tags,
+    isActive: bundle.isActive,
+    price: bundle.price,
+    discount: bundle.discount,
+    finalPrice: getBundlePrice(bundle),
+    papersValue,
+    papers: papers.map((paper) => ({
+      _id: paper._id,
+      title: paper.title,
+      subject: paper.subject,
+      examName: paper.examName,
+      year: paper.year,
+    })),
+  };
+}
@@ -0,0 +1,319 @@
+/**
+ * Coupon Utilities
+ * Validates discount codes against a purchase and reserves a use of the coupon
+ * when the order is created, returning it if the order expires or fails
+ */
+
+import mongoose from 'mongoose';
+import Coupon, { ICoupon } from '@/models/Coupon';
+import Transaction, { ITransaction } from '@/models/Transaction';
+import { BASE_CURRENCY } from './currency';
+
+/**
+ * Fields an admin may set through the coupons API
+ * Server-managed fields (usedCount, createdBy, timestamps) are excluded
+ */
+export const EDITABLE_COUPON_FIELDS = [
+  'code',
+  'description',
+  'discountType',
+  'value',
+  'maxDiscount',
+  'scope',
+  'papers',
+  'categories',
+  'bundles',
+  'usageLimit',
+  'perUserLimit',
+  'validFrom',
+  'validUntil',
+  'isActive',
+] as const;
+
+export type EditableCouponField = (typeof EDITABLE_COUPON_FIELDS)[number];
+
+/**
+ * What a coupon is being applied to
+ */
+export interface CouponTarget {
+  paperId?: mongoose.Types.ObjectId | string;
+  bundleId?: mongoose.Types.ObjectId | string;
+  category: string;
+  amount: number; // Price before discount, in major currency units
+  currency?: string; // Defaults to INR
+}
+
+/**
+ * Result of applying a coupon to a purchase
+ */
+export type CouponQuote =
+  | { coupon: ICoupon; discount: number; amount: number; error?: undefined }
+  | { error: string; status: number };
+
+/**
+ * Normalize a user-entered coupon code
+ * @param code - Code as typed by the user
+ * @returns Trimmed, upper-cased code
+ */
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Pick only whitelisted coupon fields from a request body
+ * @param body - Parsed JSON request body
+ * @returns Object containing only editable fields that were present in the body
+ */
+export function pickCouponFields(body: unknown): Partial<Pick<ICoupon, EditableCouponField>> {
+  const fields: Record<string, unknown> = {};
+
+  if (!body || typeof body !== 'object') {
+    return fields;
+  }
+
+  for (const field of EDITABLE_COUPON_FIELDS) {
+    if (field in body) {
+      fields[field] = (body as Record<string, unknown>)[field];
+    }
+  }
+
+  // Values are validated by the Coupon schema on save
+  return fields as Partial<Pick<ICoupon, EditableCouponField>>;
+}
+
+/**
+ * Check if a coupon's scope covers a purchase
+ * @param coupon - Coupon document
+ * @param target - Paper or bundle being bought
+ * @returns boolean indicating if the coupon applies
+ */
+export function couponCoversTarget(coupon: ICoupon, target: CouponTarget): boolean {
+  switch (coupon.scope) {
+    case 'paper':
+      return !!target.paperId && coupon.papers.some((id) => id.equals(target.paperId!));
+    case 'bundle':
+      return !!target.bundleId && coupon.bundles.some((id) => id.equals(target.bundleId!));
+    case 'category':
+      return coupon.categories.includes(target.category as ICoupon['categories'][number]);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Calculate the discount a coupon gives on an amount
+ * @param coupon - Coupon document
+ * @param amount - Price before discount
+ * @returns Discount in major currency units, rounded to paise and never more than the amount
+ */
+export function getCouponDiscount(
+  coupon: Pick<ICoupon, 'discountType' | 'value' | 'maxDiscount'>,
+  amount: number
+): number {
+  let discount = coupon.discountType === 'percentage' ? (amount * coupon.value) / 100 : coupon.value;
+
+  if (coupon.discountType === 'percentage' && coupon.maxDiscount !== undefined && coupon.maxDiscount !== null) {
+    discount = Math.min(discount, coupon.maxDiscount);
+  }
+
+  return Math.round(Math.min(discount, amount) * 100) / 100;
+}
+
+/**
+ * Validate a coupon code for a user's purchase and work out the discounted price
+ * Expects an open database connection
+ * @param code - Coupon code
+ * @param userId - Buyer's user ID
+ * @param target - Paper or bundle being bought
+ * @returns Promise with the coupon, discount and amount to charge, or an error and HTTP status
+ */
+export async function applyCoupon(
+  code: string,
+  userId: string,
+  target: CouponTarget
+): Promise<CouponQuote> {
+  const coupon = await Coupon.findOne({ code: normalizeCouponCode(code) });
+
+  if (!coupon || !coupon.isActive) {
+    return { error: 'Invalid coupon code', status: 404 };
+  }
+
+  const now = new Date();
+
+  if (coupon.validFrom > now) {
+    return { error: 'This coupon is not active yet', status: 400 };
+  }
+
+  if (coupon.validUntil && coupon.validUntil <= now) {
+    return { error: 'This coupon has expired', status: 400 };
+  }
+
+  // Only a missing limit means unlimited, matching the check in reserveCouponUse
+  if (coupon.usageLimit !== undefined && coupon.usageLimit !== null && coupon.usedCount >= coupon.usageLimit) {
+    return { error: 'This coupon has reached its usage limit', status: 400 };
+  }
+
+  if (!couponCoversTarget(coupon, target)) {
+    return { error: 'This coupon does not apply to this item', status: 400 };
+  }
+
+  // Flat amounts and caps are in INR, so only uncapped percentages carry over to other currencies
+  const isForeignCurrency = !!target.currency && target.currency !== BASE_CURRENCY;
+  const hasCap = coupon.maxDiscount !== undefined && coupon.maxDiscount !== null;
+
+  if (isForeignCurrency && (coupon.discountType === 'flat' || hasCap)) {
+    return { error: 'This coupon can only be used on purchases in INR', status: 400 };
+  }
+
+  // Unpaid orders count too, or several could be opened at once and all be paid
+  const userRedemptions = await Transaction.countDocuments({
+    userId,
+    'coupon.couponId': coupon._id,
+    status: { $in: ['pending', 'completed'] },
+  });
+
+  if (userRedemptions >= coupon.perUserLimit) {
+    return { error: 'You have already used this coupon', status: 400 };
+  }
+
+  const discount = getCouponDiscount(coupon, target.amount);
+
+  return {
+    coupon,
+    discount,
+    amount: Math.round((target.amount - discount) * 100) / 100,
+  };
+}
+
+/**
+ * Build the coupon fields stored on a Transaction
+ * @param quote - Successful coupon quote
+ * @param originalAmount - Price before discount
+ * @returns Fields to spread into Transaction.create
+ */
+export function getCouponTransactionFields(
+  quote: Extract<CouponQuote, { coupon: ICoupon }>,
+  originalAmount: number
+) {
+  return {
+    amount: quote.amount,
+    originalAmount,
+    coupon: {
+      couponId: quote.coupon._id,
+      code: quote.coupon.code,
+      discount: quote.discount,
+    },
+  };
+}
+
+/**
+ * Reserve one use of a coupon for a user's order being created
+ * The checks and the increments are one update, so concurrent checkouts cannot
+ * slip under the usage limit or the buyer's per-user limit
+ * Expects an open database connection
+ * @param couponId - Coupon to reserve a use of
+ * @param userId - Buyer's user ID
+ * @returns Promise with an error and HTTP status if no use was left to reserve
+ */
+export async function reserveCouponUse(
+  couponId: mongoose.Types.ObjectId | string,
+  userId: mongoose.Types.ObjectId | string
+): Promise<{ error: string; status: number } | undefined> {
+  const userUses = `userUses.${userId.toString()}`;
+
+  const reserved = await Coupon.findOneAndUpdate(
+    {
+      _id: couponId,
+      $and: [
+        { $or: [{ usageLimit: null }, { $expr: { $lt: ['$usedCount', '$usageLimit'] } }] },
+        { $expr: { $lt: [{ $ifNull: [`$${userUses}`, 0] }, '$perUserLimit'] } },
+      ],
+    },
+    { $inc: { usedCount: 1, [userUses]: 1 } }
+  );
+
+  if (reserved) return undefined;
+
+  const coupon = await Coupon.findById(couponId).select('+userUses');
+
+  if (!coupon) {
+    return { error: 'Invalid coupon code', status: 404 };
+  }
+
+  const hasUsageLimit = coupon.usageLimit !== undefined && coupon.usageLimit !== null;
+
+  if (hasUsageLimit && coupon.usedCount >= coupon.usageLimit!) {
+    return { error: 'This coupon has reached its usage limit', status: 400 };
+  }
+
+  if ((coupon.userUses?.get(userId.toString()) ?? 0) >= coupon.perUserLimit) {
+    return { error: 'You have already used this coupon', status: 400 };
+  }
+
+  // Neither limit was reached when read back, so a concurrent checkout must have taken the last use
+  return { error: 'This coupon could not be reserved. Please try again.', status: 409 };
+}
+
+/**
+ * Give back a coupon use reserved for a user
+ * Expects an open database connection
+ * @param couponId - Coupon the use was reserved on
+ * @param userId - User the use was reserved for
+ */
+export async function releaseCouponUse(
+  couponId: mongoose.Types.ObjectId | string,
+  userId: mongoose.Types.ObjectId | string
+): Promise<void> {
+  const userUses = `userUses.${userId.toString()}`;
+
+  // Uses reserved before per-user counts were kept only have the total to return
+  await Coupon.updateOne({ _id: couponId, usedCount: { $gt: 0 } }, { $inc: { usedCount: -1 } });
+  await Coupon.updateOne({ _id: couponId, [userUses]: { $gt: 0 } }, { $inc: { [userUses]: -1 } });
+}
+
+/**
+ * Give back the coupon use reserved by an order that expired or failed
+ * Flagging the transaction first makes this safe to call more than once, and
+ * a transaction completed in the meantime keeps its use
+ * Expects an open database connection
+ * @param transactionId - Expired or failed transaction
+ */
+export async function releaseCouponReservation(transactionId: mongoose.Types.ObjectId | string): Promise<void> {
+  const released = await Transaction.findOneAndUpdate(
+    {
+      _id: transactionId,
+      'coupon.couponId': { $exists: true },
+      status: { $in: ['pending', 'failed'] },
+      couponReleased: { $ne: true },
+    },
+    { $set: { couponReleased: true } }
+  );
+
+  if (released?.coupon) {
+    await releaseCouponUse(released.coupon.couponId, released.userId);
+  }
+}
+
+/**
+ * Count coupon uses again for transactions paid after their reservation was released
+ * The payment has been taken, so the use counts even if the limit has since been reached
+ * Expects an open database connection
+ * @param transactions - Newly completed transactions
+ */
+export async function recordCouponRedemptions(transactions: ITransaction[]): Promise<void> {
+  for (const transaction of transactions) {
+    if (!transaction.coupon?.couponId || !transaction.couponReleased) continue;
+
+    const reclaimed = await Transaction.findOneAndUpdate(
+      { _id: transaction._id, couponReleased: true },
+      { $unset: { couponReleased: 1 } }
+    );
+
+    if (reclaimed) {
+      await Coupon.updateOne(
+        { _id: transaction.coupon.couponId },
+        { $inc: { usedCount: 1, [`userUses.${transaction.userId.toString()}`]: 1 } }
+      );
+    }
+  }
+}
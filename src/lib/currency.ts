@@ -0,0 +1,78 @@
+/**
+ * Currency Utilities
+ * Supported checkout currencies and conversion to gateway minor units
+ */
+
+/**
+ * Currencies papers can be priced and paid in
+ */
+export const SUPPORTED_CURRENCIES = ['INR', 'USD', 'AED', 'GBP'] as const;
+
+export type Currency = (typeof SUPPORTED_CURRENCIES)[number];
+
+/**
+ * Currencies a paper can carry a price override in; INR prices are the paper's own fields
+ */
+export type OverrideCurrency = Exclude<Currency, 'INR'>;
+
+export const OVERRIDE_CURRENCIES: OverrideCurrency[] = ['USD', 'AED', 'GBP'];
+
+export const BASE_CURRENCY: Currency = 'INR';
+
+// Digits after the decimal point (ISO 4217 exponent)
+const MINOR_UNIT_DIGITS: Record<Currency, number> = {
+  INR: 2,
+  USD: 2,
+  AED: 2,
+  GBP: 2,
+};
+
+const CURRENCY_SYMBOLS: Record<Currency, string> = {
+  INR: '₹',
+  USD: '$',
+  AED: 'AED ',
+  GBP: '£',
+};
+
+/**
+ * Check if a value is a supported currency code
+ * @param value - Value to check
+ * @returns boolean indicating if value is a Currency
+ */
+export function isCurrency(value: unknown): value is Currency {
+  return typeof value === 'string' && SUPPORTED_CURRENCIES.includes(value as Currency);
+}
+
+/**
+ * Convert an amount to the minor units payment gateways expect (paise, cents, fils, pence)
+ * @param amount - Amount in major units
+ * @param currency - Currency code
+ * @returns Integer amount in minor units
+ */
+export function toMinorUnits(amount: number, currency: string): number {
+  const digits = MINOR_UNIT_DIGITS[currency as Currency] ?? 2;
+
+  return Math.round(amount * 10 ** digits);
+}
+
+/**
+ * Convert a gateway amount in minor units back to major units
+ * @param amount - Integer amount in minor units
+ * @param currency - Currency code
+ * @returns Amount in major units
+ */
+export function fromMinorUnits(amount: number, currency: string): number {
+  const digits = MINOR_UNIT_DIGITS[currency as Currency] ?? 2;
+
+  return amount / 10 ** digits;
+}
+
+/**
+ * Format an amount for display
+ * @param amount - Amount in major units
+ * @param currency - Currency code
+ * @returns Amount prefixed with the currency symbol, e.g. '₹499' or '$5.99'
+ */
+export function formatPrice(amount: number, currency: string = BASE_CURRENCY): string {
+  return `${CURRENCY_SYMBOLS[currency as Currency] ?? `${currency} `}${amount}`;
+}
@@ -0,0 +1,112 @@
+/**
+ * Download Token Utilities
+ * Issues and verifies HMAC-signed, short-lived tokens for paper downloads
+ */
+
+import crypto from 'crypto';
+
+// Token lifetime in seconds (default: 5 minutes)
+export const DOWNLOAD_TOKEN_TTL = parseInt(process.env.DOWNLOAD_TOKEN_TTL || '300');
+
+/**
+ * Which stored file a token unlocks
+ */
+export type DownloadFileType = 'paper' | 'solution';
+
+/**
+ * Claims carried by a download token
+ */
+export interface DownloadTokenPayload {
+  userId: string;
+  paperId: string;
+  transactionId?: string; // Set for purchases
+  subscriptionId?: string; // Set for downloads unlocked by a category subscription
+  file: DownloadFileType;
+  exp: number; // Expiry as unix timestamp (seconds)
+}
+
+/**
+ * Get the signing secret for download tokens
+ * Falls back to NEXTAUTH_SECRET so a separate secret is optional
+ */
+function getSecret(): string {
+  const secret = process.env.DOWNLOAD_TOKEN_SECRET || process.env.NEXTAUTH_SECRET;
+
+  if (!secret) {
+    throw new Error('Please define DOWNLOAD_TOKEN_SECRET or NEXTAUTH_SECRET');
+  }
+
+  return secret;
+}
+
+/**
+ * Sign an encoded payload
+ * @param encodedPayload - base64url encoded payload
+ * @returns base64url encoded HMAC-SHA256 signature
+ */
+function sign(encodedPayload: string): string {
+  return crypto.createHmac('sha256', getSecret()).update(encodedPayload).digest('base64url');
+}
+
+/**
+ * Create a signed download token
+ * @param claims - User, paper, transaction or subscription, and file the token is bound to
+ * @param ttl - Token lifetime in seconds
+ * @returns Token string in the form `<payload>.<signature>`
+ */
+export function createDownloadToken(
+  claims: Omit<DownloadTokenPayload, 'exp'>,
+  ttl: number = DOWNLOAD_TOKEN_TTL
+): string {
+  const payload: DownloadTokenPayload = {
+    ...claims,
+    exp: Math.floor(Date.now() / 1000) + ttl,
+  };
+
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+  return `${encodedPayload}.${sign(encodedPayload)}`;
+}
+
+/**
+ * Verify a download token's signature and expiry
+ * @param token - Token string from the download link
+ * @returns Decoded payload, or null if the token is malformed, tampered with or expired
+ */
+export function verifyDownloadToken(token: string): DownloadTokenPayload | null {
+  const [encodedPayload, signature] = token.split('.');
+
+  if (!encodedPayload || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(encodedPayload));
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(
+      Buffer.from(encodedPayload, 'base64url').toString('utf8')
+    ) as DownloadTokenPayload;
+
+    if (!payload.exp || payload.exp < Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the download route URL for a token
+ * @param token - Signed download token
+ * @returns Relative URL of the streaming download route
+ */
+export function getDownloadUrl(token: string): string {
+  return `/api/download?token=${encodeURIComponent(token)}`;
+}
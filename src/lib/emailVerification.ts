@@ -0,0 +1,100 @@
+/**
+ * Email Verification
+ * New accounts must open an emailed link before they can sign in or buy
+ */
+
+import User from '@/models/User';
+import { consumeAuthToken, issueAuthToken } from './authTokens';
+import { sendMail } from './mailer';
+
+// Verification link lifetime in hours (default: 24)
+export const EMAIL_VERIFICATION_TTL_HOURS = parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '24');
+
+/**
+ * Email verification result
+ */
+export type VerifyEmailResult =
+  | { email: string; error?: undefined }
+  | { error: string; status: number };
+
+/**
+ * Email a new verification link, invalidating any earlier one
+ * Expects an open database connection
+ * @param user - Account to verify
+ * @param appUrl - Site URL the link points at
+ */
+export async function sendVerificationEmail(
+  user: { _id: { toString(): string }; name: string; email: string },
+  appUrl: string
+): Promise<void> {
+  const token = await issueAuthToken(
+    user._id.toString(),
+    'verify-email',
+    EMAIL_VERIFICATION_TTL_HOURS * 60 * 60
+  );
+  const link = `${appUrl}/auth/verify-email?token=${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your Star Paper email address',
+    text:
+      `Hi ${user.name},\n\n` +
+      `Please confirm your email address by opening the link below:\n\n${link}\n\n` +
+      `The link expires in ${EMAIL_VERIFICATION_TTL_HOURS} hours. ` +
+      'If you did not create a Star Paper account, you can ignore this email.',
+  });
+}
+
+/**
+ * Tell the owner of an address that someone tried to register it again
+ * Sent instead of an error so registration does not reveal which addresses have accounts
+ * @param user - Existing account
+ * @param appUrl - Site URL the links point at
+ */
+export async function sendAccountExistsEmail(
+  user: { name: string; email: string },
+  appUrl: string
+): Promise<void> {
+  await sendMail({
+    to: user.email,
+    subject: 'You already have a Star Paper account',
+    text:
+      `Hi ${user.name},\n\n` +
+      'Someone tried to create a new Star Paper account with this email address, which already has one. ' +
+      `To sign in, open ${appUrl}/auth/login. If you have forgotten your password, ` +
+      `you can choose a new one at ${appUrl}/auth/forgot-password.\n\n` +
+      'If this was not you, you can ignore this email; your account has not changed.',
+  });
+}
+
+/**
+ * Mark an account verified using the token from its link
+ * Expects an open database connection
+ * @param token - Token from the verification link
+ * @returns Promise with the verified email, or an error and HTTP status
+ */
+export async function verifyEmail(token: string): Promise<VerifyEmailResult> {
+  const userId = await consumeAuthToken(token, 'verify-email');
+
+  if (!userId) {
+    return { error: 'This link is invalid or has expired. Please request a new one.', status: 400 };
+  }
+
+  const user = await User.findByIdAndUpdate(userId, { $set: { emailVerified: true } }, { new: true });
+
+  if (!user) {
+    return { error: 'Account not found', status: 404 };
+  }
+
+  return { email: user.email };
+}
+
+/**
+ * Check whether an account may sign in and buy
+ * Expects an open database connection
+ * @param userId - Account to check
+ * @returns Promise with false only for accounts still awaiting verification
+ */
+export async function isEmailVerified(userId: string): Promise<boolean> {
+  return !(await User.exists({ _id: userId, emailVerified: false }));
+}
@@ -0,0 +1,87 @@
+/**
+ * Google Sign-in Accounts
+ * Maps a Google profile to a Star Paper account, linking by email when the
+ * address already has an account and creating a student account otherwise
+ */
+
+import type { GoogleProfile } from 'next-auth/providers/google';
+import User, { IUser } from '@/models/User';
+import { getReferralCode } from './referrals';
+import { recordAudit } from './audit';
+
+/**
+ * Google account resolution result; errors are codes the login page explains
+ */
+export type GoogleAccountResult =
+  | { user: IUser; error?: undefined }
+  | { error: 'GoogleEmailUnverified' | 'GoogleAccountConflict' };
+
+/**
+ * Find, link or create the account for a Google profile
+ * Only addresses Google has verified are linked, so a Google account cannot
+ * take over an existing account by claiming its email
+ * Expects an open database connection
+ * @param profile - Profile returned by Google
+ * @returns Promise with the account, or an error code
+ */
+export async function resolveGoogleAccount(profile: GoogleProfile): Promise<GoogleAccountResult> {
+  const existing = await User.findOne({ googleId: profile.sub });
+
+  if (existing) {
+    return { user: existing };
+  }
+
+  if (!profile.email_verified) {
+    return { error: 'GoogleEmailUnverified' };
+  }
+
+  const email = profile.email.toLowerCase();
+
+  // An unverified account may have been registered by someone else ahead of
+  // the owner, so its password is dropped and its sessions ended on linking
+  let linked = await User.findOneAndUpdate(
+    { email, googleId: { $exists: false }, emailVerified: false },
+    {
+      $set: { googleId: profile.sub, emailVerified: true },
+      $unset: { password: 1 },
+      $inc: { sessionVersion: 1 },
+    },
+    { new: true }
+  );
+  const passwordRemoved = !!linked;
+
+  // Google has confirmed the address, so linking also verifies it
+  linked ??= await User.findOneAndUpdate(
+    { email, googleId: { $exists: false }, emailVerified: { $ne: false } },
+    { $set: { googleId: profile.sub, emailVerified: true } },
+    { new: true }
+  );
+
+  if (linked) {
+    await recordAudit({
+      action: 'user.google-linked',
+      userId: linked._id.toString(),
+      details: { googleId: profile.sub, passwordRemoved },
+    });
+
+    return { user: linked };
+  }
+
+  // The address belongs to an account already linked to another Google account
+  if (await User.exists({ email })) {
+    return { error: 'GoogleAccountConflict' };
+  }
+
+  const user = await User.create({
+    name: (profile.name || email.split('@')[0]).slice(0, 50),
+    email,
+    googleId: profile.sub,
+    emailVerified: true,
+    avatar: profile.picture || '',
+    role: 'student',
+  });
+
+  await getReferralCode(user._id.toString());
+
+  return { user };
+}
@@ -0,0 +1,196 @@
+/**
+ * Invoice PDF Rendering
+ * Lays out a GST tax invoice on a single A4 page.
+ * Invoices are plain text and rules, so the PDF is written directly
+ * with the standard Helvetica fonts instead of pulling in a PDF library.
+ */
+
+import type { IInvoice } from '@/models/Invoice';
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+
+// Helvetica glyph widths (1/1000 em) for the characters amounts are made of
+const CHAR_WIDTHS: Record<string, number> = {
+  ' ': 278, '.': 278, ',': 278, '-': 333, '/': 278, '%': 889, '@': 1015, ':': 278,
+};
+
+type InvoiceData = { invoiceNumber: string } & Pick<
+  IInvoice,
+  | 'issuedAt'
+  | 'seller'
+  | 'buyer'
+  | 'placeOfSupply'
+  | 'lineItems'
+  | 'discount'
+  | 'taxableValue'
+  | 'gstRate'
+  | 'cgst'
+  | 'sgst'
+  | 'igst'
+  | 'total'
+  | 'currency'
+>;
+
+/**
+ * Collects drawing operators for one page
+ */
+function createPage() {
+  const ops: string[] = [];
+
+  // PDF strings only take Latin-1 here; anything else is replaced
+  const escape = (text: string) =>
+    text
+      .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+      .replace(/[\\()]/g, (char) => `\\${char}`);
+
+  const textWidth = (text: string, size: number) =>
+    [...text].reduce((sum, char) => sum + (CHAR_WIDTHS[char] ?? 556), 0) * size / 1000;
+
+  return {
+    text(x: number, y: number, text: string, options: { size?: number; bold?: boolean; align?: 'left' | 'right' } = {}) {
+      const size = options.size ?? 10;
+      const left = options.align === 'right' ? x - textWidth(text, size) : x;
+      ops.push(`BT /${options.bold ? 'F2' : 'F1'} ${size} Tf ${left.toFixed(2)} ${y} Td (${escape(text)}) Tj ET`);
+    },
+    rule(y: number) {
+      ops.push(`0.5 w ${MARGIN} ${y} m ${PAGE_WIDTH - MARGIN} ${y} l S`);
+    },
+    content: () => ops.join('\n'),
+  };
+}
+
+/**
+ * Assemble a single-page PDF document
+ * @param content - Page content stream
+ * @returns PDF file bytes
+ */
+function buildPdf(content: string): Buffer {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      '/Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+/**
+ * Render a tax invoice
+ * @param invoice - Invoice details (number, parties, line items and tax split)
+ * @returns PDF file bytes
+ */
+export function renderInvoicePdf(invoice: InvoiceData): Buffer {
+  const page = createPage();
+  const right = PAGE_WIDTH - MARGIN;
+  const money = (amount: number) => `${invoice.currency} ${amount.toFixed(2)}`;
+  let y = PAGE_HEIGHT - MARGIN - 10;
+
+  page.text(MARGIN, y, 'TAX INVOICE', { size: 18, bold: true });
+  page.text(right, y, `Invoice No: ${invoice.invoiceNumber}`, { bold: true, align: 'right' });
+  y -= 16;
+  page.text(right, y, `Date: ${invoice.issuedAt.toISOString().slice(0, 10)}`, { align: 'right' });
+  y -= 14;
+  page.text(right, y, `Place of supply: ${invoice.placeOfSupply}`, { align: 'right' });
+
+  // Seller
+  y -= 26;
+  page.text(MARGIN, y, invoice.seller.name, { size: 12, bold: true });
+  for (const line of [
+    invoice.seller.address,
+    invoice.seller.gstin && `GSTIN: ${invoice.seller.gstin}`,
+    invoice.seller.stateCode && `State code: ${invoice.seller.stateCode}`,
+  ]) {
+    if (line) {
+      y -= 14;
+      page.text(MARGIN, y, line);
+    }
+  }
+
+  // Buyer
+  y -= 28;
+  page.text(MARGIN, y, 'Bill to', { bold: true });
+  for (const line of [
+    invoice.buyer.name,
+    invoice.buyer.email,
+    invoice.buyer.address,
+    invoice.buyer.gstin && `GSTIN: ${invoice.buyer.gstin}`,
+  ]) {
+    if (line) {
+      y -= 14;
+      page.text(MARGIN, y, line);
+    }
+  }
+
+  // Line items
+  y -= 30;
+  page.rule(y + 14);
+  page.text(MARGIN, y, 'Description', { bold: true });
+  page.text(right - 130, y, 'SAC', { bold: true, align: 'right' });
+  page.text(right, y, 'Amount', { bold: true, align: 'right' });
+  page.rule(y - 6);
+
+  for (const item of invoice.lineItems) {
+    y -= 22;
+    page.text(MARGIN, y, item.description.slice(0, 60));
+    page.text(right - 130, y, item.sac, { align: 'right' });
+    page.text(right, y, money(item.amount), { align: 'right' });
+  }
+
+  // Totals
+  y -= 14;
+  page.rule(y);
+
+  // Zero-rated exports are shown as IGST at 0%
+  const isInterState = invoice.igst > 0 || invoice.gstRate === 0;
+  const totals: Array<[string, number, boolean?]> = [
+    ...(invoice.discount > 0 ? [['Less: discount', -invoice.discount] as [string, number]] : []),
+    ['Taxable value', invoice.taxableValue],
+    ...(isInterState
+      ? [[`IGST @ ${invoice.gstRate}%`, invoice.igst] as [string, number]]
+      : [
+          [`CGST @ ${invoice.gstRate / 2}%`, invoice.cgst] as [string, number],
+          [`SGST @ ${invoice.gstRate / 2}%`, invoice.sgst] as [string, number],
+        ]),
+    ['Total', invoice.total, true],
+  ];
+
+  for (const [label, amount, bold] of totals) {
+    y -= 18;
+    page.text(right - 130, y, label, { bold, align: 'right' });
+    page.text(right, y, money(amount), { bold, align: 'right' });
+  }
+
+  y -= 40;
+  page.text(
+    MARGIN,
+    y,
+    invoice.gstRate === 0
+      ? 'Supply meant for export under LUT without payment of integrated tax.'
+      : 'Prices are inclusive of GST.',
+    { size: 9 }
+  );
+  y -= 12;
+  page.text(MARGIN, y, 'This is a computer generated invoice and does not require a signature.', { size: 9 });
+
+  return buildPdf(page.content());
+}
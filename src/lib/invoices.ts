@@ -0,0 +1,247 @@
+/**
+ * Invoice Utilities
+ * Issues sequentially numbered GST tax invoices for completed transactions
+ */
+
+import Counter from '@/models/Counter';
+import Invoice, { IInvoice, IInvoiceParty } from '@/models/Invoice';
+import Paper from '@/models/Paper';
+import Bundle from '@/models/Bundle';
+import User from '@/models/User';
+import type { ITransaction } from '@/models/Transaction';
+import { uploadInvoicePDF } from './blobStorage';
+import { renderInvoicePdf } from './invoicePdf';
+import { BASE_CURRENCY } from './currency';
+
+// GST rate in percent charged on digital papers (default: 18%)
+export const GST_RATE = parseFloat(process.env.GST_RATE || '18');
+
+// SAC 998431: online text based information such as online books
+export const INVOICE_SAC = process.env.INVOICE_SAC || '998431';
+
+const INVOICE_PREFIX = process.env.INVOICE_PREFIX || 'SP';
+
+// GST place of supply code for buyers outside India
+const EXPORT_PLACE_OF_SUPPLY = '96';
+
+// Seconds after which an unnumbered claim is treated as abandoned by a crashed request
+const CLAIM_TIMEOUT_SECONDS = 60;
+
+/**
+ * Tax split of a GST inclusive amount
+ */
+export interface GstBreakdown {
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Get the seller details printed on invoices
+ * The state code falls back to the first two digits of the GSTIN
+ * @returns Seller party
+ */
+export function getSellerDetails(): IInvoiceParty {
+  const gstin = process.env.SELLER_GSTIN;
+
+  return {
+    name: process.env.SELLER_NAME || 'Star Paper',
+    gstin,
+    address: process.env.SELLER_ADDRESS,
+    stateCode: process.env.SELLER_STATE_CODE || gstin?.slice(0, 2),
+  };
+}
+
+/**
+ * Get the Indian financial year (April to March) a date falls in
+ * @param date - Date to check
+ * @returns Financial year label, e.g. '2025-26'
+ */
+export function getFinancialYear(date: Date): string {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+
+  return `${startYear}-${String(startYear + 1).slice(-2)}`;
+}
+
+/**
+ * Reserve the next invoice number of a financial year
+ * Numbers stay within the 16 characters GST allows, e.g. 'SP/2526/00042'
+ * @param financialYear - Financial year label
+ * @returns Promise with the invoice number
+ */
+async function nextInvoiceNumber(financialYear: string): Promise<string> {
+  const counter = await Counter.findOneAndUpdate(
+    { key: `invoice:${financialYear}` },
+    { $inc: { seq: 1 } },
+    { new: true, upsert: true }
+  );
+
+  const year = financialYear.slice(2, 4) + financialYear.slice(-2);
+
+  return `${INVOICE_PREFIX}/${year}/${String(counter.seq).padStart(5, '0')}`;
+}
+
+/**
+ * Split a GST inclusive amount into taxable value and tax
+ * Supplies within the seller's state pay CGST and SGST in halves; others pay IGST
+ * @param total - Amount charged, tax inclusive
+ * @param rate - GST rate in percent
+ * @param isIntraState - Whether the place of supply is the seller's state
+ * @returns Tax breakdown rounded to paise
+ */
+export function splitGst(total: number, rate: number, isIntraState: boolean): GstBreakdown {
+  const taxableValue = round((total * 100) / (100 + rate));
+  const tax = round(total - taxableValue);
+
+  if (!isIntraState) {
+    return { taxableValue, cgst: 0, sgst: 0, igst: tax };
+  }
+
+  const cgst = round(tax / 2);
+
+  return { taxableValue, cgst, sgst: round(tax - cgst), igst: 0 };
+}
+
+/**
+ * Describe what a transaction paid for
+ * @param transaction - Completed transaction
+ * @returns Line item description
+ */
+async function describeTransaction(transaction: ITransaction): Promise<string> {
+  const tier = transaction.tier === 'with-solutions' ? 'with solutions' : 'questions only';
+
+  if (transaction.bundleId) {
+    const bundle = await Bundle.findById(transaction.bundleId).select('title').lean();
+    return `${bundle?.title || 'Paper bundle'} (bundle, ${tier})`;
+  }
+
+  const paper = await Paper.findById(transaction.paperId).select('title').lean();
+  const title = paper?.title || 'Question paper';
+
+  return transaction.upgradedFrom ? `${title} (upgrade to ${tier})` : `${title} (${tier})`;
+}
+
+/**
+ * Issue the invoice for a completed transaction
+ * The invoice is claimed with a unique insert on the transaction before it is
+ * numbered, so when the verify route and the webhook race only the winner takes
+ * a number. Idempotent: a transaction already invoiced returns its existing
+ * invoice, and one whose PDF failed to store is rendered again.
+ * Expects an open database connection
+ * @param transaction - Completed transaction
+ * @returns Promise with the invoice (without fileUrl while another request is still issuing it), or null if nothing was paid
+ */
+export async function issueInvoice(transaction: ITransaction): Promise<IInvoice | null> {
+  if (transaction.paymentMethod === 'free' || transaction.amount <= 0) {
+    return null;
+  }
+
+  const existing = await Invoice.findOne({ transactionId: transaction._id });
+
+  if (existing) {
+    // A fresh claim without a number is still being issued by the request that made it
+    const isInProgress =
+      !existing.invoiceNumber && Date.now() - existing.createdAt.getTime() < CLAIM_TIMEOUT_SECONDS * 1000;
+
+    return isInProgress ? existing : completeInvoice(existing);
+  }
+
+  const user = await User.findById(transaction.userId).select('name email billing').lean();
+  const seller = getSellerDetails();
+  const buyer: IInvoiceParty = {
+    name: user?.name || 'Customer',
+    email: user?.email,
+    gstin: user?.billing?.gstin,
+    address: user?.billing?.address,
+    stateCode: user?.billing?.stateCode || user?.billing?.gstin?.slice(0, 2),
+  };
+
+  // Sales in other currencies are exports, zero rated under a letter of undertaking.
+  // Unregistered domestic buyers without an address are supplied at the seller's location.
+  const isExport = transaction.currency !== BASE_CURRENCY;
+  const placeOfSupply = isExport ? EXPORT_PLACE_OF_SUPPLY : buyer.stateCode || seller.stateCode || '';
+  const gstRate = isExport ? 0 : GST_RATE;
+  const gst = splitGst(transaction.amount, gstRate, !isExport && (!seller.stateCode || placeOfSupply === seller.stateCode));
+
+  const issuedAt = new Date();
+
+  let invoice: IInvoice;
+
+  try {
+    invoice = await Invoice.create({
+      financialYear: getFinancialYear(issuedAt),
+      issuedAt,
+      transactionId: transaction._id,
+      userId: transaction.userId,
+      seller,
+      buyer,
+      placeOfSupply,
+      lineItems: [
+        {
+          description: await describeTransaction(transaction),
+          sac: INVOICE_SAC,
+          amount: transaction.originalAmount ?? transaction.amount,
+        },
+      ],
+      discount: transaction.coupon?.discount || 0,
+      gstRate,
+      ...gst,
+      total: transaction.amount,
+      currency: transaction.currency,
+    });
+  } catch (error) {
+    // Claimed concurrently by the verify route or the webhook, which numbers it
+    if ((error as { code?: number }).code !== 11000) throw error;
+
+    return Invoice.findOne({ transactionId: transaction._id });
+  }
+
+  return completeInvoice(invoice);
+}
+
+/**
+ * Number a claimed invoice, then render and store its PDF
+ * A failed upload keeps the number, and the PDF is stored on the next attempt
+ * Expects an open database connection
+ * @param invoice - Invoice claimed for its transaction
+ * @returns Promise with the completed invoice
+ */
+async function completeInvoice(invoice: IInvoice): Promise<IInvoice> {
+  if (!invoice.invoiceNumber) {
+    invoice.invoiceNumber = await nextInvoiceNumber(invoice.financialYear);
+    await invoice.save();
+  }
+
+  if (!invoice.fileUrl) {
+    const invoiceNumber = invoice.invoiceNumber;
+    const file = await uploadInvoicePDF(
+      renderInvoicePdf({ ...invoice.toObject(), invoiceNumber }),
+      `${invoiceNumber.replaceAll('/', '-')}.pdf`
+    );
+
+    invoice.fileUrl = file.url;
+    await invoice.save();
+  }
+
+  return invoice;
+}
+
+/**
+ * Issue invoices for newly completed transactions
+ * Failures are logged rather than thrown so they never undo a completed payment;
+ * missing invoices are issued on first download instead.
+ * Expects an open database connection
+ * @param transactions - Completed transactions
+ */
+export async function issueInvoices(transactions: ITransaction[]): Promise<void> {
+  for (const transaction of transactions) {
+    try {
+      await issueInvoice(transaction);
+    } catch (error) {
+      console.error(`Error issuing invoice for transaction ${transaction._id}:`, error);
+    }
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * Login Protection
+ * Counts failed sign-ins per account identifier and per IP address, locking
+ * each out for exponentially longer once its free attempts are used up.
+ * Identifiers are counted whether or not an account exists, so lockouts and
+ * error messages never reveal which emails are registered
+ */
+
+import bcrypt from 'bcryptjs';
+import mongoose from 'mongoose';
+import User from '@/models/User';
+import LoginThrottle from '@/models/LoginThrottle';
+import LoginAttempt, { LoginAttemptResult } from '@/models/LoginAttempt';
+import { consumeAuthToken, issueAuthToken } from './authTokens';
+import { sendMail } from './mailer';
+
+// Failed attempts allowed before a lockout starts (defaults: 5 per account, 20 per IP)
+const FREE_ATTEMPTS_PER_ACCOUNT = parseInt(process.env.LOGIN_FREE_ATTEMPTS_PER_ACCOUNT || '5');
+const FREE_ATTEMPTS_PER_IP = parseInt(process.env.LOGIN_FREE_ATTEMPTS_PER_IP || '20');
+
+// First lockout is one minute, doubling with each further failure up to the cap
+const LOCKOUT_BASE_SECONDS = 60;
+const LOCKOUT_MAX_SECONDS = parseInt(process.env.LOGIN_LOCKOUT_MAX_MINUTES || '60') * 60;
+
+// Counters are forgotten a day after the last failure
+const FAILURE_MEMORY_SECONDS = 24 * 60 * 60;
+
+// Unlock link lifetime in hours
+const UNLOCK_TTL_HOURS = 24;
+
+// Compared against when there is no account, so response time does not reveal it
+const DUMMY_PASSWORD_HASH = '$2b$12$fgoYooYFZnKNAwpy02qnrOut7cvTG/xNCyfJEbYOaaKwBh9Xx.e12';
+
+/**
+ * Error shown for every wrong email, wrong password or password-less account
+ */
+export const INVALID_CREDENTIALS_ERROR = 'Invalid email or password';
+
+/**
+ * Error shown to banned accounts once their credentials check out
+ */
+export const ACCOUNT_SUSPENDED_ERROR = 'This account has been suspended. Please contact support.';
+
+/**
+ * Account unlock result
+ */
+export type UnlockAccountResult =
+  | { email: string; error?: undefined }
+  | { error: string; status: number };
+
+/**
+ * Get the lockout length after a number of consecutive failures
+ * @param failures - Consecutive failed attempts
+ * @param freeAttempts - Failures allowed before locking
+ * @returns Lockout in seconds, or 0 while attempts remain
+ */
+export function getLockoutSeconds(failures: number, freeAttempts: number): number {
+  if (failures < freeAttempts) {
+    return 0;
+  }
+
+  return Math.min(LOCKOUT_BASE_SECONDS * 2 ** (failures - freeAttempts), LOCKOUT_MAX_SECONDS);
+}
+
+/**
+ * Build the message shown while locked out
+ * @param lockedUntil - When the lockout ends
+ * @returns User-facing error message
+ */
+export function getLockedMessage(lockedUntil: Date): string {
+  const minutes = Math.max(Math.ceil((lockedUntil.getTime() - Date.now()) / 60000), 1);
+
+  return `Too many failed sign-in attempts. Please try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+}
+
+/**
+ * Throttle keys a sign-in counts against
+ * Unknown IPs are not counted, as they would otherwise all share one counter
+ * @param accountKey - Identifier key, e.g. 'email:<address>'
+ * @param ip - Client IP address
+ * @returns Keys with the free attempts each allows
+ */
+function getThrottleKeys(accountKey: string, ip: string): Array<[string, number]> {
+  const keys: Array<[string, number]> = [[accountKey, FREE_ATTEMPTS_PER_ACCOUNT]];
+
+  if (ip !== 'unknown') {
+    keys.push([`ip:${ip}`, FREE_ATTEMPTS_PER_IP]);
+  }
+
+  return keys;
+}
+
+/**
+ * Get when an identifier or IP address may next try to sign in
+ * Expects an open database connection
+ * @param accountKey - Identifier key, e.g. 'email:<address>'
+ * @param ip - Client IP address
+ * @returns Promise with the end of the longest active lockout, or null
+ */
+export async function getLockedUntil(accountKey: string, ip: string): Promise<Date | null> {
+  const locks = await LoginThrottle.find({
+    key: { $in: getThrottleKeys(accountKey, ip).map(([key]) => key) },
+    lockedUntil: { $gt: new Date() },
+  }).lean();
+
+  if (locks.length === 0) {
+    return null;
+  }
+
+  return new Date(Math.max(...locks.map((lock) => lock.lockedUntil!.getTime())));
+}
+
+/**
+ * Count a failed sign-in and start or extend lockouts
+ * Expects an open database connection
+ * @param accountKey - Identifier key, e.g. 'email:<address>'
+ * @param ip - Client IP address
+ * @returns Promise with whether this failure started the identifier's first lockout
+ */
+export async function recordLoginFailure(
+  accountKey: string,
+  ip: string
+): Promise<{ lockoutStarted: boolean }> {
+  const now = Date.now();
+  let lockoutStarted = false;
+
+  for (const [key, freeAttempts] of getThrottleKeys(accountKey, ip)) {
+    const update = {
+      $inc: { failures: 1 },
+      $set: { expiresAt: new Date(now + FAILURE_MEMORY_SECONDS * 1000) },
+    };
+
+    let entry;
+
+    try {
+      entry = await LoginThrottle.findOneAndUpdate({ key }, update, { new: true, upsert: true });
+    } catch (error) {
+      // Another request created the counter first
+      if ((error as { code?: number }).code !== 11000) throw error;
+
+      entry = await LoginThrottle.findOneAndUpdate({ key }, update, { new: true });
+    }
+
+    const lockoutSeconds = entry ? getLockoutSeconds(entry.failures, freeAttempts) : 0;
+
+    if (entry && lockoutSeconds > 0) {
+      await LoginThrottle.updateOne(
+        { _id: entry._id },
+        { $set: { lockedUntil: new Date(now + lockoutSeconds * 1000) } }
+      );
+
+      if (key === accountKey && entry.failures === freeAttempts) {
+        lockoutStarted = true;
+      }
+    }
+  }
+
+  return { lockoutStarted };
+}
+
+/**
+ * Forget an identifier's failures after a successful sign-in or unlock
+ * The IP counter is kept so one good account cannot shield guessing at others
+ * Expects an open database connection
+ * @param accountKey - Identifier key, e.g. 'email:<address>'
+ */
+export async function clearLoginFailures(accountKey: string): Promise<void> {
+  await LoginThrottle.deleteOne({ key: accountKey });
+}
+
+/**
+ * Check a password against an account's hash in constant-ish time
+ * @param password - Password entered
+ * @param hash - Stored hash, or undefined when there is no account or password
+ * @returns Promise with whether the password matches a real hash
+ */
+export async function verifyPassword(password: string, hash?: string): Promise<boolean> {
+  const isMatch = await bcrypt.compare(password, hash || DUMMY_PASSWORD_HASH);
+
+  return isMatch && !!hash;
+}
+
+/**
+ * Add an entry to the login attempt log
+ * Failures are logged rather than thrown so logging never blocks sign-in
+ * Expects an open database connection
+ * @param attempt - Who tried, from where, how, and what happened
+ */
+export async function logLoginAttempt(attempt: {
+  identifier: string;
+  userId?: mongoose.Types.ObjectId | string;
+  ip: string;
+  method: 'password' | 'phone-otp';
+  result: LoginAttemptResult;
+}): Promise<void> {
+  try {
+    await LoginAttempt.create(attempt);
+  } catch (error) {
+    console.error('Error logging login attempt:', error);
+  }
+}
+
+/**
+ * Email the account owner a link that lifts the lockout on their email
+ * Expects an open database connection
+ * @param user - Locked account
+ * @param appUrl - Site URL the link points at
+ */
+export async function sendUnlockEmail(
+  user: { _id: { toString(): string }; name: string; email: string },
+  appUrl: string
+): Promise<void> {
+  const token = await issueAuthToken(user._id.toString(), 'unlock-account', UNLOCK_TTL_HOURS * 60 * 60);
+  const link = `${appUrl}/auth/unlock?token=${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Sign-in to your Star Paper account was paused',
+    text:
+      `Hi ${user.name},\n\n` +
+      'We paused sign-in to your account after several wrong passwords. ' +
+      `If that was you, open the link below to sign in again right away:\n\n${link}\n\n` +
+      'If it was not you, your password is still safe, but consider resetting it from the sign-in page.',
+  });
+}
+
+/**
+ * Lift the lockout on an account using the token from its unlock link
+ * Expects an open database connection
+ * @param token - Token from the unlock link
+ * @returns Promise with the unlocked email, or an error and HTTP status
+ */
+export async function unlockAccount(token: string): Promise<UnlockAccountResult> {
+  const userId = await consumeAuthToken(token, 'unlock-account');
+
+  if (!userId) {
+    return { error: 'This link is invalid or has expired.', status: 400 };
+  }
+
+  const user = await User.findById(userId).select('email');
+
+  if (!user) {
+    return { error: 'Account not found', status: 404 };
+  }
+
+  await clearLoginFailures(`email:${user.email}`);
+
+  return { email: user.email };
+}
@@ -0,0 +1,137 @@
+/**
+ * Mailer
+ * Outgoing email behind one interface.
+ * MAIL_TRANSPORT selects the implementation: 'console' (the default outside production) prints messages,
+ * 'file' writes each message as JSON to MAIL_OUTBOX_DIR for dev and tests,
+ * and 'http' posts it to MAIL_HTTP_URL for a relay or provider API
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const MAIL_FROM = process.env.MAIL_FROM || 'Star Paper <no-reply@starpaper.in>';
+
+/**
+ * Email to send
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Mail transport
+ */
+export interface Mailer {
+  name: 'console' | 'file' | 'http';
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Prints messages to the server log
+ */
+export const consoleMailer: Mailer = {
+  name: 'console',
+
+  async send(message) {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  },
+};
+
+/**
+ * Writes each message to its own file so tests can read the latest link
+ */
+export const fileMailer: Mailer = {
+  name: 'file',
+
+  async send(message) {
+    const dir = process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'storage', 'mail');
+    const name = `${Date.now()}-${message.to.replace(/[^a-z0-9@.-]/gi, '_')}.json`;
+
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(
+      path.join(dir, name),
+      JSON.stringify({ from: MAIL_FROM, ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  },
+};
+
+/**
+ * Posts each message as JSON, authenticated with MAIL_HTTP_TOKEN if set
+ */
+export const httpMailer: Mailer = {
+  name: 'http',
+
+  async send(message) {
+    const url = process.env.MAIL_HTTP_URL;
+
+    if (!url) {
+      throw new Error('Please define MAIL_HTTP_URL');
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(process.env.MAIL_HTTP_TOKEN && { Authorization: `Bearer ${process.env.MAIL_HTTP_TOKEN}` }),
+      },
+      body: JSON.stringify({ from: MAIL_FROM, ...message }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Mail relay responded with ${response.status}`);
+    }
+  },
+};
+
+/**
+ * Get the transport selected by MAIL_TRANSPORT
+ * An unset MAIL_TRANSPORT is refused in production rather than printing messages
+ * @returns Mailer implementation
+ */
+export function getMailer(): Mailer {
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'file':
+      return fileMailer;
+    case 'http':
+      return httpMailer;
+    case 'console':
+      return consoleMailer;
+    default:
+      // Falling back to the console in production would silently drop every message
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('MAIL_TRANSPORT must be set in production');
+      }
+
+      return consoleMailer;
+  }
+}
+
+/**
+ * Send an email through the configured transport
+ * @param message - Email to send
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailer().send(message);
+}
+
+/**
+ * Get the site URL to put in emailed links
+ * Only the configured NEXTAUTH_URL is used: request Host headers are attacker-controlled,
+ * and a link built from them would send reset and verification tokens to another site
+ * @returns Origin without a trailing slash
+ */
+export function getAppUrl(): string {
+  if (process.env.NEXTAUTH_URL) {
+    return process.env.NEXTAUTH_URL.replace(/\/$/, '');
+  }
+
+  // Like the console mailer, a guessed base URL in production would quietly send broken links
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('NEXTAUTH_URL must be set in production');
+  }
+
+  return 'http://localhost:3000';
+}
@@ -0,0 +1,101 @@
+/**
+ * Pending Order Expiry
+ * Closes checkouts that were abandoned before payment and returns the wallet
+ * credit and coupon uses they held. Each stale order is first looked up at the
+ * gateway, so a payment whose verify call and webhook were both lost is
+ * completed instead
+ */
+
+import Transaction from '@/models/Transaction';
+import { getPaymentGateway, PaymentGateway } from './paymentGateway';
+import { completeOrder, getOrderTotal } from './purchases';
+import { toMinorUnits } from './currency';
+import { creditWallet } from './wallet';
+import { releaseCouponReservation } from './coupons';
+
+// Minutes a checkout may stay pending before it is expired (default: 60)
+export const PENDING_ORDER_EXPIRY_MINUTES = parseInt(process.env.PENDING_ORDER_EXPIRY_MINUTES || '60');
+
+/**
+ * Counts reported by an expiry run
+ */
+export interface OrderExpiryReport {
+  scanned: number; // Stale gateway orders found
+  expired: number; // Transactions marked failed
+  completed: number; // Transactions completed because the gateway had captured the payment
+  unreconciled: number; // Orders expired without a gateway answer
+}
+
+/**
+ * Expire pending orders older than the expiry window
+ * Orders the gateway could not be asked about are still expired; a late
+ * payment.captured webhook completes failed transactions as well.
+ * Expects an open database connection
+ * @param options - Window in minutes and gateway to reconcile against
+ * @returns Promise with the counts for this run
+ */
+export async function expirePendingOrders(
+  options: { olderThanMinutes?: number; gateway?: Pick<PaymentGateway, 'fetchCapturedPayment'> } = {}
+): Promise<OrderExpiryReport> {
+  const { olderThanMinutes = PENDING_ORDER_EXPIRY_MINUTES, gateway = getPaymentGateway() } = options;
+  const cutoff = new Date(Date.now() - olderThanMinutes * 60 * 1000);
+
+  const orderIds: string[] = await Transaction.distinct('razorpayOrderId', {
+    status: 'pending',
+    createdAt: { $lt: cutoff },
+  });
+
+  const report: OrderExpiryReport = { scanned: orderIds.length, expired: 0, completed: 0, unreconciled: 0 };
+
+  for (const orderId of orderIds) {
+    try {
+      const payment = await gateway.fetchCapturedPayment(orderId);
+
+      if (payment) {
+        const transactions = await Transaction.find({ razorpayOrderId: orderId });
+        const expectedAmount = toMinorUnits(getOrderTotal(transactions), transactions[0].currency);
+
+        if (expectedAmount === payment.amount) {
+          const completed = await completeOrder(orderId, { razorpayPaymentId: payment.id });
+          report.completed += completed.length;
+          continue;
+        }
+
+        // Left pending for an admin to look at rather than expired
+        console.error(
+          `[Order Expiry] Amount mismatch for order ${orderId}: expected ${expectedAmount}, got ${payment.amount}`
+        );
+        continue;
+      }
+    } catch (error) {
+      console.error(`[Order Expiry] Could not look up order ${orderId}:`, error);
+      report.unreconciled++;
+    }
+
+    const pending = await Transaction.find({ razorpayOrderId: orderId, status: 'pending' }).select('_id walletAmount');
+
+    for (const { _id, walletAmount } of pending) {
+      const expired = await Transaction.findOneAndUpdate(
+        { _id, status: 'pending' },
+        { $set: { status: 'failed', ...(walletAmount && { walletReleased: true }) } },
+        { new: true }
+      );
+
+      if (!expired) continue;
+
+      report.expired++;
+
+      // Return wallet credit held for the order
+      if (expired.walletAmount) {
+        await creditWallet(expired.userId, expired.walletAmount, {
+          reason: 'order-expired',
+          transactionId: expired._id,
+        });
+      }
+
+      await releaseCouponReservation(expired._id);
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,231 @@
+/**
+ * Organization Utilities
+ * Schools and coaching centres: invites that students accept to join, the org
+ * admin's view of their organization, and seat usage per member
+ */
+
+import mongoose from 'mongoose';
+import Organization, { IOrganization } from '@/models/Organization';
+import OrganizationInvite, { IOrganizationInvite } from '@/models/OrganizationInvite';
+import User, { IUser } from '@/models/User';
+import Transaction from '@/models/Transaction';
+import { sendMail } from './mailer';
+
+// Largest batch a single bulk purchase can pay for
+export const MAX_SEATS_PER_PURCHASE = parseInt(process.env.MAX_SEATS_PER_PURCHASE || '500');
+
+// Days an invite to join an organization stays open (default: 14)
+export const ORGANIZATION_INVITE_TTL_DAYS = parseInt(process.env.ORGANIZATION_INVITE_TTL_DAYS || '14');
+
+/**
+ * Seat usage for one member
+ */
+export interface MemberUsage {
+  seats: number; // Seats held
+  downloads: number; // Downloads used across those seats
+  lastSeatAt?: Date;
+}
+
+/**
+ * Result of a membership change
+ */
+export type MembershipResult =
+  | { user: IUser; error?: undefined }
+  | { error: string; status: number };
+
+/**
+ * Get the organization a user administers
+ * Expects an open database connection
+ * @param userId - Org admin's user ID
+ * @returns Promise with the organization, or null if the user is not an org admin
+ */
+export async function getManagedOrganization(userId: string): Promise<IOrganization | null> {
+  const user = await User.findById(userId).select('role organizationId').lean();
+
+  if (!user || user.role !== 'org-admin' || !user.organizationId) {
+    return null;
+  }
+
+  return Organization.findById(user.organizationId);
+}
+
+/**
+ * Invite an email address to join an organization
+ * Nothing is looked up about the address, so an org admin cannot use invites to
+ * learn which emails have accounts; inviting it again renews the invite
+ * Expects an open database connection
+ * @param organizationId - Organization to join
+ * @param email - Address to invite
+ * @param invitedBy - Org admin's user ID
+ * @returns Promise with the invite
+ */
+export async function createInvite(
+  organizationId: mongoose.Types.ObjectId | string,
+  email: string,
+  invitedBy: string
+): Promise<IOrganizationInvite> {
+  const invite = await OrganizationInvite.findOneAndUpdate(
+    { organizationId, email: email.trim().toLowerCase() },
+    {
+      $set: {
+        invitedBy,
+        expiresAt: new Date(Date.now() + ORGANIZATION_INVITE_TTL_DAYS * 24 * 60 * 60 * 1000),
+      },
+    },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+
+  return invite!;
+}
+
+/**
+ * Email an invite to the invited address
+ * @param organization - Organization the invite is for
+ * @param email - Invited address
+ * @param appUrl - Site URL the link points at
+ */
+export async function sendInviteEmail(
+  organization: Pick<IOrganization, 'name'>,
+  email: string,
+  appUrl: string
+): Promise<void> {
+  await sendMail({
+    to: email,
+    subject: `You're invited to join ${organization.name} on Star Paper`,
+    text:
+      `${organization.name} has invited you to join their organization on Star Paper, ` +
+      'so they can give you access to the papers they buy for their students.\n\n' +
+      `To accept, sign in (or create an account with this email) and open your dashboard:\n\n${appUrl}/dashboard\n\n` +
+      `The invite expires in ${ORGANIZATION_INVITE_TTL_DAYS} days. If you do not want to join, you can ignore this email.`,
+  });
+}
+
+/**
+ * Get the unexpired invites for an email address
+ * Expects an open database connection
+ * @param email - Invited address
+ * @returns Promise with the invites and their organization names
+ */
+export async function getPendingInvites(email: string) {
+  return OrganizationInvite.find({ email: email.toLowerCase(), expiresAt: { $gt: new Date() } })
+    .sort({ createdAt: -1 })
+    .populate<{ organizationId: Pick<IOrganization, '_id' | 'name' | 'type'> | null }>(
+      { path: 'organizationId', model: Organization, select: 'name type' }
+    )
+    .select('organizationId createdAt expiresAt')
+    .lean();
+}
+
+/**
+ * Accept an invite, adding the signed-in student to the organization
+ * Expects an open database connection
+ * @param inviteId - Invite to accept
+ * @param userId - Signed-in user; the invite must be for their email
+ * @returns Promise with the new member, or an error and HTTP status
+ */
+export async function acceptInvite(inviteId: string, userId: string): Promise<MembershipResult> {
+  const user = await User.findById(userId).select('email role organizationId');
+
+  const invite = user && await OrganizationInvite.findOne({
+    _id: inviteId,
+    email: user.email,
+    expiresAt: { $gt: new Date() },
+  });
+
+  if (!user || !invite) {
+    return { error: 'Invite not found or expired', status: 404 };
+  }
+
+  if (user.organizationId?.equals(invite.organizationId)) {
+    await OrganizationInvite.deleteOne({ _id: invite._id });
+    return { error: 'You are already a member of this organization', status: 409 };
+  }
+
+  if (user.organizationId || user.role !== 'student') {
+    return { error: 'Leave your current organization before joining another', status: 409 };
+  }
+
+  // Conditional so accepting two invites at once cannot join both organizations
+  const member = await User.findOneAndUpdate(
+    { _id: user._id, role: 'student', organizationId: { $exists: false } },
+    { $set: { organizationId: invite.organizationId } },
+    { new: true }
+  );
+
+  if (!member) {
+    return { error: 'Leave your current organization before joining another', status: 409 };
+  }
+
+  await OrganizationInvite.deleteOne({ _id: invite._id });
+
+  return { user: member };
+}
+
+/**
+ * Decline an invite
+ * Expects an open database connection
+ * @param inviteId - Invite to decline
+ * @param email - Signed-in user's email; the invite must be for it
+ * @returns Promise with whether an invite was removed
+ */
+export async function declineInvite(inviteId: string, email: string): Promise<boolean> {
+  const result = await OrganizationInvite.deleteOne({ _id: inviteId, email: email.toLowerCase() });
+
+  return result.deletedCount > 0;
+}
+
+/**
+ * Remove a member from an organization
+ * Seats already handed to the member stay with them.
+ * Org admins cannot be removed this way.
+ * Expects an open database connection
+ * @param organizationId - Organization to leave
+ * @param userId - Member's user ID
+ * @returns Promise with the former member, or an error and HTTP status
+ */
+export async function removeMember(
+  organizationId: mongoose.Types.ObjectId | string,
+  userId: string
+): Promise<MembershipResult> {
+  const user = await User.findOneAndUpdate(
+    { _id: userId, organizationId, role: 'student' },
+    { $unset: { organizationId: 1 } },
+    { new: true }
+  );
+
+  if (!user) {
+    return { error: 'Member not found', status: 404 };
+  }
+
+  return { user };
+}
+
+/**
+ * Get seat usage for every member who holds a seat from an organization
+ * Expects an open database connection
+ * @param organizationId - Organization ID
+ * @returns Promise with usage keyed by user ID
+ */
+export async function getMemberUsage(
+  organizationId: mongoose.Types.ObjectId | string
+): Promise<Map<string, MemberUsage>> {
+  const rows = await Transaction.aggregate<{ _id: mongoose.Types.ObjectId } & MemberUsage>([
+    {
+      $match: {
+        organizationId: new mongoose.Types.ObjectId(organizationId.toString()),
+        seatOf: { $exists: true },
+        status: 'completed',
+      },
+    },
+    {
+      $group: {
+        _id: '$userId',
+        seats: { $sum: 1 },
+        downloads: { $sum: '$downloadCount' },
+        lastSeatAt: { $max: '$createdAt' },
+      },
+    },
+  ]);
+
+  return new Map(rows.map(({ _id, ...usage }) => [_id.toString(), usage]));
+}
@@ -0,0 +1,67 @@
+/**
+ * Paper Field Whitelist
+ * Restricts which paper fields clients may set on create and update
+ */
+
+import type { IPaper } from '@/models/Paper';
+
+/**
+ * Fields an admin may set through the papers API
+ * Server-managed fields (downloads, ratings, uploadedBy, timestamps) are excluded
+ */
+export const EDITABLE_PAPER_FIELDS = [
+  'title',
+  'description',
+  'category',
+  'examName',
+  'subject',
+  'year',
+  'price',
+  'fileUrl',
+  'previewUrl',
+  'thumbnailUrl',
+  'tags',
+  'isActive',
+  'fileSize',
+  'originalFilename',
+  'paperType',
+  'questionsOnlyPrice',
+  'withSolutionsPrice',
+  'currencyPrices',
+  'hasSolutions',
+  'solutionType',
+  'solutionFileUrl',
+  'solutionFileSize',
+  'questions',
+  'totalQuestions',
+] as const;
+
+export type EditablePaperField = (typeof EDITABLE_PAPER_FIELDS)[number];
+
+/**
+ * Fields holding storage keys of stored PDFs
+ * Sellers may only set them to files from their own uploads
+ */
+export const PAPER_FILE_FIELDS = ['fileUrl', 'solutionFileUrl'] as const;
+
+/**
+ * Pick only whitelisted paper fields from a request body
+ * @param body - Parsed JSON request body
+ * @returns Object containing only editable fields that were present in the body
+ */
+export function pickPaperFields(body: unknown): Partial<Pick<IPaper, EditablePaperField>> {
+  const fields: Record<string, unknown> = {};
+
+  if (!body || typeof body !== 'object') {
+    return fields;
+  }
+
+  for (const field of EDITABLE_PAPER_FIELDS) {
+    if (field in body) {
+      fields[field] = (body as Record<string, unknown>)[field];
+    }
+  }
+
+  // Values are validated by the Paper schema on save
+  return fields as Partial<Pick<IPaper, EditablePaperField>>;
+}
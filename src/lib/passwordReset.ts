@@ -0,0 +1,80 @@
+/**
+ * Password Reset
+ * Emails a single-use link that lets the owner of an address set a new password
+ */
+
+import bcrypt from 'bcryptjs';
+import User from '@/models/User';
+import { consumeAuthToken, issueAuthToken } from './authTokens';
+import { sendMail } from './mailer';
+
+// Reset link lifetime in minutes (default: 60)
+export const PASSWORD_RESET_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60');
+
+/**
+ * Password reset result
+ */
+export type ResetPasswordResult =
+  | { userId: string; error?: undefined }
+  | { error: string; status: number };
+
+/**
+ * Email a password reset link, invalidating any earlier one
+ * Expects an open database connection
+ * @param user - Account to reset
+ * @param appUrl - Site URL the link points at
+ */
+export async function sendPasswordResetEmail(
+  user: { _id: { toString(): string }; name: string; email: string },
+  appUrl: string
+): Promise<void> {
+  const token = await issueAuthToken(
+    user._id.toString(),
+    'reset-password',
+    PASSWORD_RESET_TTL_MINUTES * 60
+  );
+  const link = `${appUrl}/auth/reset-password?token=${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your Star Paper password',
+    text:
+      `Hi ${user.name},\n\n` +
+      `Someone asked to reset the password for your account. To choose a new one, open:\n\n${link}\n\n` +
+      `The link expires in ${PASSWORD_RESET_TTL_MINUTES} minutes and works once. ` +
+      'If you did not ask for this, you can ignore this email and your password will not change.',
+  });
+}
+
+/**
+ * Set a new password using the token from a reset link
+ * Signs out every existing session and, since the link proves the address, verifies it
+ * Expects an open database connection
+ * @param token - Token from the reset link
+ * @param password - New plain-text password
+ * @returns Promise with the account ID, or an error and HTTP status
+ */
+export async function resetPassword(token: string, password: string): Promise<ResetPasswordResult> {
+  if (password.length < 6) {
+    return { error: 'Password must be at least 6 characters', status: 400 };
+  }
+
+  const userId = await consumeAuthToken(token, 'reset-password');
+
+  if (!userId) {
+    return { error: 'This link is invalid or has expired. Please request a new one.', status: 400 };
+  }
+
+  const hashedPassword = await bcrypt.hash(password, 12);
+
+  const result = await User.updateOne(
+    { _id: userId },
+    { $set: { password: hashedPassword, passwordChangedAt: new Date(), emailVerified: true } }
+  );
+
+  if (result.matchedCount === 0) {
+    return { error: 'Account not found', status: 404 };
+  }
+
+  return { userId };
+}
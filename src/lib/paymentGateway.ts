@@ -0,0 +1,382 @@
+/**
+ * Payment Gateway
+ * Orders, subscriptions, payment verification, refunds and webhooks behind one interface.
+ * PAYMENT_GATEWAY selects the implementation: 'razorpay' (default) or 'mock',
+ * an in-process gateway for exercising the purchase flow offline
+ */
+
+import crypto from 'crypto';
+import Razorpay from 'razorpay';
+import type { ISubscriptionPlan } from '@/models/SubscriptionPlan';
+import type { RazorpayWebhookEvent } from './razorpayWebhook';
+
+/**
+ * Order as held by the gateway
+ */
+export interface GatewayOrder {
+  id: string;
+  amount: number; // In minor units (paise, cents)
+  currency: string;
+}
+
+/**
+ * Details posted back by Checkout once the customer has paid
+ */
+export interface PaymentConfirmation {
+  orderId: string;
+  paymentId: string;
+  signature: string;
+}
+
+/**
+ * Details posted back by Checkout once the first subscription payment is made
+ */
+export interface SubscriptionPaymentConfirmation {
+  subscriptionId: string;
+  paymentId: string;
+  signature: string;
+}
+
+/**
+ * Payment captured against an order
+ */
+export interface CapturedPayment {
+  id: string;
+  amount: number; // In minor units
+}
+
+/**
+ * Result of parsing a webhook request
+ */
+export type WebhookParseResult =
+  | { event: RazorpayWebhookEvent; error?: undefined }
+  | { error: string; status: number };
+
+/**
+ * Payment gateway client
+ */
+export interface PaymentGateway {
+  name: 'razorpay' | 'mock';
+  createOrder(order: {
+    amountInMinorUnits: number;
+    currency: string;
+    receipt: string;
+    notes: Record<string, string>;
+  }): Promise<GatewayOrder>;
+  fetchOrder(orderId: string): Promise<GatewayOrder>;
+  fetchCapturedPayment(orderId: string): Promise<CapturedPayment | null>;
+  verifyPayment(confirmation: PaymentConfirmation): boolean;
+  refund(
+    paymentId: string,
+    amountInMinorUnits: number,
+    notes: Record<string, string>
+  ): Promise<{ id: string; amount: number }>;
+  parseWebhook(rawBody: string, signature: string | null): WebhookParseResult;
+  createPlan(plan: {
+    name: string;
+    description?: string;
+    amountInPaise: number;
+    interval: ISubscriptionPlan['interval'];
+  }): Promise<{ id: string }>;
+  createSubscription(
+    gatewayPlanId: string,
+    totalCycles: number,
+    notes: Record<string, string>
+  ): Promise<{ id: string; shortUrl?: string }>;
+  cancelSubscription(gatewaySubscriptionId: string, atCycleEnd: boolean): Promise<void>;
+  verifySubscriptionPayment(confirmation: SubscriptionPaymentConfirmation): boolean;
+}
+
+/**
+ * Compute a hex encoded HMAC-SHA256 signature
+ * Used for Checkout signatures and the X-Razorpay-Signature webhook header
+ * @param payload - Signed content
+ * @param secret - Signing secret
+ * @returns Hex encoded signature
+ */
+export function signPayload(payload: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+/**
+ * Check a signature in constant time
+ * @param payload - Signed content
+ * @param signature - Signature to check
+ * @param secret - Signing secret
+ * @returns boolean indicating if the signature is valid
+ */
+export function verifySignature(payload: string, signature: string, secret: string): boolean {
+  const expected = Buffer.from(signPayload(payload, secret));
+  const actual = Buffer.from(signature);
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Verify a signed webhook body and parse it
+ * @param rawBody - Raw request body, exactly as received
+ * @param signature - Value of the X-Razorpay-Signature header
+ * @param secret - Webhook secret
+ * @returns Parsed event, or an error and HTTP status
+ */
+function parseSignedWebhook(rawBody: string, signature: string | null, secret: string): WebhookParseResult {
+  if (!signature || !verifySignature(rawBody, signature, secret)) {
+    return { error: 'Invalid webhook signature', status: 400 };
+  }
+
+  try {
+    return { event: JSON.parse(rawBody) };
+  } catch {
+    return { error: 'Invalid webhook payload', status: 400 };
+  }
+}
+
+let razorpayClient: Razorpay | null = null;
+
+/**
+ * Get the shared Razorpay SDK client, created on first use
+ */
+export function getRazorpayClient(): Razorpay {
+  razorpayClient ??= new Razorpay({
+    key_id: process.env.RAZORPAY_KEY_ID!,
+    key_secret: process.env.RAZORPAY_KEY_SECRET!,
+  });
+
+  return razorpayClient;
+}
+
+/**
+ * Gateway backed by the Razorpay orders, payments, subscriptions and webhooks APIs
+ */
+export const razorpayGateway: PaymentGateway = {
+  name: 'razorpay',
+
+  async createOrder({ amountInMinorUnits, currency, receipt, notes }) {
+    const order = await getRazorpayClient().orders.create({
+      amount: amountInMinorUnits,
+      currency,
+      receipt,
+      notes,
+    });
+
+    return { id: order.id, amount: Number(order.amount), currency: order.currency };
+  },
+
+  async fetchOrder(orderId) {
+    const order = await getRazorpayClient().orders.fetch(orderId);
+
+    return { id: order.id, amount: Number(order.amount), currency: order.currency };
+  },
+
+  async fetchCapturedPayment(orderId) {
+    const { items } = await getRazorpayClient().orders.fetchPayments(orderId);
+    const payment = items.find((item) => item.status === 'captured');
+
+    return payment ? { id: payment.id, amount: Number(payment.amount) } : null;
+  },
+
+  // Checkout signs `<order_id>|<payment_id>` with the key secret
+  verifyPayment({ orderId, paymentId, signature }) {
+    return verifySignature(`${orderId}|${paymentId}`, signature, process.env.RAZORPAY_KEY_SECRET!);
+  },
+
+  async refund(paymentId, amountInMinorUnits, notes) {
+    const refund = await getRazorpayClient().payments.refund(paymentId, {
+      amount: amountInMinorUnits,
+      notes,
+    });
+
+    return { id: refund.id, amount: Number(refund.amount) };
+  },
+
+  parseWebhook(rawBody, signature) {
+    const secret = process.env.RAZORPAY_WEBHOOK_SECRET;
+
+    if (!secret) {
+      console.error('[Razorpay Webhook] RAZORPAY_WEBHOOK_SECRET is not configured');
+      return { error: 'Webhook not configured', status: 500 };
+    }
+
+    return parseSignedWebhook(rawBody, signature, secret);
+  },
+
+  async createPlan({ name, description, amountInPaise, interval }) {
+    const plan = await getRazorpayClient().plans.create({
+      period: interval,
+      interval: 1,
+      item: {
+        name,
+        description,
+        amount: amountInPaise,
+        currency: 'INR',
+      },
+    });
+
+    return { id: plan.id };
+  },
+
+  async createSubscription(gatewayPlanId, totalCycles, notes) {
+    const subscription = await getRazorpayClient().subscriptions.create({
+      plan_id: gatewayPlanId,
+      total_count: totalCycles,
+      customer_notify: 1,
+      notes,
+    });
+
+    return { id: subscription.id, shortUrl: subscription.short_url };
+  },
+
+  async cancelSubscription(gatewaySubscriptionId, atCycleEnd) {
+    await getRazorpayClient().subscriptions.cancel(gatewaySubscriptionId, atCycleEnd);
+  },
+
+  // Checkout signs `<payment_id>|<subscription_id>` with the key secret
+  verifySubscriptionPayment({ subscriptionId, paymentId, signature }) {
+    return verifySignature(`${paymentId}|${subscriptionId}`, signature, process.env.RAZORPAY_KEY_SECRET!);
+  },
+};
+
+// Mock orders are kept on the global object so every route bundle sees the same store
+declare global {
+  var mockGatewayOrders: Map<string, GatewayOrder> | undefined;
+  var mockGatewayPayments: Map<string, CapturedPayment> | undefined;
+  var mockGatewaySubscriptions: Set<string> | undefined;
+}
+
+const mockOrders: Map<string, GatewayOrder> = global.mockGatewayOrders || new Map();
+// Captured payments by order ID
+const mockPayments: Map<string, CapturedPayment> = global.mockGatewayPayments || new Map();
+// IDs of subscriptions that have not been cancelled
+const mockSubscriptions: Set<string> = global.mockGatewaySubscriptions || new Set();
+
+if (!global.mockGatewayOrders) {
+  global.mockGatewayOrders = mockOrders;
+  global.mockGatewayPayments = mockPayments;
+  global.mockGatewaySubscriptions = mockSubscriptions;
+}
+
+/**
+ * Secret the mock gateway signs payments and webhooks with
+ */
+export function getMockGatewaySecret(): string {
+  return process.env.MOCK_GATEWAY_SECRET || 'mock_gateway_secret';
+}
+
+const mockId = (prefix: string) => `${prefix}_mock${crypto.randomBytes(7).toString('hex')}`;
+
+/**
+ * In-process gateway that never leaves the server
+ * Payments are simulated with simulateMockPayment and signed like Razorpay's,
+ * so the verify route and webhook handlers run unchanged
+ */
+export const mockGateway: PaymentGateway = {
+  name: 'mock',
+
+  async createOrder({ amountInMinorUnits, currency }) {
+    const order = { id: mockId('order'), amount: amountInMinorUnits, currency };
+    mockOrders.set(order.id, order);
+
+    return order;
+  },
+
+  async fetchOrder(orderId) {
+    const order = mockOrders.get(orderId);
+
+    if (!order) {
+      throw new Error(`Mock order ${orderId} not found`);
+    }
+
+    return order;
+  },
+
+  async fetchCapturedPayment(orderId) {
+    return mockPayments.get(orderId) ?? null;
+  },
+
+  verifyPayment({ orderId, paymentId, signature }) {
+    return verifySignature(`${orderId}|${paymentId}`, signature, getMockGatewaySecret());
+  },
+
+  async refund(_paymentId, amountInMinorUnits) {
+    return { id: mockId('rfnd'), amount: amountInMinorUnits };
+  },
+
+  parseWebhook(rawBody, signature) {
+    return parseSignedWebhook(rawBody, signature, getMockGatewaySecret());
+  },
+
+  async createPlan() {
+    return { id: mockId('plan') };
+  },
+
+  async createSubscription() {
+    const id = mockId('sub');
+    mockSubscriptions.add(id);
+
+    return { id };
+  },
+
+  async cancelSubscription(gatewaySubscriptionId) {
+    mockSubscriptions.delete(gatewaySubscriptionId);
+  },
+
+  verifySubscriptionPayment({ subscriptionId, paymentId, signature }) {
+    return verifySignature(`${paymentId}|${subscriptionId}`, signature, getMockGatewaySecret());
+  },
+};
+
+/**
+ * Pay a mock order, producing what Razorpay Checkout would hand the browser
+ * @param orderId - Order created by the mock gateway
+ * @returns Confirmation to post to /api/payment/verify, or null if the order is unknown
+ */
+export function simulateMockPayment(orderId: string): PaymentConfirmation | null {
+  if (!mockOrders.has(orderId)) {
+    return null;
+  }
+
+  const paymentId = mockId('pay');
+  mockPayments.set(orderId, { id: paymentId, amount: mockOrders.get(orderId)!.amount });
+
+  return {
+    orderId,
+    paymentId,
+    signature: signPayload(`${orderId}|${paymentId}`, getMockGatewaySecret()),
+  };
+}
+
+/**
+ * Pay the first cycle of a mock subscription, producing what Razorpay Checkout would hand the browser
+ * @param subscriptionId - Subscription created by the mock gateway
+ * @returns Confirmation to post to /api/subscriptions/verify, or null if the subscription is unknown
+ */
+export function simulateMockSubscriptionPayment(subscriptionId: string): SubscriptionPaymentConfirmation | null {
+  if (!mockSubscriptions.has(subscriptionId)) {
+    return null;
+  }
+
+  const paymentId = mockId('pay');
+
+  return {
+    subscriptionId,
+    paymentId,
+    signature: signPayload(`${paymentId}|${subscriptionId}`, getMockGatewaySecret()),
+  };
+}
+
+/**
+ * Get the gateway selected by PAYMENT_GATEWAY
+ * The mock gateway is refused in production so it can never grant real access
+ * @returns Payment gateway client
+ */
+export function getPaymentGateway(): PaymentGateway {
+  if (process.env.PAYMENT_GATEWAY === 'mock') {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('The mock payment gateway cannot be used in production');
+    }
+
+    return mockGateway;
+  }
+
+  return razorpayGateway;
+}
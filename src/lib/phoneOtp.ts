@@ -0,0 +1,152 @@
+/**
+ * Phone OTP Sign-in
+ * Students verify a phone number on their account with a texted code, and can
+ * then sign in with a code sent to that number
+ */
+
+import User, { IUser } from '@/models/User';
+import { consumeAuthCode, issueAuthCode } from './authTokens';
+import { sendSms } from './sms';
+
+// Code lifetime in minutes (default: 10)
+export const PHONE_OTP_TTL_MINUTES = parseInt(process.env.PHONE_OTP_TTL_MINUTES || '10');
+
+// Wrong guesses allowed before a code stops working
+const PHONE_OTP_MAX_ATTEMPTS = parseInt(process.env.PHONE_OTP_MAX_ATTEMPTS || '5');
+
+/**
+ * Normalize a phone number to E.164
+ * Ten-digit numbers are taken as Indian mobiles
+ * @param input - Number as typed, e.g. '98765 43210' or '+91-98765-43210'
+ * @returns Normalized number, or null if it does not look valid
+ */
+export function normalizePhone(input: string): string | null {
+  const digits = input.replace(/\D/g, '');
+  let phone: string;
+
+  if (input.trim().startsWith('+')) {
+    phone = `+${digits}`;
+  } else if (digits.length === 10) {
+    phone = `+91${digits}`;
+  } else if (digits.length === 12 && digits.startsWith('91')) {
+    phone = `+${digits}`;
+  } else {
+    return null;
+  }
+
+  return /^\+[1-9]\d{9,14}$/.test(phone) ? phone : null;
+}
+
+/**
+ * Phone verification result
+ */
+export type VerifyPhoneResult =
+  | { phone: string; error?: undefined }
+  | { error: string; status: number };
+
+/**
+ * Find the account a phone number signs in to
+ * Only verified numbers count; a unique index keeps each on one account
+ * Expects an open database connection
+ * @param phone - Normalized phone number
+ * @returns Promise with the account, or null
+ */
+async function findPhoneAccount(phone: string): Promise<IUser | null> {
+  return User.findOne({ phone, phoneVerified: true });
+}
+
+/**
+ * Text a sign-in code to a phone number if it belongs to an account
+ * Expects an open database connection
+ * @param phone - Normalized phone number
+ * @returns Promise with whether a code was sent
+ */
+export async function sendPhoneOtp(phone: string): Promise<boolean> {
+  const user = await findPhoneAccount(phone);
+
+  if (!user) {
+    return false;
+  }
+
+  const code = await issueAuthCode(user._id.toString(), 'phone-otp', PHONE_OTP_TTL_MINUTES * 60);
+
+  await sendSms({
+    to: phone,
+    body: `${code} is your Star Paper sign-in code. It expires in ${PHONE_OTP_TTL_MINUTES} minutes. Do not share it.`,
+  });
+
+  return true;
+}
+
+/**
+ * Check a sign-in code
+ * Expects an open database connection
+ * @param phone - Normalized phone number
+ * @param code - Code from the SMS
+ * @returns Promise with the account, or null if the code is wrong or expired
+ */
+export async function verifyPhoneOtp(phone: string, code: string): Promise<IUser | null> {
+  const user = await findPhoneAccount(phone);
+
+  if (!user) {
+    return null;
+  }
+
+  const isValid = await consumeAuthCode(user._id.toString(), code, 'phone-otp', PHONE_OTP_MAX_ATTEMPTS);
+
+  return isValid ? user : null;
+}
+
+/**
+ * Put a phone number on an account and text a code that verifies it
+ * The number stays unverified, and cannot be used to sign in, until the code is entered
+ * Expects an open database connection
+ * @param userId - Account adding the number
+ * @param phone - Normalized phone number
+ */
+export async function sendPhoneVerification(userId: string, phone: string): Promise<void> {
+  await User.updateOne(
+    { _id: userId, phone: { $ne: phone } },
+    { $set: { phone, phoneVerified: false } }
+  );
+
+  const code = await issueAuthCode(userId, 'verify-phone', PHONE_OTP_TTL_MINUTES * 60);
+
+  await sendSms({
+    to: phone,
+    body: `${code} is your Star Paper code to verify this number. It expires in ${PHONE_OTP_TTL_MINUTES} minutes.`,
+  });
+}
+
+/**
+ * Verify the phone number on an account using the code texted to it
+ * Expects an open database connection
+ * @param userId - Account the code was sent for
+ * @param code - Code from the SMS
+ * @returns Promise with the verified number, or an error and HTTP status
+ */
+export async function confirmPhoneVerification(userId: string, code: string): Promise<VerifyPhoneResult> {
+  const user = await User.findById(userId).select('phone phoneVerified');
+
+  if (!user?.phone) {
+    return { error: 'Add a phone number first', status: 400 };
+  }
+
+  const isValid = await consumeAuthCode(userId, code, 'verify-phone', PHONE_OTP_MAX_ATTEMPTS);
+
+  if (!isValid) {
+    return { error: 'Invalid or expired code', status: 400 };
+  }
+
+  try {
+    await User.updateOne({ _id: userId, phone: user.phone }, { $set: { phoneVerified: true } });
+  } catch (error) {
+    if ((error as { code?: number }).code === 11000) {
+      return { error: 'This number is already verified on another account', status: 409 };
+    }
+
+    throw error;
+  }
+
+  return { phone: user.phone };
+}
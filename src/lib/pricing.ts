@@ -0,0 +1,115 @@
+/**
+ * Pricing Utilities
+ * Resolves paper prices per purchase tier and currency
+ */
+
+import type { IPaper } from '@/models/Paper';
+import type { IBundle } from '@/models/Bundle';
+import { BASE_CURRENCY, Currency } from './currency';
+
+/**
+ * Purchase tiers a paper can be bought at
+ */
+export type PurchaseTier = 'questions-only' | 'with-solutions';
+
+export const PURCHASE_TIERS: PurchaseTier[] = ['questions-only', 'with-solutions'];
+
+type PricedPaper = Pick<IPaper, 'price' | 'paperType' | 'questionsOnlyPrice' | 'withSolutionsPrice' | 'hasSolutions'> &
+  Partial<Pick<IPaper, 'currencyPrices'>>;
+
+/**
+ * Check if a value is a valid purchase tier
+ * @param value - Value to check
+ * @returns boolean indicating if value is a PurchaseTier
+ */
+export function isPurchaseTier(value: unknown): value is PurchaseTier {
+  return typeof value === 'string' && PURCHASE_TIERS.includes(value as PurchaseTier);
+}
+
+/**
+ * Check if a paper can be bought with solutions
+ * @param paper - Paper document
+ * @returns boolean indicating if the with-solutions tier is on sale
+ */
+export function offersSolutions(paper: PricedPaper): boolean {
+  return paper.paperType === 'with-solutions' && paper.withSolutionsPrice !== undefined && paper.withSolutionsPrice !== null;
+}
+
+/**
+ * Get the price of a paper for a purchase tier
+ * Papers created before tier pricing only have the legacy `price` field
+ * (questionsOnlyPrice then reads as its default 0), so fall back to it.
+ * @param paper - Paper document
+ * @param tier - Purchase tier
+ * @param currency - Currency to price in (default: INR)
+ * @returns Price in major currency units, or null if the tier is not offered in that currency
+ */
+export function getTierPrice(
+  paper: PricedPaper,
+  tier: PurchaseTier,
+  currency: Currency = BASE_CURRENCY
+): number | null {
+  if (currency !== BASE_CURRENCY) {
+    const override = paper.currencyPrices?.find((price) => price.currency === currency);
+
+    if (!override) {
+      return null;
+    }
+
+    if (tier === 'with-solutions') {
+      return offersSolutions(paper) ? override.withSolutionsPrice ?? null : null;
+    }
+
+    return override.questionsOnlyPrice;
+  }
+
+  if (tier === 'with-solutions') {
+    return offersSolutions(paper) ? paper.withSolutionsPrice! : null;
+  }
+
+  const isLegacyPaper = !offersSolutions(paper) && !paper.questionsOnlyPrice && paper.price > 0;
+
+  return isLegacyPaper ? paper.price : paper.questionsOnlyPrice;
+}
+
+/**
+ * Get the price of upgrading a questions-only purchase to with-solutions
+ * @param paper - Paper document
+ * @param currency - Currency to price in (default: INR)
+ * @returns Difference between the tier prices, or null if solutions are not offered
+ */
+export function getUpgradePrice(paper: PricedPaper, currency: Currency = BASE_CURRENCY): number | null {
+  const withSolutionsPrice = getTierPrice(paper, 'with-solutions', currency);
+
+  if (withSolutionsPrice === null) {
+    return null;
+  }
+
+  return Math.max(withSolutionsPrice - (getTierPrice(paper, 'questions-only', currency) ?? 0), 0);
+}
+
+/**
+ * Pick the currency an order for some papers is charged in
+ * Orders use the buyer's preferred currency only when every paper is priced
+ * in it at the tier being bought; otherwise the whole order falls back to INR
+ * @param items - Papers in the order with the tier each is bought at
+ * @param preferred - Buyer's preferred currency
+ * @returns Currency to charge in
+ */
+export function resolveCurrency(
+  items: Array<{ paper: PricedPaper; tier: PurchaseTier }>,
+  preferred: Currency = BASE_CURRENCY
+): Currency {
+  const isPricedInPreferred = items.every(({ paper, tier }) => getTierPrice(paper, tier, preferred) !== null);
+
+  return preferred !== BASE_CURRENCY && items.length > 0 && isPricedInPreferred ? preferred : BASE_CURRENCY;
+}
+
+/**
+ * Get the price a bundle sells for after its discount
+ * @param bundle - Bundle document
+ * @returns Price in major currency units, rounded to paise
+ */
+export function getBundlePrice(bundle: Pick<IBundle, 'price' | 'discount'>): number {
+  return Math.round(bundle.price * (100 - (bundle.discount || 0))) / 100;
+}
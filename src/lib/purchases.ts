@@ -0,0 +1,503 @@
+/**
+ * Purchase Utilities
+ * Resolves what a user has bought for a paper or bundle and grants completed purchases
+ */
+
+import mongoose from 'mongoose';
+import Transaction, { ITransaction } from '@/models/Transaction';
+import User from '@/models/User';
+import Paper, { IPaper } from '@/models/Paper';
+import { IBundle } from '@/models/Bundle';
+import { getBundlePrice, getTierPrice, getUpgradePrice, offersSolutions, PurchaseTier } from './pricing';
+import { BASE_CURRENCY, Currency } from './currency';
+import { recordCouponRedemptions } from './coupons';
+import { getCategorySubscription } from './subscriptions';
+import { issueInvoices } from './invoices';
+import { creditWallet, debitWallet } from './wallet';
+import { reverseReferralReward, rewardReferral } from './referrals';
+import { recordSellerShares } from './sellers';
+
+/**
+ * Access a user has to a paper
+ */
+export interface PurchaseAccess {
+  purchased: boolean;
+  tier: PurchaseTier | null;
+  purchasedWithSolutions: boolean;
+  subscriptionId?: string; // Set when access comes from a category subscription
+}
+
+/**
+ * Build a transaction filter matching purchases that cover a paper
+ * A paper is covered by its own transactions and by any bundle that included it.
+ * Bulk seat purchases are left out: they cover the seat holders, through the
+ * seat transactions they hand out, not the org admin who paid.
+ * @param paperId - Paper ID
+ * @returns Filter to merge into a Transaction query
+ */
+export function coversPaper(paperId: string | mongoose.Types.ObjectId) {
+  return { $or: [{ paperId }, { bundlePapers: paperId }], seats: { $exists: false } };
+}
+
+/**
+ * Get the papers a transaction grants
+ * @param transaction - Transaction document
+ * @returns The bundle's papers for bundle purchases, otherwise the single paper
+ */
+export function getTransactionPapers(
+  transaction: Pick<ITransaction, 'paperId' | 'bundleId' | 'bundlePapers'>
+): mongoose.Types.ObjectId[] {
+  return transaction.bundleId ? transaction.bundlePapers : [transaction.paperId!];
+}
+
+/**
+ * Get a user's purchase access for a paper
+ * Expects an open database connection
+ * @param userId - User ID
+ * @param paperId - Paper ID
+ * @returns Promise with the highest tier the user has completed a purchase for
+ */
+export async function getPurchaseAccess(userId: string, paperId: string): Promise<PurchaseAccess> {
+  const transactions = await Transaction.find({
+    userId,
+    ...coversPaper(paperId),
+    status: 'completed',
+  })
+    .select('tier')
+    .lean();
+
+  if (transactions.length === 0) {
+    return { purchased: false, tier: null, purchasedWithSolutions: false };
+  }
+
+  const purchasedWithSolutions = transactions.some((t) => t.tier === 'with-solutions');
+
+  return {
+    purchased: true,
+    tier: purchasedWithSolutions ? 'with-solutions' : 'questions-only',
+    purchasedWithSolutions,
+  };
+}
+
+/**
+ * Get a user's access to a paper from purchases or a category subscription
+ * A subscription only counts when it unlocks more than the user has bought
+ * Expects an open database connection
+ * @param userId - User ID
+ * @param paper - Paper ID and category
+ * @returns Promise with the highest tier the user can access
+ */
+export async function getPaperAccess(
+  userId: string,
+  paper: Pick<IPaper, '_id' | 'category'>
+): Promise<PurchaseAccess> {
+  const access = await getPurchaseAccess(userId, paper._id.toString());
+
+  if (access.purchasedWithSolutions) {
+    return access;
+  }
+
+  const subscription = await getCategorySubscription(userId, paper.category);
+
+  if (!subscription || (access.purchased && subscription.tier === 'questions-only')) {
+    return access;
+  }
+
+  return {
+    purchased: true,
+    tier: subscription.tier,
+    purchasedWithSolutions: subscription.tier === 'with-solutions',
+    subscriptionId: subscription.subscriptionId,
+  };
+}
+
+/**
+ * Get the currency a user prefers to pay in
+ * Expects an open database connection
+ * @param userId - User ID
+ * @returns Promise with the preferred currency (INR if unset)
+ */
+export async function getPreferredCurrency(userId: string): Promise<Currency> {
+  const user = await User.findById(userId).select('preferredCurrency').lean();
+
+  return user?.preferredCurrency || BASE_CURRENCY;
+}
+
+/**
+ * Result of resolving what a purchase should cost
+ */
+export type PurchaseQuote =
+  | { price: number; upgradedFrom?: mongoose.Types.ObjectId; error?: undefined }
+  | { error: string; status: number };
+
+/**
+ * Work out the price of buying a paper at a tier, including upgrades
+ * Expects an open database connection
+ * @param paper - Paper document
+ * @param userId - Buyer's user ID
+ * @param tier - Requested purchase tier
+ * @param currency - Currency to charge in (default: INR)
+ * @returns Promise with the price to charge, or an error and HTTP status
+ */
+export async function quotePurchase(
+  paper: IPaper,
+  userId: string,
+  tier: PurchaseTier,
+  currency: Currency = BASE_CURRENCY
+): Promise<PurchaseQuote> {
+  const price = getTierPrice(paper, tier, currency);
+
+  if (price === null) {
+    return { error: 'This paper is not sold with solutions', status: 400 };
+  }
+
+  const existingTransactions = await Transaction.find({
+    userId,
+    ...coversPaper(paper._id),
+    status: 'completed',
+  });
+
+  const hasWithSolutions = existingTransactions.some((t) => t.tier === 'with-solutions');
+
+  if (hasWithSolutions || (existingTransactions.length > 0 && tier === 'questions-only')) {
+    return { error: 'You have already purchased this paper', status: 400 };
+  }
+
+  // Upgrading a questions-only purchase only charges the difference
+  if (existingTransactions.length > 0) {
+    return { price: getUpgradePrice(paper, currency)!, upgradedFrom: existingTransactions[0]._id };
+  }
+
+  return { price };
+}
+
+/**
+ * Result of resolving what a bundle purchase should cost
+ */
+export type BundleQuote =
+  | { price: number; papers: mongoose.Types.ObjectId[]; error?: undefined }
+  | { error: string; status: number };
+
+/**
+ * Work out the price of buying a bundle
+ * Bundles sell at their own price even when the buyer owns some of the papers,
+ * but cannot be bought twice or when every paper is already owned at the bundle's tier.
+ * Expects an open database connection
+ * @param bundle - Bundle document
+ * @param userId - Buyer's user ID
+ * @returns Promise with the price to charge and the papers to grant, or an error and HTTP status
+ */
+export async function quoteBundle(bundle: IBundle, userId: string): Promise<BundleQuote> {
+  const papers = await Paper.find({ _id: { $in: bundle.papers }, isActive: true })
+    .select('paperType withSolutionsPrice')
+    .lean();
+
+  if (papers.length !== bundle.papers.length) {
+    return { error: 'Some papers in this bundle are no longer available', status: 400 };
+  }
+
+  if (bundle.tier === 'with-solutions' && !papers.every((paper) => offersSolutions(paper as IPaper))) {
+    return { error: 'Some papers in this bundle are not sold with solutions', status: 400 };
+  }
+
+  const alreadyBought = await Transaction.exists({
+    userId,
+    bundleId: bundle._id,
+    status: 'completed',
+  });
+
+  if (alreadyBought) {
+    return { error: 'You have already purchased this bundle', status: 400 };
+  }
+
+  const access = await Promise.all(
+    papers.map((paper) => getPurchaseAccess(userId, paper._id.toString()))
+  );
+
+  const ownsEveryPaper = access.every((a) =>
+    bundle.tier === 'with-solutions' ? a.purchasedWithSolutions : a.purchased
+  );
+
+  if (ownsEveryPaper) {
+    return { error: 'You already own every paper in this bundle', status: 400 };
+  }
+
+  return { price: getBundlePrice(bundle), papers: papers.map((paper) => paper._id) };
+}
+
+/**
+ * Grant completed transactions' papers to their owner
+ * All papers are added in a single user update, purchased papers leave the cart,
+ * bulk seat purchases hand seats to the members chosen at checkout,
+ * coupon uses returned while the order was unpaid are counted again, paid transactions are invoiced,
+ * sellers' shares are recorded, and a first paid purchase rewards the
+ * referral the buyer signed up with
+ * Expects an open database connection
+ * @param transactions - Completed transactions belonging to one user
+ */
+export async function grantPurchases(transactions: ITransaction[]): Promise<void> {
+  if (transactions.length === 0) {
+    return;
+  }
+
+  const ownPurchases = transactions.filter((t) => !t.seats);
+  const paperIds = ownPurchases.flatMap(getTransactionPapers);
+
+  // Add papers to the buyer's purchased papers
+  if (paperIds.length > 0) {
+    await User.findByIdAndUpdate(transactions[0].userId, {
+      $addToSet: { purchasedPapers: { $each: paperIds } },
+      $pull: { cart: { paperId: { $in: paperIds } } },
+    });
+  }
+
+  // Increment paper download count (upgrades are not a new sale)
+  const newSales = ownPurchases.filter((t) => !t.upgradedFrom).flatMap(getTransactionPapers);
+
+  if (newSales.length > 0) {
+    await Paper.updateMany({ _id: { $in: newSales } }, { $inc: { downloads: 1 } });
+  }
+
+  for (const purchase of transactions.filter((t) => t.seats)) {
+    const result = await grantSeats(purchase, purchase.seatHolders);
+
+    if (result.error !== undefined) {
+      console.error(`Could not assign seats for transaction ${purchase._id}: ${result.error}`);
+    }
+  }
+
+  await recordCouponRedemptions(transactions);
+  await issueInvoices(transactions);
+  await recordSellerShares(transactions);
+  await rewardReferral(transactions);
+}
+
+/**
+ * Result of handing out seats from a bulk purchase
+ */
+export type SeatGrantResult =
+  | { seats: ITransaction[]; error?: undefined }
+  | { error: string; status: number };
+
+/**
+ * Hand seats from a completed bulk seat purchase to members of its organization
+ * Each seat is a zero-amount completed transaction owned by the member, so it
+ * carries its own download quota. Users who are not members, or who already
+ * hold a seat from this purchase, are skipped.
+ * Expects an open database connection
+ * @param purchase - Completed bulk seat purchase
+ * @param userIds - Members to give a seat to
+ * @returns Promise with the seat transactions created, or an error and HTTP status
+ */
+export async function grantSeats(
+  purchase: ITransaction,
+  userIds: (string | mongoose.Types.ObjectId)[]
+): Promise<SeatGrantResult> {
+  if (!purchase.seats || !purchase.organizationId || !purchase.paperId) {
+    return { error: 'Not a seat purchase', status: 400 };
+  }
+
+  const members = await User.find({
+    _id: { $in: userIds },
+    organizationId: purchase.organizationId,
+  }).select('_id');
+
+  const holders: mongoose.Types.ObjectId[] = await Transaction.distinct('userId', {
+    seatOf: purchase._id,
+    status: 'completed',
+  });
+
+  const recipients = members
+    .map((member) => member._id)
+    .filter((id) => !holders.some((holder) => holder.equals(id)));
+
+  if (recipients.length === 0) {
+    return { seats: [] };
+  }
+
+  // Reserve the seats first so concurrent assignments cannot oversell the purchase
+  const reserved = await Transaction.findOneAndUpdate(
+    {
+      _id: purchase._id,
+      status: 'completed',
+      $expr: { $lte: [{ $add: [{ $ifNull: ['$seatsAssigned', 0] }, recipients.length] }, '$seats'] },
+    },
+    { $inc: { seatsAssigned: recipients.length } },
+    { new: true }
+  );
+
+  if (!reserved) {
+    return { error: 'Not enough seats left on this purchase', status: 409 };
+  }
+
+  const seats = await Transaction.insertMany(
+    recipients.map((userId) => ({
+      userId,
+      paperId: purchase.paperId,
+      amount: 0,
+      currency: purchase.currency,
+      tier: purchase.tier,
+      organizationId: purchase.organizationId,
+      seatOf: purchase._id,
+      paymentMethod: 'seat',
+      razorpayOrderId: `seat_${purchase._id}`,
+      status: 'completed',
+    }))
+  );
+
+  await User.updateMany(
+    { _id: { $in: recipients } },
+    {
+      $addToSet: { purchasedPapers: purchase.paperId },
+      $pull: { cart: { paperId: purchase.paperId } },
+    }
+  );
+
+  await Paper.updateOne({ _id: purchase.paperId }, { $inc: { downloads: recipients.length } });
+
+  return { seats: seats as unknown as ITransaction[] };
+}
+
+/**
+ * Grant a single completed transaction's paper to its owner
+ * Expects an open database connection
+ * @param transaction - Completed transaction
+ */
+export async function grantPurchase(transaction: ITransaction): Promise<void> {
+  await grantPurchases([transaction]);
+}
+
+/**
+ * Complete every open line item of a gateway order and grant the papers
+ * Each line item is flipped individually, so when the verify route and the
+ * webhook race, every transaction is completed and granted exactly once.
+ * Expects an open database connection
+ * @param razorpayOrderId - Gateway order ID shared by the line items
+ * @param payment - Payment ID and (from the checkout callback) signature
+ * @returns Promise with the transactions completed by this call
+ */
+export async function completeOrder(
+  razorpayOrderId: string,
+  payment: { razorpayPaymentId: string; razorpaySignature?: string }
+): Promise<ITransaction[]> {
+  const open = await Transaction.find({
+    razorpayOrderId,
+    status: { $in: ['pending', 'failed'] },
+  }).select('_id');
+
+  const completed: ITransaction[] = [];
+
+  for (const { _id } of open) {
+    const transaction = await Transaction.findOneAndUpdate(
+      { _id, status: { $in: ['pending', 'failed'] } },
+      { $set: { ...payment, status: 'completed' } },
+      { new: true }
+    );
+
+    if (transaction) {
+      completed.push(transaction);
+    }
+  }
+
+  // Paid after expiry returned the held wallet credit: the credit is spent after all
+  for (const transaction of completed) {
+    if (transaction.walletAmount && transaction.walletReleased) {
+      await debitWallet(
+        transaction.userId,
+        transaction.walletAmount,
+        { reason: 'purchase', transactionId: transaction._id },
+        { allowNegative: true }
+      );
+      await Transaction.updateOne({ _id: transaction._id }, { $unset: { walletReleased: 1 } });
+    }
+  }
+
+  await grantPurchases(completed);
+
+  return completed;
+}
+
+/**
+ * Get the part of a transaction charged through the gateway
+ * @param transaction - Transaction document
+ * @returns Amount in major currency units, excluding any wallet credit used
+ */
+export function getGatewayAmount(transaction: Pick<ITransaction, 'amount' | 'walletAmount'>): number {
+  return transaction.amount - (transaction.walletAmount || 0);
+}
+
+/**
+ * Get the total charged through the gateway for an order across its line items
+ * @param transactions - Line items sharing one gateway order
+ * @returns Total in major currency units
+ */
+export function getOrderTotal(transactions: Pick<ITransaction, 'amount' | 'walletAmount'>[]): number {
+  return transactions.reduce((sum, t) => sum + getGatewayAmount(t), 0);
+}
+
+/**
+ * Revoke a refunded transaction's papers from its owner
+ * A paper stays in purchasedPapers if another completed purchase still covers it.
+ * Refunding a bulk seat purchase revokes every seat handed out from it.
+ * Wallet credit spent on the transaction is returned to the wallet, and a
+ * referral reward it earned is taken back.
+ * Expects an open database connection
+ * @param transaction - Refunded transaction
+ */
+export async function revokePurchase(transaction: ITransaction): Promise<void> {
+  await reverseReferralReward(transaction);
+
+  if (transaction.seats) {
+    const seats = await Transaction.find({ seatOf: transaction._id, status: 'completed' }).select('_id');
+
+    for (const { _id } of seats) {
+      const seat = await Transaction.findOneAndUpdate(
+        { _id, status: 'completed' },
+        { $set: { status: 'refunded' } },
+        { new: true }
+      );
+
+      if (seat) {
+        await revokePurchase(seat);
+      }
+    }
+
+    return;
+  }
+
+  const paperIds = getTransactionPapers(transaction);
+  const revoked: mongoose.Types.ObjectId[] = [];
+
+  for (const paperId of paperIds) {
+    const otherPurchase = await Transaction.exists({
+      _id: { $ne: transaction._id },
+      userId: transaction.userId,
+      ...coversPaper(paperId),
+      status: 'completed',
+    });
+
+    if (!otherPurchase) {
+      revoked.push(paperId);
+    }
+  }
+
+  if (revoked.length > 0) {
+    await User.findByIdAndUpdate(transaction.userId, {
+      $pull: { purchasedPapers: { $in: revoked } },
+    });
+  }
+
+  if (!transaction.upgradedFrom) {
+    await Paper.updateMany(
+      { _id: { $in: paperIds }, downloads: { $gt: 0 } },
+      { $inc: { downloads: -1 } }
+    );
+  }
+
+  if (transaction.walletAmount && !transaction.walletReleased) {
+    await creditWallet(transaction.userId, transaction.walletAmount, {
+      reason: 'refund',
+      transactionId: transaction._id,
+    });
+  }
+}
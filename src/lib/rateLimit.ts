@@ -0,0 +1,99 @@
+/**
+ * Rate Limiting Utilities
+ * Fixed-window counters stored in MongoDB so limits hold across server instances
+ */
+
+import { NextRequest } from 'next/server';
+import RateLimit from '@/models/RateLimit';
+
+// Header a trusted platform sets to the client address, e.g. 'x-real-ip' or 'cf-connecting-ip'
+const CLIENT_IP_HEADER = process.env.CLIENT_IP_HEADER?.toLowerCase();
+
+// Proxies in front of the app that append to X-Forwarded-For (default: 1)
+const TRUSTED_PROXY_HOPS = parseInt(process.env.TRUSTED_PROXY_HOPS || '1');
+
+/**
+ * Rate limit check result
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfter: number; // Seconds until the window resets
+}
+
+/**
+ * Count a hit against a rate limit key
+ * Expects an open database connection
+ * @param key - Limit key (e.g., 'claim:user:<id>', 'claim:ip:<ip>')
+ * @param limit - Maximum hits allowed per window
+ * @param windowSeconds - Window length in seconds
+ * @returns Promise with whether the hit is allowed
+ */
+export async function checkRateLimit(
+  key: string,
+  limit: number,
+  windowSeconds: number
+): Promise<RateLimitResult> {
+  const now = new Date();
+
+  // Count against the current window if one is open
+  let entry = await RateLimit.findOneAndUpdate(
+    { key, expiresAt: { $gt: now } },
+    { $inc: { count: 1 } },
+    { new: true }
+  );
+
+  if (!entry) {
+    try {
+      // Start a new window (replaces an expired one not yet removed by the TTL index)
+      entry = await RateLimit.findOneAndUpdate(
+        { key, expiresAt: { $lte: now } },
+        { $set: { count: 1, expiresAt: new Date(now.getTime() + windowSeconds * 1000) } },
+        { new: true, upsert: true }
+      );
+    } catch (error) {
+      // Another request opened the window first
+      if ((error as { code?: number }).code !== 11000) throw error;
+
+      entry = await RateLimit.findOneAndUpdate(
+        { key },
+        { $inc: { count: 1 } },
+        { new: true }
+      );
+    }
+  }
+
+  const count = entry?.count ?? 1;
+  const expiresAt = entry?.expiresAt ?? now;
+
+  return {
+    allowed: count <= limit,
+    remaining: Math.max(limit - count, 0),
+    retryAfter: Math.max(Math.ceil((expiresAt.getTime() - now.getTime()) / 1000), 0),
+  };
+}
+
+/**
+ * Get the client IP address from proxy headers
+ * Only addresses added by the proxies in front of the app are trusted: with
+ * CLIENT_IP_HEADER set, the platform's client-IP header is used; otherwise the
+ * X-Forwarded-For entry TRUSTED_PROXY_HOPS from the right (default: 1, the
+ * address the last proxy saw). Entries further left are whatever the client sent.
+ * @param request - Incoming request
+ * @returns Client IP, or 'unknown' if not available
+ */
+export function getClientIp(request: NextRequest | Request | { headers: Headers }): string {
+  if (CLIENT_IP_HEADER) {
+    return request.headers.get(CLIENT_IP_HEADER)?.trim() || 'unknown';
+  }
+
+  const forwardedFor = request.headers.get('x-forwarded-for');
+
+  if (!forwardedFor || TRUSTED_PROXY_HOPS < 1) {
+    return 'unknown';
+  }
+
+  const hops = forwardedFor.split(',').map((hop) => hop.trim()).filter(Boolean);
+
+  return hops[Math.max(hops.length - TRUSTED_PROXY_HOPS, 0)] || 'unknown';
+}
@@ -0,0 +1,186 @@
+/**
+ * Razorpay Checkout (client-side)
+ * Opens the Razorpay checkout for an order or subscription and verifies the payment on success
+ */
+
+/**
+ * Order returned by the create-order and checkout-cart routes
+ */
+export interface CheckoutOrder {
+  orderId: string;
+  amount: number;
+  currency: string;
+  gateway?: 'razorpay' | 'mock';
+}
+
+/**
+ * Subscription returned by POST /api/subscriptions
+ */
+export interface CheckoutSubscription {
+  gatewaySubscriptionId: string;
+  gateway?: 'razorpay' | 'mock';
+}
+
+interface RazorpayHandlerResponse {
+  razorpay_payment_id: string;
+  razorpay_order_id?: string;
+  razorpay_subscription_id?: string;
+  razorpay_signature: string;
+}
+
+interface CheckoutOptions {
+  description?: string;
+  prefill?: { email?: string | null; name?: string | null };
+  onVerified: () => void;
+  onFailed: (message: string) => void;
+}
+
+/**
+ * Post a Checkout response to a verify route and report the outcome
+ * @param verifyUrl - Route that verifies the payment signature
+ * @param body - Verify request body
+ * @param options - Result callbacks
+ */
+async function verifyPayment(
+  verifyUrl: string,
+  body: Record<string, unknown>,
+  options: CheckoutOptions
+): Promise<void> {
+  const verifyResponse = await fetch(verifyUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  if (verifyResponse.ok) {
+    options.onVerified();
+  } else {
+    options.onFailed('Payment verification failed');
+  }
+}
+
+/**
+ * Pay an order on the mock gateway instead of opening Razorpay
+ * @param order - Order created by the server on the mock gateway
+ * @param options - Result callbacks
+ */
+async function payMockOrder(order: CheckoutOrder, options: CheckoutOptions): Promise<void> {
+  const response = await fetch('/api/payment/mock/pay', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ orderId: order.orderId }),
+  });
+
+  if (!response.ok) {
+    options.onFailed('Mock payment failed');
+    return;
+  }
+
+  await verifyPayment('/api/payment/verify', await response.json(), options);
+}
+
+/**
+ * Pay the first cycle of a subscription on the mock gateway instead of opening Razorpay
+ * @param subscription - Subscription created by the server on the mock gateway
+ * @param options - Result callbacks
+ */
+async function payMockSubscription(subscription: CheckoutSubscription, options: CheckoutOptions): Promise<void> {
+  const response = await fetch('/api/payment/mock/pay-subscription', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ gatewaySubscriptionId: subscription.gatewaySubscriptionId }),
+  });
+
+  if (!response.ok) {
+    options.onFailed('Mock payment failed');
+    return;
+  }
+
+  await verifyPayment('/api/subscriptions/verify', await response.json(), options);
+}
+
+/**
+ * Open the Razorpay checkout and post the handler response to a verify route
+ * @param checkout - Order or subscription specific checkout options
+ * @param verifyUrl - Route that verifies the payment signature
+ * @param toVerifyBody - Builds the verify request body from the handler response
+ * @param options - Display details and result callbacks
+ */
+function openCheckout(
+  checkout: Record<string, unknown>,
+  verifyUrl: string,
+  toVerifyBody: (response: RazorpayHandlerResponse) => Record<string, unknown>,
+  options: CheckoutOptions
+): void {
+  const razorpayOptions = {
+    key: process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID,
+    name: 'Star Paper',
+    description: options.description,
+    ...checkout,
+    handler: (response: RazorpayHandlerResponse) => {
+      verifyPayment(verifyUrl, toVerifyBody(response), options)
+        .catch(() => options.onFailed('Payment verification failed'));
+    },
+    prefill: {
+      email: options.prefill?.email,
+      name: options.prefill?.name,
+    },
+    theme: {
+      color: '#2563eb',
+    },
+  };
+
+  const razorpay = new (window as unknown as { Razorpay: new (options: object) => { open: () => void } }).Razorpay(razorpayOptions);
+  razorpay.open();
+}
+
+/**
+ * Open the Razorpay checkout for an order
+ * Orders on the mock gateway are paid straight away without a popup
+ * @param order - Order created by the server
+ * @param options - Display details and result callbacks
+ */
+export function openRazorpayCheckout(order: CheckoutOrder, options: CheckoutOptions): void {
+  if (order.gateway === 'mock') {
+    payMockOrder(order, options).catch(() => options.onFailed('Mock payment failed'));
+    return;
+  }
+
+  openCheckout(
+    { amount: order.amount, currency: order.currency, order_id: order.orderId },
+    '/api/payment/verify',
+    (response) => ({
+      razorpay_payment_id: response.razorpay_payment_id,
+      razorpay_order_id: response.razorpay_order_id,
+      razorpay_signature: response.razorpay_signature,
+    }),
+    options
+  );
+}
+
+/**
+ * Open the Razorpay checkout for the first payment of a subscription
+ * Subscriptions on the mock gateway are paid straight away without a popup
+ * @param subscription - Subscription returned by POST /api/subscriptions
+ * @param options - Display details and result callbacks
+ */
+export function openRazorpaySubscriptionCheckout(
+  subscription: CheckoutSubscription,
+  options: CheckoutOptions
+): void {
+  if (subscription.gateway === 'mock') {
+    payMockSubscription(subscription, options).catch(() => options.onFailed('Mock payment failed'));
+    return;
+  }
+
+  openCheckout(
+    { subscription_id: subscription.gatewaySubscriptionId },
+    '/api/subscriptions/verify',
+    (response) => ({
+      razorpay_payment_id: response.razorpay_payment_id,
+      razorpay_subscription_id: response.razorpay_subscription_id,
+      razorpay_signature: response.razorpay_signature,
+    }),
+    options
+  );
+}
@@ -0,0 +1,272 @@
+/**
+ * Razorpay Webhook Utilities
+ * Applies verified payment, refund and subscription events
+ */
+
+import Transaction from '@/models/Transaction';
+import { completeOrder, getGatewayAmount, getOrderTotal, revokePurchase } from './purchases';
+import { getRefundedAmount } from './refunds';
+import { BASE_CURRENCY, fromMinorUnits, toMinorUnits } from './currency';
+import { recordSubscriptionPayment, setSubscriptionStatus } from './subscriptions';
+import { releaseCouponReservation } from './coupons';
+import { creditWallet } from './wallet';
+
+/**
+ * Subset of the Razorpay webhook body used by the handlers
+ */
+export interface RazorpayWebhookEvent {
+  event: string;
+  payload: {
+    payment?: {
+      entity: {
+        id: string;
+        order_id: string;
+        amount: number; // In minor units
+        currency: string;
+        status: string;
+        error_description?: string | null;
+      };
+    };
+    refund?: {
+      entity: {
+        id: string;
+        payment_id: string;
+        amount: number; // In minor units
+        notes?: Record<string, string> | string[];
+      };
+    };
+    subscription?: {
+      entity: {
+        id: string;
+        status: string;
+        current_start?: number | null; // Unix timestamp (seconds)
+        current_end?: number | null;
+      };
+    };
+  };
+}
+
+/**
+ * Outcome of handling a webhook event, for logging and the response body
+ */
+export interface WebhookResult {
+  handled: boolean;
+  message: string;
+}
+
+/**
+ * Mark a pending (or previously failed) order as completed and grant access
+ */
+async function handlePaymentCaptured(event: RazorpayWebhookEvent): Promise<WebhookResult> {
+  const payment = event.payload.payment?.entity;
+
+  if (!payment) {
+    return { handled: false, message: 'Missing payment entity' };
+  }
+
+  // Idempotent on the payment ID: a redelivered event finds nothing to update
+  const alreadyApplied = await Transaction.exists({ razorpayPaymentId: payment.id, status: 'completed' });
+
+  if (alreadyApplied) {
+    return { handled: true, message: 'Payment already applied' };
+  }
+
+  // A cart order has one transaction per paper, all sharing the order ID
+  const transactions = await Transaction.find({ razorpayOrderId: payment.order_id });
+
+  if (transactions.length === 0) {
+    return { handled: false, message: `No transaction for order ${payment.order_id}` };
+  }
+
+  const expectedAmount = toMinorUnits(getOrderTotal(transactions), transactions[0].currency);
+
+  if (expectedAmount !== payment.amount) {
+    console.error(
+      `[Razorpay Webhook] Amount mismatch for order ${payment.order_id}: expected ${expectedAmount}, got ${payment.amount}`
+    );
+    return { handled: false, message: 'Amount mismatch' };
+  }
+
+  const completed = await completeOrder(payment.order_id, { razorpayPaymentId: payment.id });
+
+  if (completed.length === 0) {
+    return { handled: true, message: 'Order already processed' };
+  }
+
+  return { handled: true, message: `${completed.length} transaction(s) completed` };
+}
+
+/**
+ * Mark a pending order as failed and return the wallet credit and coupon uses it held
+ * A retried payment that later succeeds takes the wallet credit again on completion
+ */
+async function handlePaymentFailed(event: RazorpayWebhookEvent): Promise<WebhookResult> {
+  const payment = event.payload.payment?.entity;
+
+  if (!payment) {
+    return { handled: false, message: 'Missing payment entity' };
+  }
+
+  const pending = await Transaction.find({ razorpayOrderId: payment.order_id, status: 'pending' })
+    .select('_id walletAmount');
+  let failed = 0;
+
+  for (const { _id, walletAmount } of pending) {
+    const transaction = await Transaction.findOneAndUpdate(
+      { _id, status: 'pending' },
+      { $set: { status: 'failed', razorpayPaymentId: payment.id, ...(walletAmount && { walletReleased: true }) } },
+      { new: true }
+    );
+
+    if (!transaction) continue;
+
+    failed++;
+
+    if (transaction.walletAmount) {
+      await creditWallet(transaction.userId, transaction.walletAmount, {
+        reason: 'payment-failed',
+        transactionId: transaction._id,
+      });
+    }
+
+    await releaseCouponReservation(transaction._id);
+  }
+
+  return {
+    handled: true,
+    message: failed > 0 ? `${failed} transaction(s) failed` : 'No pending transaction to fail',
+  };
+}
+
+/**
+ * Record a refund and revoke access once the payment is fully refunded
+ */
+async function handleRefundProcessed(event: RazorpayWebhookEvent): Promise<WebhookResult> {
+  const refund = event.payload.refund?.entity;
+
+  if (!refund) {
+    return { handled: false, message: 'Missing refund entity' };
+  }
+
+  // Idempotent on the refund ID (refunds issued from the admin panel are already recorded)
+  const alreadyApplied = await Transaction.exists({ 'refunds.razorpayRefundId': refund.id });
+
+  if (alreadyApplied) {
+    return { handled: true, message: 'Refund already applied' };
+  }
+
+  // A payment can cover several line items; refunds we issue carry the transaction ID in notes
+  const notes = Array.isArray(refund.notes) ? {} : refund.notes || {};
+  const lineItems = await Transaction.find({ razorpayPaymentId: refund.payment_id, status: 'completed' }).select('_id currency');
+  const target = notes.transactionId || (lineItems.length === 1 ? lineItems[0]._id.toString() : null);
+
+  if (!target) {
+    console.error(`[Razorpay Webhook] Cannot attribute refund ${refund.id} to a line item of payment ${refund.payment_id}`);
+    return { handled: false, message: 'Refund could not be attributed to a transaction' };
+  }
+
+  // Every line item of a payment shares the order's currency
+  const currency = lineItems[0]?.currency || BASE_CURRENCY;
+
+  const transaction = await Transaction.findOneAndUpdate(
+    {
+      _id: target,
+      razorpayPaymentId: refund.payment_id,
+      status: 'completed',
+      'refunds.razorpayRefundId': { $ne: refund.id },
+    },
+    { $push: { refunds: { razorpayRefundId: refund.id, amount: fromMinorUnits(refund.amount, currency) } } },
+    { new: true }
+  );
+
+  if (!transaction) {
+    return { handled: true, message: 'Refund already applied or transaction not completed' };
+  }
+
+  if (getRefundedAmount(transaction) < getGatewayAmount(transaction)) {
+    return { handled: true, message: 'Partial refund recorded' };
+  }
+
+  const refunded = await Transaction.findOneAndUpdate(
+    { _id: transaction._id, status: 'completed' },
+    { $set: { status: 'refunded' } },
+    { new: true }
+  );
+
+  if (refunded) {
+    await revokePurchase(refunded);
+  }
+
+  return { handled: true, message: 'Transaction refunded' };
+}
+
+/**
+ * Extend a subscription for a successful renewal charge
+ */
+async function handleSubscriptionCharged(event: RazorpayWebhookEvent): Promise<WebhookResult> {
+  const subscription = event.payload.subscription?.entity;
+  const payment = event.payload.payment?.entity;
+
+  if (!subscription || !payment || !subscription.current_start || !subscription.current_end) {
+    return { handled: false, message: 'Missing subscription or payment entity' };
+  }
+
+  const updated = await recordSubscriptionPayment(subscription.id, {
+    paymentId: payment.id,
+    periodStart: new Date(subscription.current_start * 1000),
+    periodEnd: new Date(subscription.current_end * 1000),
+  });
+
+  return { handled: true, message: updated ? 'Subscription renewed' : 'Charge already recorded' };
+}
+
+/**
+ * Mirror a subscription status change (payment failures, cancellation, completion)
+ */
+async function handleSubscriptionStatus(event: RazorpayWebhookEvent): Promise<WebhookResult> {
+  const subscription = event.payload.subscription?.entity;
+
+  if (!subscription) {
+    return { handled: false, message: 'Missing subscription entity' };
+  }
+
+  const status = event.event === 'subscription.completed'
+    ? 'completed'
+    : event.event === 'subscription.cancelled'
+      ? 'cancelled'
+      : 'halted';
+
+  const updated = await setSubscriptionStatus(subscription.id, status);
+
+  if (!updated) {
+    return { handled: false, message: `No subscription ${subscription.id}` };
+  }
+
+  return { handled: true, message: `Subscription ${status}` };
+}
+
+/**
+ * Apply a verified webhook event
+ * Expects an open database connection
+ * @param event - Parsed webhook body
+ * @returns Promise with the handling outcome
+ */
+export async function handleWebhookEvent(event: RazorpayWebhookEvent): Promise<WebhookResult> {
+  switch (event.event) {
+    case 'payment.captured':
+      return handlePaymentCaptured(event);
+    case 'payment.failed':
+      return handlePaymentFailed(event);
+    case 'refund.processed':
+      return handleRefundProcessed(event);
+    case 'subscription.charged':
+      return handleSubscriptionCharged(event);
+    case 'subscription.pending':
+    case 'subscription.halted':
+    case 'subscription.cancelled':
+    case 'subscription.completed':
+      return handleSubscriptionStatus(event);
+    default:
+      return { handled: false, message: `Ignored event ${event.event}` };
+  }
+}
@@ -0,0 +1,289 @@
+/**
+ * Referral Utilities
+ * Invite codes, self-referral checks at signup, and the wallet reward paid to
+ * both sides once the referred student makes their first paid purchase.
+ * A purchase qualifies whether it was paid through Razorpay or the wallet and
+ * with or without a coupon, as long as something was paid: free claims and
+ * purchases a coupon covered in full cost nothing, so anyone could collect
+ * rewards with them. The reward is taken back if that purchase is refunded.
+ */
+
+import crypto from 'crypto';
+import User, { IUser } from '@/models/User';
+import Referral, { IReferral } from '@/models/Referral';
+import type { ITransaction } from '@/models/Transaction';
+import { creditWallet, debitWallet } from './wallet';
+
+// Wallet credit in INR given to the referrer and the referred student (default: ₹50)
+export const REFERRAL_REWARD_AMOUNT = parseFloat(process.env.REFERRAL_REWARD_AMOUNT || '50');
+
+// Rewarded referrals allowed per referrer (default: 25)
+export const REFERRAL_MAX_REWARDS = parseInt(process.env.REFERRAL_MAX_REWARDS || '25');
+
+// No 0/O or 1/I, so codes survive being read out loud
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+/**
+ * Generate a random referral code
+ * @returns Code such as 'K7QX2MPA'
+ */
+function generateReferralCode(): string {
+  const bytes = crypto.randomBytes(CODE_LENGTH);
+
+  return [...bytes].map((byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+}
+
+/**
+ * Get a user's referral code, assigning one if they do not have it yet
+ * Expects an open database connection
+ * @param userId - User ID
+ * @returns Promise with the code, or null if the user does not exist
+ */
+export async function getReferralCode(userId: string): Promise<string | null> {
+  const user = await User.findById(userId).select('referralCode').lean();
+
+  if (!user) {
+    return null;
+  }
+
+  if (user.referralCode) {
+    return user.referralCode;
+  }
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    try {
+      const updated = await User.findOneAndUpdate(
+        { _id: userId, referralCode: { $exists: false } },
+        { $set: { referralCode: generateReferralCode() } },
+        { new: true }
+      ).select('referralCode');
+
+      if (updated?.referralCode) {
+        return updated.referralCode;
+      }
+
+      // Assigned by a concurrent request
+      const current = await User.findById(userId).select('referralCode').lean();
+      return current?.referralCode ?? null;
+    } catch (error) {
+      // Code already taken by someone else; try another
+      if ((error as { code?: number }).code !== 11000) throw error;
+    }
+  }
+
+  throw new Error('Could not assign a unique referral code');
+}
+
+/**
+ * Find the user a referral code belongs to
+ * Expects an open database connection
+ * @param code - Referral code as entered
+ * @returns Promise with the referrer, or null for an unknown code
+ */
+export async function findReferrer(code: string): Promise<IUser | null> {
+  return User.findOne({ referralCode: code.trim().toUpperCase() }).select('+signupIp email phone');
+}
+
+/**
+ * Reduce an email address to the mailbox it delivers to
+ * Gmail ignores dots and '+tag' suffixes, a common way to mint extra accounts
+ * @param email - Email address
+ * @returns Canonical address
+ */
+function canonicalEmail(email: string): string {
+  const [local, domain = ''] = email.toLowerCase().split('@');
+  const mailbox = local.split('+')[0];
+
+  if (domain === 'gmail.com' || domain === 'googlemail.com') {
+    return `${mailbox.replaceAll('.', '')}@gmail.com`;
+  }
+
+  return `${mailbox}@${domain}`;
+}
+
+const digitsOnly = (phone?: string) => (phone || '').replace(/\D/g, '').slice(-10);
+
+/**
+ * Check a new signup for signs that the referrer is referring themselves
+ * Expects an open database connection
+ * @param referrer - Owner of the code
+ * @param referee - Newly registered user
+ * @param ip - Signup IP address
+ * @returns Promise with the reason to reject the referral, or null if it looks genuine
+ */
+async function findSelfReferral(
+  referrer: Pick<IUser, '_id' | 'email' | 'phone' | 'signupIp'>,
+  referee: Pick<IUser, '_id' | 'email' | 'phone'>,
+  ip: string
+): Promise<string | null> {
+  if (referrer._id.equals(referee._id)) {
+    return 'Own referral code';
+  }
+
+  if (canonicalEmail(referrer.email) === canonicalEmail(referee.email)) {
+    return 'Same mailbox as referrer';
+  }
+
+  if (digitsOnly(referee.phone) && digitsOnly(referee.phone) === digitsOnly(referrer.phone)) {
+    return 'Same phone number as referrer';
+  }
+
+  if (ip !== 'unknown') {
+    if (referrer.signupIp === ip) {
+      return 'Same signup IP as referrer';
+    }
+
+    const sameIp = await Referral.exists({ referrerId: referrer._id, signupIp: ip });
+
+    if (sameIp) {
+      return 'Another referral from this IP';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Record that a new user signed up with a referral code
+ * Suspicious signups are kept as rejected referrals for admins to review
+ * Expects an open database connection
+ * @param referrer - Owner of the code
+ * @param referee - Newly registered user
+ * @param code - Code used
+ * @param ip - Signup IP address
+ * @returns Promise with the referral
+ */
+export async function recordReferral(
+  referrer: IUser,
+  referee: IUser,
+  code: string,
+  ip: string
+): Promise<IReferral> {
+  const rejectionReason = await findSelfReferral(referrer, referee, ip);
+
+  await User.updateOne({ _id: referee._id }, { $set: { referredBy: referrer._id } });
+
+  return Referral.create({
+    referrerId: referrer._id,
+    refereeId: referee._id,
+    code: code.trim().toUpperCase(),
+    signupIp: ip !== 'unknown' ? ip : undefined,
+    ...(rejectionReason && { status: 'rejected', rejectionReason }),
+  });
+}
+
+/**
+ * Reward a pending referral once the referred user completes a paid purchase
+ * Both sides get REFERRAL_REWARD_AMOUNT of wallet credit, at most once per referral.
+ * Purchases that paid nothing (free claims, seats, full coupons) do not qualify.
+ * Failures are logged rather than thrown so they never undo a completed payment.
+ * Expects an open database connection
+ * @param transactions - Newly completed transactions belonging to one user
+ */
+export async function rewardReferral(transactions: ITransaction[]): Promise<void> {
+  const qualifying = transactions.find(
+    (t) => t.paymentMethod !== 'free' && t.paymentMethod !== 'seat' && t.amount > 0
+  );
+
+  if (!qualifying) {
+    return;
+  }
+
+  try {
+    const pending = await Referral.findOne({ refereeId: qualifying.userId, status: 'pending' });
+
+    if (!pending) {
+      return;
+    }
+
+    const rewarded = await Referral.countDocuments({ referrerId: pending.referrerId, status: 'rewarded' });
+
+    if (rewarded >= REFERRAL_MAX_REWARDS) {
+      await Referral.updateOne(
+        { _id: pending._id, status: 'pending' },
+        { $set: { status: 'rejected', rejectionReason: 'Referrer reached the reward limit' } }
+      );
+      return;
+    }
+
+    // Flip first so concurrent completions pay out once
+    const referral = await Referral.findOneAndUpdate(
+      { _id: pending._id, status: 'pending' },
+      {
+        $set: {
+          status: 'rewarded',
+          rewardAmount: REFERRAL_REWARD_AMOUNT,
+          qualifyingTransactionId: qualifying._id,
+          rewardedAt: new Date(),
+        },
+      },
+      { new: true }
+    );
+
+    if (!referral) {
+      return;
+    }
+
+    await creditWallet(referral.referrerId, REFERRAL_REWARD_AMOUNT, {
+      reason: 'referral',
+      transactionId: qualifying._id,
+      note: 'A friend you invited made their first purchase',
+    });
+    await creditWallet(referral.refereeId, REFERRAL_REWARD_AMOUNT, {
+      reason: 'referral',
+      transactionId: qualifying._id,
+      note: 'Welcome reward for joining with a referral code',
+    });
+  } catch (error) {
+    console.error(`Error rewarding referral for user ${qualifying.userId}:`, error);
+  }
+}
+
+/**
+ * Take back a referral reward when the purchase that earned it is refunded
+ * The referral is marked rejected so it cannot pay out again, and the credit
+ * is debited from both wallets even if it has already been spent.
+ * Failures are logged rather than thrown so they never block a refund.
+ * Expects an open database connection
+ * @param transaction - Fully refunded transaction
+ */
+export async function reverseReferralReward(transaction: ITransaction): Promise<void> {
+  try {
+    // Flip first so a refund processed twice reverses once
+    const referral = await Referral.findOneAndUpdate(
+      { qualifyingTransactionId: transaction._id, status: 'rewarded' },
+      { $set: { status: 'rejected', rejectionReason: 'Qualifying purchase was refunded' } },
+      { new: true }
+    );
+
+    if (!referral) {
+      return;
+    }
+
+    const amount = referral.rewardAmount ?? REFERRAL_REWARD_AMOUNT;
+
+    await debitWallet(
+      referral.referrerId,
+      amount,
+      {
+        reason: 'referral-reversed',
+        transactionId: transaction._id,
+        note: 'The purchase that earned this reward was refunded',
+      },
+      { allowNegative: true }
+    );
+    await debitWallet(
+      referral.refereeId,
+      amount,
+      {
+        reason: 'referral-reversed',
+        transactionId: transaction._id,
+        note: 'The purchase that earned this reward was refunded',
+      },
+      { allowNegative: true }
+    );
+  } catch (error) {
+    console.error(`Error reversing referral reward for transaction ${transaction._id}:`, error);
+  }
+}
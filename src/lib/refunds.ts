@@ -0,0 +1,233 @@
+/**
+ * Refund Utilities
+ * Issues full or partial refunds for completed transactions.
+ * Wallet credit spent on a purchase goes back to the wallet once it is fully refunded,
+ * and fully refunding a purchase also refunds the upgrade bought on top of it
+ */
+
+import Transaction, { ITransaction } from '@/models/Transaction';
+import { getGatewayAmount, revokePurchase } from './purchases';
+import { recordAudit } from './audit';
+import { getPaymentGateway, PaymentGateway } from './paymentGateway';
+import { toMinorUnits } from './currency';
+
+/**
+ * Gateway client used to issue refunds
+ * Injectable so refunds can be exercised without calling Razorpay
+ */
+export type RefundGateway = Pick<PaymentGateway, 'refund'>;
+
+/**
+ * Refund request options
+ */
+export interface RefundOptions {
+  amount?: number; // Major currency units; omit for a full refund of the remaining balance
+  reason: string;
+  adminId: string;
+}
+
+/**
+ * Refund result
+ */
+export type RefundResult =
+  | { transaction: ITransaction; refundId?: string; amount: number; error?: undefined }
+  | { error: string; status: number };
+
+/**
+ * Get how much of a transaction has already been refunded
+ * @param transaction - Transaction document
+ * @returns Refunded amount in major currency units
+ */
+export function getRefundedAmount(transaction: Pick<ITransaction, 'refunds'>): number {
+  return transaction.refunds.reduce((sum, refund) => sum + refund.amount, 0);
+}
+
+/**
+ * Refund a purchase paid entirely from the wallet
+ * Always a full refund: the transaction is flipped to 'refunded' and
+ * revoking it returns the credit to the wallet
+ * @param transaction - Completed wallet transaction
+ * @param options - Reason and acting admin
+ * @param gateway - Refund gateway client, for the upgrades refunded with it
+ * @returns Promise with the updated transaction, or an error and HTTP status
+ */
+async function refundToWallet(
+  transaction: ITransaction,
+  options: RefundOptions,
+  gateway: RefundGateway
+): Promise<RefundResult> {
+  if (options.amount !== undefined && options.amount !== transaction.amount) {
+    return { error: 'Wallet purchases can only be refunded in full', status: 400 };
+  }
+
+  const refunded = await Transaction.findOneAndUpdate(
+    { _id: transaction._id, status: 'completed' },
+    { $set: { status: 'refunded' } },
+    { new: true }
+  );
+
+  if (!refunded) {
+    return { error: 'Transaction was already refunded', status: 409 };
+  }
+
+  await revokePurchase(refunded);
+
+  await recordAudit({
+    action: 'transaction.refund',
+    userId: options.adminId,
+    details: {
+      transactionId: transaction._id.toString(),
+      amount: transaction.amount,
+      reason: options.reason,
+      full: true,
+      toWallet: true,
+    },
+  });
+
+  await refundUpgrades(refunded, options, gateway);
+
+  return { transaction: refunded, amount: transaction.amount };
+}
+
+/**
+ * Refund the upgrades bought on top of a fully refunded purchase
+ * An upgrade only paid the difference between the tiers, so it must not keep
+ * granting the with-solutions tier once the purchase under it is gone.
+ * Upgrades with no payment to return (a coupon covered them) are just revoked
+ * @param base - Fully refunded transaction
+ * @param options - Reason and acting admin
+ * @param gateway - Refund gateway client
+ */
+async function refundUpgrades(base: ITransaction, options: RefundOptions, gateway: RefundGateway): Promise<void> {
+  const upgrades = await Transaction.find({ upgradedFrom: base._id, status: 'completed' });
+  const reason = `${options.reason} (purchase it upgraded was refunded)`;
+
+  for (const upgrade of upgrades) {
+    if (upgrade.paymentMethod === 'free' || (upgrade.paymentMethod !== 'wallet' && !upgrade.razorpayPaymentId)) {
+      const revoked = await Transaction.findOneAndUpdate(
+        { _id: upgrade._id, status: 'completed' },
+        { $set: { status: 'refunded' } },
+        { new: true }
+      );
+
+      if (!revoked) continue;
+
+      await revokePurchase(revoked);
+
+      await recordAudit({
+        action: 'transaction.refund',
+        userId: options.adminId,
+        details: { transactionId: upgrade._id.toString(), amount: 0, reason, full: true },
+      });
+      continue;
+    }
+
+    const result = await refundTransaction(upgrade._id.toString(), { reason, adminId: options.adminId }, gateway);
+
+    if (result.error !== undefined) {
+      console.error(`[Refunds] Could not refund upgrade ${upgrade._id} of ${base._id}: ${result.error}`);
+    }
+  }
+}
+
+/**
+ * Refund a completed transaction
+ * The transaction is held as 'refunding' while the gateway is called and put
+ * back to 'completed' if that fails. A refund that covers the remaining
+ * balance flips it to 'refunded', revokes the paper and refunds upgrades
+ * bought on top of it; partial refunds are recorded and keep access.
+ * Expects an open database connection
+ * @param transactionId - Transaction to refund
+ * @param options - Amount, reason and acting admin
+ * @param gateway - Refund gateway client
+ * @returns Promise with the updated transaction, or an error and HTTP status
+ */
+export async function refundTransaction(
+  transactionId: string,
+  options: RefundOptions,
+  gateway: RefundGateway = getPaymentGateway()
+): Promise<RefundResult> {
+  const transaction = await Transaction.findById(transactionId);
+
+  if (!transaction) {
+    return { error: 'Transaction not found', status: 404 };
+  }
+
+  if (transaction.status !== 'completed') {
+    return { error: `Cannot refund a ${transaction.status} transaction`, status: 400 };
+  }
+
+  // Paid entirely from the wallet: the credit is returned instead
+  if (transaction.paymentMethod === 'wallet') {
+    return refundToWallet(transaction, options, gateway);
+  }
+
+  if (transaction.paymentMethod === 'free' || !transaction.razorpayPaymentId) {
+    return { error: 'This transaction has no payment to refund', status: 400 };
+  }
+
+  const remaining = getGatewayAmount(transaction) - getRefundedAmount(transaction);
+  const amount = options.amount ?? remaining;
+
+  if (!(amount > 0) || amount > remaining) {
+    return { error: `Refund amount must be between 0 and ${remaining}`, status: 400 };
+  }
+
+  // Claim the transaction before calling the gateway so two admins (or a
+  // double-click) cannot both refund the same balance
+  const claimed = await Transaction.findOneAndUpdate(
+    { _id: transaction._id, status: 'completed', refunds: { $size: transaction.refunds.length } },
+    { $set: { status: 'refunding' } },
+    { new: true }
+  );
+
+  if (!claimed) {
+    return { error: 'This transaction is already being refunded. Reload and try again.', status: 409 };
+  }
+
+  let refund: Awaited<ReturnType<RefundGateway['refund']>>;
+
+  try {
+    refund = await gateway.refund(claimed.razorpayPaymentId!, toMinorUnits(amount, claimed.currency), {
+      transactionId: claimed._id.toString(),
+      reason: options.reason,
+    });
+  } catch (error) {
+    await Transaction.updateOne({ _id: claimed._id, status: 'refunding' }, { $set: { status: 'completed' } });
+    throw error;
+  }
+
+  const isFullRefund = amount >= remaining;
+
+  // The refund.processed webhook skips refunds that are already recorded here
+  const updated = await Transaction.findOneAndUpdate(
+    { _id: claimed._id, status: 'refunding' },
+    {
+      $push: { refunds: { razorpayRefundId: refund.id, amount, reason: options.reason } },
+      $set: { status: isFullRefund ? 'refunded' : 'completed' },
+    },
+    { new: true }
+  );
+
+  if (isFullRefund && updated) {
+    await revokePurchase(updated);
+  }
+
+  await recordAudit({
+    action: 'transaction.refund',
+    userId: options.adminId,
+    details: {
+      transactionId: transaction._id.toString(),
+      refundId: refund.id,
+      amount,
+      reason: options.reason,
+      full: isFullRefund,
+    },
+  });
+
+  if (isFullRefund && updated) {
+    await refundUpgrades(updated, options, gateway);
+  }
+
+  return { transaction: updated ?? claimed, refundId: refund.id, amount };
+}
@@ -0,0 +1,270 @@
+/**
+ * Seller Utilities
+ * Revenue share on papers uploaded by sellers, earnings computed from completed
+ * transactions, and the payout ledger admins settle against those earnings
+ */
+
+import mongoose from 'mongoose';
+import Transaction, { ITransaction } from '@/models/Transaction';
+import Paper from '@/models/Paper';
+import User, { IUser } from '@/models/User';
+import SellerPayout, { ISellerPayout } from '@/models/SellerPayout';
+
+// Seller's share of each sale in percent, unless set per seller (default: 70%)
+export const SELLER_REVENUE_SHARE_PERCENT = parseFloat(process.env.SELLER_REVENUE_SHARE_PERCENT || '70');
+
+// Days a sale must age before its earnings can be paid out, leaving room for refunds (default: 7)
+export const SELLER_PAYOUT_HOLD_DAYS = parseInt(process.env.SELLER_PAYOUT_HOLD_DAYS || '7');
+
+/**
+ * A seller's earnings and payouts in one currency
+ */
+export interface SellerBalance {
+  currency: string;
+  sales: number; // Paper sales counted, net of full refunds
+  earned: number; // Share of completed sales, less partial refunds
+  cleared: number; // Part of earned older than the hold period
+  paid: number;
+  pending: number; // Requested but not yet settled
+  available: number; // Cleared earnings not yet paid or requested
+}
+
+/**
+ * Result of a payout request or settlement
+ */
+export type PayoutResult =
+  | { payout: ISellerPayout; error?: undefined }
+  | { error: string; status: number };
+
+// Ledger amounts are rounded to the minor unit
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Get the revenue share that applies to a seller
+ * @param seller - Seller's user document
+ * @returns Share of each sale in percent
+ */
+export function getRevenueSharePercent(seller: Pick<IUser, 'seller'>): number {
+  return seller.seller?.revenueSharePercent ?? SELLER_REVENUE_SHARE_PERCENT;
+}
+
+/**
+ * Record the sellers' cut of newly completed transactions
+ * Bundle amounts are split evenly across the bundle's papers and only
+ * papers uploaded by a seller earn a share. Failures are logged rather than
+ * thrown so they never undo a completed payment.
+ * Expects an open database connection
+ * @param transactions - Newly completed transactions
+ */
+export async function recordSellerShares(transactions: ITransaction[]): Promise<void> {
+  const paid = transactions.filter((t) => t.amount > 0 && t.sellerShares.length === 0);
+
+  if (paid.length === 0) {
+    return;
+  }
+
+  try {
+    const papersOf = (t: ITransaction) => (t.bundleId ? t.bundlePapers : [t.paperId!]);
+
+    const papers = await Paper.find({ _id: { $in: paid.flatMap(papersOf) } }).select('uploadedBy').lean();
+    const sellers = await User.find({
+      _id: { $in: papers.map((paper) => paper.uploadedBy) },
+      role: 'seller',
+    })
+      .select('seller')
+      .lean();
+
+    const uploaderOf = new Map(papers.map((paper) => [paper._id.toString(), paper.uploadedBy.toString()]));
+    const sellerById = new Map(sellers.map((seller) => [seller._id.toString(), seller]));
+
+    for (const transaction of paid) {
+      const paperIds = papersOf(transaction);
+      const portion = transaction.amount / paperIds.length;
+
+      const shares = paperIds.flatMap((paperId) => {
+        const seller = sellerById.get(uploaderOf.get(paperId.toString()) || '');
+
+        if (!seller) return [];
+
+        const percent = getRevenueSharePercent(seller);
+        return [{ sellerId: seller._id, paperId, percent, amount: round((portion * percent) / 100) }];
+      });
+
+      if (shares.length > 0) {
+        await Transaction.updateOne({ _id: transaction._id }, { $set: { sellerShares: shares } });
+      }
+    }
+  } catch (error) {
+    console.error('Error recording seller shares:', error);
+  }
+}
+
+/**
+ * Get earnings and payout totals for sellers, per currency
+ * Expects an open database connection
+ * @param sellerIds - Sellers to report on
+ * @returns Promise with balances keyed by seller ID
+ */
+export async function getSellerBalances(
+  sellerIds: (mongoose.Types.ObjectId | string)[]
+): Promise<Map<string, SellerBalance[]>> {
+  const ids = sellerIds.map((id) => new mongoose.Types.ObjectId(id.toString()));
+  const cutoff = new Date(Date.now() - SELLER_PAYOUT_HOLD_DAYS * 24 * 60 * 60 * 1000);
+
+  const [earnings, payouts] = await Promise.all([
+    Transaction.aggregate<{
+      _id: { sellerId: mongoose.Types.ObjectId; currency: string };
+      sales: number;
+      earned: number;
+      cleared: number;
+    }>([
+      { $match: { status: 'completed', 'sellerShares.sellerId': { $in: ids } } },
+      {
+        // Partial refunds reduce every share in the same proportion
+        $project: {
+          currency: 1,
+          createdAt: 1,
+          sellerShares: 1,
+          kept: {
+            $subtract: [1, { $divide: [{ $sum: '$refunds.amount' }, { $max: ['$amount', 0.01] }] }],
+          },
+        },
+      },
+      { $unwind: '$sellerShares' },
+      { $match: { 'sellerShares.sellerId': { $in: ids } } },
+      {
+        $group: {
+          _id: { sellerId: '$sellerShares.sellerId', currency: '$currency' },
+          sales: { $sum: 1 },
+          earned: { $sum: { $multiply: ['$sellerShares.amount', '$kept'] } },
+          cleared: {
+            $sum: {
+              $cond: [{ $lt: ['$createdAt', cutoff] }, { $multiply: ['$sellerShares.amount', '$kept'] }, 0],
+            },
+          },
+        },
+      },
+    ]),
+    SellerPayout.aggregate<{
+      _id: { sellerId: mongoose.Types.ObjectId; currency: string; status: ISellerPayout['status'] };
+      total: number;
+    }>([
+      { $match: { sellerId: { $in: ids }, status: { $in: ['pending', 'paid'] } } },
+      {
+        $group: {
+          _id: { sellerId: '$sellerId', currency: '$currency', status: '$status' },
+          total: { $sum: '$amount' },
+        },
+      },
+    ]),
+  ]);
+
+  const balances = new Map<string, Map<string, SellerBalance>>();
+
+  const balanceFor = (sellerId: mongoose.Types.ObjectId, currency: string) => {
+    const bySeller = balances.get(sellerId.toString()) ?? new Map<string, SellerBalance>();
+    balances.set(sellerId.toString(), bySeller);
+
+    if (!bySeller.has(currency)) {
+      bySeller.set(currency, { currency, sales: 0, earned: 0, cleared: 0, paid: 0, pending: 0, available: 0 });
+    }
+
+    return bySeller.get(currency)!;
+  };
+
+  for (const { _id, sales, earned, cleared } of earnings) {
+    Object.assign(balanceFor(_id.sellerId, _id.currency), { sales, earned: round(earned), cleared: round(cleared) });
+  }
+
+  for (const { _id, total } of payouts) {
+    balanceFor(_id.sellerId, _id.currency)[_id.status === 'paid' ? 'paid' : 'pending'] = round(total);
+  }
+
+  // Refunds after a payout leave the balance short until new sales make it up
+  for (const bySeller of balances.values()) {
+    for (const balance of bySeller.values()) {
+      balance.available = Math.max(round(balance.cleared - balance.paid - balance.pending), 0);
+    }
+  }
+
+  return new Map([...balances].map(([sellerId, bySeller]) => [sellerId, [...bySeller.values()]]));
+}
+
+/**
+ * Request a payout of everything a seller can currently withdraw in a currency
+ * Expects an open database connection
+ * @param sellerId - Seller's user ID
+ * @param currency - Currency to withdraw
+ * @param payoutDetails - UPI ID or bank details to pay to
+ * @returns Promise with the pending payout, or an error and HTTP status
+ */
+export async function requestPayout(
+  sellerId: string,
+  currency: string,
+  payoutDetails: string
+): Promise<PayoutResult> {
+  const balances = (await getSellerBalances([sellerId])).get(sellerId) || [];
+  const balance = balances.find((b) => b.currency === currency);
+
+  if (!balance || balance.available <= 0) {
+    return { error: 'No cleared earnings to pay out yet', status: 400 };
+  }
+
+  try {
+    const payout = await SellerPayout.create({
+      sellerId,
+      amount: balance.available,
+      currency,
+      payoutDetails,
+    });
+
+    await User.updateOne({ _id: sellerId }, { $set: { 'seller.payoutDetails': payoutDetails } });
+
+    return { payout };
+  } catch (error) {
+    if ((error as { code?: number }).code === 11000) {
+      return { error: 'You already have a payout request open', status: 409 };
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Settle a pending payout: mark it paid with the transfer reference, or reject it
+ * Rejected payouts return their amount to the seller's available balance.
+ * Expects an open database connection
+ * @param payoutId - Payout to settle
+ * @param adminId - Admin settling it
+ * @param settlement - Outcome, transfer reference (required when paid) and note
+ * @returns Promise with the settled payout, or an error and HTTP status
+ */
+export async function settlePayout(
+  payoutId: string,
+  adminId: string,
+  settlement: { action: 'pay' | 'reject'; reference?: string; note?: string }
+): Promise<PayoutResult> {
+  if (settlement.action === 'pay' && !settlement.reference?.trim()) {
+    return { error: 'Transfer reference is required', status: 400 };
+  }
+
+  const payout = await SellerPayout.findOneAndUpdate(
+    { _id: payoutId, status: 'pending' },
+    {
+      $set: {
+        status: settlement.action === 'pay' ? 'paid' : 'rejected',
+        reference: settlement.reference?.trim() || undefined,
+        note: settlement.note,
+        settledBy: adminId,
+        settledAt: new Date(),
+      },
+    },
+    { new: true }
+  );
+
+  if (!payout) {
+    return { error: 'Payout not found or already settled', status: 409 };
+  }
+
+  return { payout };
+}
@@ -0,0 +1,54 @@
+/**
+ * Session Utilities
+ * Sessions are stateless JWTs, so revoking one means checking the account
+ * whenever the token is read: a ban, a password change after sign-in or a
+ * bumped session version ends the session, and the role is re-read so
+ * promotions and demotions apply on the next request
+ */
+
+import User from '@/models/User';
+
+/**
+ * Claims a session token carries about its sign-in
+ */
+export interface SessionClaims {
+  authTime: number; // Sign-in time in ms; 0 for tokens without one
+  sessionVersion: number;
+}
+
+/**
+ * Load the current state of a session's account
+ * Expects an open database connection
+ * @param userId - Account the session belongs to
+ * @param claims - Sign-in time and session version from the token
+ * @returns Promise with the account's current role, or null if the session is revoked
+ */
+export async function getSessionState(
+  userId: string,
+  claims: SessionClaims
+): Promise<{ role: string } | null> {
+  const user = await User.findById(userId).select('role sessionVersion passwordChangedAt bannedAt').lean();
+
+  if (!user || user.bannedAt) {
+    return null;
+  }
+
+  if ((user.sessionVersion ?? 0) !== claims.sessionVersion) {
+    return null;
+  }
+
+  if (user.passwordChangedAt && user.passwordChangedAt.getTime() > claims.authTime) {
+    return null;
+  }
+
+  return { role: user.role };
+}
+
+/**
+ * Sign an account out of every device
+ * Expects an open database connection
+ * @param userId - Account to sign out
+ */
+export async function revokeSessions(userId: string): Promise<void> {
+  await User.updateOne({ _id: userId }, { $inc: { sessionVersion: 1 } });
+}
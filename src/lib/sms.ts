@@ -0,0 +1,116 @@
+/**
+ * SMS Provider
+ * Outgoing text messages behind one interface.
+ * SMS_PROVIDER selects the implementation: 'console' (the default outside production) prints messages,
+ * 'file' writes each message as JSON to SMS_OUTBOX_DIR for dev and tests,
+ * and 'http' posts it to SMS_HTTP_URL for a gateway API
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const SMS_SENDER_ID = process.env.SMS_SENDER_ID || 'STRPPR';
+
+/**
+ * Text message to send
+ */
+export interface SmsMessage {
+  to: string; // E.164, e.g. +919876543210
+  body: string;
+}
+
+/**
+ * SMS transport
+ */
+export interface SmsProvider {
+  name: 'console' | 'file' | 'http';
+  send(message: SmsMessage): Promise<void>;
+}
+
+/**
+ * Prints messages to the server log
+ */
+export const consoleSmsProvider: SmsProvider = {
+  name: 'console',
+
+  async send(message) {
+    console.log(`[sms] To: ${message.to}\n[sms] ${message.body}`);
+  },
+};
+
+/**
+ * Writes each message to its own file so tests can read the latest code
+ */
+export const fileSmsProvider: SmsProvider = {
+  name: 'file',
+
+  async send(message) {
+    const dir = process.env.SMS_OUTBOX_DIR || path.join(process.cwd(), 'storage', 'sms');
+    const name = `${Date.now()}-${message.to.replace(/\D/g, '')}.json`;
+
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(
+      path.join(dir, name),
+      JSON.stringify({ from: SMS_SENDER_ID, ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  },
+};
+
+/**
+ * Posts each message as JSON, authenticated with SMS_HTTP_TOKEN if set
+ */
+export const httpSmsProvider: SmsProvider = {
+  name: 'http',
+
+  async send(message) {
+    const url = process.env.SMS_HTTP_URL;
+
+    if (!url) {
+      throw new Error('Please define SMS_HTTP_URL');
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(process.env.SMS_HTTP_TOKEN && { Authorization: `Bearer ${process.env.SMS_HTTP_TOKEN}` }),
+      },
+      body: JSON.stringify({ from: SMS_SENDER_ID, ...message }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`SMS gateway responded with ${response.status}`);
+    }
+  },
+};
+
+/**
+ * Get the provider selected by SMS_PROVIDER
+ * Throws in production unless SMS_PROVIDER is set, like the payment gateway refusing mock
+ * @returns SMS provider implementation
+ */
+export function getSmsProvider(): SmsProvider {
+  switch (process.env.SMS_PROVIDER) {
+    case 'file':
+      return fileSmsProvider;
+    case 'http':
+      return httpSmsProvider;
+    case 'console':
+      return consoleSmsProvider;
+    default:
+      // Otherwise one-time codes would end up in the server log instead of on phones
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('SMS_PROVIDER must be set in production');
+      }
+
+      return consoleSmsProvider;
+  }
+}
+
+/**
+ * Send a text message through the configured provider
+ * @param message - Message to send
+ */
+export async function sendSms(message: SmsMessage): Promise<void> {
+  await getSmsProvider().send(message);
+}
@@ -0,0 +1,134 @@
+/**
+ * Subscription Utilities
+ * Category subscriptions: status tracking and access checks
+ * Gateway calls go through the PaymentGateway from getPaymentGateway
+ */
+
+import Subscription, { ISubscription, SubscriptionStatus } from '@/models/Subscription';
+import type { ISubscriptionPlan } from '@/models/SubscriptionPlan';
+import type { PurchaseTier } from './pricing';
+
+/**
+ * Statuses that still grant access until the current period ends
+ */
+export const SUBSCRIPTION_ACCESS_STATUSES: SubscriptionStatus[] = ['active', 'cancelled', 'completed'];
+
+/**
+ * Get the end of a billing period
+ * @param start - Period start
+ * @param interval - Plan billing interval
+ * @returns Date one month or one year after start
+ */
+export function getPeriodEnd(start: Date, interval: ISubscriptionPlan['interval']): Date {
+  const end = new Date(start);
+
+  if (interval === 'yearly') {
+    end.setFullYear(end.getFullYear() + 1);
+  } else {
+    end.setMonth(end.getMonth() + 1);
+  }
+
+  return end;
+}
+
+/**
+ * Check if a subscription currently grants access
+ * @param subscription - Subscription document
+ * @returns boolean indicating if the subscription is paid up for the current period
+ */
+export function isSubscriptionLive(
+  subscription: Pick<ISubscription, 'status' | 'currentPeriodEnd'>
+): boolean {
+  return (
+    SUBSCRIPTION_ACCESS_STATUSES.includes(subscription.status) &&
+    !!subscription.currentPeriodEnd &&
+    subscription.currentPeriodEnd > new Date()
+  );
+}
+
+/**
+ * Find the subscription that gives a user access to a category
+ * Expects an open database connection
+ * @param userId - User ID
+ * @param category - Paper category
+ * @returns Promise with the live subscription (preferring with-solutions), or null
+ */
+export async function getCategorySubscription(
+  userId: string,
+  category: ISubscription['category']
+): Promise<{ subscriptionId: string; tier: PurchaseTier } | null> {
+  const subscriptions = await Subscription.find({
+    userId,
+    category,
+    status: { $in: SUBSCRIPTION_ACCESS_STATUSES },
+    currentPeriodEnd: { $gt: new Date() },
+  })
+    .select('tier')
+    .lean();
+
+  if (subscriptions.length === 0) {
+    return null;
+  }
+
+  const best = subscriptions.find((s) => s.tier === 'with-solutions') || subscriptions[0];
+
+  return { subscriptionId: best._id.toString(), tier: best.tier };
+}
+
+/**
+ * Record a paid billing cycle and extend access
+ * Idempotent on the payment ID, so the checkout callback and the
+ * subscription.charged webhook can both report the same payment.
+ * Expects an open database connection
+ * @param gatewaySubscriptionId - Gateway subscription ID
+ * @param payment - Payment ID and the period it paid for
+ * @returns Promise with the updated subscription, or null if already recorded
+ */
+export async function recordSubscriptionPayment(
+  gatewaySubscriptionId: string,
+  payment: { paymentId: string; periodStart: Date; periodEnd: Date }
+): Promise<ISubscription | null> {
+  return Subscription.findOneAndUpdate(
+    {
+      gatewaySubscriptionId,
+      lastPaymentId: { $ne: payment.paymentId },
+      status: { $in: ['created', 'active', 'halted'] },
+    },
+    {
+      $set: {
+        status: 'active',
+        lastPaymentId: payment.paymentId,
+        currentPeriodStart: payment.periodStart,
+        currentPeriodEnd: payment.periodEnd,
+      },
+      $inc: { paidCycles: 1 },
+    },
+    { new: true }
+  );
+}
+
+/**
+ * Move a subscription to a new status reported by the gateway
+ * Expects an open database connection
+ * @param gatewaySubscriptionId - Gateway subscription ID
+ * @param status - New status
+ * @param periodEnd - Current period end reported by the gateway, if any
+ * @returns Promise with the updated subscription, or null if not found
+ */
+export async function setSubscriptionStatus(
+  gatewaySubscriptionId: string,
+  status: SubscriptionStatus,
+  periodEnd?: Date
+): Promise<ISubscription | null> {
+  return Subscription.findOneAndUpdate(
+    { gatewaySubscriptionId },
+    {
+      $set: {
+        status,
+        ...(periodEnd && { currentPeriodEnd: periodEnd }),
+        ...(status === 'cancelled' && { cancelledAt: new Date() }),
+      },
+    },
+    { new: true }
+  );
+}
@@ -0,0 +1,116 @@
+/**
+ * Wallet Utilities
+ * Store credit kept as a ledger on the user: every change to the balance is
+ * written together with the entry that explains it, in a single update
+ */
+
+import mongoose from 'mongoose';
+import User, { IWalletEntry, WalletReason } from '@/models/User';
+
+/**
+ * Ledger entry details supplied by the caller
+ */
+export interface WalletEntryInput {
+  reason: WalletReason;
+  transactionId?: mongoose.Types.ObjectId | string;
+  createdBy?: mongoose.Types.ObjectId | string;
+  note?: string;
+}
+
+// Wallet amounts are rounded to paise
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Get a user's wallet balance
+ * Expects an open database connection
+ * @param userId - Wallet owner
+ * @returns Promise with the balance in INR
+ */
+export async function getWalletBalance(userId: string): Promise<number> {
+  const user = await User.findById(userId).select('wallet.balance').lean();
+
+  return user?.wallet?.balance || 0;
+}
+
+/**
+ * Add credit to a user's wallet
+ * Expects an open database connection
+ * @param userId - Wallet owner
+ * @param amount - Amount in INR
+ * @param entry - Reason and references recorded in the ledger
+ * @returns Promise with the new balance, or null if the user does not exist
+ */
+export async function creditWallet(
+  userId: mongoose.Types.ObjectId | string,
+  amount: number,
+  entry: WalletEntryInput
+): Promise<number | null> {
+  const user = await User.findByIdAndUpdate(
+    userId,
+    {
+      $inc: { 'wallet.balance': round(amount) },
+      $push: { 'wallet.entries': { ...entry, type: 'credit', amount: round(amount), createdAt: new Date() } },
+    },
+    { new: true }
+  ).select('wallet.balance');
+
+  return user ? user.wallet.balance : null;
+}
+
+/**
+ * Take credit from a user's wallet
+ * Fails without changing anything when the balance does not cover the amount,
+ * unless allowNegative is set (for charges that must stand, e.g. a payment
+ * captured after its held credit was returned)
+ * Expects an open database connection
+ * @param userId - Wallet owner
+ * @param amount - Amount in INR
+ * @param entry - Reason and references recorded in the ledger
+ * @param options - Whether the balance may go below zero
+ * @returns Promise with the new balance, or null if the balance is insufficient
+ */
+export async function debitWallet(
+  userId: mongoose.Types.ObjectId | string,
+  amount: number,
+  entry: WalletEntryInput,
+  options: { allowNegative?: boolean } = {}
+): Promise<number | null> {
+  const user = await User.findOneAndUpdate(
+    {
+      _id: userId,
+      ...(!options.allowNegative && { 'wallet.balance': { $gte: round(amount) } }),
+    },
+    {
+      $inc: { 'wallet.balance': -round(amount) },
+      $push: { 'wallet.entries': { ...entry, type: 'debit', amount: round(amount), createdAt: new Date() } },
+    },
+    { new: true }
+  ).select('wallet.balance');
+
+  return user ? user.wallet.balance : null;
+}
+
+/**
+ * Get a user's wallet balance and ledger, newest entries first
+ * Expects an open database connection
+ * @param userId - Wallet owner
+ * @param limit - Maximum entries to return
+ * @returns Promise with the balance and entries, or null if the user does not exist
+ */
+export async function getWallet(
+  userId: string,
+  limit: number = 50
+): Promise<{ balance: number; entries: IWalletEntry[] } | null> {
+  const user = await User.findById(userId)
+    .select({ 'wallet.balance': 1, 'wallet.entries': { $slice: -limit } })
+    .lean();
+
+  if (!user) {
+    return null;
+  }
+
+  return {
+    balance: user.wallet?.balance || 0,
+    entries: [...(user.wallet?.entries || [])].reverse(),
+  };
+}
@@ -0,0 +1,45 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface IAuditLog extends Document {
+  _id: mongoose.Types.ObjectId;
+  action: string;
+  userId?: mongoose.Types.ObjectId;
+  ip?: string;
+  details: Record<string, unknown>;
+  createdAt: Date;
+}
+
+const AuditLogSchema: Schema<IAuditLog> = new Schema(
+  {
+    action: {
+      type: String,
+      required: [true, 'Audit action is required'],
+      trim: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: false,
+    },
+    ip: {
+      type: String,
+      required: false,
+    },
+    details: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// Index for filtering the audit trail
+AuditLogSchema.index({ action: 1, createdAt: -1 });
+AuditLogSchema.index({ userId: 1, createdAt: -1 });
+
+const AuditLog: Model<IAuditLog> =
+  mongoose.models.AuditLog || mongoose.model<IAuditLog>('AuditLog', AuditLogSchema);
+
+export default AuditLog;
@@ -0,0 +1,57 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export type AuthTokenPurpose = 'verify-email' | 'reset-password' | 'phone-otp' | 'verify-phone' | 'unlock-account';
+
+export interface IAuthToken extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  purpose: AuthTokenPurpose;
+  tokenHash: string;
+  attempts: number;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AuthTokenSchema: Schema<IAuthToken> = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    purpose: {
+      type: String,
+      enum: ['verify-email', 'reset-password', 'phone-otp', 'verify-phone', 'unlock-account'],
+      required: true,
+    },
+    // SHA-256 of the emailed token (or account-bound SMS code); never stored in the clear
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    // Wrong guesses at a short code; the code is dropped once they run out
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+AuthTokenSchema.index({ userId: 1, purpose: 1 });
+
+// Let MongoDB remove tokens once they have expired
+AuthTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const AuthToken: Model<IAuthToken> =
+  mongoose.models.AuthToken || mongoose.model<IAuthToken>('AuthToken', AuthTokenSchema);
+
+export default AuthToken;
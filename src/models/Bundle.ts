@@ -0,0 +1,92 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface IBundle extends Document {
+  _id: mongoose.Types.ObjectId;
+  title: string;
+  description: string;
+  category: 'university' | 'board' | 'competitive';
+  papers: mongoose.Types.ObjectId[];
+  tier: 'questions-only' | 'with-solutions';
+  price: number;
+  discount: number;
+  thumbnailUrl?: string;
+  tags: string[];
+  createdBy: mongoose.Types.ObjectId;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BundleSchema: Schema<IBundle> = new Schema(
+  {
+    title: {
+      type: String,
+      required: [true, 'Please provide a title'],
+      trim: true,
+      maxlength: [200, 'Title cannot be more than 200 characters'],
+    },
+    description: {
+      type: String,
+      required: [true, 'Please provide a description'],
+      maxlength: [2000, 'Description cannot be more than 2000 characters'],
+    },
+    category: {
+      type: String,
+      enum: ['university', 'board', 'competitive'],
+      required: [true, 'Please select a category'],
+    },
+    papers: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Paper' }],
+      validate: {
+        validator: (papers: mongoose.Types.ObjectId[]) => papers.length >= 2,
+        message: 'A bundle must contain at least 2 papers',
+      },
+    },
+    // Tier every paper in the bundle is granted at
+    tier: {
+      type: String,
+      enum: ['questions-only', 'with-solutions'],
+      default: 'questions-only',
+    },
+    price: {
+      type: Number,
+      required: [true, 'Please provide price'],
+      min: [0, 'Price cannot be negative'],
+    },
+    // Percentage off the bundle price
+    discount: {
+      type: Number,
+      default: 0,
+      min: [0, 'Discount cannot be negative'],
+      max: [100, 'Discount cannot be more than 100%'],
+    },
+    thumbnailUrl: {
+      type: String,
+      default: '',
+    },
+    tags: [{
+      type: String,
+      trim: true,
+    }],
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Index for search optimization
+BundleSchema.index({ title: 'text', description: 'text' });
+BundleSchema.index({ category: 1, isActive: 1 });
+
+const Bundle: Model<IBundle> = mongoose.models.Bundle || mongoose.model<IBundle>('Bundle', BundleSchema);
+
+export default Bundle;
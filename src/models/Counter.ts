@@ -0,0 +1,24 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface ICounter extends Document {
+  _id: mongoose.Types.ObjectId;
+  key: string;
+  seq: number;
+}
+
+const CounterSchema: Schema<ICounter> = new Schema({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  seq: {
+    type: Number,
+    default: 0,
+  },
+});
+
+const Counter: Model<ICounter> =
+  mongoose.models.Counter || mongoose.model<ICounter>('Counter', CounterSchema);
+
+export default Counter;
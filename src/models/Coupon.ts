@@ -0,0 +1,128 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface ICoupon extends Document {
+  _id: mongoose.Types.ObjectId;
+  code: string;
+  description?: string;
+  discountType: 'percentage' | 'flat';
+  value: number;
+  maxDiscount?: number;
+  scope: 'all' | 'paper' | 'category' | 'bundle';
+  papers: mongoose.Types.ObjectId[];
+  categories: Array<'university' | 'board' | 'competitive'>;
+  bundles: mongoose.Types.ObjectId[];
+  usageLimit?: number;
+  perUserLimit: number;
+  usedCount: number;
+  userUses: Map<string, number>;
+  validFrom: Date;
+  validUntil?: Date;
+  isActive: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CouponSchema: Schema<ICoupon> = new Schema(
+  {
+    code: {
+      type: String,
+      required: [true, 'Please provide a coupon code'],
+      unique: true,
+      uppercase: true,
+      trim: true,
+      match: [/^[A-Z0-9_-]{3,32}$/, 'Code must be 3-32 letters, digits, dashes or underscores'],
+    },
+    description: {
+      type: String,
+      maxlength: [200, 'Description cannot be more than 200 characters'],
+    },
+    discountType: {
+      type: String,
+      enum: ['percentage', 'flat'],
+      required: [true, 'Please select a discount type'],
+    },
+    // Percent off for percentage coupons, amount off in major units for flat ones
+    value: {
+      type: Number,
+      required: [true, 'Please provide a discount value'],
+      min: [0, 'Discount cannot be negative'],
+    },
+    // Upper bound on the amount a percentage coupon takes off
+    maxDiscount: {
+      type: Number,
+      min: 0,
+      required: false,
+    },
+    scope: {
+      type: String,
+      enum: ['all', 'paper', 'category', 'bundle'],
+      default: 'all',
+    },
+    papers: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Paper',
+    }],
+    categories: [{
+      type: String,
+      enum: ['university', 'board', 'competitive'],
+    }],
+    bundles: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Bundle',
+    }],
+    // Total redemptions allowed across all users (unlimited when unset; 0 is rejected rather than read as either)
+    usageLimit: {
+      type: Number,
+      min: [1, 'Usage limit must be at least 1. Leave it empty for no limit'],
+      required: false,
+    },
+    perUserLimit: {
+      type: Number,
+      min: [1, 'Per-user limit must be at least 1'],
+      default: 1,
+    },
+    // Uses reserved by orders when they were created, less those returned by expired or failed orders
+    usedCount: {
+      type: Number,
+      default: 0,
+    },
+    // The same reservations counted per user ID, so perUserLimit holds under concurrent checkouts
+    userUses: {
+      type: Map,
+      of: Number,
+      default: {},
+      select: false,
+    },
+    validFrom: {
+      type: Date,
+      default: Date.now,
+    },
+    validUntil: {
+      type: Date,
+      required: false,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+CouponSchema.pre('validate', function () {
+  if (this.discountType === 'percentage' && this.value > 100) {
+    this.invalidate('value', 'Percentage discount cannot be more than 100%');
+  }
+});
+
+const Coupon: Model<ICoupon> = mongoose.models.Coupon || mongoose.model<ICoupon>('Coupon', CouponSchema);
+
+export default Coupon;
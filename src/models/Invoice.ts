@@ -0,0 +1,146 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface IInvoiceParty {
+  name: string;
+  email?: string;
+  gstin?: string;
+  address?: string;
+  stateCode?: string; // Two-digit GST state code
+}
+
+export interface IInvoice extends Document {
+  _id: mongoose.Types.ObjectId;
+  invoiceNumber?: string; // Taken once the invoice is claimed for its transaction
+  financialYear: string; // e.g. '2025-26'
+  transactionId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  seller: IInvoiceParty;
+  buyer: IInvoiceParty;
+  placeOfSupply: string; // State code
+  lineItems: Array<{
+    description: string;
+    sac: string;
+    amount: number; // Price before discount, tax inclusive
+  }>;
+  discount: number;
+  taxableValue: number;
+  gstRate: number; // Percent
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+  currency: string;
+  fileUrl?: string; // Set once the PDF is stored
+  issuedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PartySchema = new Schema<IInvoiceParty>(
+  {
+    name: { type: String, required: true },
+    email: String,
+    gstin: String,
+    address: String,
+    stateCode: String,
+  },
+  { _id: false }
+);
+
+const InvoiceSchema: Schema<IInvoice> = new Schema(
+  {
+    // Consecutive within a financial year, as GST requires; only taken by the
+    // request whose claim on the transaction won, so racing issuers leave no gaps
+    invoiceNumber: {
+      type: String,
+      unique: true,
+      sparse: true,
+    },
+    financialYear: {
+      type: String,
+      required: true,
+    },
+    transactionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Transaction',
+      required: true,
+      unique: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    // Seller and buyer are snapshotted so later profile changes do not alter issued invoices
+    seller: {
+      type: PartySchema,
+      required: true,
+    },
+    buyer: {
+      type: PartySchema,
+      required: true,
+    },
+    placeOfSupply: {
+      type: String,
+      required: true,
+    },
+    lineItems: [
+      {
+        description: { type: String, required: true },
+        sac: { type: String, required: true },
+        amount: { type: Number, required: true, min: 0 },
+      },
+    ],
+    discount: {
+      type: Number,
+      default: 0,
+    },
+    taxableValue: {
+      type: Number,
+      required: true,
+    },
+    gstRate: {
+      type: Number,
+      required: true,
+    },
+    cgst: {
+      type: Number,
+      default: 0,
+    },
+    sgst: {
+      type: Number,
+      default: 0,
+    },
+    igst: {
+      type: Number,
+      default: 0,
+    },
+    total: {
+      type: Number,
+      required: true,
+    },
+    currency: {
+      type: String,
+      default: 'INR',
+    },
+    // Missing while the PDF has not been stored yet; rendered again on the next request
+    fileUrl: {
+      type: String,
+      required: false,
+    },
+    issuedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+InvoiceSchema.index({ userId: 1, issuedAt: -1 });
+
+const Invoice: Model<IInvoice> =
+  mongoose.models.Invoice || mongoose.model<IInvoice>('Invoice', InvoiceSchema);
+
+export default Invoice;
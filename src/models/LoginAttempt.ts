@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export type LoginAttemptResult =
+  | 'success'
+  | 'invalid-credentials'
+  | 'locked'
+  | 'unverified'
+  | 'suspended';
+
+export interface ILoginAttempt extends Document {
+  _id: mongoose.Types.ObjectId;
+  identifier: string; // Email, or phone number for OTP sign-in
+  userId?: mongoose.Types.ObjectId;
+  ip: string;
+  method: 'password' | 'phone-otp';
+  result: LoginAttemptResult;
+  createdAt: Date;
+}
+
+const LoginAttemptSchema: Schema<ILoginAttempt> = new Schema(
+  {
+    identifier: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true,
+    },
+    // Set when the identifier matched an account
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: false,
+    },
+    ip: {
+      type: String,
+      required: true,
+    },
+    method: {
+      type: String,
+      enum: ['password', 'phone-otp'],
+      required: true,
+    },
+    result: {
+      type: String,
+      enum: ['success', 'invalid-credentials', 'locked', 'unverified', 'suspended'],
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// Index for filtering the admin log
+LoginAttemptSchema.index({ identifier: 1, createdAt: -1 });
+LoginAttemptSchema.index({ ip: 1, createdAt: -1 });
+
+// Keep 90 days of attempts
+LoginAttemptSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+const LoginAttempt: Model<ILoginAttempt> =
+  mongoose.models.LoginAttempt || mongoose.model<ILoginAttempt>('LoginAttempt', LoginAttemptSchema);
+
+export default LoginAttempt;
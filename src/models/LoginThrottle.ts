@@ -0,0 +1,39 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface ILoginThrottle extends Document {
+  _id: mongoose.Types.ObjectId;
+  key: string;
+  failures: number;
+  lockedUntil?: Date;
+  expiresAt: Date;
+}
+
+const LoginThrottleSchema: Schema<ILoginThrottle> = new Schema({
+  // 'email:<address>', 'phone:<number>' or 'ip:<address>'
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  // Consecutive failed sign-ins; reset by a successful one for account keys
+  failures: {
+    type: Number,
+    default: 0,
+  },
+  lockedUntil: {
+    type: Date,
+  },
+  // Pushed back on each failure, so counters are forgotten after a quiet spell
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+});
+
+// Let MongoDB remove counters once they have expired
+LoginThrottleSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const LoginThrottle: Model<ILoginThrottle> =
+  mongoose.models.LoginThrottle || mongoose.model<ILoginThrottle>('LoginThrottle', LoginThrottleSchema);
+
+export default LoginThrottle;
@@ -0,0 +1,53 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface IOrganization extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  type: 'school' | 'coaching' | 'other';
+  contactEmail?: string;
+  isActive: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Members (and org admins) point here through User.organizationId
+const OrganizationSchema: Schema<IOrganization> = new Schema(
+  {
+    name: {
+      type: String,
+      required: [true, 'Organization name is required'],
+      trim: true,
+      maxlength: [100, 'Name cannot be more than 100 characters'],
+    },
+    type: {
+      type: String,
+      enum: ['school', 'coaching', 'other'],
+      default: 'coaching',
+    },
+    contactEmail: {
+      type: String,
+      lowercase: true,
+      trim: true,
+    },
+    // Inactive organizations cannot buy seats; seats already assigned keep working
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    // Site admin who set the organization up
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const Organization: Model<IOrganization> =
+  mongoose.models.Organization || mongoose.model<IOrganization>('Organization', OrganizationSchema);
+
+export default Organization;
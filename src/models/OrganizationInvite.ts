@@ -0,0 +1,54 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface IOrganizationInvite extends Document {
+  _id: mongoose.Types.ObjectId;
+  organizationId: mongoose.Types.ObjectId;
+  email: string;
+  invitedBy: mongoose.Types.ObjectId;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A student joins only by accepting the invite while signed in with the invited email
+const OrganizationInviteSchema: Schema<IOrganizationInvite> = new Schema(
+  {
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: true,
+    },
+    email: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true,
+    },
+    // Org admin who sent the invite
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Inviting the same email again renews the existing invite
+OrganizationInviteSchema.index({ organizationId: 1, email: 1 }, { unique: true });
+OrganizationInviteSchema.index({ email: 1 });
+
+// Let MongoDB remove invites once they have expired
+OrganizationInviteSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const OrganizationInvite: Model<IOrganizationInvite> =
+  mongoose.models.OrganizationInvite ||
+  mongoose.model<IOrganizationInvite>('OrganizationInvite', OrganizationInviteSchema);
+
+export default OrganizationInvite;
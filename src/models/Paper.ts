@@ -23,6 +23,10 @@ export interface IPaper extends Document {
   };
   tags: string[];
   isActive: boolean;
+  moderationStatus: 'pending' | 'approved' | 'rejected';
+  moderationNote?: string;
+  reviewedBy?: mongoose.Types.ObjectId;
+  reviewedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 
@@ -36,6 +40,13 @@ export interface IPaper extends Document {
   questionsOnlyPrice: number;
   withSolutionsPrice?: number;
 
+  // Prices in other currencies; papers without one are sold in INR
+  currencyPrices: Array<{
+    currency: 'USD' | 'AED' | 'GBP';
+    questionsOnlyPrice: number;
+    withSolutionsPrice?: number;
+  }>;
+
   // Solutions storage (new)
   hasSolutions: boolean;
   solutionType?: 'pdf' | 'manual' | 'hybrid';
@@ -134,6 +145,27 @@ const PaperSchema: Schema<IPaper> = new Schema(
       type: Boolean,
       default: true,
     },
+    // Seller submissions stay inactive until an admin approves them; admin uploads skip review
+    moderationStatus: {
+      type: String,
+      enum: ['pending', 'approved', 'rejected'],
+      default: 'approved',
+    },
+    // Reason shown to the seller when a submission is rejected
+    moderationNote: {
+      type: String,
+      maxlength: [500, 'Note cannot be more than 500 characters'],
+      required: false,
+    },
+    reviewedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: false,
+    },
+    reviewedAt: {
+      type: Date,
+      required: false,
+    },
     // File metadata
     fileSize: {
       type: Number,
@@ -165,6 +197,26 @@ const PaperSchema: Schema<IPaper> = new Schema(
       min: 0,
       required: false,
     },
+    currencyPrices: [
+      {
+        _id: false,
+        currency: {
+          type: String,
+          enum: ['USD', 'AED', 'GBP'],
+          required: true,
+        },
+        questionsOnlyPrice: {
+          type: Number,
+          min: 0,
+          default: 0,
+        },
+        withSolutionsPrice: {
+          type: Number,
+          min: 0,
+          required: false,
+        },
+      },
+    ],
     // Solutions storage
     hasSolutions: {
       type: Boolean,
@@ -226,6 +278,22 @@ const PaperSchema: Schema<IPaper> = new Schema(
   }
 );
 
+// Each currency is priced once, and papers sold with solutions need that tier priced too
+PaperSchema.pre('validate', function () {
+  const currencies = this.currencyPrices.map((price) => price.currency);
+
+  if (new Set(currencies).size !== currencies.length) {
+    this.invalidate('currencyPrices', 'Each currency can only be priced once');
+  }
+
+  if (
+    this.paperType === 'with-solutions' &&
+    this.currencyPrices.some((price) => price.withSolutionsPrice === undefined || price.withSolutionsPrice === null)
+  ) {
+    this.invalidate('currencyPrices', 'Currency prices need a with-solutions price for papers sold with solutions');
+  }
+});
+
 // Index for search optimization
 PaperSchema.index({ title: 'text', description: 'text', subject: 'text', examName: 'text' });
 PaperSchema.index({ category: 1, subject: 1, year: -1 });
@@ -0,0 +1,32 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface IRateLimit extends Document {
+  _id: mongoose.Types.ObjectId;
+  key: string;
+  count: number;
+  expiresAt: Date;
+}
+
+const RateLimitSchema: Schema<IRateLimit> = new Schema({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  count: {
+    type: Number,
+    default: 0,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+});
+
+// Let MongoDB remove windows once they have expired
+RateLimitSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const RateLimit: Model<IRateLimit> =
+  mongoose.models.RateLimit || mongoose.model<IRateLimit>('RateLimit', RateLimitSchema);
+
+export default RateLimit;
@@ -0,0 +1,79 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface IReferral extends Document {
+  _id: mongoose.Types.ObjectId;
+  referrerId: mongoose.Types.ObjectId;
+  refereeId: mongoose.Types.ObjectId;
+  code: string;
+  status: 'pending' | 'rewarded' | 'rejected';
+  rejectionReason?: string;
+  signupIp?: string;
+  rewardAmount?: number;
+  qualifyingTransactionId?: mongoose.Types.ObjectId;
+  rewardedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReferralSchema: Schema<IReferral> = new Schema(
+  {
+    referrerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    // A user can only be referred once
+    refereeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      unique: true,
+    },
+    code: {
+      type: String,
+      required: true,
+      uppercase: true,
+    },
+    // pending until the referee's first paid purchase; rejected referrals never pay out,
+    // and a rewarded one is rejected again if that purchase is refunded
+    status: {
+      type: String,
+      enum: ['pending', 'rewarded', 'rejected'],
+      default: 'pending',
+    },
+    rejectionReason: {
+      type: String,
+      required: false,
+    },
+    signupIp: {
+      type: String,
+      required: false,
+    },
+    // Credit given to each side
+    rewardAmount: {
+      type: Number,
+      min: 0,
+      required: false,
+    },
+    qualifyingTransactionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Transaction',
+      required: false,
+    },
+    rewardedAt: {
+      type: Date,
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+ReferralSchema.index({ referrerId: 1, status: 1 });
+ReferralSchema.index({ referrerId: 1, signupIp: 1 });
+
+const Referral: Model<IReferral> =
+  mongoose.models.Referral || mongoose.model<IReferral>('Referral', ReferralSchema);
+
+export default Referral;
@@ -0,0 +1,85 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface ISellerPayout extends Document {
+  _id: mongoose.Types.ObjectId;
+  sellerId: mongoose.Types.ObjectId;
+  amount: number;
+  currency: string;
+  status: 'pending' | 'paid' | 'rejected';
+  payoutDetails: string;
+  reference?: string;
+  note?: string;
+  settledBy?: mongoose.Types.ObjectId;
+  settledAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SellerPayoutSchema: Schema<ISellerPayout> = new Schema(
+  {
+    sellerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    // Major currency units
+    amount: {
+      type: Number,
+      required: [true, 'Amount is required'],
+      min: [0.01, 'Amount must be positive'],
+    },
+    currency: {
+      type: String,
+      default: 'INR',
+    },
+    // pending until an admin pays it out (paid) or turns it down (rejected)
+    status: {
+      type: String,
+      enum: ['pending', 'paid', 'rejected'],
+      default: 'pending',
+    },
+    // Where to send the money, as entered by the seller
+    payoutDetails: {
+      type: String,
+      required: [true, 'Payout details are required'],
+      maxlength: [300, 'Payout details cannot be more than 300 characters'],
+    },
+    // Bank or UPI transfer reference recorded when the payout is settled
+    reference: {
+      type: String,
+      trim: true,
+      required: false,
+    },
+    note: {
+      type: String,
+      maxlength: [500, 'Note cannot be more than 500 characters'],
+      required: false,
+    },
+    settledBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: false,
+    },
+    settledAt: {
+      type: Date,
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+SellerPayoutSchema.index({ sellerId: 1, createdAt: -1 });
+SellerPayoutSchema.index({ status: 1, createdAt: 1 });
+
+// One open request per seller and currency, so two requests cannot both claim the same balance
+SellerPayoutSchema.index(
+  { sellerId: 1, currency: 1 },
+  { unique: true, partialFilterExpression: { status: 'pending' } }
+);
+
+const SellerPayout: Model<ISellerPayout> =
+  mongoose.models.SellerPayout || mongoose.model<ISellerPayout>('SellerPayout', SellerPayoutSchema);
+
+export default SellerPayout;
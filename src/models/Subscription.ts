@@ -0,0 +1,89 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export type SubscriptionStatus = 'created' | 'active' | 'halted' | 'cancelled' | 'completed';
+
+export interface ISubscription extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  planId: mongoose.Types.ObjectId;
+  category: 'university' | 'board' | 'competitive';
+  tier: 'questions-only' | 'with-solutions';
+  gatewaySubscriptionId: string;
+  status: SubscriptionStatus;
+  currentPeriodStart?: Date;
+  currentPeriodEnd?: Date;
+  lastPaymentId?: string;
+  paidCycles: number;
+  cancelledAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SubscriptionSchema: Schema<ISubscription> = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    planId: {
+      type: Schema.Types.ObjectId,
+      ref: 'SubscriptionPlan',
+      required: true,
+    },
+    // Copied from the plan so access checks do not depend on later plan edits
+    category: {
+      type: String,
+      enum: ['university', 'board', 'competitive'],
+      required: true,
+    },
+    tier: {
+      type: String,
+      enum: ['questions-only', 'with-solutions'],
+      required: true,
+    },
+    gatewaySubscriptionId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    // created: awaiting first payment; halted: renewal payments failing;
+    // cancelled/completed: no further renewals, access runs until currentPeriodEnd
+    status: {
+      type: String,
+      enum: ['created', 'active', 'halted', 'cancelled', 'completed'],
+      default: 'created',
+    },
+    currentPeriodStart: {
+      type: Date,
+      required: false,
+    },
+    currentPeriodEnd: {
+      type: Date,
+      required: false,
+    },
+    lastPaymentId: {
+      type: String,
+      required: false,
+    },
+    paidCycles: {
+      type: Number,
+      default: 0,
+    },
+    cancelledAt: {
+      type: Date,
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Index for access checks
+SubscriptionSchema.index({ userId: 1, category: 1, status: 1 });
+
+const Subscription: Model<ISubscription> =
+  mongoose.models.Subscription || mongoose.model<ISubscription>('Subscription', SubscriptionSchema);
+
+export default Subscription;
@@ -0,0 +1,77 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface ISubscriptionPlan extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  category: 'university' | 'board' | 'competitive';
+  tier: 'questions-only' | 'with-solutions';
+  price: number;
+  interval: 'monthly' | 'yearly';
+  totalCycles: number;
+  gatewayPlanId: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SubscriptionPlanSchema: Schema<ISubscriptionPlan> = new Schema(
+  {
+    name: {
+      type: String,
+      required: [true, 'Please provide a plan name'],
+      trim: true,
+      maxlength: [100, 'Name cannot be more than 100 characters'],
+    },
+    description: {
+      type: String,
+      maxlength: [500, 'Description cannot be more than 500 characters'],
+    },
+    category: {
+      type: String,
+      enum: ['university', 'board', 'competitive'],
+      required: [true, 'Please select a category'],
+    },
+    // Tier every paper in the category is unlocked at
+    tier: {
+      type: String,
+      enum: ['questions-only', 'with-solutions'],
+      default: 'with-solutions',
+    },
+    // Charged every interval, in major currency units
+    price: {
+      type: Number,
+      required: [true, 'Please provide price'],
+      min: [1, 'Price must be at least 1'],
+    },
+    interval: {
+      type: String,
+      enum: ['monthly', 'yearly'],
+      required: [true, 'Please select a billing interval'],
+    },
+    // Billing cycles before the subscription completes
+    totalCycles: {
+      type: Number,
+      min: 1,
+      default: 12,
+    },
+    // Plan ID at the payment gateway, created together with the plan
+    gatewayPlanId: {
+      type: String,
+      required: true,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const SubscriptionPlan: Model<ISubscriptionPlan> =
+  mongoose.models.SubscriptionPlan ||
+  mongoose.model<ISubscriptionPlan>('SubscriptionPlan', SubscriptionPlanSchema);
+
+export default SubscriptionPlan;
@@ -3,13 +3,44 @@ import mongoose, { Schema, Document, Model } from 'mongoose';
 export interface ITransaction extends Document {
   _id: mongoose.Types.ObjectId;
   userId: mongoose.Types.ObjectId;
-  paperId: mongoose.Types.ObjectId;
+  paperId?: mongoose.Types.ObjectId;
+  bundleId?: mongoose.Types.ObjectId;
+  bundlePapers: mongoose.Types.ObjectId[];
   amount: number;
+  originalAmount?: number;
+  coupon?: {
+    couponId: mongoose.Types.ObjectId;
+    code: string;
+    discount: number;
+  };
+  walletAmount?: number;
+  walletReleased?: boolean;
+  couponReleased?: boolean;
+  organizationId?: mongoose.Types.ObjectId;
+  seats?: number;
+  seatHolders: mongoose.Types.ObjectId[];
+  seatsAssigned?: number;
+  seatOf?: mongoose.Types.ObjectId;
+  sellerShares: Array<{
+    sellerId: mongoose.Types.ObjectId;
+    paperId: mongoose.Types.ObjectId;
+    percent: number;
+    amount: number;
+  }>;
   currency: string;
+  tier: 'questions-only' | 'with-solutions';
+  upgradedFrom?: mongoose.Types.ObjectId;
+  paymentMethod: 'razorpay' | 'free' | 'wallet' | 'seat';
   razorpayOrderId: string;
   razorpayPaymentId?: string;
   razorpaySignature?: string;
-  status: 'pending' | 'completed' | 'failed' | 'refunded';
+  status: 'pending' | 'completed' | 'failed' | 'refunding' | 'refunded';
+  refunds: Array<{
+    razorpayRefundId: string;
+    amount: number;
+    reason?: string;
+    createdAt: Date;
+  }>;
   downloadCount: number;
   maxDownloads: number;
   downloadExpiry: Date;
@@ -24,24 +55,138 @@ const TransactionSchema: Schema<ITransaction> = new Schema(
       ref: 'User',
       required: true,
     },
+    // Set for single-paper purchases; bundle purchases use bundleId instead
     paperId: {
       type: Schema.Types.ObjectId,
       ref: 'Paper',
-      required: true,
+      required: function (this: ITransaction) {
+        return !this.bundleId;
+      },
+    },
+    bundleId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Bundle',
+      required: false,
     },
+    // Papers the bundle held at checkout, all granted by this one transaction
+    bundlePapers: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Paper',
+    }],
     amount: {
       type: Number,
       required: [true, 'Amount is required'],
       min: [0, 'Amount cannot be negative'],
     },
+    // Price before the coupon discount; amount is what was charged
+    originalAmount: {
+      type: Number,
+      min: 0,
+      required: false,
+    },
+    coupon: {
+      couponId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Coupon',
+      },
+      code: String,
+      discount: Number,
+    },
+    // Part of amount paid from wallet credit; the gateway is charged the rest
+    walletAmount: {
+      type: Number,
+      min: 0,
+      required: false,
+    },
+    // Set when the held wallet credit was returned because the order expired or failed
+    walletReleased: {
+      type: Boolean,
+      required: false,
+    },
+    // Set when the coupon use reserved at checkout was returned because the order expired or failed
+    couponReleased: {
+      type: Boolean,
+      required: false,
+    },
+    // Set on an organization's bulk seat purchase and on the seats it hands out
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: false,
+    },
+    // Bulk seat purchase: amount pays for this many copies of the paper, bought by
+    // an org admin for members rather than for themselves
+    seats: {
+      type: Number,
+      min: [1, 'At least one seat is required'],
+      required: false,
+    },
+    // Members chosen at checkout; they get their seats once the payment completes
+    seatHolders: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    }],
+    seatsAssigned: {
+      type: Number,
+      min: 0,
+      required: false,
+    },
+    // Bulk seat purchase a member's seat was taken from
+    seatOf: {
+      type: Schema.Types.ObjectId,
+      ref: 'Transaction',
+      required: false,
+    },
+    // Sellers' cut of amount, fixed at completion so later rate changes do not rewrite past earnings
+    sellerShares: [
+      {
+        _id: false,
+        sellerId: {
+          type: Schema.Types.ObjectId,
+          ref: 'User',
+          required: true,
+        },
+        paperId: {
+          type: Schema.Types.ObjectId,
+          ref: 'Paper',
+          required: true,
+        },
+        percent: {
+          type: Number,
+          required: true,
+        },
+        amount: {
+          type: Number,
+          required: true,
+          min: 0,
+        },
+      },
+    ],
     currency: {
       type: String,
       default: 'INR',
     },
+    tier: {
+      type: String,
+      enum: ['questions-only', 'with-solutions'],
+      default: 'questions-only',
+    },
+    // Questions-only transaction this purchase upgrades (charged the price difference)
+    upgradedFrom: {
+      type: Schema.Types.ObjectId,
+      ref: 'Transaction',
+      required: false,
+    },
+    paymentMethod: {
+      type: String,
+      enum: ['razorpay', 'free', 'wallet', 'seat'],
+      default: 'razorpay',
+    },
+    // Shared by every line item of a cart order; free claims, wallet purchases and
+    // seats get a generated 'free_', 'wallet_' or 'seat_' ID
     razorpayOrderId: {
       type: String,
       required: [true, 'Razorpay order ID is required'],
-      unique: true,
     },
     razorpayPaymentId: {
       type: String,
@@ -53,9 +198,31 @@ const TransactionSchema: Schema<ITransaction> = new Schema(
     },
     status: {
       type: String,
-      enum: ['pending', 'completed', 'failed', 'refunded'],
+      enum: ['pending', 'completed', 'failed', 'refunding', 'refunded'],
       default: 'pending',
     },
+    // Refunds issued against this payment (amounts in major currency units)
+    refunds: [
+      {
+        razorpayRefundId: {
+          type: String,
+          required: true,
+        },
+        amount: {
+          type: Number,
+          required: true,
+          min: 0,
+        },
+        reason: {
+          type: String,
+          required: false,
+        },
+        createdAt: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
     downloadCount: {
       type: Number,
       default: 0,
@@ -78,6 +245,15 @@ const TransactionSchema: Schema<ITransaction> = new Schema(
 TransactionSchema.index({ userId: 1, status: 1 });
 TransactionSchema.index({ razorpayOrderId: 1 });
 TransactionSchema.index({ razorpayPaymentId: 1 });
+TransactionSchema.index({ userId: 1, bundlePapers: 1 });
+TransactionSchema.index({ 'coupon.couponId': 1, userId: 1, status: 1 });
+TransactionSchema.index({ organizationId: 1, seatOf: 1 });
+TransactionSchema.index({ 'sellerShares.sellerId': 1, status: 1 });
+// One completed free paper purchase per tier (bundles have no paperId), so concurrent claims cannot both be granted
+TransactionSchema.index(
+  { userId: 1, paperId: 1, tier: 1 },
+  { unique: true, partialFilterExpression: { paperId: { $exists: true }, paymentMethod: 'free', status: 'completed' } }
+);
 
 const Transaction: Model<ITransaction> =
   mongoose.models.Transaction || mongoose.model<ITransaction>('Transaction', TransactionSchema);
@@ -1,15 +1,68 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
 
+export type WalletReason =
+  | 'purchase'
+  | 'refund'
+  | 'order-expired'
+  | 'payment-failed'
+  | 'referral'
+  | 'referral-reversed'
+  | 'promotion'
+  | 'admin-grant'
+  | 'admin-clawback';
+
+export interface IWalletEntry {
+  _id: mongoose.Types.ObjectId;
+  type: 'credit' | 'debit';
+  amount: number;
+  reason: WalletReason;
+  transactionId?: mongoose.Types.ObjectId;
+  createdBy?: mongoose.Types.ObjectId;
+  note?: string;
+  createdAt: Date;
+}
+
 export interface IUser extends Document {
   _id: mongoose.Types.ObjectId;
   name: string;
   email: string;
-  password: string;
+  emailVerified?: boolean;
+  password?: string;
+  passwordChangedAt?: Date;
+  sessionVersion: number;
+  bannedAt?: Date;
+  banReason?: string;
+  googleId?: string;
   phone?: string;
+  phoneVerified?: boolean;
   avatar?: string;
-  role: 'student' | 'admin';
+  role: 'student' | 'admin' | 'org-admin' | 'seller';
+  organizationId?: mongoose.Types.ObjectId;
+  seller?: {
+    revenueSharePercent?: number;
+    payoutDetails?: string;
+    since: Date;
+  };
+  preferredCurrency: 'INR' | 'USD' | 'AED' | 'GBP';
+  referralCode?: string;
+  referredBy?: mongoose.Types.ObjectId;
+  signupIp?: string;
+  billing?: {
+    gstin?: string;
+    address?: string;
+    stateCode?: string;
+  };
   purchasedPapers: mongoose.Types.ObjectId[];
   wishlist: mongoose.Types.ObjectId[];
+  cart: Array<{
+    paperId: mongoose.Types.ObjectId;
+    tier: 'questions-only' | 'with-solutions';
+    addedAt: Date;
+  }>;
+  wallet: {
+    balance: number;
+    entries: IWalletEntry[];
+  };
   createdAt: Date;
   updatedAt: Date;
 }
@@ -33,25 +86,126 @@ const UserSchema: Schema<IUser> = new Schema(
         'Please provide a valid email',
       ],
     },
+    // False until the link sent at registration is opened; accounts created
+    // before verification existed have no value and count as verified
+    emailVerified: {
+      type: Boolean,
+    },
+    // Optional for accounts created through Google; they can set one with a reset link
     password: {
       type: String,
-      required: [true, 'Please provide a password'],
+      required: [
+        function (this: IUser) {
+          return !this.googleId;
+        },
+        'Please provide a password',
+      ],
       minlength: [6, 'Password must be at least 6 characters'],
       select: false,
     },
+    // Sessions signed in before this are rejected, so a reset logs out every device
+    passwordChangedAt: {
+      type: Date,
+    },
+    // Copied into each session token at sign-in; bumping it signs out every device
+    sessionVersion: {
+      type: Number,
+      default: 0,
+    },
+    // Banned accounts cannot sign in and their open sessions end on the next request
+    bannedAt: {
+      type: Date,
+    },
+    banReason: {
+      type: String,
+      maxlength: [200, 'Ban reason cannot be more than 200 characters'],
+    },
+    // Google account subject ID, set when the account signs in with Google
+    googleId: {
+      type: String,
+      unique: true,
+      sparse: true,
+      select: false,
+    },
+    // Stored in E.164 form (+919876543210) when valid; only a verified number signs in by OTP
     phone: {
       type: String,
       trim: true,
     },
+    // True once the owner has entered a code texted to the phone; unique among verified numbers
+    phoneVerified: {
+      type: Boolean,
+    },
     avatar: {
       type: String,
       default: '',
     },
     role: {
       type: String,
-      enum: ['student', 'admin'],
+      enum: ['student', 'admin', 'org-admin', 'seller'],
       default: 'student',
     },
+    // Set for sellers; a missing share percent means the site-wide default
+    seller: {
+      revenueSharePercent: {
+        type: Number,
+        min: [0, 'Share cannot be negative'],
+        max: [100, 'Share cannot be more than 100%'],
+      },
+      // UPI ID or bank details, copied onto each payout request
+      payoutDetails: {
+        type: String,
+        maxlength: [300, 'Payout details cannot be more than 300 characters'],
+      },
+      since: Date,
+    },
+    // School or coaching centre the user belongs to; org-admins manage its members and seats
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: false,
+    },
+    // Shared with friends; assigned at registration or on first visit to the referral page
+    referralCode: {
+      type: String,
+      unique: true,
+      sparse: true,
+      uppercase: true,
+      trim: true,
+    },
+    referredBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: false,
+    },
+    // Used to spot users referring themselves
+    signupIp: {
+      type: String,
+      select: false,
+    },
+    // Papers priced in this currency are shown and charged in it
+    preferredCurrency: {
+      type: String,
+      enum: ['INR', 'USD', 'AED', 'GBP'],
+      default: 'INR',
+    },
+    // Printed on tax invoices; a GSTIN lets schools claim input tax credit
+    billing: {
+      gstin: {
+        type: String,
+        uppercase: true,
+        trim: true,
+        match: [/^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/, 'Please provide a valid GSTIN'],
+      },
+      address: {
+        type: String,
+        maxlength: [300, 'Address cannot be more than 300 characters'],
+      },
+      stateCode: {
+        type: String,
+        match: [/^\d{2}$/, 'State code must be two digits'],
+      },
+    },
     purchasedPapers: [
       {
         type: Schema.Types.ObjectId,
@@ -64,12 +218,77 @@ const UserSchema: Schema<IUser> = new Schema(
         ref: 'Paper',
       },
     ],
+    cart: [
+      {
+        paperId: {
+          type: Schema.Types.ObjectId,
+          ref: 'Paper',
+          required: true,
+        },
+        tier: {
+          type: String,
+          enum: ['questions-only', 'with-solutions'],
+          default: 'questions-only',
+        },
+        addedAt: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
+    // Store credit in INR; balance is kept in step with the ledger by lib/wallet
+    wallet: {
+      balance: {
+        type: Number,
+        default: 0,
+      },
+      entries: [
+        {
+          type: {
+            type: String,
+            enum: ['credit', 'debit'],
+            required: true,
+          },
+          amount: {
+            type: Number,
+            required: true,
+            min: [0.01, 'Amount must be positive'],
+          },
+          reason: {
+            type: String,
+            enum: ['purchase', 'refund', 'order-expired', 'payment-failed', 'referral', 'referral-reversed', 'promotion', 'admin-grant', 'admin-clawback'],
+            required: true,
+          },
+          transactionId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Transaction',
+          },
+          // Admin who granted or clawed back the credit
+          createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+          },
+          note: {
+            type: String,
+            maxlength: [200, 'Note cannot be more than 200 characters'],
+          },
+          createdAt: {
+            type: Date,
+            default: Date.now,
+          },
+        },
+      ],
+    },
   },
   {
     timestamps: true,
   }
 );
 
+UserSchema.index({ organizationId: 1 });
+// A number signs in to at most one account, and only once that account has proved it owns the number
+UserSchema.index({ phone: 1 }, { unique: true, partialFilterExpression: { phoneVerified: true } });
+
 // Prevent model recompilation in development
 const User: Model<IUser> = mongoose.models.User || mongoose.model<IUser>('User', UserSchema);
 
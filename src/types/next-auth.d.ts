@@ -11,6 +11,7 @@ declare module 'next-auth' {
 
   interface User extends DefaultUser {
     role: string;
+    sessionVersion?: number;
   }
 }
 
@@ -18,5 +19,7 @@ declare module 'next-auth/jwt' {
   interface JWT extends DefaultJWT {
     id: string;
     role: string;
+    authTime?: number; // Sign-in time in ms; unset on tokens issued before it was recorded
+    sessionVersion?: number; // Account's session version at sign-in; unset counts as 0
   }
 }